@@ -0,0 +1,187 @@
+/**
+ * Hash command - Calculate a Safe transaction hash fully offline
+ *
+ * Takes the raw transaction fields as flags (or a JSON object on stdin) and
+ * never touches the network, so it can run on an air-gapped machine.
+ *
+ * Usage:
+ *   sky-safe hash --address 0x... --chain-id 1 --version 1.3.0 --to 0x... --nonce 123 [--data 0x...]
+ *   cat tx.json | sky-safe hash --stdin
+ */
+
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { readFileSync } from 'fs';
+import {
+  NETWORKS,
+  loadNetworkContracts,
+  calculateSafeTxHash,
+  analyzeSecurity,
+  validateVersion,
+  ZERO_ADDRESS,
+} from '@shield3/sky-safe-core';
+import type { SafeTransactionData } from '@shield3/sky-safe-core';
+import type { Address, Hex } from 'viem';
+import { printSafeTransactionFields, printComputedHashes, printSecurityWarnings } from '../formatters/output.js';
+
+/** Flag values, all as strings so stdin JSON and flags merge the same way. */
+interface HashFields {
+  address?: string;
+  chainId?: string;
+  version?: string;
+  to?: string;
+  value?: string;
+  data?: string;
+  operation?: string;
+  safeTxGas?: string;
+  baseGas?: string;
+  gasPrice?: string;
+  gasToken?: string;
+  refundReceiver?: string;
+  nonce?: string;
+}
+
+const ADDRESS_PATTERN = /^0x[a-fA-F0-9]{40}$/;
+const UINT_PATTERN = /^(0x[0-9a-fA-F]+|\d+)$/;
+
+export function createHashCommand(): Command {
+  const command = new Command('hash');
+
+  command
+    .description('Calculate a Safe transaction hash offline from raw transaction fields')
+    .option('-a, --address <address>', 'Safe multisig address')
+    .option('--chain-id <chainId>', 'Chain ID (e.g., 1 for Ethereum mainnet)')
+    .option('--version <version>', 'Safe contract version (e.g., 1.3.0)')
+    .option('--to <address>', 'Target address')
+    .option('--value <wei>', 'Value in wei')
+    .option('--data <hex>', 'Calldata')
+    .option('--operation <operation>', 'Operation: 0 = Call, 1 = DelegateCall')
+    .option('--safe-tx-gas <gas>', 'safeTxGas')
+    .option('--base-gas <gas>', 'baseGas (dataGas before v1.0.0)')
+    .option('--gas-price <price>', 'Gas price')
+    .option('--gas-token <address>', 'Gas token address')
+    .option('--refund-receiver <address>', 'Refund receiver address')
+    .option('-n, --nonce <nonce>', 'Transaction nonce')
+    .option('--stdin', 'Read the fields as a JSON object from stdin (flags override)')
+    .action((options: HashFields & { stdin?: boolean }) => {
+      try {
+        const fields = options.stdin ? { ...readStdinFields(), ...definedOnly(options) } : options;
+
+        // Required fields — there is no API to fill them in.
+        const missing = (['address', 'chainId', 'version', 'to', 'nonce'] as const).filter((k) => !fields[k]);
+        if (missing.length > 0) {
+          console.error(chalk.red(`✗ Missing required field(s): ${missing.map(toFlag).join(', ')}`));
+          process.exit(1);
+        }
+
+        const safeAddress = requireAddress('--address', fields.address!);
+        const chainId = Number(requireUint('--chain-id', fields.chainId!));
+        const version = fields.version!;
+        validateVersion(version);
+
+        const operation = Number(fields.operation ?? '0');
+        if (operation !== 0 && operation !== 1) {
+          throw new Error(`Invalid --operation: ${fields.operation}. Must be 0 (Call) or 1 (DelegateCall).`);
+        }
+
+        const data = (fields.data ?? '0x') as Hex;
+        if (!/^0x([0-9a-fA-F]{2})*$/.test(data)) {
+          throw new Error(`Invalid --data: must be 0x-prefixed hex with an even number of digits`);
+        }
+
+        const txData: SafeTransactionData = {
+          to: requireAddress('--to', fields.to!),
+          value: requireUint('--value', fields.value ?? '0'),
+          data,
+          operation,
+          safeTxGas: requireUint('--safe-tx-gas', fields.safeTxGas ?? '0'),
+          baseGas: requireUint('--base-gas', fields.baseGas ?? '0'),
+          gasPrice: requireUint('--gas-price', fields.gasPrice ?? '0'),
+          gasToken: requireAddress('--gas-token', fields.gasToken ?? ZERO_ADDRESS),
+          refundReceiver: requireAddress('--refund-receiver', fields.refundReceiver ?? ZERO_ADDRESS),
+          nonce: requireUint('--nonce', fields.nonce!),
+        };
+
+        // Built-in labels are bundled data, not a network call. Load them when
+        // the chain ID is one we know so targets are labelled as in `verify`.
+        const network = Object.entries(NETWORKS).find(([, config]) => config.chainId === chainId)?.[0];
+        if (network) {
+          loadNetworkContracts(network);
+        }
+
+        console.log(chalk.bold('\n========================================'));
+        console.log(chalk.bold('= Offline Transaction Hash            ='));
+        console.log(chalk.bold('========================================'));
+        console.log(chalk.dim('No network access: every value below comes from your input.'));
+
+        printSafeTransactionFields(safeAddress, chainId, txData);
+
+        // The same chain context verify passes, minus anything fetched: the
+        // version drives the replay check, the network the deployment and
+        // lookalike checks and the transfer thresholds.
+        const securityAnalysis = analyzeSecurity(txData, { safeAddress, chainId, network, version });
+        printSecurityWarnings(securityAnalysis);
+
+        console.log(chalk.bold('\n========================================'));
+        console.log(chalk.bold('= Hash Calculation                    ='));
+        console.log(chalk.bold('========================================'));
+
+        const hashResult = calculateSafeTxHash(chainId, safeAddress, txData, version);
+        printComputedHashes(hashResult.domainHash, hashResult.messageHash, hashResult.safeTxHash, version);
+
+        console.log(); // Empty line at end
+      } catch (error) {
+        console.error(chalk.red(`\n✗ Error: ${error instanceof Error ? error.message : String(error)}`));
+        process.exit(1);
+      }
+    });
+
+  return command;
+}
+
+/**
+ * Read transaction fields from a JSON object on stdin. Values may be numbers
+ * or strings; `safe` and `dataGas` are accepted as aliases so a Safe API
+ * transaction or a pre-1.0.0 payload can be piped in unchanged.
+ */
+function readStdinFields(): HashFields {
+  const raw = JSON.parse(readFileSync(0, 'utf-8')) as Record<string, unknown>;
+  const str = (v: unknown) => (v === undefined || v === null ? undefined : String(v));
+  return definedOnly({
+    address: str(raw.address ?? raw.safe),
+    chainId: str(raw.chainId),
+    version: str(raw.version),
+    to: str(raw.to),
+    value: str(raw.value),
+    data: str(raw.data),
+    operation: str(raw.operation),
+    safeTxGas: str(raw.safeTxGas),
+    baseGas: str(raw.baseGas ?? raw.dataGas),
+    gasPrice: str(raw.gasPrice),
+    gasToken: str(raw.gasToken),
+    refundReceiver: str(raw.refundReceiver),
+    nonce: str(raw.nonce),
+  });
+}
+
+function definedOnly(fields: HashFields): HashFields {
+  return Object.fromEntries(Object.entries(fields).filter(([, v]) => v !== undefined)) as HashFields;
+}
+
+function toFlag(field: string): string {
+  return `--${field.replace(/[A-Z]/g, (c) => `-${c.toLowerCase()}`)}`;
+}
+
+function requireAddress(flag: string, value: string): Address {
+  if (!ADDRESS_PATTERN.test(value)) {
+    throw new Error(`Invalid ${flag}: ${value}. Must be a 40-character hex string starting with 0x.`);
+  }
+  return value as Address;
+}
+
+function requireUint(flag: string, value: string): string {
+  if (!UINT_PATTERN.test(value)) {
+    throw new Error(`Invalid ${flag}: ${value}. Must be a non-negative integer.`);
+  }
+  return BigInt(value).toString();
+}
@@ -0,0 +1,116 @@
+/**
+ * Info command - Show a Safe's current configuration
+ *
+ * Lists owners, threshold, modules, guard, fallback handler and masterCopy,
+ * flagging anything that is neither a trusted Safe contract nor in the
+ * signer's address book.
+ *
+ * Usage:
+ *   sky-safe info --address 0x... [--network ethereum] [--address-book book.csv]
+ */
+
+import { Command } from 'commander';
+import chalk from 'chalk';
+import ora from 'ora';
+import { readFileSync } from 'fs';
+import {
+  createSafeApiClient,
+  SafeApiError,
+  isNetworkSupported,
+  getSupportedNetworks,
+  loadNetworkContracts,
+  loadAddressBookCsv,
+  checkSafeConfiguration,
+} from '@shield3/sky-safe-core';
+import type { SafeApiSafeInfo } from '@shield3/sky-safe-core';
+import type { Address } from 'viem';
+import { printNetworkConfig, printSafeConfiguration } from '../formatters/output.js';
+import { formatJson, parseOutputFormat, type OutputFormat } from '../formatters/json.js';
+import { EXIT_ERROR, EXIT_HIGH_RISK, EXIT_OK } from '../exit-codes.js';
+
+interface InfoOptions {
+  address?: string;
+  network: string;
+  addressBook?: string;
+  format: OutputFormat;
+}
+
+export function createInfoCommand(): Command {
+  const command = new Command('info');
+
+  command
+    .description("Show a Safe's owners, threshold, modules, guard, fallback handler and masterCopy")
+    .option('-a, --address <address>', 'Safe multisig address')
+    .option('--network <network>', 'Network name (e.g., ethereum, sepolia)', 'ethereum')
+    .option('--address-book <file>', 'Address book CSV to label and check addresses against')
+    .option('--format <format>', 'Output format: text, json or ndjson', parseOutputFormat, 'text')
+    .action(async (options: InfoOptions) => {
+      const quiet = options.format !== 'text';
+      try {
+        if (!options.address || !options.address.match(/^0x[a-fA-F0-9]{40}$/)) {
+          console.error(chalk.red(`✗ Missing or invalid address: ${options.address ?? ''}`));
+          console.error(chalk.dim('  Address must be a 40-character hex string starting with 0x'));
+          process.exit(EXIT_ERROR);
+        }
+
+        if (!isNetworkSupported(options.network)) {
+          console.error(chalk.red(`✗ Unsupported network: ${options.network}`));
+          console.error(chalk.dim(`  Supported networks: ${getSupportedNetworks().join(', ')}`));
+          process.exit(EXIT_ERROR);
+        }
+
+        loadNetworkContracts(options.network);
+
+        if (options.addressBook) {
+          const parsed = loadAddressBookCsv(readFileSync(options.addressBook, 'utf-8'));
+          if (!quiet && parsed.skipped.length > 0) {
+            console.error(chalk.yellow(`⚠ Skipped ${parsed.skipped.length} invalid address book row(s)`));
+          }
+        }
+
+        const client = createSafeApiClient(options.network);
+        if (!quiet) {
+          printNetworkConfig(client.getNetworkName(), client.getChainId());
+        }
+
+        const spinner = ora({ text: 'Fetching Safe info...', isSilent: quiet }).start();
+        let info: SafeApiSafeInfo;
+        try {
+          info = await client.fetchSafeInfo(options.address as Address);
+          spinner.stop();
+        } catch (error) {
+          spinner.fail('Failed to fetch Safe info');
+          throw error;
+        }
+
+        const config = checkSafeConfiguration(info);
+        const exitCode =
+          config.warningLevel === 'critical' || config.warningLevel === 'high' ? EXIT_HIGH_RISK : EXIT_OK;
+
+        if (quiet) {
+          const report = {
+            network: { name: options.network, chainId: client.getChainId() },
+            safe: info,
+            configuration: config,
+            exitCode,
+          };
+          console.log(formatJson(report, options.format as Exclude<OutputFormat, 'text'>));
+        } else {
+          printSafeConfiguration(info, config);
+        }
+        process.exitCode = exitCode;
+      } catch (error) {
+        if (error instanceof SafeApiError) {
+          console.error(chalk.red(`\n✗ ${error.message}`));
+          if (error.statusCode === 404) {
+            console.error(chalk.dim('  Make sure the Safe address exists on this network.'));
+          }
+        } else {
+          console.error(chalk.red(`\n✗ Error: ${error instanceof Error ? error.message : String(error)}`));
+        }
+        process.exit(EXIT_ERROR);
+      }
+    });
+
+  return command;
+}
@@ -0,0 +1,188 @@
+/**
+ * Message command - Fetch and verify an off-chain Safe message from API
+ *
+ * Usage:
+ *   sky-safe message --hash 0x... [--network ethereum]
+ *   sky-safe message --address 0x... [--network ethereum]
+ */
+
+import { Command } from 'commander';
+import chalk from 'chalk';
+import ora from 'ora';
+import inquirer from 'inquirer';
+import {
+  createSafeApiClient,
+  SafeApiError,
+  isNetworkSupported,
+  getSupportedNetworks,
+  loadNetworkContracts,
+  calculateSafeMessageHash,
+  fromApiMessage,
+  isTypedDataMessage,
+} from '@shield3/sky-safe-core';
+import type { SafeApiMessage } from '@shield3/sky-safe-core';
+import type { Address } from 'viem';
+import { printNetworkConfig, printSafeMessage, printMessageHashVerification } from '../formatters/output.js';
+import { messageExitCode } from '../exit-codes.js';
+
+export function createMessageCommand(): Command {
+  const command = new Command('message');
+
+  command
+    .description('Fetch and verify an off-chain Safe message from the Safe Transaction Service')
+    .option('-a, --address <address>', 'Safe multisig address (lists its messages to choose from)')
+    .option('--hash <messageHash>', 'SafeMessage hash of a specific message')
+    .option('--network <network>', 'Network name (e.g., ethereum, sepolia)', 'ethereum')
+    .action(async (options: { address?: string; hash?: string; network: string }) => {
+      try {
+        if (!options.address && !options.hash) {
+          console.error(chalk.red('✗ Missing required options'));
+          console.error(chalk.dim('  Use either:'));
+          console.error(chalk.dim('    --hash <messageHash>   (a specific message)'));
+          console.error(chalk.dim("    --address <address>    (choose from the Safe's messages)"));
+          process.exit(1);
+        }
+
+        if (options.address && !options.address.match(/^0x[a-fA-F0-9]{40}$/)) {
+          console.error(chalk.red(`✗ Invalid address format: ${options.address}`));
+          console.error(chalk.dim('  Address must be a 40-character hex string starting with 0x'));
+          process.exit(1);
+        }
+
+        if (options.hash && !options.hash.match(/^0x[a-fA-F0-9]{64}$/)) {
+          console.error(chalk.red(`✗ Invalid message hash format: ${options.hash}`));
+          console.error(chalk.dim('  Message hash must be a 64-character hex string starting with 0x'));
+          process.exit(1);
+        }
+
+        if (!isNetworkSupported(options.network)) {
+          console.error(chalk.red(`✗ Unsupported network: ${options.network}`));
+          console.error(chalk.dim(`  Supported networks: ${getSupportedNetworks().join(', ')}`));
+          process.exit(1);
+        }
+
+        loadNetworkContracts(options.network);
+
+        const client = createSafeApiClient(options.network);
+        printNetworkConfig(client.getNetworkName(), client.getChainId());
+
+        let msg: SafeApiMessage;
+        let version: string;
+
+        const spinner = ora('Fetching message(s) from Safe API...').start();
+        try {
+          if (options.hash) {
+            msg = await client.fetchMessage(options.hash);
+
+            // A hash names one message on one Safe. If the caller also gave a
+            // Safe address, refuse to show another Safe's message under it.
+            if (options.address && msg.safe.toLowerCase() !== options.address.toLowerCase()) {
+              throw new Error(`Message ${options.hash} belongs to Safe ${msg.safe}, not ${options.address}`);
+            }
+            spinner.stop();
+          } else {
+            const response = await client.fetchMessages(options.address as Address);
+            spinner.stop();
+
+            if (response.results.length === 0) {
+              throw new SafeApiError(`No messages found for Safe ${options.address}`);
+            }
+
+            if (response.results.length > 1) {
+              const choices = response.results.map((m, idx) => {
+                const created = m.created ? new Date(m.created).toLocaleString() : 'Unknown';
+                const kind = typeof m.message === 'string' ? 'EIP-191' : 'EIP-712';
+                return {
+                  // Full hash, never abbreviated — see the nonce picker in verify.
+                  name: `[${idx + 1}] ${kind} | ${m.confirmations.length} sig(s) | Created: ${created}\n      ${m.messageHash}`,
+                  value: idx,
+                  short: `Message ${idx + 1}`,
+                };
+              });
+
+              const answer = await inquirer.prompt([
+                {
+                  type: 'list',
+                  name: 'msgIndex',
+                  message: 'Select which message to analyze:',
+                  choices: choices,
+                },
+              ]);
+
+              msg = response.results[answer.msgIndex]!;
+              console.log(chalk.green(`\n✓ Selected message ${answer.msgIndex + 1}\n`));
+            } else {
+              msg = response.results[0]!;
+            }
+          }
+
+          const spinner2 = ora('Fetching Safe version...').start();
+          version = await client.fetchSafeVersion(msg.safe);
+          spinner2.succeed('Message fetched successfully');
+        } catch (error) {
+          if (spinner.isSpinning) spinner.fail('Failed to fetch message');
+          throw error;
+        }
+
+        const message = fromApiMessage(msg.message);
+
+        console.log(chalk.bold('\n========================================'));
+        console.log(chalk.bold('= Message Data and Decoded Info       ='));
+        console.log(chalk.bold('========================================'));
+
+        printSafeMessage(msg, message);
+
+        // A typed-data domain bound to another chain will not be accepted
+        // where the signer expects it to be, whatever the Safe hash says.
+        if (isTypedDataMessage(message) && message.domain.chainId !== undefined) {
+          const domainChainId = Number(message.domain.chainId);
+          if (domainChainId !== client.getChainId()) {
+            console.log(
+              chalk.yellow(
+                `\n⚠️  Typed-data domain chainId (${domainChainId}) differs from the Safe's network (${client.getChainId()})`
+              )
+            );
+          }
+        }
+
+        console.log(chalk.bold('\n========================================'));
+        console.log(chalk.bold('= Hash Calculation & Verification     ='));
+        console.log(chalk.bold('========================================'));
+
+        let hashMatch: boolean | null = null;
+        try {
+          const hashResult = calculateSafeMessageHash(client.getChainId(), msg.safe, message, version);
+          hashMatch = hashResult.safeMessageHash.toLowerCase() === msg.messageHash.toLowerCase();
+
+          printMessageHashVerification(
+            hashResult.rawMessageHash,
+            hashResult.domainHash,
+            hashResult.messageHash,
+            hashResult.safeMessageHash,
+            msg.messageHash,
+            hashMatch,
+            version
+          );
+        } catch (error) {
+          console.log(chalk.red('\n✗ Hash calculation failed'));
+          console.log(chalk.dim(`  Error: ${error instanceof Error ? error.message : String(error)}`));
+          console.log(chalk.yellow('\n⚠️  Cannot verify message hash - proceed with caution!'));
+        }
+
+        console.log(); // Empty line at end
+        process.exitCode = messageExitCode(hashMatch);
+      } catch (error) {
+        if (error instanceof SafeApiError) {
+          console.error(chalk.red(`\n✗ ${error.message}`));
+          if (error.statusCode === 404) {
+            console.error(chalk.dim('  Make sure the message exists on this network and has been proposed.'));
+          }
+        } else {
+          console.error(chalk.red(`\n✗ Error: ${error instanceof Error ? error.message : String(error)}`));
+        }
+        process.exit(1);
+      }
+    });
+
+  return command;
+}
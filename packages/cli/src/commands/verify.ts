@@ -3,12 +3,22 @@
  *
  * Usage:
  *   sky-safe verify --address 0x... --nonce 123 [--network ethereum]
+ *   sky-safe verify --address 0x... --nonce 123 --format json
+ *   sky-safe verify --builder-file batch.json [--address 0x...] [--nonce 123]
+ *   sky-safe verify --typed-data safe-tx.json [--address 0x...] [--network ethereum]
+ *   sky-safe verify --address 0x... --nonce 123 --typed-data-out safe-tx.json
+ *   sky-safe verify --address 0x... --nonce 123 --device ledger
+ *   sky-safe verify --address 0x... --nonce 123 --challenge chunks --challenge-log challenges.jsonl
+ *   sky-safe verify --address 0x... --nonce 123 --policy policy.yaml
+ *   sky-safe verify --address 0x... --nonce 123 --threshold ETH=5 --threshold USDS=250000
+ *
+ * Exit codes are listed in ../exit-codes.ts.
  */
 
 import { Command } from 'commander';
 import chalk from 'chalk';
 import ora from 'ora';
-import { readFileSync } from 'fs';
+import { appendFileSync, readFileSync, writeFileSync } from 'fs';
 import inquirer from 'inquirer';
 import {
   createSafeApiClient,
@@ -21,15 +31,44 @@ import {
   SPBEAMDecoder,
   StUsdsRateSetterDecoder,
   PASConfiguratorDecoder,
-  calculateSafeTxHash,
-  verifySafeTxHash,
-  analyzeSecurity,
-  decodeMultiSend,
-  isMultiSend,
-  verifyDecodedData,
-  isApiFallbackSentinel,
+  verifySafeTransaction,
+  parsePolicyFile,
+  findSafePolicy,
+  fetchCrossChainSafeStates,
+  isCrossChainReplayable,
+  fetchQueuedNonces,
+  parseTransactionBuilderFile,
+  transactionBuilderBatchToProposal,
+  verifyTransactionBuilderChecksum,
+  parseSafeTxTypedData,
+  checkSafeTxTypedData,
+  safeTxTypedDataToProposal,
+  createSafeTxTypedData,
+  renderDeviceDisplay,
+  HARDWARE_WALLET_DEVICES,
+  DEVICE_PROFILES,
+  createHashChallenge,
+  checkHashChallenge,
+  createHashChallengeRecord,
+  describeHashChunk,
+  HASH_CHALLENGE_MODES,
+  CONTRACTS_BY_NETWORK,
+} from '@shield3/sky-safe-core';
+import type {
+  CrossChainSafeState,
+  HardwareWalletDevice,
+  HashChallenge,
+  HashChallengeMode,
+  HashChallengeResult,
+  SafeApiDelegate,
+  SafeApiMultisigTransaction,
+  SafeNonceState,
+  SafePolicySet,
+  SafeMessageTypedData,
+  SafeTxTypedDataCheck,
+  TransactionBuilderBatch,
+  TransferThresholds,
 } from '@shield3/sky-safe-core';
-import type { SafeApiMultisigTransaction } from '@shield3/sky-safe-core';
 import type { Address, Hex } from 'viem';
 import {
   printNetworkConfig,
@@ -39,7 +78,14 @@ import {
   printNestedTransactionData,
   printHashVerification,
   printSecurityWarnings,
+  printConfirmationChecks,
+  printTransactionBuilderNotice,
+  printTypedDataCheck,
+  printDeviceDisplay,
+  printHashChallengeResult,
 } from '../formatters/output.js';
+import { formatJson, parseOutputFormat, type OutputFormat, type VerifyJsonReport } from '../formatters/json.js';
+import { EXIT_ERROR, EXIT_HASH_MISMATCH, verifyExitCode } from '../exit-codes.js';
 
 // Register custom decoders
 decoderRegistry.register(new LockstakeEngineDecoder());
@@ -47,6 +93,24 @@ decoderRegistry.register(new SPBEAMDecoder());
 decoderRegistry.register(new StUsdsRateSetterDecoder());
 decoderRegistry.register(new PASConfiguratorDecoder());
 
+interface VerifyOptions {
+  address?: string;
+  nonce?: number;
+  network: string;
+  file?: string;
+  builderFile?: string;
+  typedData?: string;
+  typedDataOut?: string;
+  device?: HardwareWalletDevice;
+  challenge?: HashChallengeMode;
+  challengeLog?: string;
+  format: OutputFormat;
+  safeTxHash?: string;
+  signer?: Address;
+  policy?: string;
+  threshold?: TransferThresholds;
+}
+
 export function createVerifyCommand(): Command {
   const command = new Command('verify');
 
@@ -56,21 +120,88 @@ export function createVerifyCommand(): Command {
     .option('-n, --nonce <nonce>', 'Transaction nonce', parseNonce)
     .option('--network <network>', 'Network name (e.g., ethereum, sepolia)', 'ethereum')
     .option('-f, --file <file>', 'Read transaction from JSON file instead of API')
-    .action(async (options: { address?: string; nonce?: number; network: string; file?: string }) => {
+    .option('--builder-file <file>', 'Review a Safe Transaction Builder batch JSON before it is proposed')
+    .option(
+      '--typed-data <file>',
+      'Verify the SafeTx EIP-712 typed data (eth_signTypedData_v4) a wallet was asked to sign'
+    )
+    .option('--typed-data-out <file>', 'Write the verified transaction as EIP-712 typed data (eth_signTypedData_v4)')
+    .option(
+      '--device <device>',
+      `Show the hashes as your hardware wallet does: ${HARDWARE_WALLET_DEVICES.join(', ')}`,
+      parseDevice
+    )
+    .option(
+      '--challenge <mode>',
+      `Hide the safeTxHash and have you type it from your hardware wallet: ${HASH_CHALLENGE_MODES.join(', ')}`,
+      parseChallenge
+    )
+    .option('--challenge-log <file>', 'Append a timestamped record of a passed --challenge to this JSON lines file')
+    .option('--format <format>', 'Output format: text, json or ndjson', parseOutputFormat, 'text')
+    .option('--safe-tx-hash <hash>', 'Pick this transaction when several share the nonce')
+    .option('--signer <address>', 'Your owner address, flagged if an owner change removes it', parseSigner)
+    .option('--policy <file>', 'JSON/YAML signing policy, keyed by network and Safe address')
+    .option(
+      '--threshold <asset=amount>',
+      'Large-transfer threshold in whole units, e.g. ETH=5 or USDS=250000 (repeatable)',
+      parseThreshold
+    )
+    .action(async (options: VerifyOptions) => {
+      // JSON modes write the report and nothing else to stdout, and never prompt.
+      const quiet = options.format !== 'text';
       try {
         // Validate mode
+        if ([options.file, options.builderFile, options.typedData].filter(Boolean).length > 1) {
+          console.error(chalk.red('✗ Use only one of --file, --builder-file and --typed-data'));
+          process.exit(EXIT_ERROR);
+        }
+
+        if (options.typedData && options.nonce !== undefined) {
+          console.error(chalk.red('✗ Cannot use both --typed-data and --nonce'));
+          console.error(chalk.dim('  The nonce is part of the typed data'));
+          process.exit(EXIT_ERROR);
+        }
+
         if (options.file && (options.address || options.nonce !== undefined)) {
           console.error(chalk.red('✗ Cannot use both --file and --address/--nonce'));
           console.error(chalk.dim('  Use --file for local mode OR --address/--nonce for API mode'));
-          process.exit(1);
+          process.exit(EXIT_ERROR);
         }
 
-        if (!options.file && (!options.address || options.nonce === undefined)) {
+        if (
+          !options.file &&
+          !options.builderFile &&
+          !options.typedData &&
+          (!options.address || options.nonce === undefined)
+        ) {
           console.error(chalk.red('✗ Missing required options'));
           console.error(chalk.dim('  Use either:'));
           console.error(chalk.dim('    --file <file>           (local mode)'));
           console.error(chalk.dim('    --address <address> --nonce <nonce>  (API mode)'));
-          process.exit(1);
+          console.error(chalk.dim('    --builder-file <file>   (Transaction Builder batch, not yet proposed)'));
+          console.error(chalk.dim('    --typed-data <file>     (SafeTx typed data a wallet was asked to sign)'));
+          process.exit(EXIT_ERROR);
+        }
+
+        if (options.challenge && quiet) {
+          console.error(chalk.red('✗ --challenge prompts for the hash, so it needs --format text'));
+          process.exit(EXIT_ERROR);
+        }
+
+        if (options.challengeLog && !options.challenge) {
+          console.error(chalk.red('✗ --challenge-log needs --challenge full or --challenge chunks'));
+          process.exit(EXIT_ERROR);
+        }
+
+        // The challenge is on the safeTxHash, which not every device displays
+        if (
+          options.challenge &&
+          options.device &&
+          !DEVICE_PROFILES[options.device].hashes.some(({ field }) => field === 'safeTxHash')
+        ) {
+          console.error(chalk.red(`✗ A ${DEVICE_PROFILES[options.device].name} does not display the safeTxHash`));
+          console.error(chalk.dim('  --challenge asks for the safeTxHash; compare its hashes with --device alone'));
+          process.exit(EXIT_ERROR);
         }
 
         // Validate network
@@ -79,7 +210,30 @@ export function createVerifyCommand(): Command {
           // List them here rather than pointing at a `sky-safe networks`
           // command, which this CLI has never registered.
           console.error(chalk.dim(`  Supported networks: ${getSupportedNetworks().join(', ')}`));
-          process.exit(1);
+          process.exit(EXIT_ERROR);
+        }
+
+        // Token thresholds must name a token this network knows the decimals of
+        const knownTokens = (CONTRACTS_BY_NETWORK[options.network] ?? [])
+          .filter((contract) => contract.category === 'token' && typeof contract.decimals === 'number')
+          .map((contract) => contract.label);
+        const unknownTokens = Object.keys(options.threshold?.tokens ?? {}).filter((t) => !knownTokens.includes(t));
+        if (unknownTokens.length > 0) {
+          console.error(chalk.red(`✗ No known token ${unknownTokens.join(', ')} on ${options.network}`));
+          console.error(chalk.dim(`  Thresholds can be set for ETH and: ${knownTokens.join(', ') || '(none)'}`));
+          process.exit(EXIT_ERROR);
+        }
+
+        // Read the policy file up front so a broken one fails before any fetch
+        let policies: SafePolicySet | undefined;
+        if (options.policy) {
+          try {
+            policies = parsePolicyFile(readFileSync(options.policy, 'utf-8'));
+          } catch (error) {
+            console.error(chalk.red(`✗ Failed to load policy file ${options.policy}`));
+            console.error(chalk.dim(`  ${error instanceof Error ? error.message : String(error)}`));
+            process.exit(EXIT_ERROR);
+          }
         }
 
         // Load this network's built-in contract labels. Without this the
@@ -91,14 +245,33 @@ export function createVerifyCommand(): Command {
         const client = createSafeApiClient(options.network);
 
         // Show network config
-        printNetworkConfig(client.getNetworkName(), client.getChainId());
+        if (!quiet) {
+          printNetworkConfig(client.getNetworkName(), client.getChainId());
+        }
 
         let tx: SafeApiMultisigTransaction;
         let version: string;
+        // Current owners and threshold, for checking who signed and
+        // previewing owner changes. Unknown in file mode.
+        let owners: Address[] | undefined;
+        let threshold: number | undefined;
+        // The same Safe on the other networks, for pre-1.3.0 Safes whose
+        // signatures replay across chains. Not checked in file mode.
+        let crossChainSafes: CrossChainSafeState[] | undefined;
+        // The Safe's current nonce and the queue before this transaction.
+        // Unknown in file mode.
+        let nonceState: SafeNonceState | undefined;
+        // Delegates registered for the Safe, to judge who proposed the
+        // transaction. Unknown in file mode.
+        let delegates: SafeApiDelegate[] | undefined;
+        // Checksum of a Transaction Builder batch: null when it has none
+        let builderChecksum: boolean | null = null;
+        // Schema and domain checks of SafeTx typed data
+        let typedDataCheck: SafeTxTypedDataCheck | undefined;
 
         if (options.file) {
           // Local mode: read from file
-          const spinner = ora('Reading transaction from file...').start();
+          const spinner = ora({ text: 'Reading transaction from file...', isSilent: quiet }).start();
           try {
             const fileContent = readFileSync(options.file, 'utf-8');
             const jsonData = JSON.parse(fileContent);
@@ -116,7 +289,115 @@ export function createVerifyCommand(): Command {
             if (error instanceof Error) {
               console.error(chalk.red(`  ${error.message}`));
             }
-            process.exit(1);
+            process.exit(EXIT_ERROR);
+          }
+        } else if (options.builderFile) {
+          // Transaction Builder mode: build the transaction proposing the
+          // batch would create, for the Safe's current state
+          const spinner = ora({ text: 'Reading Transaction Builder batch...', isSilent: quiet }).start();
+          let batch: TransactionBuilderBatch;
+          try {
+            batch = parseTransactionBuilderFile(readFileSync(options.builderFile, 'utf-8'));
+            spinner.succeed(`Loaded ${batch.transactions.length} call(s) from the Transaction Builder batch`);
+          } catch (error) {
+            spinner.fail('Failed to read Transaction Builder batch');
+            if (error instanceof Error) {
+              console.error(chalk.red(`  ${error.message}`));
+            }
+            process.exit(EXIT_ERROR);
+          }
+
+          const builderSafe = options.address ?? batch.meta.createdFromSafeAddress;
+          if (!builderSafe?.match(/^0x[a-fA-F0-9]{40}$/)) {
+            console.error(chalk.red('✗ The batch does not name its Safe; pass --address'));
+            process.exit(EXIT_ERROR);
+          }
+
+          const spinner2 = ora({ text: 'Fetching Safe version, owners and queue...', isSilent: quiet }).start();
+          try {
+            const safeInfo = await client.fetchSafeInfo(builderSafe as Address);
+            version = safeInfo.version || '0.0.0';
+            owners = safeInfo.owners;
+            threshold = safeInfo.threshold;
+            const safeNonce = Number(safeInfo.nonce);
+            // Without --nonce the batch takes the Safe's next nonce, and
+            // whatever is already proposed there competes with it
+            const nonce = options.nonce ?? safeNonce;
+            tx = transactionBuilderBatchToProposal(batch, {
+              safeAddress: builderSafe as Address,
+              version,
+              chainId: client.getChainId(),
+              nonce,
+            });
+            const competing = await client.fetchTransactionsByNonce(builderSafe as Address, nonce);
+            nonceState = {
+              safeNonce,
+              queuedNonces: await fetchQueuedNonces(client, builderSafe as Address, safeNonce, nonce),
+              competingProposals: competing.filter((t) => t.safeTxHash !== tx.safeTxHash).map((t) => t.safeTxHash),
+            };
+            builderChecksum = verifyTransactionBuilderChecksum(batch);
+            spinner2.succeed(`Built the batch for nonce ${nonce}`);
+
+            if (isCrossChainReplayable(version)) {
+              const spinner3 = ora({ text: 'Looking for this Safe on other networks...', isSilent: quiet }).start();
+              crossChainSafes = await fetchCrossChainSafeStates(builderSafe as Address, options.network);
+              spinner3.succeed(`Checked ${crossChainSafes.length} other network(s) for cross-chain replay`);
+            }
+          } catch (error) {
+            spinner2.fail('Failed to fetch the Safe');
+            throw error;
+          }
+        } else if (options.typedData) {
+          // Typed-data mode: the SafeTx typed data a wallet was asked to sign,
+          // checked against the Safe and network given (or the Safe it names)
+          const spinner = ora({ text: 'Reading SafeTx typed data...', isSilent: quiet }).start();
+          let typedData: SafeMessageTypedData;
+          try {
+            typedData = parseSafeTxTypedData(readFileSync(options.typedData, 'utf-8'));
+            spinner.succeed('SafeTx typed data loaded from file');
+          } catch (error) {
+            spinner.fail('Failed to read SafeTx typed data');
+            if (error instanceof Error) {
+              console.error(chalk.red(`  ${error.message}`));
+            }
+            process.exit(EXIT_ERROR);
+          }
+
+          const typedDataSafe = options.address ?? typedData.domain.verifyingContract;
+          if (typeof typedDataSafe !== 'string' || !typedDataSafe.match(/^0x[a-fA-F0-9]{40}$/)) {
+            console.error(chalk.red('✗ The typed data does not name a Safe; pass --address'));
+            process.exit(EXIT_ERROR);
+          }
+
+          const spinner2 = ora({ text: 'Fetching Safe version, owners and queue...', isSilent: quiet }).start();
+          try {
+            const safeInfo = await client.fetchSafeInfo(typedDataSafe as Address);
+            version = safeInfo.version || '0.0.0';
+            owners = safeInfo.owners;
+            threshold = safeInfo.threshold;
+            typedDataCheck = checkSafeTxTypedData(typedData, {
+              safeAddress: typedDataSafe as Address,
+              chainId: client.getChainId(),
+              version,
+            });
+            tx = safeTxTypedDataToProposal(typedDataCheck);
+            const safeNonce = Number(safeInfo.nonce);
+            const competing = await client.fetchTransactionsByNonce(typedDataSafe as Address, tx.nonce);
+            nonceState = {
+              safeNonce,
+              queuedNonces: await fetchQueuedNonces(client, typedDataSafe as Address, safeNonce, tx.nonce),
+              competingProposals: competing.filter((t) => t.safeTxHash !== tx.safeTxHash).map((t) => t.safeTxHash),
+            };
+            spinner2.succeed(`Checked the typed data against Safe v${version}`);
+
+            if (isCrossChainReplayable(version)) {
+              const spinner3 = ora({ text: 'Looking for this Safe on other networks...', isSilent: quiet }).start();
+              crossChainSafes = await fetchCrossChainSafeStates(typedDataSafe as Address, options.network);
+              spinner3.succeed(`Checked ${crossChainSafes.length} other network(s) for cross-chain replay`);
+            }
+          } catch (error) {
+            spinner2.fail('Failed to check the typed data');
+            throw error;
           }
         } else {
           // API mode: fetch from Safe API
@@ -124,10 +405,10 @@ export function createVerifyCommand(): Command {
           if (!options.address!.match(/^0x[a-fA-F0-9]{40}$/)) {
             console.error(chalk.red(`✗ Invalid address format: ${options.address}`));
             console.error(chalk.dim('  Address must be a 40-character hex string starting with 0x'));
-            process.exit(1);
+            process.exit(EXIT_ERROR);
           }
 
-          const spinner = ora('Fetching transaction(s) from Safe API...').start();
+          const spinner = ora({ text: 'Fetching transaction(s) from Safe API...', isSilent: quiet }).start();
 
           try {
             // Fetch all transactions with this nonce
@@ -135,8 +416,23 @@ export function createVerifyCommand(): Command {
 
             spinner.stop();
 
-            // If multiple transactions found, let user select
-            if (transactions.length > 1) {
+            if (options.safeTxHash) {
+              const wanted = options.safeTxHash.toLowerCase();
+              const match = transactions.find((t) => t.safeTxHash.toLowerCase() === wanted);
+              if (!match) {
+                throw new Error(`No transaction with nonce ${options.nonce} has safeTxHash ${options.safeTxHash}`);
+              }
+              tx = match;
+            } else if (transactions.length > 1 && quiet) {
+              // No prompt in JSON modes — the caller has to say which one.
+              console.error(`Found ${transactions.length} transactions with nonce ${options.nonce}.`);
+              console.error('Pass --safe-tx-hash with one of:');
+              for (const t of transactions) {
+                console.error(`  ${t.safeTxHash}`);
+              }
+              process.exit(EXIT_ERROR);
+            } else if (transactions.length > 1) {
+              // If multiple transactions found, let user select
               console.log(chalk.yellow(`\n⚠️  Found ${transactions.length} transactions with nonce ${options.nonce}`));
               console.log(chalk.dim('   This can happen when transactions are replaced or cancelled.\n'));
 
@@ -152,8 +448,11 @@ export function createVerifyCommand(): Command {
                   // The full safeTxHash, never abbreviated. This prompt is how
                   // an operator tells competing transactions on one nonce
                   // apart, and lookalike hashes differ in the middle — exactly
-                  // the part an ellipsis removes.
-                  name: `[${idx + 1}] ${status} | Submitted: ${submissionDate}\n      ${t.safeTxHash}`,
+                  // the part an ellipsis removes. Left out entirely when a
+                  // --challenge will ask for it from the device.
+                  name: options.challenge
+                    ? `[${idx + 1}] ${status} | Submitted: ${submissionDate}`
+                    : `[${idx + 1}] ${status} | Submitted: ${submissionDate}\n      ${t.safeTxHash}`,
                   value: idx,
                   short: `Transaction ${idx + 1}`,
                 };
@@ -174,135 +473,186 @@ export function createVerifyCommand(): Command {
               tx = transactions[0]!;
             }
 
-            const spinner2 = ora('Fetching Safe version...').start();
-            version = await client.fetchSafeVersion(options.address as Address);
+            const spinner2 = ora({ text: 'Fetching Safe version, owners and queue...', isSilent: quiet }).start();
+            const safeInfo = await client.fetchSafeInfo(options.address as Address);
+            version = safeInfo.version || '0.0.0';
+            owners = safeInfo.owners;
+            threshold = safeInfo.threshold;
+            const safeNonce = Number(safeInfo.nonce);
+            nonceState = {
+              safeNonce,
+              queuedNonces: await fetchQueuedNonces(client, options.address as Address, safeNonce, tx.nonce),
+              competingProposals: transactions.filter((t) => t.safeTxHash !== tx.safeTxHash).map((t) => t.safeTxHash),
+            };
+            // Not every Transaction Service lists delegates; without them a
+            // delegate is judged by the owner it proposed for
+            delegates = await client.fetchDelegates(options.address as Address).catch(() => undefined);
             spinner2.succeed('Transaction fetched successfully');
+
+            if (isCrossChainReplayable(version)) {
+              const spinner3 = ora({ text: 'Looking for this Safe on other networks...', isSilent: quiet }).start();
+              crossChainSafes = await fetchCrossChainSafeStates(options.address as Address, options.network);
+              spinner3.succeed(`Checked ${crossChainSafes.length} other network(s) for cross-chain replay`);
+            }
           } catch (error) {
             spinner.fail('Failed to fetch transaction');
             throw error;
           }
         }
 
+        // Work everything out first, then render it as text or JSON. In API
+        // mode the hash is calculated for the Safe that was queried, so a
+        // transaction served under the wrong Safe fails the hash check. Typed
+        // data is checked against --address when given, so a domain naming
+        // another Safe fails it too.
+        const safeAddress = (
+          options.typedData
+            ? (options.address ?? tx.safe)
+            : options.file || options.builderFile
+              ? tx.safe
+              : options.address!
+        ) as Address;
+        const policy = policies && findSafePolicy(policies, options.network, safeAddress);
+        if (policies && !policy && !quiet) {
+          console.log(chalk.yellow(`\n⚠️  ${options.policy} has no policy for ${safeAddress} on ${options.network}`));
+        }
+        const report = await verifySafeTransaction(tx, version, options.network, {
+          safeAddress,
+          owners,
+          threshold,
+          signer: options.signer,
+          policy,
+          transferThresholds: options.threshold,
+          crossChainSafes,
+          nonceState,
+          delegates,
+        });
+        const {
+          apiDecodedVerification,
+          multiSend,
+          customDecoded,
+          hasCustomDecoder,
+          security: securityAnalysis,
+          hashes: hashResult,
+          hashError,
+          confirmations: confirmationChecks,
+        } = report;
+        const hashMatch = report.verdict.hashMatch;
+        const exitCode = verifyExitCode(report.verdict);
+
+        // The typed data to sign, only for a transaction whose hash verified:
+        // signing it signs exactly what was checked here
+        const writeTypedData = options.typedDataOut !== undefined && hashMatch;
+        // Only for a hash that verified: a mismatching one must not be signed
+        const deviceDisplay =
+          options.device && hashResult && hashMatch ? renderDeviceDisplay(options.device, hashResult) : undefined;
+        if (writeTypedData) {
+          const typedData = createSafeTxTypedData(report.chainId, report.safeAddress, report.txData, version);
+          writeFileSync(options.typedDataOut!, JSON.stringify(typedData, null, 2) + '\n');
+        }
+
+        if (quiet) {
+          if (options.typedDataOut && !writeTypedData) {
+            console.error(`Did not write ${options.typedDataOut}: the transaction hash did not verify`);
+          }
+          const jsonReport: VerifyJsonReport = {
+            network: { name: client.getNetworkName(), chainId: report.chainId },
+            safe: report.safeAddress,
+            // A --file fixture may carry it as a string
+            nonce: Number(tx.nonce),
+            safeVersion: version,
+            transaction: report.txData,
+            hashes: hashResult
+              ? {
+                  domainHash: hashResult.domainHash,
+                  messageHash: hashResult.messageHash,
+                  safeTxHash: hashResult.safeTxHash,
+                  apiSafeTxHash: report.apiSafeTxHash,
+                  match: hashMatch,
+                  diagnosis: report.hashDiagnosis,
+                }
+              : { error: hashError!, apiSafeTxHash: report.apiSafeTxHash, match: false },
+            decoding: {
+              api: report.apiDecoded,
+              apiVerification: apiDecodedVerification,
+              custom: customDecoded,
+              hasCustomDecoder,
+            },
+            multiSend,
+            ...(options.builderFile && { transactionBuilder: { name: tx.origin, checksumValid: builderChecksum } }),
+            ...(typedDataCheck && {
+              typedData: {
+                typedDataHash: typedDataCheck.typedDataHash,
+                domain: typedDataCheck.domain,
+                schemaErrors: typedDataCheck.schemaErrors,
+                domainMismatches: typedDataCheck.domainMismatches,
+              },
+            }),
+            ...(deviceDisplay && { deviceDisplay }),
+            confirmations: confirmationChecks,
+            security: securityAnalysis,
+            verdict: { ...report.verdict, exitCode },
+          };
+          console.log(formatJson(jsonReport, options.format as Exclude<OutputFormat, 'text'>));
+          process.exitCode = exitCode;
+          return;
+        }
+
         // Display transaction data
         console.log(chalk.bold('\n========================================'));
         console.log(chalk.bold('= Transaction Data and Decoded Info   ='));
         console.log(chalk.bold('========================================'));
 
         printTransactionData(tx);
-
-        // Verify decoded data if available. Skip the Safe "fallback" sentinel
-        // — it is the service's "could not decode", not a real decoding.
-        let apiDecodedVerification = null;
-        if (tx.data && tx.data !== '0x' && tx.dataDecoded && !isApiFallbackSentinel(tx.dataDecoded)) {
-          apiDecodedVerification = verifyDecodedData(tx.data as Hex, tx.dataDecoded);
-        }
-
         printDecodedData(tx, apiDecodedVerification);
 
-        // Try custom decoder if available OR decode MultiSend
-        if (tx.data && tx.data !== '0x') {
-          // Check if this is a MultiSend transaction
-          if (isMultiSend(tx.data as Hex)) {
-            console.log(chalk.bold('\n========================================'));
-            console.log(chalk.bold('= MultiSend Batched Transactions      ='));
-            console.log(chalk.bold('========================================'));
-
-            // Verify the outer MultiSend transaction itself
-            if (tx.dataDecoded) {
-              const multiSendVerification = verifyDecodedData(tx.data as Hex, tx.dataDecoded);
-              if (multiSendVerification.verified) {
-                console.log(chalk.green('\n✓ MultiSend outer transaction verified'));
-              } else if (multiSendVerification.status === 'unverifiable') {
-                // Could not run the check — not the same as a proven mismatch
-                console.log(chalk.dim('\n- MultiSend outer transaction not verified'));
-                console.log(chalk.dim(`  Could not run the re-encode check: ${multiSendVerification.error}`));
-              } else {
-                console.log(chalk.red('\n⚠ MultiSend outer transaction verification failed'));
-                if (multiSendVerification.error) {
-                  console.log(chalk.red(`  ${multiSendVerification.error}`));
-                }
-              }
-            }
-
-            const nestedTxs = decodeMultiSend(tx.data as Hex);
-
-            // Get Safe API decoded nested transactions from valueDecoded
-            let apiNestedTxs = null;
-            if (tx.dataDecoded?.parameters) {
-              const transactionsParam = tx.dataDecoded.parameters.find((p) => p.name === 'transactions');
-              if (transactionsParam?.valueDecoded && Array.isArray(transactionsParam.valueDecoded)) {
-                apiNestedTxs = transactionsParam.valueDecoded;
+        if (multiSend) {
+          console.log(chalk.bold('\n========================================'));
+          console.log(chalk.bold('= MultiSend Batched Transactions      ='));
+          console.log(chalk.bold('========================================'));
+
+          const outer = multiSend.outerVerification;
+          if (outer) {
+            if (outer.verified) {
+              console.log(chalk.green('\n✓ MultiSend outer transaction verified'));
+            } else if (outer.status === 'unverifiable') {
+              // Could not run the check — not the same as a proven mismatch
+              console.log(chalk.dim('\n- MultiSend outer transaction not verified'));
+              console.log(chalk.dim(`  Could not run the re-encode check: ${outer.error}`));
+            } else {
+              console.log(chalk.red('\n⚠ MultiSend outer transaction verification failed'));
+              if (outer.error) {
+                console.log(chalk.red(`  ${outer.error}`));
               }
             }
+          }
 
-            if (nestedTxs) {
-              console.log(chalk.dim(`\nFound ${nestedTxs.length} nested transaction(s)\n`));
-
-              for (let i = 0; i < nestedTxs.length; i++) {
-                const nestedTx = nestedTxs[i]!;
-
-                // Try to decode with custom decoder
-                let customDecoded = null;
-                if (nestedTx.data && nestedTx.data !== '0x') {
-                  customDecoded = decoderRegistry.decode(nestedTx.to as Address, nestedTx.data, options.network);
-                }
-
-                // Get Safe API decoded data for this nested transaction. The
-                // "fallback" sentinel means the service could not decode it —
-                // treat it as no decoding so the raw calldata is shown instead.
-                const rawApiDecoded = apiNestedTxs?.[i]?.dataDecoded || null;
-                const apiDecoded = isApiFallbackSentinel(rawApiDecoded) ? null : rawApiDecoded;
-
-                // Verify Safe API decoded data
-                let verification = null;
-                if (apiDecoded && nestedTx.data && nestedTx.data !== '0x') {
-                  verification = verifyDecodedData(nestedTx.data, apiDecoded);
-                }
-
-                // Print using the new formatter
-                printNestedTransactionData(
-                  i,
-                  nestedTxs.length,
-                  nestedTx.to,
-                  nestedTx.value.toString(),
-                  nestedTx.operation,
-                  nestedTx.data,
-                  apiDecoded,
-                  customDecoded,
-                  verification
-                );
-              }
-            }
-          } else {
-            // Try direct custom decoder
-            const customDecoded = decoderRegistry.decode(tx.to, tx.data, options.network);
-            if (customDecoded) {
-              printCustomDecodedData(customDecoded);
-            } else if (decoderRegistry.hasDecoder(tx.to, options.network)) {
-              // Decoder exists but couldn't decode - might be unsupported function
-              console.log(
-                chalk.yellow('\n⚠️  This contract has a custom decoder, but the function is not yet supported.')
+          if (multiSend.calls) {
+            // Calls of nested batches follow the call that carries them, numbered by path (2.1 = call 1 of call 2)
+            const topLevel = multiSend.calls.filter((call) => call.depth === 1).length;
+            console.log(chalk.dim(`\nFound ${multiSend.calls.length} nested transaction(s)\n`));
+
+            for (const call of multiSend.calls) {
+              printNestedTransactionData(
+                call.depth === 1 ? `${call.index + 1}/${topLevel}` : call.path.map((i) => i + 1).join('.'),
+                call.to,
+                call.value.toString(),
+                call.operation,
+                call.data,
+                call.apiDecoded,
+                call.customDecoded,
+                call.verification
               );
-              console.log(chalk.dim('   Please verify the transaction carefully.'));
             }
           }
+        } else if (customDecoded) {
+          printCustomDecodedData(customDecoded);
+        } else if (hasCustomDecoder) {
+          // Decoder exists but couldn't decode - might be unsupported function
+          console.log(chalk.yellow('\n⚠️  This contract has a custom decoder, but the function is not yet supported.'));
+          console.log(chalk.dim('   Please verify the transaction carefully.'));
         }
 
-        // Perform security analysis
-        const txData = {
-          to: tx.to,
-          value: tx.value,
-          data: (tx.data || '0x') as Hex,
-          operation: tx.operation,
-          safeTxGas: String(tx.safeTxGas),
-          baseGas: String(tx.baseGas),
-          gasPrice: tx.gasPrice,
-          gasToken: tx.gasToken,
-          refundReceiver: tx.refundReceiver,
-          nonce: String(tx.nonce),
-        };
-
-        const securityAnalysis = analyzeSecurity(txData);
         printSecurityWarnings(securityAnalysis);
 
         // Calculate Safe transaction hash
@@ -310,28 +660,78 @@ export function createVerifyCommand(): Command {
         console.log(chalk.bold('= Hash Calculation & Verification     ='));
         console.log(chalk.bold('========================================'));
 
-        try {
-          const safeAddress = options.file ? tx.safe : options.address!;
-          const hashResult = calculateSafeTxHash(client.getChainId(), safeAddress as Address, txData, version);
+        if (options.builderFile) {
+          printTransactionBuilderNotice(tx.origin, builderChecksum);
+        }
+        if (typedDataCheck) {
+          printTypedDataCheck(typedDataCheck, version);
+        }
 
-          // Verify the calculated hash matches the API hash
-          const isValid = verifySafeTxHash(hashResult.safeTxHash, tx.safeTxHash as Hex);
+        // Only a hash that verified is worth confirming on the device
+        const challenge =
+          options.challenge && hashResult && hashMatch
+            ? createHashChallenge(hashResult.safeTxHash, options.challenge)
+            : undefined;
+        let challengeFailed = false;
 
+        if (hashResult) {
           printHashVerification(
             hashResult.domainHash,
             hashResult.messageHash,
             hashResult.safeTxHash,
             tx.safeTxHash as Hex,
-            isValid,
-            version
+            hashMatch,
+            version,
+            report.hashDiagnosis,
+            challenge !== undefined
           );
-        } catch (error) {
+
+          if (challenge) {
+            const result = await runHashChallenge(challenge);
+            printHashChallengeResult(challenge, result);
+            challengeFailed = !result.match;
+            if (result.match) {
+              const record = createHashChallengeRecord(challenge, result, {
+                safeAddress: report.safeAddress,
+                chainId: report.chainId,
+                nonce: Number(tx.nonce),
+                signer: options.signer,
+                device: options.device,
+              });
+              if (options.challengeLog) {
+                appendFileSync(options.challengeLog, JSON.stringify(record) + '\n');
+                console.log(chalk.green(`\n✓ Recorded the challenge in ${options.challengeLog}`));
+              } else {
+                console.log(
+                  chalk.dim(`\n  Passed at ${record.completedAt}. Add --challenge-log <file> to keep a record.`)
+                );
+              }
+            }
+          }
+
+          if (deviceDisplay) {
+            printDeviceDisplay(deviceDisplay);
+          }
+
+          if (confirmationChecks) {
+            printConfirmationChecks(confirmationChecks, owners !== undefined);
+          }
+        } else {
           console.log(chalk.red('\n✗ Hash calculation failed'));
-          console.log(chalk.dim(`  Error: ${error instanceof Error ? error.message : String(error)}`));
+          console.log(chalk.dim(`  Error: ${hashError}`));
           console.log(chalk.yellow('\n⚠️  Cannot verify transaction hash - proceed with caution!'));
         }
 
+        if (writeTypedData) {
+          console.log(chalk.green(`\n✓ Wrote the EIP-712 typed data to ${options.typedDataOut}`));
+          console.log(chalk.dim('  Sign it with eth_signTypedData_v4; the wallet must show the safeTxHash above.'));
+        } else if (options.typedDataOut) {
+          console.log(chalk.red(`\n✗ Did not write ${options.typedDataOut}: the transaction hash did not verify`));
+        }
+
         console.log(); // Empty line at end
+        // A device showing another hash is as bad as an API serving one
+        process.exitCode = challengeFailed ? EXIT_HASH_MISMATCH : exitCode;
       } catch (error) {
         if (error instanceof SafeApiError) {
           console.error(chalk.red(`\n✗ ${error.message}`));
@@ -343,13 +743,81 @@ export function createVerifyCommand(): Command {
         } else {
           console.error(chalk.red(`\n✗ Error: ${error instanceof Error ? error.message : String(error)}`));
         }
-        process.exit(1);
+        process.exit(EXIT_ERROR);
       }
     });
 
   return command;
 }
 
+/**
+ * Parse a hardware wallet name into a device with a display profile
+ */
+function parseDevice(value: string): HardwareWalletDevice {
+  if (!(HARDWARE_WALLET_DEVICES as readonly string[]).includes(value)) {
+    throw new Error(`Invalid device: ${value}. Must be one of ${HARDWARE_WALLET_DEVICES.join(', ')}.`);
+  }
+  return value as HardwareWalletDevice;
+}
+
+/**
+ * Parse a hash challenge mode
+ */
+function parseChallenge(value: string): HashChallengeMode {
+  if (!(HASH_CHALLENGE_MODES as readonly string[]).includes(value)) {
+    throw new Error(`Invalid challenge mode: ${value}. Must be one of ${HASH_CHALLENGE_MODES.join(', ')}.`);
+  }
+  return value as HashChallengeMode;
+}
+
+/**
+ * Ask the signer to type the hash, or the picked chunks of it, from their
+ * hardware wallet
+ */
+async function runHashChallenge(challenge: HashChallenge): Promise<HashChallengeResult> {
+  console.log(chalk.bold('\n🔐 Hash confirmation challenge'));
+  if (challenge.mode === 'full') {
+    console.log(chalk.dim('  Type the safeTxHash your hardware wallet shows. Case and spaces do not matter.'));
+    const answer = await inquirer.prompt([{ type: 'input', name: 'hash', message: 'safeTxHash:' }]);
+    return checkHashChallenge(challenge, answer.hash);
+  }
+
+  console.log(chalk.dim('  Type these chunks of the safeTxHash your hardware wallet shows, counting digits after 0x.'));
+  const answer = await inquirer.prompt(
+    challenge.chunks.map((chunk) => ({ type: 'input', name: `chunk${chunk}`, message: `${describeHashChunk(chunk)}:` }))
+  );
+  return checkHashChallenge(
+    challenge,
+    challenge.chunks.map((chunk) => String(answer[`chunk${chunk}`] ?? ''))
+  );
+}
+
+/**
+ * Parse the signer's owner address
+ */
+function parseSigner(value: string): Address {
+  if (!/^0x[a-fA-F0-9]{40}$/.test(value)) {
+    throw new Error(`Invalid signer address: ${value}`);
+  }
+  return value as Address;
+}
+
+/**
+ * Parse one ASSET=AMOUNT threshold, merged into the ones parsed before it
+ */
+function parseThreshold(value: string, previous: TransferThresholds = {}): TransferThresholds {
+  const match = /^([^=]+)=(\d+(?:\.\d+)?)$/.exec(value.trim());
+  if (!match) {
+    throw new Error(`Invalid threshold: ${value}. Use ASSET=AMOUNT, e.g. ETH=5 or USDS=250000.`);
+  }
+  const asset = match[1]!;
+  const amount = match[2]!;
+  if (asset === 'ETH') {
+    return { ...previous, native: amount };
+  }
+  return { ...previous, tokens: { ...previous.tokens, [asset]: amount } };
+}
+
 /**
  * Parse nonce from string to number
  */
@@ -0,0 +1,20 @@
+/**
+ * Tests for process exit codes
+ */
+
+import { describe, it, expect } from 'vitest';
+import { EXIT_ERROR, EXIT_HASH_MISMATCH, EXIT_OK, messageExitCode } from './exit-codes.js';
+
+describe('messageExitCode', () => {
+  it('should pass a message whose hash matches', () => {
+    expect(messageExitCode(true)).toBe(EXIT_OK);
+  });
+
+  it('should fail with a hash mismatch when the hashes differ', () => {
+    expect(messageExitCode(false)).toBe(EXIT_HASH_MISMATCH);
+  });
+
+  it('should fail with an error when the hash could not be calculated', () => {
+    expect(messageExitCode(null)).toBe(EXIT_ERROR);
+  });
+});
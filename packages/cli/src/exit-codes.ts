@@ -0,0 +1,45 @@
+/**
+ * Process exit codes for `sky-safe verify` and `sky-safe message`
+ *
+ * Distinct codes let CI and signing bots react to *why* a transaction failed
+ * without parsing output. When several apply, the most severe wins, in the
+ * order listed below.
+ */
+
+/** Everything checked out. */
+export const EXIT_OK = 0;
+
+/** Usage error, unreadable input, or the Safe API could not be reached. */
+export const EXIT_ERROR = 1;
+
+/**
+ * The locally computed safeTxHash does not match the API's (or could not be
+ * computed), or the hash typed from the hardware wallet for --challenge does
+ * not match it.
+ */
+export const EXIT_HASH_MISMATCH = 2;
+
+/** Re-encoding the API's decoded data did not reproduce the raw calldata. */
+export const EXIT_DECODE_MISMATCH = 3;
+
+/** Security analysis rated the transaction high or critical risk. */
+export const EXIT_HIGH_RISK = 4;
+
+/**
+ * Pick the exit code for a verify run. The most severe failure wins.
+ */
+export function verifyExitCode(verdict: { hashMatch: boolean; decodeMismatch: boolean; highRisk: boolean }): number {
+  if (!verdict.hashMatch) return EXIT_HASH_MISMATCH;
+  if (verdict.decodeMismatch) return EXIT_DECODE_MISMATCH;
+  if (verdict.highRisk) return EXIT_HIGH_RISK;
+  return EXIT_OK;
+}
+
+/**
+ * Pick the exit code for a message run: whether the recomputed SafeMessage
+ * hash matches the API's, or null when it could not be calculated.
+ */
+export function messageExitCode(hashMatch: boolean | null): number {
+  if (hashMatch === null) return EXIT_ERROR;
+  return hashMatch ? EXIT_OK : EXIT_HASH_MISMATCH;
+}
@@ -0,0 +1,83 @@
+/**
+ * Machine-readable output for CLI commands
+ *
+ * Reports are plain JSON so CI jobs and signing bots can consume them
+ * without scraping the coloured text output.
+ */
+
+import type {
+  ConfirmationsCheckResult,
+  DecodedTransactionData,
+  DecodeVerificationResult,
+  DeviceDisplay,
+  HashMismatchDiagnosis,
+  MultiSendVerification,
+  SafeApiDataDecoded,
+  SafeTransactionData,
+  SafeTxTypedDataCheck,
+  SecurityAnalysisResult,
+} from '@shield3/sky-safe-core';
+import type { Address, Hex } from 'viem';
+
+/** Output formats accepted by `--format`. */
+export type OutputFormat = 'text' | 'json' | 'ndjson';
+
+export const OUTPUT_FORMATS: readonly OutputFormat[] = ['text', 'json', 'ndjson'];
+
+/**
+ * Everything `sky-safe verify` checked, in one object
+ */
+export interface VerifyJsonReport {
+  network: { name: string; chainId: number };
+  safe: Address;
+  nonce: number;
+  safeVersion: string;
+  transaction: SafeTransactionData;
+  hashes:
+    | {
+        domainHash: Hex;
+        messageHash: Hex;
+        safeTxHash: Hex;
+        apiSafeTxHash: Hex;
+        match: boolean;
+        /** Which single change reproduces the API hash (null when the hashes match) */
+        diagnosis: HashMismatchDiagnosis | null;
+      }
+    | { error: string; apiSafeTxHash: Hex; match: false };
+  decoding: {
+    api: SafeApiDataDecoded | null;
+    apiVerification: DecodeVerificationResult | null;
+    custom: DecodedTransactionData | null;
+    hasCustomDecoder: boolean;
+  };
+  multiSend: MultiSendVerification | null;
+  /** Only for --builder-file: the batch name and whether its checksum matches (null: no checksum) */
+  transactionBuilder?: { name: string | null; checksumValid: boolean | null };
+  /** Only for --typed-data: the typed data's own hash, its domain and any schema or domain problems */
+  typedData?: Omit<SafeTxTypedDataCheck, 'txData'>;
+  /** Only with --device, and only when the hash verified: the hashes as the device shows them */
+  deviceDisplay?: DeviceDisplay;
+  confirmations: ConfirmationsCheckResult | null;
+  security: SecurityAnalysisResult;
+  verdict: { hashMatch: boolean; decodeMismatch: boolean; highRisk: boolean; exitCode: number };
+}
+
+/**
+ * Parse a `--format` value
+ */
+export function parseOutputFormat(value: string): OutputFormat {
+  if (!(OUTPUT_FORMATS as readonly string[]).includes(value)) {
+    throw new Error(`Invalid format: ${value}. Must be one of ${OUTPUT_FORMATS.join(', ')}.`);
+  }
+  return value as OutputFormat;
+}
+
+/**
+ * Serialise a report. `json` is indented for people; `ndjson` is a single
+ * line so several runs can be appended to one log. Decoded parameters may be
+ * bigints, which are written as decimal strings.
+ */
+export function formatJson(report: unknown, format: Exclude<OutputFormat, 'text'>): string {
+  const replacer = (_key: string, value: unknown) => (typeof value === 'bigint' ? value.toString() : value);
+  return format === 'ndjson' ? JSON.stringify(report, replacer) : JSON.stringify(report, replacer, 2);
+}
@@ -9,10 +9,31 @@ import type {
   DecodedTransactionData,
   DecodedFunction,
   SecurityAnalysisResult,
+  ConfirmationsCheckResult,
   SafeApiDataDecoded,
   DecodeVerificationStatus,
+  SafeApiMessage,
+  SafeMessage,
+  SafeTransactionData,
+  SafeApiSafeInfo,
+  SafeConfigCheckResult,
+  SafeConfigEntry,
+  OwnerStatePreview,
+  AssetOutflow,
+  HashMismatchDiagnosis,
+  SafeTxTypedDataCheck,
+  DeviceDisplay,
+  HashChallenge,
+  HashChallengeResult,
+} from '@shield3/sky-safe-core';
+import {
+  describeHashChunk,
+  differingCharacters,
+  formatUnitsLoose,
+  getAddressTag,
+  isApiFallbackSentinel,
+  isTypedDataMessage,
 } from '@shield3/sky-safe-core';
-import { getAddressTag, isApiFallbackSentinel } from '@shield3/sky-safe-core';
 import type { Address } from 'viem';
 
 /**
@@ -156,8 +177,7 @@ export function printDecodedData(
  * Print nested transaction data with Safe API decoding and verification
  */
 export function printNestedTransactionData(
-  index: number,
-  total: number,
+  position: string,
   to: string,
   value: string,
   operation: number,
@@ -166,7 +186,7 @@ export function printNestedTransactionData(
   customDecoded?: DecodedTransactionData | null,
   verification?: { verified: boolean; status?: DecodeVerificationStatus; error?: string } | null
 ): void {
-  console.log(chalk.bold.cyan(`\n[Transaction ${index + 1}/${total}]`));
+  console.log(chalk.bold.cyan(`\n[Transaction ${position}]`));
   console.log(chalk.dim('─'.repeat(50)));
 
   // Print nested transaction details
@@ -306,6 +326,121 @@ export function printSafeTxHash(hash: string): void {
   console.log(chalk.green(hash));
 }
 
+/**
+ * Print transaction fields supplied directly (no Safe API response)
+ */
+export function printSafeTransactionFields(safeAddress: string, chainId: number, txData: SafeTransactionData): void {
+  printHeader('Transaction Data');
+  printField('Safe address', safeAddress);
+  printField('Chain ID', chainId);
+
+  const tag = getAddressTag(txData.to);
+  if (tag) {
+    console.log(`To: ${chalk.green(txData.to)} ${chalk.blue(`[${tag.label}]`)}`);
+    console.log(`    ${chalk.dim(tag.description)}`);
+  } else {
+    printField('To', txData.to);
+  }
+
+  printField('Value', `${txData.value.toString()} wei`);
+  printField('Data', txData.data);
+  printField('Operation', txData.operation === 0 ? 'Call' : txData.operation === 1 ? 'DelegateCall' : 'Unknown');
+  printField('Safe Transaction Gas', txData.safeTxGas.toString());
+  printField('Base Gas', txData.baseGas.toString());
+  printField('Gas Price', txData.gasPrice.toString());
+  printField('Gas Token', txData.gasToken);
+  printField('Refund Receiver', txData.refundReceiver);
+  printField('Nonce', txData.nonce.toString());
+}
+
+/**
+ * Print computed hashes with nothing to compare them against
+ */
+export function printComputedHashes(domainHash: string, messageHash: string, safeTxHash: string, version: string): void {
+  console.log(`\n${chalk.dim('Safe Version')}: ${chalk.cyan(version)}`);
+
+  printHeader('Computed Hashes');
+
+  console.log(chalk.dim('Domain Hash:'));
+  console.log(chalk.green(domainHash));
+
+  console.log(chalk.dim('\nMessage Hash:'));
+  console.log(chalk.green(messageHash));
+
+  console.log(chalk.dim('\nsafeTxHash:'));
+  console.log(chalk.green(safeTxHash));
+
+  console.log(chalk.dim('\nCompare these with what your hardware wallet displays before signing.'));
+}
+
+/**
+ * Print what a Transaction Builder batch's hash check means: nobody proposed
+ * it, so the safeTxHash is the one to expect, not one that was checked
+ */
+export function printTransactionBuilderNotice(name: string | null, checksumValid: boolean | null): void {
+  console.log(chalk.blue(`\nℹ️  Transaction Builder batch${name ? ` "${name}"` : ''}, not proposed yet`));
+  console.log(chalk.dim('  The safeTxHash below is calculated here. Propose the batch only if your wallet'));
+  console.log(chalk.dim('  shows the same hash when you sign it.'));
+  if (checksumValid === false) {
+    console.log(chalk.yellow('  ⚠️  The batch checksum does not match: the file was changed after it was exported.'));
+  } else if (checksumValid === null) {
+    console.log(chalk.dim('  The batch has no checksum.'));
+  }
+}
+
+/**
+ * Print the checks of SafeTx typed data: whether its types are the Safe's
+ * schema and its domain names this Safe and chain
+ */
+export function printTypedDataCheck(check: SafeTxTypedDataCheck, version: string): void {
+  console.log(chalk.blue('\nℹ️  SafeTx typed data (eth_signTypedData_v4), not a Safe API record'));
+  console.log(chalk.dim('  "safeTxHash (API)" below is the hash of the typed data as given: the hash your'));
+  console.log(chalk.dim('  wallet shows when it signs it.'));
+  if (check.schemaErrors.length === 0) {
+    console.log(chalk.green(`  ✓ Types match the SafeTx schema of Safe v${version}`));
+  }
+  for (const error of check.schemaErrors) {
+    console.log(chalk.red(`  ✗ ${error}`));
+  }
+  if (check.domainMismatches.length === 0) {
+    console.log(chalk.green('  ✓ Domain names this Safe and chain'));
+  }
+  for (const mismatch of check.domainMismatches) {
+    console.log(chalk.red(`  ✗ ${mismatch}`));
+  }
+}
+
+/**
+ * Print the hashes as a hardware wallet shows them, screen by screen, for a
+ * line-by-line comparison with the device
+ */
+export function printDeviceDisplay(display: DeviceDisplay): void {
+  console.log(chalk.bold(`\n📟 On your ${display.name}`));
+  console.log(chalk.dim('  Compare each screen with the device, line by line.'));
+  for (const screen of display.screens) {
+    const page = screen.pages > 1 ? ` (${screen.page}/${screen.pages})` : '';
+    console.log(chalk.dim(`\n  ${screen.label}${page}`));
+    for (const line of screen.lines) {
+      console.log(`    ${chalk.cyan(line)}`);
+    }
+  }
+}
+
+/**
+ * Print the outcome of a hash confirmation challenge
+ */
+export function printHashChallengeResult(challenge: HashChallenge, result: HashChallengeResult): void {
+  if (result.match) {
+    console.log(chalk.bold.green('\n✓ CHALLENGE PASSED: Your hardware wallet shows the calculated safeTxHash'));
+  } else {
+    console.log(chalk.bold.red('\n✗ CHALLENGE FAILED: What you typed is not the calculated safeTxHash'));
+    console.log(chalk.red(`  Wrong: ${result.wrongChunks.map(describeHashChunk).join(', ')}`));
+    console.log(chalk.red('  DO NOT SIGN unless you mistyped. Check the device screen and run the challenge again.'));
+  }
+  console.log(chalk.dim('\nsafeTxHash:'));
+  console.log(chalk.green(challenge.safeTxHash));
+}
+
 /**
  * Print hash calculation results and verification
  * Reference: bash script lines 480-485, 664-673
@@ -316,7 +451,9 @@ export function printHashVerification(
   calculatedHash: string,
   apiHash: string,
   isValid: boolean,
-  version: string
+  version: string,
+  diagnosis: HashMismatchDiagnosis | null = null,
+  hideSafeTxHash = false
 ): void {
   console.log(`\n${chalk.dim('Safe Version')}: ${chalk.cyan(version)}`);
 
@@ -329,11 +466,13 @@ export function printHashVerification(
   console.log(chalk.dim('\nMessage Hash:'));
   console.log(chalk.green(messageHash));
 
+  // Hidden for the confirmation challenge, so the signer reads it off the device
+  const hidden = chalk.dim('(hidden: type it from your hardware wallet below)');
   console.log(chalk.dim('\nsafeTxHash (Calculated):'));
-  console.log(chalk.green(calculatedHash));
+  console.log(hideSafeTxHash ? hidden : chalk.green(calculatedHash));
 
   console.log(chalk.dim('\nsafeTxHash (API):'));
-  console.log(chalk.green(apiHash));
+  console.log(hideSafeTxHash ? hidden : chalk.green(apiHash));
 
   // Verification result
   console.log();
@@ -344,10 +483,130 @@ export function printHashVerification(
   } else {
     console.log(chalk.bold.red('✗ HASH MISMATCH: Calculated hash does NOT match API hash'));
     console.log(chalk.red('  DO NOT SIGN THIS TRANSACTION!'));
-    console.log(chalk.yellow('  This indicates a potential issue with:'));
-    console.log(chalk.yellow('    - Transaction data from the API'));
-    console.log(chalk.yellow('    - Safe version mismatch'));
-    console.log(chalk.yellow('    - Hash calculation implementation'));
+    if (diagnosis) {
+      printHashDiagnosis(diagnosis);
+    } else {
+      console.log(chalk.yellow('  This indicates a potential issue with:'));
+      console.log(chalk.yellow('    - Transaction data from the API'));
+      console.log(chalk.yellow('    - Safe version mismatch'));
+      console.log(chalk.yellow('    - Hash calculation implementation'));
+    }
+  }
+}
+
+/**
+ * Print which single change, if any, reproduces the API hash
+ * @param diagnosis - Result of diagnoseHashMismatch
+ */
+function printHashDiagnosis(diagnosis: HashMismatchDiagnosis): void {
+  printHeader('Mismatch Diagnosis');
+  console.log(chalk.yellow(diagnosis.summary));
+  for (const match of diagnosis.matches) {
+    console.log(chalk.dim(`  ${match.parameter}: ${match.original} → ${match.replacement}`));
+  }
+  if (diagnosis.matches.length === 0) {
+    const tried = [...new Set(diagnosis.candidates.map((candidate) => candidate.parameter))];
+    console.log(chalk.dim(`  Tried: ${tried.join(', ')}`));
+  }
+}
+
+/**
+ * Print per-signer confirmation signature checks
+ * @param result - Confirmation check result
+ * @param ownersKnown - Whether the current owner list was available
+ */
+export function printConfirmationChecks(result: ConfirmationsCheckResult, ownersKnown: boolean): void {
+  printHeader('Confirmation Signatures');
+
+  for (const check of result.checks) {
+    const badge =
+      check.status === 'valid'
+        ? chalk.green('✓ Valid')
+        : check.status === 'unverifiable'
+          ? chalk.dim('- Not verified')
+          : check.status === 'not-owner'
+            ? chalk.red('⚠ Not an owner')
+            : chalk.bold.red('✗ Invalid');
+    console.log(`${check.owner} ${chalk.dim(`(${check.signatureType})`)} ${badge}`);
+    if (check.status !== 'valid') {
+      const color = check.status === 'unverifiable' ? chalk.dim : chalk.red;
+      console.log(color(`  ${check.message}`));
+    }
+  }
+
+  console.log(chalk.dim(`\n${result.validCount}/${result.checks.length} signature(s) verified offline`));
+  if (!ownersKnown) {
+    console.log(chalk.dim('  Current owners unknown (local file) — signers were not checked against the owner list.'));
+  }
+
+  if (result.warningLevel === 'critical') {
+    console.log(chalk.bold.red('\n✗ SIGNATURE MISMATCH: a confirmation was not signed by its claimed owner'));
+    console.log(chalk.red('  The Safe API is reporting confirmations that do not match this transaction.'));
+  } else if (result.warningLevel === 'high') {
+    console.log(chalk.red('\n⚠️  A confirmation comes from an address that is not a current owner'));
+  }
+}
+
+/**
+ * Print the owner set and threshold before and after an owner change
+ */
+function printOwnerStatePreview(preview: OwnerStatePreview): void {
+  const ownerLine = (owner: string, marker: string, color: (text: string) => string) => {
+    const tag = getAddressTag(owner as Address);
+    console.log(color(`    ${marker} ${owner}${tag ? ` [${tag.label}]` : ''}`));
+  };
+
+  console.log(chalk.dim('\n  Owners before:'));
+  for (const owner of preview.ownersBefore) {
+    const removed = preview.removed.includes(owner);
+    ownerLine(owner, removed ? '-' : ' ', removed ? chalk.red : chalk.dim);
+  }
+  console.log(chalk.dim(`  Threshold before: ${preview.thresholdBefore} of ${preview.ownersBefore.length}`));
+
+  if (preview.reverts) {
+    const failed = preview.steps[preview.steps.length - 1];
+    console.log(chalk.bold.red(`\n  ✗ This transaction would revert at ${failed?.functionName}:`));
+    console.log(chalk.red(`    ${failed?.revertReason}`));
+  } else {
+    console.log(chalk.dim('\n  Owners after:'));
+    for (const owner of preview.ownersAfter) {
+      const added = preview.added.includes(owner);
+      ownerLine(owner, added ? '+' : ' ', added ? chalk.yellow : chalk.dim);
+    }
+    console.log(chalk.dim(`  Threshold after: ${preview.thresholdAfter} of ${preview.ownersAfter.length}`));
+  }
+
+  for (const finding of preview.findings) {
+    if (finding.step !== undefined && preview.reverts) continue; // already shown above
+    const color = finding.warningLevel === 'medium' ? chalk.yellow : chalk.red;
+    console.log(color(`  ⚠ ${finding.message}`));
+  }
+}
+
+/**
+ * Print what the transaction sends out of the Safe, per asset and recipient,
+ * against the large-transfer thresholds. Shown even when nothing is above a
+ * threshold, so the totals are visible at a glance.
+ */
+function printOutflows(outflows: AssetOutflow[]): void {
+  if (outflows.length === 0) return;
+  const exceeded = outflows.some((outflow) => outflow.exceedsThreshold);
+  console.log(
+    exceeded ? chalk.bold.red('\n⚠️  LARGE TRANSFERS OUT OF THE SAFE') : chalk.bold('\nOutflow from the Safe')
+  );
+  for (const outflow of outflows) {
+    const count = outflow.transferCount > 1 ? ` in ${outflow.transferCount} transfers` : '';
+    const threshold =
+      outflow.threshold !== undefined
+        ? ` (threshold ${formatUnitsLoose(outflow.threshold, outflow.decimals, { group: true })} ${outflow.symbol})`
+        : '';
+    const total = `  • ${outflow.formattedTotal}${count}`;
+    console.log(`${outflow.exceedsThreshold ? chalk.red(total) : total}${chalk.dim(threshold)}`);
+    for (const recipient of outflow.recipients) {
+      const tag = getAddressTag(recipient.recipient);
+      const label = tag ? chalk.cyan(` (${tag.label})`) : '';
+      console.log(chalk.dim(`      → ${recipient.recipient}`) + label + chalk.dim(`: ${recipient.formattedAmount}`));
+    }
   }
 }
 
@@ -356,6 +615,13 @@ export function printHashVerification(
  * Reference: bash script lines 789-853 (security checks)
  */
 export function printSecurityWarnings(analysis: SecurityAnalysisResult): void {
+  const { policy } = analysis;
+  if (policy.hasPolicy && policy.violations.length === 0) {
+    console.log(chalk.green(`\n✓ Complies with the Safe's policy${policy.label ? ` (${policy.label})` : ''}`));
+  }
+
+  printOutflows(analysis.valueTransfers.outflows);
+
   // Overall risk header
   if (analysis.overallRisk === 'none') {
     console.log(chalk.green('\n✓ No security risks detected'));
@@ -388,6 +654,20 @@ export function printSecurityWarnings(analysis: SecurityAnalysisResult): void {
     console.log(chalk.dim('  Target: ' + analysis.delegateCall.targetAddress));
   }
 
+  // Delegatecalls made from inside a MultiSend batch
+  if (analysis.delegateCall.nestedDelegateCalls.length > 0) {
+    console.log(chalk.bold.red('\n⚠️  DELEGATE CALLS INSIDE THE BATCH'));
+    for (const nested of analysis.delegateCall.nestedDelegateCalls) {
+      if (nested.warning) {
+        console.log((nested.warningLevel === 'critical' ? chalk.red : chalk.yellow)(nested.warning));
+      } else {
+        console.log(
+          chalk.dim(`  batch call ${nested.batchPath.join('.')}: trusted delegate call to ${nested.targetAddress}`)
+        );
+      }
+    }
+  }
+
   // Gas token warnings
   if (analysis.gasToken.warnings.length > 0) {
     console.log(chalk.bold.red('\n⚠️  GAS TOKEN WARNINGS'));
@@ -415,6 +695,10 @@ export function printSecurityWarnings(analysis: SecurityAnalysisResult): void {
       const nestedTag = mod.isNested ? ' (nested in MultiSend)' : ' (direct call)';
       console.log(chalk.red(`    • ${mod.functionName}${nestedTag}`));
     }
+
+    if (analysis.ownerModification.preview) {
+      printOwnerStatePreview(analysis.ownerModification.preview);
+    }
   }
 
   // Module/Guard warnings
@@ -435,9 +719,273 @@ export function printSecurityWarnings(analysis: SecurityAnalysisResult): void {
     }
   }
 
+  // Fallback handler / singleton upgrade warnings
+  if (analysis.safeUpgrade.warnings && analysis.safeUpgrade.warnings.length > 0) {
+    console.log(chalk.bold.red('\n⚠️  FALLBACK HANDLER / SINGLETON UPGRADE'));
+    for (const warning of analysis.safeUpgrade.warnings) {
+      console.log(chalk.red(warning));
+    }
+
+    console.log(chalk.dim('\n  Detected operations:'));
+    for (const detection of analysis.safeUpgrade.detections) {
+      const nestedTag = detection.isNested ? ' (nested in MultiSend)' : ' (direct call)';
+      const canonicalTag = detection.deployment ? ` [CANONICAL v${detection.deployment.version}]` : ' [NON-CANONICAL]';
+      const targetInfo = detection.targetAddress ? ` → ${detection.targetAddress}` : '';
+      console.log(chalk.red(`    • ${detection.functionName}${targetInfo}${canonicalTag}${nestedTag}`));
+    }
+  }
+
+  // Malformed or too deeply nested MultiSend payload
+  if (analysis.multiSend.warnings && analysis.multiSend.warnings.length > 0) {
+    const color = analysis.multiSend.warningLevel === 'critical' ? chalk.red : chalk.yellow;
+    console.log(color.bold('\n⚠️  MULTISEND STRUCTURE'));
+    for (const warning of analysis.multiSend.warnings) {
+      console.log(color(warning));
+    }
+  }
+
+  // Addresses imitating a known one (address poisoning)
+  if (analysis.lookalike.matches.length > 0) {
+    console.log(chalk.bold.red('\n⚠️  LOOKALIKE ADDRESSES'));
+    for (const match of analysis.lookalike.matches) {
+      const differs = differingCharacters(match.address, match.resembles);
+      const highlighted = [...match.address].map((char, i) => (differs[i] ? chalk.bgRed.white(char) : char)).join('');
+      console.log(chalk.red(`  • ${highlighted} looks like ${match.label}`));
+      console.log(chalk.dim(`    ${match.label}: ${match.resembles}`));
+    }
+  }
+
+  // Token approvals that are unlimited or go to spenders outside the address book
+  if (analysis.tokenApprovals.warnings && analysis.tokenApprovals.warnings.length > 0) {
+    const color = analysis.tokenApprovals.warningLevel === 'high' ? chalk.red : chalk.yellow;
+    console.log(color.bold('\n⚠️  TOKEN APPROVALS'));
+    for (const approval of analysis.tokenApprovals.approvals) {
+      if (approval.warning) {
+        console.log((approval.warningLevel === 'high' ? chalk.red : chalk.yellow)(`  • ${approval.warning}`));
+        if (approval.expiration !== undefined) {
+          console.log(chalk.dim(`    Expires: ${new Date(approval.expiration * 1000).toISOString()}`));
+        }
+      } else {
+        const what = approval.isRevocation ? 'revokes' : 'approves';
+        console.log(chalk.dim(`  • ${approval.functionName} ${what} ${approval.spenderLabel ?? approval.spender}`));
+      }
+    }
+  }
+
+  // Signatures valid on other chains (Safes at v1.2.0 and older)
+  const replay = analysis.crossChainReplay;
+  if (replay.warnings && replay.warnings.length > 0) {
+    const color =
+      replay.warningLevel === 'high' ? chalk.red : replay.warningLevel === 'medium' ? chalk.yellow : chalk.blue;
+    console.log(color.bold('\n⚠️  CROSS-CHAIN REPLAY'));
+    for (const warning of replay.warnings) {
+      console.log(color(`  • ${warning}`));
+    }
+    for (const exposure of replay.exposures) {
+      const shared = exposure.sharedOwners ? `, ${exposure.sharedOwners.length} shared owner(s)` : '';
+      console.log(
+        chalk.dim(`    ${exposure.network} (chainId ${exposure.chainId}): Safe nonce ${exposure.safeNonce}${shared}`)
+      );
+    }
+  }
+
+  // Nonce against the Safe's current nonce and queue
+  if (analysis.nonce.warnings && analysis.nonce.warnings.length > 0) {
+    const color = analysis.nonce.warningLevel === 'medium' ? chalk.yellow : chalk.blue;
+    console.log(color.bold(`\n⚠️  NONCE (Safe is at nonce ${analysis.nonce.safeNonce})`));
+    for (const finding of analysis.nonce.findings) {
+      console.log((finding.warningLevel === 'medium' ? chalk.yellow : chalk.blue)(`  • ${finding.message}`));
+    }
+    for (const safeTxHash of analysis.nonce.competingProposals) {
+      console.log(chalk.dim(`    Competing: ${safeTxHash}`));
+    }
+  }
+
+  // Who proposed the transaction
+  const proposer = analysis.proposer;
+  if (proposer.warnings && proposer.warnings.length > 0) {
+    const color =
+      proposer.warningLevel === 'high' ? chalk.red : proposer.warningLevel === 'medium' ? chalk.yellow : chalk.blue;
+    console.log(color.bold(`\n⚠️  PROPOSER${proposer.label ? ` (${proposer.label})` : ''}`));
+    for (const warning of proposer.warnings) {
+      console.log(color(`  • ${warning}`));
+    }
+  }
+
+  // Per-Safe policy violations
+  if (policy.violations.length > 0) {
+    console.log(chalk.bold.red(`\n⚠️  POLICY VIOLATIONS${policy.label ? ` (${policy.label})` : ''}`));
+    for (const violation of policy.violations) {
+      console.log(chalk.red(`  • ${violation.message}`));
+    }
+  }
+
   // Final warning if requires careful review
   if (analysis.requiresCarefulReview) {
     console.log(chalk.bold.red('\n⚠️  This transaction requires CAREFUL REVIEW before signing!'));
     console.log(chalk.yellow('  Please verify all parameters and ensure you understand the implications.'));
   }
 }
+
+const CONFIG_ROLE_LABELS: Record<SafeConfigEntry['role'], string> = {
+  owner: 'Owner',
+  module: 'Module',
+  guard: 'Guard',
+  fallbackHandler: 'Fallback handler',
+  masterCopy: 'MasterCopy',
+};
+
+function printConfigEntry(entry: SafeConfigEntry): void {
+  if (entry.status === 'unset') {
+    console.log(`${CONFIG_ROLE_LABELS[entry.role]}: ${chalk.dim('not set')}`);
+    return;
+  }
+  const label = entry.label ? ` ${chalk.blue(`[${entry.label}]`)}` : '';
+  const badge =
+    entry.status === 'trusted'
+      ? chalk.green('✓ Trusted')
+      : entry.status === 'address-book'
+        ? chalk.green('✓ Address book')
+        : entry.status === 'unchecked'
+          ? chalk.dim('- Not checked')
+          : entry.warningLevel === 'critical'
+            ? chalk.bold.red('✗ Unknown')
+            : chalk.red(entry.status === 'inactive' ? '⚠ Inactive' : '⚠ Unknown');
+  console.log(`${CONFIG_ROLE_LABELS[entry.role]}: ${chalk.green(entry.address)}${label} ${badge}`);
+  if (entry.message) {
+    console.log(chalk.red(`  ${entry.message}`));
+  }
+}
+
+/**
+ * Print a Safe's configuration with the result of checking each address
+ */
+export function printSafeConfiguration(info: SafeApiSafeInfo, config: SafeConfigCheckResult): void {
+  printHeader('Safe Configuration');
+  printField('Safe address', info.address);
+  printField('Version', info.version);
+  printField('Nonce', info.nonce);
+  printField('Threshold', `${config.threshold} of ${info.owners.length}`);
+
+  printHeader('Owners');
+  for (const entry of config.entries.filter((e) => e.role === 'owner')) {
+    printConfigEntry(entry);
+  }
+  if (!config.addressBookLoaded) {
+    console.log(chalk.dim('  No address book loaded (--address-book) — owners were not checked.'));
+  }
+
+  printHeader('Modules');
+  const modules = config.entries.filter((e) => e.role === 'module');
+  if (modules.length === 0) {
+    console.log(chalk.dim('None enabled'));
+  }
+  for (const entry of modules) {
+    printConfigEntry(entry);
+  }
+
+  printHeader('Contracts');
+  for (const entry of config.entries.filter((e) => e.role !== 'owner' && e.role !== 'module')) {
+    printConfigEntry(entry);
+  }
+
+  const entries = config.warnings.length === 1 ? 'entry needs' : 'entries need';
+  const flagged = `${config.warnings.length} configuration ${entries} review`;
+  if (config.warnings.length === 0) {
+    console.log(chalk.green('\n✓ Every configured address is trusted or in the address book'));
+  } else if (config.warningLevel === 'critical' || config.warningLevel === 'high') {
+    console.log(chalk.bold.red(`\n⚠️  ${flagged}`));
+  } else {
+    console.log(chalk.yellow(`\n⚠ ${flagged}`));
+  }
+}
+
+/**
+ * Print an off-chain Safe message from the Safe API
+ */
+export function printSafeMessage(msg: SafeApiMessage, message: SafeMessage): void {
+  printHeader('Message Data');
+  printField('Safe address', msg.safe);
+  printField('Proposed by', msg.proposedBy);
+  printField('Created', msg.created);
+  if (msg.origin) {
+    printField('Origin', msg.origin);
+  }
+  printField('Confirmations', msg.confirmations.length);
+  for (const confirmation of msg.confirmations) {
+    console.log(`  ${chalk.dim('•')} ${confirmation.owner} ${chalk.dim(`(${confirmation.signatureType})`)}`);
+  }
+
+  if (isTypedDataMessage(message)) {
+    printHeader('Typed Data (EIP-712)');
+    printField('Primary type', message.primaryType);
+    console.log('Domain:');
+    for (const [key, value] of Object.entries(message.domain)) {
+      console.log(`  ${chalk.dim(key)}: ${chalk.cyan(String(value))}`);
+    }
+
+    // The domain's verifyingContract names the contract the signature is
+    // meant for. Label it the same way transaction targets are labelled.
+    const verifyingContract = message.domain.verifyingContract;
+    if (typeof verifyingContract === 'string') {
+      const tag = getAddressTag(verifyingContract as Address);
+      if (tag) {
+        console.log(`  ${chalk.blue(`[${tag.label}]`)} ${chalk.dim(tag.description)}`);
+      }
+    }
+
+    console.log(`Message (${chalk.dim(message.primaryType)}):`);
+    for (const line of JSON.stringify(message.message, null, 2).split('\n')) {
+      console.log(`  ${chalk.cyan(line)}`);
+    }
+  } else {
+    printHeader('Message (EIP-191)');
+    const text = typeof message === 'string' ? message : message.raw;
+    console.log(chalk.cyan(text));
+  }
+}
+
+/**
+ * Print SafeMessage hash calculation results and verification
+ */
+export function printMessageHashVerification(
+  rawMessageHash: string,
+  domainHash: string,
+  messageHash: string,
+  calculatedHash: string,
+  apiHash: string,
+  isValid: boolean,
+  version: string
+): void {
+  console.log(`\n${chalk.dim('Safe Version')}: ${chalk.cyan(version)}`);
+
+  printHeader('Computed Hashes');
+
+  console.log(chalk.dim('Raw Message Hash:'));
+  console.log(chalk.green(rawMessageHash));
+
+  console.log(chalk.dim('\nDomain Hash:'));
+  console.log(chalk.green(domainHash));
+
+  console.log(chalk.dim('\nMessage Hash:'));
+  console.log(chalk.green(messageHash));
+
+  console.log(chalk.dim('\nSafeMessage Hash (Calculated):'));
+  console.log(chalk.green(calculatedHash));
+
+  console.log(chalk.dim('\nSafeMessage Hash (API):'));
+  console.log(chalk.green(apiHash));
+
+  console.log();
+  if (isValid) {
+    console.log(chalk.bold.green('✓ HASH VERIFIED: Calculated hash matches API hash'));
+    console.log(chalk.dim('  This is the hash you should see on your hardware wallet (e.g., Ledger).'));
+  } else {
+    console.log(chalk.bold.red('✗ HASH MISMATCH: Calculated hash does NOT match API hash'));
+    console.log(chalk.red('  DO NOT SIGN THIS MESSAGE!'));
+    console.log(chalk.yellow('  This indicates a potential issue with:'));
+    console.log(chalk.yellow('    - Message content from the API'));
+    console.log(chalk.yellow('    - Safe version mismatch'));
+    console.log(chalk.yellow('    - Hash calculation implementation'));
+  }
+}
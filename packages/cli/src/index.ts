@@ -12,6 +12,9 @@
 import { createRequire } from 'node:module'
 import { Command } from 'commander'
 import { createVerifyCommand } from './commands/verify.js'
+import { createMessageCommand } from './commands/message.js'
+import { createHashCommand } from './commands/hash.js'
+import { createInfoCommand } from './commands/info.js'
 
 // Read the version from package.json rather than repeating it here. The literal
 // that used to sit in this file said 0.1.5 while the package was 0.3.0, so
@@ -26,10 +29,22 @@ program
   .name('sky-safe')
   .description('Safe multisig transaction hash calculator and decoder')
   .version(version)
+  // Program options only before the subcommand, so `hash --version 1.3.0`
+  // reaches the subcommand instead of printing the CLI version.
+  .enablePositionalOptions()
 
 // Verify command - Fetch and display transaction
 program.addCommand(createVerifyCommand())
 
+// Message command - Fetch and verify an off-chain Safe message
+program.addCommand(createMessageCommand())
+
+// Hash command - Offline hash calculation from raw transaction fields
+program.addCommand(createHashCommand())
+
+// Info command - Safe owners, threshold, modules, guard and fallback handler
+program.addCommand(createInfoCommand())
+
 // Show help if no command provided
 if (process.argv.length === 2) {
   program.help()
@@ -0,0 +1,142 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { SafeApiClient } from './safe-client.js';
+import type { SafeApiMultisigTransaction } from '../types.js';
+
+const SAFE = '0xf65475e74C1Ed6d004d5240b06E3088724dFDA5d';
+const BASE = 'https://api.safe.global/tx-service/eth/api/v1/safes';
+
+const tx = (nonce: number) => ({ nonce, safeTxHash: `0x${nonce}` }) as unknown as SafeApiMultisigTransaction;
+
+/**
+ * Stub `fetch` with a handler that receives the request URL and returns the
+ * JSON body. Returns the list of requested URLs.
+ */
+function stubApi(handler: (url: URL) => unknown) {
+  const urls: URL[] = [];
+  vi.stubGlobal(
+    'fetch',
+    vi.fn(async (input: string) => {
+      const url = new URL(input);
+      urls.push(url);
+      return { ok: true, json: async () => handler(url) };
+    })
+  );
+  return urls;
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('SafeApiClient.fetchTransactionsPage', () => {
+  it('translates filters into Transaction Service query parameters', async () => {
+    const urls = stubApi(() => ({ count: 0, next: null, previous: null, results: [] }));
+    const client = new SafeApiClient('ethereum');
+
+    await client.fetchTransactionsPage(SAFE, {
+      executed: false,
+      nonceGte: 10,
+      nonceLte: 20,
+      modifiedSince: new Date('2026-01-01T00:00:00Z'),
+      pageSize: 50,
+    });
+
+    const params = urls[0]!.searchParams;
+    expect(urls[0]!.href.startsWith(`${BASE}/${SAFE}/multisig-transactions/`)).toBe(true);
+    expect(params.get('executed')).toBe('false');
+    expect(params.get('nonce__gte')).toBe('10');
+    expect(params.get('nonce__lte')).toBe('20');
+    expect(params.get('modified__gte')).toBe('2026-01-01T00:00:00.000Z');
+    expect(params.get('limit')).toBe('50');
+  });
+
+  it('keeps requests on its own service and Safe when following a cursor', async () => {
+    const urls = stubApi(() => ({ count: 0, next: null, previous: null, results: [] }));
+    const client = new SafeApiClient('ethereum');
+
+    await client.fetchTransactionsPage(
+      SAFE,
+      {},
+      'https://evil.example/api/v1/safes/0x0000000000000000000000000000000000000001/multisig-transactions/?limit=20&offset=40'
+    );
+
+    expect(urls[0]!.origin).toBe('https://api.safe.global');
+    expect(urls[0]!.pathname).toContain(SAFE);
+    expect(urls[0]!.searchParams.get('offset')).toBe('40');
+  });
+
+  it('rejects a malformed cursor without requesting anything', async () => {
+    const urls = stubApi(() => ({ count: 0, next: null, previous: null, results: [] }));
+    const client = new SafeApiClient('ethereum');
+
+    await expect(client.fetchTransactionsPage(SAFE, {}, 'not a url')).rejects.toThrow('Invalid page cursor: not a url');
+    expect(urls).toHaveLength(0);
+  });
+});
+
+describe('SafeApiClient.iterateTransactions', () => {
+  it('follows next links until the last page', async () => {
+    const pages: Record<string, unknown> = {
+      '0': {
+        count: 3,
+        next: `${BASE}/${SAFE}/multisig-transactions/?limit=2&offset=2`,
+        previous: null,
+        results: [tx(3), tx(2)],
+      },
+      '2': { count: 3, next: null, previous: null, results: [tx(1)] },
+    };
+    const urls = stubApi((url) => pages[url.searchParams.get('offset') ?? '0']);
+    const client = new SafeApiClient('ethereum');
+
+    const nonces: number[] = [];
+    for await (const t of client.iterateTransactions(SAFE, { pageSize: 2 })) {
+      nonces.push(t.nonce);
+    }
+
+    expect(nonces).toEqual([3, 2, 1]);
+    expect(urls).toHaveLength(2);
+  });
+
+  it('only fetches pages the caller consumes', async () => {
+    const urls = stubApi(() => ({
+      count: 100,
+      next: `${BASE}/${SAFE}/multisig-transactions/?offset=${Math.random()}`,
+      previous: null,
+      results: [tx(1), tx(2)],
+    }));
+    const client = new SafeApiClient('ethereum');
+
+    for await (const t of client.iterateTransactions(SAFE)) {
+      if (t.nonce === 2) break;
+    }
+
+    expect(urls).toHaveLength(1);
+  });
+
+  it('stops on a repeated or empty page instead of looping forever', async () => {
+    const loop = `${BASE}/${SAFE}/multisig-transactions/?offset=2`;
+    stubApi(() => ({ count: 100, next: loop, previous: null, results: [tx(1)] }));
+    const client = new SafeApiClient('ethereum');
+
+    const seen: SafeApiMultisigTransaction[] = [];
+    for await (const t of client.iterateTransactions(SAFE)) seen.push(t);
+    expect(seen).toHaveLength(2);
+
+    stubApi(() => ({ count: 100, next: loop, previous: null, results: [] }));
+    const empty: SafeApiMultisigTransaction[] = [];
+    for await (const t of client.iterateTransactions(SAFE)) empty.push(t);
+    expect(empty).toHaveLength(0);
+  });
+});
+
+describe('SafeApiClient.fetchDelegates', () => {
+  it('lists the delegates registered for a Safe', async () => {
+    const delegate = { safe: SAFE, delegate: '0x1', delegator: '0x2', label: 'bot', expiryDate: null };
+    const urls = stubApi(() => ({ count: 1, next: null, previous: null, results: [delegate] }));
+    const client = new SafeApiClient('ethereum');
+
+    expect(await client.fetchDelegates(SAFE)).toEqual([delegate]);
+    expect(urls[0]!.pathname).toBe('/tx-service/eth/api/v2/delegates/');
+    expect(urls[0]!.searchParams.get('safe')).toBe(SAFE);
+  });
+});
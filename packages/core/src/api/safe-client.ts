@@ -10,6 +10,10 @@ import type {
   SafeApiMultisigTransactionResponse,
   SafeApiMultisigTransaction,
   SafeApiSafeInfo,
+  SafeApiDelegate,
+  SafeApiDelegateResponse,
+  SafeApiMessage,
+  SafeApiMessageResponse,
 } from '../types.js'
 import { getNetwork } from './networks.js'
 
@@ -32,6 +36,40 @@ export class SafeApiError extends Error {
  */
 export type RetryCallback = (message: string, attempt: number, maxRetries: number, delay: number) => void
 
+/**
+ * Filters for listing a Safe's multisig transactions
+ */
+export interface SafeTransactionFilter {
+  /** true for executed transactions only, false for queued (not yet executed) only */
+  executed?: boolean
+  /** Lowest nonce to include */
+  nonceGte?: number
+  /** Highest nonce to include */
+  nonceLte?: number
+  /** Only transactions created or changed at or after this time */
+  modifiedSince?: Date | string
+  /** Transactions per request (default: 20) */
+  pageSize?: number
+}
+
+/**
+ * Build the Transaction Service query string for a filter
+ */
+function transactionFilterParams(filter: SafeTransactionFilter): URLSearchParams {
+  const params = new URLSearchParams()
+  params.set('limit', String(filter.pageSize ?? 20))
+  // Newest first, so the first page is the current queue and recent history
+  params.set('ordering', '-nonce')
+  if (filter.executed !== undefined) params.set('executed', String(filter.executed))
+  if (filter.nonceGte !== undefined) params.set('nonce__gte', String(filter.nonceGte))
+  if (filter.nonceLte !== undefined) params.set('nonce__lte', String(filter.nonceLte))
+  if (filter.modifiedSince !== undefined) {
+    const since = filter.modifiedSince instanceof Date ? filter.modifiedSince.toISOString() : filter.modifiedSince
+    params.set('modified__gte', since)
+  }
+  return params
+}
+
 /**
  * Retry a function with exponential backoff
  */
@@ -210,19 +248,55 @@ export class SafeApiClient {
    * Fetch all transactions for a Safe
    * Reference: https://docs.safe.global/core-api/transaction-service-reference/mainnet#List-Transactions
    *
+   * Returns the first page only. Use iterateTransactions() for full history.
+   *
    * @param safeAddress - Safe multisig address
    * @param limit - Maximum number of transactions to fetch (default: 20)
+   * @param filter - Optional executed/nonce/modified filters
    * @returns Transaction list response from Safe Transaction Service
    * @throws {SafeApiError} if request fails
    */
   async fetchTransactions(
     safeAddress: Address,
-    limit: number = 20
+    limit: number = 20,
+    filter: SafeTransactionFilter = {}
   ): Promise<SafeApiMultisigTransactionResponse> {
-    return retryWithBackoff(async () => {
-      const endpoint = `${this.baseUrl}/api/v1/safes/${safeAddress}/multisig-transactions/?limit=${limit}`
+    return this.fetchTransactionsPage(safeAddress, { ...filter, pageSize: limit })
+  }
+
+  /**
+   * Fetch one page of a Safe's transactions
+   *
+   * Pass the previous page's `next` link as `cursor` to continue. Only the
+   * link's query (offset, limit and filters) is used: the request always goes
+   * to this client's own service and Safe, so a tampered link cannot redirect
+   * it to another host or another Safe's history.
+   *
+   * @param safeAddress - Safe multisig address
+   * @param filter - Executed/nonce/modified filters and page size
+   * @param cursor - `next` (or `previous`) link from an earlier page
+   * @returns One page of results with its own `next`/`previous` links
+   * @throws {SafeApiError} if request fails
+   */
+  async fetchTransactionsPage(
+    safeAddress: Address,
+    filter: SafeTransactionFilter = {},
+    cursor?: string
+  ): Promise<SafeApiMultisigTransactionResponse> {
+    // A malformed cursor is the caller's mistake, not something to retry
+    let query = transactionFilterParams(filter)
+    if (cursor) {
+      try {
+        query = new URL(cursor).searchParams
+      } catch (error) {
+        throw new SafeApiError(`Invalid page cursor: ${cursor}`, undefined, error)
+      }
+    }
 
+    return retryWithBackoff(async () => {
       try {
+        const endpoint = `${this.baseUrl}/api/v1/safes/${safeAddress}/multisig-transactions/?${query}`
+
         const response = await fetch(endpoint)
 
         if (!response.ok) {
@@ -248,6 +322,42 @@ export class SafeApiClient {
     }, 3, 1000, this.onRetry)
   }
 
+  /**
+   * Iterate over every transaction of a Safe matching a filter, newest nonce
+   * first, following the service's `next` links one page at a time.
+   *
+   * Pages are only requested as the caller consumes them, so breaking out of
+   * the loop early stops fetching.
+   *
+   * @param safeAddress - Safe multisig address
+   * @param filter - Executed/nonce/modified filters and page size
+   * @throws {SafeApiError} if any page request fails
+   *
+   * @example
+   * for await (const tx of client.iterateTransactions(safe, { executed: false })) {
+   *   console.log(tx.nonce, tx.safeTxHash)
+   * }
+   */
+  async *iterateTransactions(
+    safeAddress: Address,
+    filter: SafeTransactionFilter = {}
+  ): AsyncGenerator<SafeApiMultisigTransaction, void, undefined> {
+    let cursor: string | undefined
+    // A link already followed, or an empty page that still claims a next one,
+    // would otherwise page forever.
+    const seen = new Set<string>()
+    do {
+      const page = await this.fetchTransactionsPage(safeAddress, filter, cursor)
+      yield* page.results
+      if (page.results.length === 0) return
+      cursor = page.next ?? undefined
+      if (cursor) {
+        if (seen.has(cursor)) return
+        seen.add(cursor)
+      }
+    } while (cursor)
+  }
+
   /**
    * Fetch Safe contract version
    * Port of bash script lines 1200-1204
@@ -287,6 +397,170 @@ export class SafeApiClient {
     }, 3, 1000, this.onRetry)
   }
 
+  /**
+   * Fetch Safe configuration: owners, threshold, nonce, modules, guard,
+   * fallback handler, singleton and version
+   *
+   * @param safeAddress - Safe multisig address
+   * @returns Safe info from Safe Transaction Service
+   * @throws {SafeApiError} if request fails (including after retries)
+   */
+  async fetchSafeInfo(safeAddress: Address): Promise<SafeApiSafeInfo> {
+    return retryWithBackoff(async () => {
+      const endpoint = `${this.baseUrl}/api/v1/safes/${safeAddress}/`
+
+      try {
+        const response = await fetch(endpoint)
+
+        if (!response.ok) {
+          throw new SafeApiError(
+            `Failed to fetch Safe info: ${response.statusText}`,
+            response.status
+          )
+        }
+
+        const data = (await response.json()) as SafeApiSafeInfo
+        return data
+      } catch (error) {
+        if (error instanceof SafeApiError) {
+          throw error
+        }
+
+        throw new SafeApiError(
+          `Failed to fetch Safe info: ${error instanceof Error ? error.message : String(error)}`,
+          undefined,
+          error
+        )
+      }
+    }, 3, 1000, this.onRetry)
+  }
+
+  /**
+   * Fetch the delegates registered for a Safe
+   * Reference: https://docs.safe.global/core-api/transaction-service-reference/mainnet#List-Delegates
+   *
+   * @param safeAddress - Safe multisig address
+   * @param limit - Maximum number of delegates to fetch (default: 100)
+   * @returns Delegates for this Safe, including ones registered for all of a delegator's Safes
+   * @throws {SafeApiError} if request fails
+   */
+  async fetchDelegates(
+    safeAddress: Address,
+    limit: number = 100
+  ): Promise<SafeApiDelegate[]> {
+    return retryWithBackoff(async () => {
+      const endpoint = `${this.baseUrl}/api/v2/delegates/?safe=${safeAddress}&limit=${limit}`
+
+      try {
+        const response = await fetch(endpoint)
+
+        if (!response.ok) {
+          throw new SafeApiError(
+            `Safe API request failed: ${response.statusText}`,
+            response.status
+          )
+        }
+
+        const data = (await response.json()) as SafeApiDelegateResponse
+        return data.results
+      } catch (error) {
+        if (error instanceof SafeApiError) {
+          throw error
+        }
+
+        throw new SafeApiError(
+          `Failed to fetch delegates: ${error instanceof Error ? error.message : String(error)}`,
+          undefined,
+          error
+        )
+      }
+    }, 3, 1000, this.onRetry)
+  }
+
+  /**
+   * Fetch off-chain messages for a Safe
+   * Reference: https://docs.safe.global/core-api/transaction-service-reference/mainnet#List-Messages
+   *
+   * @param safeAddress - Safe multisig address
+   * @param limit - Maximum number of messages to fetch (default: 20)
+   * @returns Message list response from Safe Transaction Service
+   * @throws {SafeApiError} if request fails
+   */
+  async fetchMessages(
+    safeAddress: Address,
+    limit: number = 20
+  ): Promise<SafeApiMessageResponse> {
+    return retryWithBackoff(async () => {
+      const endpoint = `${this.baseUrl}/api/v1/safes/${safeAddress}/messages/?limit=${limit}`
+
+      try {
+        const response = await fetch(endpoint)
+
+        if (!response.ok) {
+          throw new SafeApiError(
+            `Safe API request failed: ${response.statusText}`,
+            response.status
+          )
+        }
+
+        const data = (await response.json()) as SafeApiMessageResponse
+        return data
+      } catch (error) {
+        if (error instanceof SafeApiError) {
+          throw error
+        }
+
+        throw new SafeApiError(
+          `Failed to fetch messages: ${error instanceof Error ? error.message : String(error)}`,
+          undefined,
+          error
+        )
+      }
+    }, 3, 1000, this.onRetry)
+  }
+
+  /**
+   * Fetch a single off-chain message by its SafeMessage hash
+   * Reference: https://docs.safe.global/core-api/transaction-service-reference/mainnet#Get-Message
+   *
+   * @param messageHash - SafeMessage hash
+   * @returns Message from Safe Transaction Service
+   * @throws {SafeApiError} if request fails or no message found
+   */
+  async fetchMessage(messageHash: string): Promise<SafeApiMessage> {
+    return retryWithBackoff(async () => {
+      const endpoint = `${this.baseUrl}/api/v1/messages/${messageHash}/`
+
+      try {
+        const response = await fetch(endpoint)
+
+        if (response.status === 404) {
+          throw new SafeApiError(`No message found with hash ${messageHash}`, 404)
+        }
+
+        if (!response.ok) {
+          throw new SafeApiError(
+            `Safe API request failed: ${response.statusText}`,
+            response.status
+          )
+        }
+
+        const data = (await response.json()) as SafeApiMessage
+        return data
+      } catch (error) {
+        if (error instanceof SafeApiError) {
+          throw error
+        }
+
+        throw new SafeApiError(
+          `Failed to fetch message: ${error instanceof Error ? error.message : String(error)}`,
+          undefined,
+          error
+        )
+      }
+    }, 3, 1000, this.onRetry)
+  }
+
   /**
    * Get the network name for this client
    */
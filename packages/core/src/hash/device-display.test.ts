@@ -0,0 +1,59 @@
+/**
+ * Tests for hardware wallet display emulation
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { Hex } from 'viem';
+import { DEVICE_PROFILES, HARDWARE_WALLET_DEVICES, chunkHashForDevice, renderDeviceDisplay } from './device-display.js';
+
+// Nonce 434 of 0xf65475e74C1Ed6d004d5240b06E3088724dFDA5d on Ethereum
+const hashes = {
+  domainHash: '0xaf88393f1c14cf4d8f0b773c4f37cf80a29d606bed88e0fd8f61350debb3ac65' as Hex,
+  messageHash: '0x4d51fb13b155063239c656f466a7d1810bfa863edb4f96aad775643d4afe3675' as Hex,
+  safeTxHash: '0x57f5c1a8390932d29f5aa6e321a2e689c483a728fa5bccfc4ac7becb91239801' as Hex,
+};
+
+describe('chunkHashForDevice', () => {
+  it('should keep every character of the hash, in order', () => {
+    for (const device of HARDWARE_WALLET_DEVICES) {
+      const lines = chunkHashForDevice(hashes.safeTxHash, DEVICE_PROFILES[device]);
+      expect(lines.join('').replace(/ /g, '').toLowerCase()).toBe(hashes.safeTxHash);
+    }
+  });
+
+  it('should upper-case the digits but not the 0x prefix for Ledger', () => {
+    expect(chunkHashForDevice(hashes.domainHash, DEVICE_PROFILES.ledger)).toEqual([
+      '0xAF88393F1C14CF',
+      '4D8F0B773C4F37CF',
+      '80A29D606BED88E0',
+      'FD8F61350DEBB3AC',
+      '65',
+    ]);
+  });
+
+  it('should group characters within a line for Trezor', () => {
+    expect(chunkHashForDevice(hashes.messageHash, DEVICE_PROFILES.trezor)[0]).toBe('0x4d 51fb 13b1 5506 3239');
+  });
+});
+
+describe('renderDeviceDisplay', () => {
+  it('should show the domain and message hash on Ledger, over two screens each', () => {
+    const display = renderDeviceDisplay('ledger', hashes);
+
+    expect(display.name).toBe(DEVICE_PROFILES.ledger.name);
+    expect(display.screens.map((s) => [s.label, s.page, s.pages])).toEqual([
+      ['Domain hash', 1, 2],
+      ['Domain hash', 2, 2],
+      ['Message hash', 1, 2],
+      ['Message hash', 2, 2],
+    ]);
+    expect(display.screens[1]!.lines).toEqual(['65']);
+  });
+
+  it('should show only the safeTxHash on Keystone', () => {
+    const display = renderDeviceDisplay('keystone', hashes);
+
+    expect(new Set(display.screens.map((s) => s.label))).toEqual(new Set(['Safe Tx Hash']));
+    expect(display.screens.flatMap((s) => s.lines).join('')).toBe(hashes.safeTxHash);
+  });
+});
@@ -0,0 +1,162 @@
+/**
+ * Hardware Wallet Display Emulation
+ *
+ * When a hardware wallet cannot decode a Safe transaction it blind-signs it,
+ * and all the signer can check is the hashes on its screen. Each device shows
+ * a different subset of them (the domain and message hash, or only the final
+ * safeTxHash), in its own case and broken into its own lines and screens.
+ * Comparing against a 66-character hash laid out differently is where a
+ * signer's eye slips, so these profiles render the hashes exactly as the
+ * device lays them out, for a line-by-line comparison.
+ *
+ * The profiles follow each device's blind-signing screens for SafeTx typed
+ * data. A firmware update that changes the layout means updating the profile
+ * here.
+ */
+
+import type { Hex } from 'viem';
+import type { SafeTxHashResult } from './calculator.js';
+
+/**
+ * Hardware wallets with a display profile
+ */
+export type HardwareWalletDevice = 'ledger' | 'trezor' | 'keystone';
+
+/**
+ * Hash fields a device can show
+ */
+export type DisplayedHash = keyof SafeTxHashResult;
+
+/**
+ * How a device lays out the hashes it shows
+ */
+export interface DeviceProfile {
+  /** Device family, as signers know it */
+  name: string;
+  /** Hashes on the device's screens, in the order it shows them, with the device's label for each */
+  hashes: { field: DisplayedHash; label: string }[];
+  /** Hex digits in upper or lower case (the 0x prefix stays lowercase) */
+  uppercase: boolean;
+  /** Characters per line, 0x prefix included */
+  lineLength: number;
+  /** Characters per space-separated group within a line; 0 for none */
+  groupSize: number;
+  /** Lines per screen before the signer has to scroll or page */
+  linesPerScreen: number;
+}
+
+/**
+ * One screen of a device, as it displays a hash
+ */
+export interface DeviceScreen {
+  /** Label of the hash on this screen */
+  label: string;
+  /** Screen number for this hash, from 1 */
+  page: number;
+  /** Screens this hash takes */
+  pages: number;
+  /** Lines of the screen */
+  lines: string[];
+}
+
+/**
+ * What a device displays for a Safe transaction
+ */
+export interface DeviceDisplay {
+  device: HardwareWalletDevice;
+  name: string;
+  screens: DeviceScreen[];
+}
+
+/**
+ * Display profiles of the supported hardware wallets
+ */
+export const DEVICE_PROFILES: Record<HardwareWalletDevice, DeviceProfile> = {
+  // Ethereum app, blind signing: the EIP-712 domain and message hashes
+  ledger: {
+    name: 'Ledger (Nano S Plus, Nano X)',
+    hashes: [
+      { field: 'domainHash', label: 'Domain hash' },
+      { field: 'messageHash', label: 'Message hash' },
+    ],
+    uppercase: true,
+    lineLength: 16,
+    groupSize: 0,
+    linesPerScreen: 4,
+  },
+  // Hash-only typed data signing: the domain separator and message hashes
+  trezor: {
+    name: 'Trezor (Model One, Safe 3)',
+    hashes: [
+      { field: 'domainHash', label: 'Domain separator hash' },
+      { field: 'messageHash', label: 'Message hash' },
+    ],
+    uppercase: false,
+    lineLength: 20,
+    groupSize: 4,
+    linesPerScreen: 4,
+  },
+  // Only the final hash that is signed
+  keystone: {
+    name: 'Keystone',
+    hashes: [{ field: 'safeTxHash', label: 'Safe Tx Hash' }],
+    uppercase: false,
+    lineLength: 22,
+    groupSize: 0,
+    linesPerScreen: 3,
+  },
+};
+
+/**
+ * Devices with a display profile, in the order front-ends list them
+ */
+export const HARDWARE_WALLET_DEVICES = Object.keys(DEVICE_PROFILES) as HardwareWalletDevice[];
+
+/**
+ * Lay out one hash the way a device shows it.
+ *
+ * @param hash - The hash (0x-prefixed)
+ * @param profile - The device's profile
+ * @returns The hash's lines, 0x prefix included
+ */
+export function chunkHashForDevice(hash: Hex, profile: DeviceProfile): string[] {
+  const digits = hash.slice(2);
+  const text = `0x${profile.uppercase ? digits.toUpperCase() : digits.toLowerCase()}`;
+
+  const lines: string[] = [];
+  for (let i = 0; i < text.length; i += profile.lineLength) {
+    const line = text.slice(i, i + profile.lineLength);
+    lines.push(
+      profile.groupSize > 0 ? (line.match(new RegExp(`.{1,${profile.groupSize}}`, 'g')) ?? []).join(' ') : line
+    );
+  }
+  return lines;
+}
+
+/**
+ * Render exactly what a hardware wallet displays for a Safe transaction.
+ *
+ * @param device - The hardware wallet
+ * @param hashes - Hashes from `calculateSafeTxHash()`
+ * @returns The device's screens, in the order it shows them
+ *
+ * @example
+ * const display = renderDeviceDisplay('ledger', report.hashes);
+ * // display.screens[0] = { label: 'Domain hash', page: 1, pages: 2, lines: ['0xAF88393F1C14CF', ...] }
+ */
+export function renderDeviceDisplay(device: HardwareWalletDevice, hashes: SafeTxHashResult): DeviceDisplay {
+  const profile = DEVICE_PROFILES[device];
+
+  const screens = profile.hashes.flatMap(({ field, label }) => {
+    const lines = chunkHashForDevice(hashes[field], profile);
+    const pages = Math.ceil(lines.length / profile.linesPerScreen);
+    return Array.from({ length: pages }, (_, i) => ({
+      label,
+      page: i + 1,
+      pages,
+      lines: lines.slice(i * profile.linesPerScreen, (i + 1) * profile.linesPerScreen),
+    }));
+  });
+
+  return { device, name: profile.name, screens };
+}
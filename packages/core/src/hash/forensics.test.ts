@@ -0,0 +1,85 @@
+/**
+ * Tests for hash mismatch forensics
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { Address, Hex } from 'viem';
+import { calculateSafeTxHash } from './calculator.js';
+import { diagnoseHashMismatch } from './forensics.js';
+import type { SafeTransactionData } from '../types.js';
+
+const SAFE = '0xf65475e74C1Ed6d004d5240b06E3088724dFDA5d' as Address;
+const OTHER_SAFE = '0x1111111111111111111111111111111111111111' as Address;
+
+const txData: SafeTransactionData = {
+  to: '0xdC035D45d973E3EC169d2276DDab16f1e407384F',
+  value: '1000',
+  data: '0xa9059cbb',
+  operation: 0,
+  safeTxGas: '0',
+  baseGas: '0',
+  gasPrice: '0',
+  gasToken: '0x0000000000000000000000000000000000000000',
+  refundReceiver: '0x0000000000000000000000000000000000000000',
+  nonce: '42',
+};
+
+function diagnose(expected: Hex, version = '1.3.0') {
+  return diagnoseHashMismatch(expected, { chainId: 1, safeAddress: SAFE, txData, version, txSafe: OTHER_SAFE });
+}
+
+describe('diagnoseHashMismatch', () => {
+  it('should find a hash calculated for another chain', () => {
+    const expected = calculateSafeTxHash(8453, SAFE, txData, '1.3.0').safeTxHash;
+
+    const diagnosis = diagnose(expected);
+
+    expect(diagnosis.matches).toHaveLength(1);
+    expect(diagnosis.matches[0]).toMatchObject({ kind: 'chain-id', original: '1', replacement: '8453' });
+    expect(diagnosis.summary).toBe('The API hash is reproduced by chainId 8453 (base) instead of 1.');
+  });
+
+  it('should find a hash calculated for another Safe version', () => {
+    const legacy = calculateSafeTxHash(1, SAFE, txData, '1.2.0').safeTxHash;
+    const ancient = calculateSafeTxHash(1, SAFE, txData, '0.1.0').safeTxHash;
+
+    expect(diagnose(legacy).matches[0]).toMatchObject({ kind: 'version', parameter: 'version', original: '1.3.0' });
+    expect(diagnose(ancient).matches[0]!.replacement).toContain('dataGas typehash');
+    expect(diagnose(calculateSafeTxHash(1, SAFE, txData, '1.3.0').safeTxHash, '1.1.1').matches[0]!.kind).toBe(
+      'version'
+    );
+  });
+
+  it("should find a hash calculated for the transaction's safe field", () => {
+    const expected = calculateSafeTxHash(1, OTHER_SAFE, txData, '1.3.0').safeTxHash;
+
+    expect(diagnose(expected).matches[0]).toMatchObject({ kind: 'safe-address', replacement: OTHER_SAFE });
+  });
+
+  it('should find a field the API normalised', () => {
+    const zeroValue = calculateSafeTxHash(1, SAFE, { ...txData, value: '0' }, '1.3.0').safeTxHash;
+    const noData = calculateSafeTxHash(1, SAFE, { ...txData, data: '0x' }, '1.3.0').safeTxHash;
+    const nextNonce = calculateSafeTxHash(1, SAFE, { ...txData, nonce: '43' }, '1.3.0').safeTxHash;
+
+    expect(diagnose(zeroValue).summary).toBe('The API hash is reproduced by value 0 instead of 1000.');
+    expect(diagnose(noData).matches[0]).toMatchObject({ parameter: 'data', original: '4 bytes' });
+    expect(diagnose(nextNonce).matches[0]).toMatchObject({ parameter: 'nonce', replacement: '43' });
+  });
+
+  it('should say so when no single change reproduces the hash', () => {
+    const diagnosis = diagnose(`0x${'ab'.repeat(32)}`);
+
+    expect(diagnosis.matches).toEqual([]);
+    expect(diagnosis.candidates.length).toBeGreaterThan(5);
+    expect(diagnosis.summary).toContain(
+      `No single change reproduces the API hash (${diagnosis.candidates.length} tried)`
+    );
+  });
+
+  it('should skip other chains when the domain has no chainId', () => {
+    const kinds = diagnose(`0x${'ab'.repeat(32)}`, '1.2.0').candidates.map((candidate) => candidate.kind);
+
+    expect(kinds).not.toContain('chain-id');
+    expect(kinds).toContain('version');
+  });
+});
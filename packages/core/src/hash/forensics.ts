@@ -0,0 +1,254 @@
+/**
+ * Safe Transaction Hash Mismatch Forensics
+ *
+ * A safeTxHash that differs from the Safe Transaction Service's says something
+ * is wrong, not what. This module recomputes the hash with one change at a
+ * time (another hashing scheme, another chain, the other Safe address, or one
+ * transaction field as the API might have normalised it) and reports which
+ * change, if any, reproduces the API's hash.
+ *
+ * Address case is not tried: addresses are hashed as 20 bytes, so a
+ * checksummed and a lowercased address give the same hash.
+ */
+
+import { concat, keccak256, zeroAddress, type Address, type Hex } from 'viem';
+import { NETWORKS } from '../api/networks.js';
+import { Operation, type SafeTransactionData } from '../types.js';
+import { calculateDomainHash } from './domain.js';
+import { calculateMessageHash } from './message.js';
+import { getVersion, isVersionLt, isVersionLte } from './version.js';
+
+/**
+ * What a candidate explanation changes
+ */
+export type HashMismatchCauseKind = 'version' | 'chain-id' | 'safe-address' | 'field';
+
+/**
+ * One recalculation with a single change applied
+ */
+export interface HashMismatchCandidate {
+  kind: HashMismatchCauseKind;
+  /** Input that was changed: "version", "chainId", "safeAddress" or a transaction field */
+  parameter: string;
+  /** Value in the original calculation */
+  original: string;
+  /** Value tried instead */
+  replacement: string;
+  /** The change in words, e.g. "chainId 8453 (base) instead of 1" */
+  description: string;
+  /** safeTxHash with the change applied */
+  safeTxHash: Hex;
+}
+
+/**
+ * Outcome of diagnoseHashMismatch
+ */
+export interface HashMismatchDiagnosis {
+  /** The hash being explained (the API's) */
+  expected: Hex;
+  /** Candidates that reproduce the expected hash; empty when none does */
+  matches: HashMismatchCandidate[];
+  /** Every candidate tried */
+  candidates: HashMismatchCandidate[];
+  /** One-sentence conclusion */
+  summary: string;
+}
+
+/**
+ * Inputs of the calculation that produced the mismatching hash
+ */
+export interface HashMismatchContext {
+  chainId: number;
+  /** The Safe the hash was calculated for */
+  safeAddress: Address;
+  txData: SafeTransactionData;
+  version: string;
+  /** The transaction's own `safe` field, when it may differ from `safeAddress` */
+  txSafe?: Address;
+}
+
+/**
+ * EIP-712 encodings Safe has used. Versions <= 1.2.0 leave chainId out of the
+ * domain; versions < 1.0.0 also hash `dataGas` under the legacy SafeTx
+ * typehash. The last entry matches no release, but is what a signer that got
+ * only one of the two version switches right would produce.
+ */
+interface HashScheme {
+  label: string;
+  chainIdInDomain: boolean;
+  legacyTypehash: boolean;
+}
+
+const HASH_SCHEMES: readonly HashScheme[] = [
+  { label: 'Safe 1.3.0+ encoding (domain with chainId)', chainIdInDomain: true, legacyTypehash: false },
+  { label: 'Safe 1.0.0-1.2.0 encoding (domain without chainId)', chainIdInDomain: false, legacyTypehash: false },
+  {
+    label: 'Safe < 1.0.0 encoding (dataGas typehash, domain without chainId)',
+    chainIdInDomain: false,
+    legacyTypehash: true,
+  },
+  {
+    label: 'dataGas typehash with a chainId domain (no Safe release)',
+    chainIdInDomain: true,
+    legacyTypehash: true,
+  },
+];
+
+function schemeOf(version: string): HashScheme {
+  const clean = getVersion(version);
+  const chainIdInDomain = !isVersionLte(clean, '1.2.0');
+  const legacyTypehash = isVersionLt(clean, '1.0.0');
+  return HASH_SCHEMES.find((s) => s.chainIdInDomain === chainIdInDomain && s.legacyTypehash === legacyTypehash)!;
+}
+
+/**
+ * safeTxHash under a given scheme. The domain and message functions pick their
+ * encoding from a version, so each switch is driven by a representative one.
+ */
+function hashWith(chainId: number, safeAddress: Address, txData: SafeTransactionData, scheme: HashScheme): Hex {
+  const domainHash = calculateDomainHash(chainId, safeAddress, scheme.chainIdInDomain ? '1.3.0' : '1.2.0');
+  const messageHash = calculateMessageHash(txData, scheme.legacyTypehash ? '0.1.0' : '1.0.0');
+  return keccak256(concat(['0x1901' as Hex, domainHash, messageHash]));
+}
+
+interface FieldChange {
+  parameter: keyof SafeTransactionData | 'safeTxGas/baseGas';
+  replacement: string;
+  txData: SafeTransactionData;
+}
+
+/**
+ * Single-field changes the API might have made while storing or serving the
+ * transaction: a numeric field zeroed, data dropped, gas refund fields reset,
+ * the operation flipped, safeTxGas and baseGas swapped, or the nonce off by one
+ */
+function fieldChanges(txData: SafeTransactionData): FieldChange[] {
+  const changes: FieldChange[] = [];
+  const change = (parameter: FieldChange['parameter'], replacement: string, patch: Partial<SafeTransactionData>) =>
+    changes.push({ parameter, replacement, txData: { ...txData, ...patch } });
+
+  const operation = txData.operation === Operation.Call ? Operation.DelegateCall : Operation.Call;
+  change('operation', String(operation), { operation });
+  for (const field of ['value', 'safeTxGas', 'baseGas', 'gasPrice'] as const) {
+    if (BigInt(txData[field]) !== 0n) {
+      change(field, '0', { [field]: '0' });
+    }
+  }
+  if (BigInt(txData.safeTxGas) !== BigInt(txData.baseGas)) {
+    change('safeTxGas/baseGas', `${txData.baseGas}/${txData.safeTxGas}`, {
+      safeTxGas: txData.baseGas,
+      baseGas: txData.safeTxGas,
+    });
+  }
+  for (const field of ['gasToken', 'refundReceiver'] as const) {
+    if (txData[field].toLowerCase() !== zeroAddress) {
+      change(field, zeroAddress, { [field]: zeroAddress });
+    }
+  }
+  if (txData.data !== '0x') {
+    change('data', '0x', { data: '0x' });
+  }
+  const nonce = BigInt(txData.nonce);
+  if (nonce > 0n) {
+    change('nonce', String(nonce - 1n), { nonce: nonce - 1n });
+  }
+  change('nonce', String(nonce + 1n), { nonce: nonce + 1n });
+  return changes;
+}
+
+function originalOf(txData: SafeTransactionData, parameter: FieldChange['parameter']): string {
+  return parameter === 'safeTxGas/baseGas'
+    ? `${txData.safeTxGas}/${txData.baseGas}`
+    : parameter === 'data'
+      ? `${(txData.data.length - 2) / 2} bytes`
+      : String(txData[parameter]);
+}
+
+/**
+ * Look for the single change that turns a calculation into the expected hash
+ *
+ * Tried, each on its own:
+ *   - every other Safe hashing scheme (legacy typehashes, domain with and
+ *     without chainId)
+ *   - every other chain ID in NETWORKS, when the domain includes chainId
+ *   - the transaction's `safe` field instead of the queried Safe
+ *   - each transaction field as the API might have normalised it
+ *
+ * A match points at the cause: a wrong Safe version, a transaction served
+ * from another chain or Safe, or a field the API changed after it was
+ * proposed. No match means the hash covers a transaction that differs in
+ * more than one way, or in a way that cannot be guessed.
+ *
+ * @param expected - The hash to explain (normally the API's safeTxHash)
+ * @param context - Inputs of the calculation that did not produce it
+ * @returns Every candidate tried, the ones that reproduce `expected`, and a summary
+ *
+ * @example
+ * const diagnosis = diagnoseHashMismatch(apiSafeTxHash, { chainId: 1, safeAddress, txData, version: '1.3.0' });
+ * // diagnosis.summary = "The API hash is reproduced by chainId 8453 (base) instead of 1."
+ */
+export function diagnoseHashMismatch(expected: Hex, context: HashMismatchContext): HashMismatchDiagnosis {
+  const { chainId, safeAddress, txData, version, txSafe } = context;
+  const scheme = schemeOf(version);
+  const candidates: HashMismatchCandidate[] = [];
+
+  for (const other of HASH_SCHEMES) {
+    if (other !== scheme) {
+      candidates.push({
+        kind: 'version',
+        parameter: 'version',
+        original: version,
+        replacement: other.label,
+        description: `the ${other.label} instead of the Safe ${version} one`,
+        safeTxHash: hashWith(chainId, safeAddress, txData, other),
+      });
+    }
+  }
+
+  if (scheme.chainIdInDomain) {
+    for (const network of Object.values(NETWORKS)) {
+      if (network.chainId !== chainId) {
+        candidates.push({
+          kind: 'chain-id',
+          parameter: 'chainId',
+          original: String(chainId),
+          replacement: String(network.chainId),
+          description: `chainId ${network.chainId} (${network.name}) instead of ${chainId}`,
+          safeTxHash: hashWith(network.chainId, safeAddress, txData, scheme),
+        });
+      }
+    }
+  }
+
+  if (txSafe && txSafe.toLowerCase() !== safeAddress.toLowerCase()) {
+    candidates.push({
+      kind: 'safe-address',
+      parameter: 'safeAddress',
+      original: safeAddress,
+      replacement: txSafe,
+      description: `the transaction's safe field ${txSafe} instead of the queried Safe ${safeAddress}`,
+      safeTxHash: hashWith(chainId, txSafe, txData, scheme),
+    });
+  }
+
+  for (const change of fieldChanges(txData)) {
+    const original = originalOf(txData, change.parameter);
+    candidates.push({
+      kind: 'field',
+      parameter: change.parameter,
+      original,
+      replacement: change.replacement,
+      description: `${change.parameter} ${change.replacement} instead of ${original}`,
+      safeTxHash: hashWith(chainId, safeAddress, change.txData, scheme),
+    });
+  }
+
+  const matches = candidates.filter((candidate) => candidate.safeTxHash.toLowerCase() === expected.toLowerCase());
+  const summary =
+    matches.length > 0
+      ? `The API hash is reproduced by ${matches.map((match) => match.description).join(', or by ')}.`
+      : `No single change reproduces the API hash (${candidates.length} tried): it covers a transaction that ` +
+        `differs from this one in more than one way, or in a way that cannot be guessed.`;
+
+  return { expected, matches, candidates, summary };
+}
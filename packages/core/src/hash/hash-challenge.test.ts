@@ -0,0 +1,111 @@
+/**
+ * Tests for the hash confirmation challenge
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  checkHashChallenge,
+  createHashChallenge,
+  createHashChallengeRecord,
+  describeHashChunk,
+} from './hash-challenge.js';
+
+const SAFE = '0xf65475e74C1Ed6d004d5240b06E3088724dFDA5d';
+const SIGNER = '0x1234567890123456789012345678901234567890';
+const SAFE_TX_HASH = '0x57f5c1a8390932d29f5aa6e321a2e689c483a728fa5bccfc4ac7becb91239801';
+
+describe('createHashChallenge', () => {
+  it('should ask for no chunks in full mode', () => {
+    expect(createHashChallenge(SAFE_TX_HASH, 'full')).toEqual({ mode: 'full', safeTxHash: SAFE_TX_HASH, chunks: [] });
+  });
+
+  it('should pick distinct chunks, in hash order', () => {
+    const challenge = createHashChallenge(SAFE_TX_HASH, 'chunks', 4, () => 0);
+
+    expect(challenge.chunks).toEqual([0, 1, 2, 3]);
+    for (let i = 0; i < 20; i++) {
+      const { chunks } = createHashChallenge(SAFE_TX_HASH, 'chunks', 6);
+      expect(new Set(chunks).size).toBe(6);
+      expect(chunks).toEqual([...chunks].sort((a, b) => a - b));
+      expect(chunks.every((chunk) => chunk >= 0 && chunk < 16)).toBe(true);
+    }
+  });
+
+  it('should reject a malformed hash or chunk count', () => {
+    expect(() => createHashChallenge('0x1234', 'full')).toThrow('is not a 32-byte hash');
+    expect(() => createHashChallenge(SAFE_TX_HASH, 'chunks', 17)).toThrow('between 1 and 16, got 17');
+  });
+});
+
+describe('describeHashChunk', () => {
+  it('should count hex digits after the 0x prefix from 1', () => {
+    expect(describeHashChunk(0)).toBe('digits 1-4');
+    expect(describeHashChunk(15)).toBe('digits 61-64');
+  });
+});
+
+describe('checkHashChallenge', () => {
+  it('should accept the full hash in any case, spacing and prefix', () => {
+    const challenge = createHashChallenge(SAFE_TX_HASH, 'full');
+
+    expect(checkHashChallenge(challenge, SAFE_TX_HASH.toUpperCase().replace('0X', '0x'))).toEqual({
+      match: true,
+      wrongChunks: [],
+    });
+    expect(checkHashChallenge(challenge, SAFE_TX_HASH.slice(2).match(/.{4}/g)!.join(' ')).match).toBe(true);
+  });
+
+  it('should name the chunks of a full hash that were typed wrong', () => {
+    const challenge = createHashChallenge(SAFE_TX_HASH, 'full');
+
+    expect(checkHashChallenge(challenge, SAFE_TX_HASH.replace('390932', '390933')).wrongChunks).toEqual([3]);
+    expect(checkHashChallenge(challenge, SAFE_TX_HASH.slice(0, -4)).wrongChunks).toEqual([15]);
+    expect(checkHashChallenge(challenge, `${SAFE_TX_HASH}00`)).toEqual({ match: false, wrongChunks: [15] });
+  });
+
+  it('should check each chunk against its place in the hash', () => {
+    const challenge = { mode: 'chunks' as const, safeTxHash: SAFE_TX_HASH, chunks: [0, 5, 15] };
+
+    expect(checkHashChallenge(challenge, ['57F5', 'A6E3', ' 9801 ']).match).toBe(true);
+    expect(checkHashChallenge(challenge, ['57f5', 'e321', '9801'])).toEqual({ match: false, wrongChunks: [5] });
+    expect(checkHashChallenge(challenge, ['57f5'])).toEqual({ match: false, wrongChunks: [5, 15] });
+  });
+});
+
+describe('createHashChallengeRecord', () => {
+  const context = { safeAddress: SAFE, chainId: 1, nonce: 434 } as const;
+
+  it('should timestamp a passed challenge', () => {
+    const challenge = { mode: 'chunks' as const, safeTxHash: SAFE_TX_HASH, chunks: [0, 15] };
+    const result = checkHashChallenge(challenge, ['57f5', '9801']);
+    const record = createHashChallengeRecord(
+      challenge,
+      result,
+      { ...context, signer: SIGNER, device: 'keystone' },
+      new Date('2026-10-19T12:00:00Z')
+    );
+
+    expect(record).toEqual({
+      safeAddress: SAFE,
+      chainId: 1,
+      nonce: 434,
+      safeTxHash: SAFE_TX_HASH,
+      mode: 'chunks',
+      chunks: [0, 15],
+      signer: SIGNER,
+      device: 'keystone',
+      completedAt: '2026-10-19T12:00:00.000Z',
+    });
+  });
+
+  it('should refuse to record a failed challenge', () => {
+    const challenge = createHashChallenge(SAFE_TX_HASH, 'full');
+
+    expect(() => createHashChallengeRecord(challenge, checkHashChallenge(challenge, '0x00'), context)).toThrow(
+      'only a passed challenge is recorded'
+    );
+    expect(
+      createHashChallengeRecord(challenge, checkHashChallenge(challenge, SAFE_TX_HASH), context)
+    ).not.toHaveProperty('signer');
+  });
+});
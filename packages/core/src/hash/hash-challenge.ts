@@ -0,0 +1,199 @@
+/**
+ * Hash Confirmation Challenge
+ *
+ * A signer who is shown the expected safeTxHash next to their hardware wallet
+ * tends to skim both and see a match. The challenge turns that around: the
+ * front-end hides the hash it computed and the signer types what the device
+ * shows, either the whole hash or a few 4-digit chunks picked at random each
+ * time, so a glance at the first and last characters is not enough.
+ *
+ * A passed challenge becomes a timestamped record the signer can keep as
+ * evidence that they compared the device screen before signing.
+ */
+
+import type { Address, Hex } from 'viem';
+
+/**
+ * What the signer has to type: the whole safeTxHash, or chunks of it
+ */
+export type HashChallengeMode = 'full' | 'chunks';
+
+/**
+ * Challenge modes, in the order front-ends list them
+ */
+export const HASH_CHALLENGE_MODES: readonly HashChallengeMode[] = ['full', 'chunks'];
+
+/**
+ * Hex digits per chunk
+ */
+export const HASH_CHALLENGE_CHUNK_SIZE = 4;
+
+/** 64 hex digits after the 0x prefix */
+const CHUNKS_PER_HASH = 64 / HASH_CHALLENGE_CHUNK_SIZE;
+
+/**
+ * A challenge for one safeTxHash. Front-ends must not show `safeTxHash`
+ * while it is open.
+ */
+export interface HashChallenge {
+  mode: HashChallengeMode;
+  safeTxHash: Hex;
+  /** Chunks the signer is asked for, 0-based and in hash order; empty in full mode */
+  chunks: number[];
+}
+
+/**
+ * The signer's answer checked against the hash
+ */
+export interface HashChallengeResult {
+  match: boolean;
+  /** Chunks that differ from the hash (in full mode, every chunk of the hash that was typed wrong) */
+  wrongChunks: number[];
+}
+
+/**
+ * Evidence of a passed challenge
+ */
+export interface HashChallengeRecord {
+  safeAddress: Address;
+  chainId: number;
+  nonce: number;
+  safeTxHash: Hex;
+  mode: HashChallengeMode;
+  /** Chunks the signer typed, 0-based; empty in full mode */
+  chunks: number[];
+  /** Owner address of the signer, when known */
+  signer?: Address;
+  /** Hardware wallet the signer compared against, when known */
+  device?: string;
+  /** ISO 8601 time the challenge was passed */
+  completedAt: string;
+}
+
+/**
+ * Transaction and signer a challenge record is for
+ */
+export interface HashChallengeContext {
+  safeAddress: Address;
+  chainId: number;
+  nonce: number;
+  signer?: Address;
+  device?: string;
+}
+
+/**
+ * Open a challenge for a safeTxHash.
+ *
+ * @param safeTxHash - The computed safeTxHash (0x-prefixed)
+ * @param mode - Ask for the whole hash or for chunks of it
+ * @param chunkCount - Chunks to ask for in chunks mode
+ * @param random - Source of randomness in [0, 1), for tests
+ * @returns The challenge
+ *
+ * @example
+ * const challenge = createHashChallenge(report.hashes.safeTxHash, 'chunks');
+ * // challenge.chunks = [2, 7, 9, 14]
+ */
+export function createHashChallenge(
+  safeTxHash: Hex,
+  mode: HashChallengeMode,
+  chunkCount = 4,
+  random: () => number = Math.random
+): HashChallenge {
+  if (!/^0x[0-9a-fA-F]{64}$/.test(safeTxHash)) {
+    throw new Error(`Hash challenge: ${safeTxHash} is not a 32-byte hash`);
+  }
+  if (mode === 'full') {
+    return { mode, safeTxHash, chunks: [] };
+  }
+  if (!Number.isInteger(chunkCount) || chunkCount < 1 || chunkCount > CHUNKS_PER_HASH) {
+    throw new Error(`Hash challenge: chunk count must be between 1 and ${CHUNKS_PER_HASH}, got ${chunkCount}`);
+  }
+
+  // Partial Fisher-Yates shuffle: the first chunkCount entries are a uniform pick
+  const pool = Array.from({ length: CHUNKS_PER_HASH }, (_, i) => i);
+  for (let i = 0; i < chunkCount; i++) {
+    const j = i + Math.floor(random() * (CHUNKS_PER_HASH - i));
+    [pool[i], pool[j]] = [pool[j]!, pool[i]!];
+  }
+  return { mode, safeTxHash, chunks: pool.slice(0, chunkCount).sort((a, b) => a - b) };
+}
+
+/**
+ * Describe where a chunk sits in the hash, counting hex digits after the 0x
+ * prefix from 1, as a signer finds it on the device.
+ *
+ * @example
+ * describeHashChunk(2); // 'digits 9-12'
+ */
+export function describeHashChunk(chunk: number): string {
+  const from = chunk * HASH_CHALLENGE_CHUNK_SIZE + 1;
+  return `digits ${from}-${from + HASH_CHALLENGE_CHUNK_SIZE - 1}`;
+}
+
+/**
+ * Check the signer's answer. Case, spaces and a 0x prefix are ignored, since
+ * devices differ in all three.
+ *
+ * @param challenge - The open challenge
+ * @param answer - The whole hash in full mode; one entry per challenge chunk, in order, in chunks mode
+ * @returns Whether the answer matches, and which chunks do not
+ */
+export function checkHashChallenge(challenge: HashChallenge, answer: string | string[]): HashChallengeResult {
+  const expected = challenge.safeTxHash.slice(2).toLowerCase();
+  const chunkOf = (chunk: number) =>
+    expected.slice(chunk * HASH_CHALLENGE_CHUNK_SIZE, (chunk + 1) * HASH_CHALLENGE_CHUNK_SIZE);
+
+  let wrongChunks: number[];
+  if (challenge.mode === 'full') {
+    const typed = normalizeHex(Array.isArray(answer) ? answer.join('') : answer);
+    wrongChunks = Array.from({ length: CHUNKS_PER_HASH }, (_, i) => i).filter(
+      (chunk) =>
+        typed.slice(chunk * HASH_CHALLENGE_CHUNK_SIZE, (chunk + 1) * HASH_CHALLENGE_CHUNK_SIZE) !== chunkOf(chunk)
+    );
+    // Extra digits past the end are a wrong answer too, if not a wrong chunk
+    if (wrongChunks.length === 0 && typed.length !== expected.length) {
+      wrongChunks = [CHUNKS_PER_HASH - 1];
+    }
+  } else {
+    const answers = Array.isArray(answer) ? answer : [answer];
+    wrongChunks = challenge.chunks.filter((chunk, i) => normalizeHex(answers[i] ?? '') !== chunkOf(chunk));
+  }
+
+  return { match: wrongChunks.length === 0, wrongChunks };
+}
+
+/**
+ * Record a passed challenge.
+ *
+ * @param challenge - The challenge
+ * @param result - Its result; only a match is recorded
+ * @param context - The transaction and signer
+ * @param completedAt - When it was passed
+ * @returns The record, ready to be exported as JSON
+ */
+export function createHashChallengeRecord(
+  challenge: HashChallenge,
+  result: HashChallengeResult,
+  context: HashChallengeContext,
+  completedAt: Date = new Date()
+): HashChallengeRecord {
+  if (!result.match) {
+    throw new Error('Hash challenge: only a passed challenge is recorded');
+  }
+  return {
+    safeAddress: context.safeAddress,
+    chainId: context.chainId,
+    nonce: context.nonce,
+    safeTxHash: challenge.safeTxHash,
+    mode: challenge.mode,
+    chunks: challenge.chunks,
+    ...(context.signer && { signer: context.signer }),
+    ...(context.device && { device: context.device }),
+    completedAt: completedAt.toISOString(),
+  };
+}
+
+function normalizeHex(value: string): string {
+  return value.replace(/\s+/g, '').replace(/^0x/i, '').toLowerCase();
+}
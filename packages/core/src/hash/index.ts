@@ -8,6 +8,68 @@
 // Main calculator (primary export)
 export { calculateSafeTxHash, verifySafeTxHash, type SafeTxHashResult } from './calculator.js';
 
+// Off-chain messages
+export {
+  calculateSafeMessageHash,
+  calculateRawMessageHash,
+  parseSafeMessage,
+  fromApiMessage,
+  isTypedDataMessage,
+  type SafeMessage,
+  type SafeMessageTypedData,
+  type SafeMessageHashResult,
+} from './safe-message.js';
+
+// SafeTx typed data (eth_signTypedData_v4)
+export {
+  getSafeTxTypes,
+  createSafeTxTypedData,
+  parseSafeTxTypedData,
+  checkSafeTxTypedData,
+  safeTxTypedDataToProposal,
+  type TypedDataField,
+  type SafeTxTypes,
+  type SafeTxTypedData,
+  type SafeTxTypedDataCheck,
+} from './typed-data.js';
+
+// Hardware wallet display emulation
+export {
+  DEVICE_PROFILES,
+  HARDWARE_WALLET_DEVICES,
+  chunkHashForDevice,
+  renderDeviceDisplay,
+  type HardwareWalletDevice,
+  type DisplayedHash,
+  type DeviceProfile,
+  type DeviceScreen,
+  type DeviceDisplay,
+} from './device-display.js';
+
+// Hash confirmation challenge
+export {
+  HASH_CHALLENGE_MODES,
+  HASH_CHALLENGE_CHUNK_SIZE,
+  createHashChallenge,
+  describeHashChunk,
+  checkHashChallenge,
+  createHashChallengeRecord,
+  type HashChallengeMode,
+  type HashChallenge,
+  type HashChallengeResult,
+  type HashChallengeRecord,
+  type HashChallengeContext,
+} from './hash-challenge.js';
+
+// Mismatch diagnosis
+export {
+  diagnoseHashMismatch,
+  type HashMismatchCauseKind,
+  type HashMismatchCandidate,
+  type HashMismatchDiagnosis,
+  type HashMismatchContext,
+} from './forensics.js';
+
 // Component functions (for advanced usage)
 export { calculateDomainHash } from './domain.js';
 export { calculateMessageHash } from './message.js';
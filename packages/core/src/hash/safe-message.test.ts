@@ -0,0 +1,144 @@
+/**
+ * Tests for Safe off-chain message hash calculation
+ */
+
+import { describe, it, expect } from 'vitest';
+import { hashMessage, hashTypedData, type Hex } from 'viem';
+import {
+  calculateSafeMessageHash,
+  calculateRawMessageHash,
+  fromApiMessage,
+  isTypedDataMessage,
+  parseSafeMessage,
+  type SafeMessageTypedData,
+} from './safe-message.js';
+import { calculateDomainHash } from './domain.js';
+
+const SAFE = '0xf65475e74C1Ed6d004d5240b06E3088724dFDA5d';
+
+/** Independent reference: the SafeMessage struct hashed directly with viem. */
+function referenceSafeMessageHash(chainId: number | undefined, rawHash: Hex): Hex {
+  return hashTypedData({
+    domain: chainId === undefined ? { verifyingContract: SAFE } : { chainId, verifyingContract: SAFE },
+    types: { SafeMessage: [{ name: 'message', type: 'bytes' }] },
+    primaryType: 'SafeMessage',
+    message: { message: rawHash },
+  });
+}
+
+const TYPED_DATA: SafeMessageTypedData = {
+  types: {
+    EIP712Domain: [
+      { name: 'name', type: 'string' },
+      { name: 'version', type: 'string' },
+      { name: 'chainId', type: 'uint256' },
+      { name: 'verifyingContract', type: 'address' },
+    ],
+    Mail: [
+      { name: 'from', type: 'address' },
+      { name: 'contents', type: 'string' },
+    ],
+  },
+  primaryType: 'Mail',
+  domain: {
+    name: 'Ether Mail',
+    version: '1',
+    chainId: 1,
+    verifyingContract: '0xCcCCccccCCCCcCCCCCCcCcCccCcCCCcCcccccccC',
+  },
+  message: {
+    from: '0xCD2a3d9F938E13CD947Ec05AbC7FE734Df8DD826',
+    contents: 'Hello, Bob!',
+  },
+};
+
+describe('calculateSafeMessageHash', () => {
+  it('should match the EIP-712 SafeMessage hash for a string message (v1.3.0)', () => {
+    const result = calculateSafeMessageHash(1, SAFE, 'Hello Safe', '1.3.0');
+
+    expect(result.rawMessageHash).toBe(hashMessage('Hello Safe'));
+    expect(result.domainHash).toBe(calculateDomainHash(1, SAFE, '1.3.0'));
+    expect(result.safeMessageHash).toBe(referenceSafeMessageHash(1, result.rawMessageHash));
+  });
+
+  it('should omit chainId from the domain for v1.2.0 and older', () => {
+    const result = calculateSafeMessageHash(1, SAFE, 'Hello Safe', '1.2.0');
+
+    expect(result.safeMessageHash).toBe(referenceSafeMessageHash(undefined, result.rawMessageHash));
+    // Legacy domain is chain-independent
+    expect(calculateSafeMessageHash(8453, SAFE, 'Hello Safe', '1.2.0').safeMessageHash).toBe(
+      result.safeMessageHash
+    );
+  });
+
+  it('should differ across chains for v1.3.0+', () => {
+    const mainnet = calculateSafeMessageHash(1, SAFE, 'Hello Safe', '1.4.1');
+    const base = calculateSafeMessageHash(8453, SAFE, 'Hello Safe', '1.4.1');
+
+    expect(mainnet.rawMessageHash).toBe(base.rawMessageHash);
+    expect(mainnet.safeMessageHash).not.toBe(base.safeMessageHash);
+  });
+
+  it('should hash raw bytes as EIP-191 over the bytes, not the hex text', () => {
+    const raw = '0xdeadbeef' as Hex;
+    const asBytes = calculateSafeMessageHash(1, SAFE, { raw }, '1.3.0');
+    const asText = calculateSafeMessageHash(1, SAFE, raw, '1.3.0');
+
+    expect(asBytes.rawMessageHash).toBe(hashMessage({ raw }));
+    expect(asText.rawMessageHash).toBe(hashMessage(raw));
+    expect(asBytes.safeMessageHash).not.toBe(asText.safeMessageHash);
+  });
+
+  it('should hash EIP-712 typed data with hashTypedData', () => {
+    const result = calculateSafeMessageHash(1, SAFE, TYPED_DATA, '1.3.0');
+
+    expect(result.rawMessageHash).toBe(
+      hashTypedData({
+        types: { Mail: TYPED_DATA.types.Mail! },
+        primaryType: 'Mail',
+        domain: {
+          name: 'Ether Mail',
+          version: '1',
+          chainId: 1,
+          verifyingContract: '0xCcCCccccCCCCcCCCCCCcCcCccCcCCCcCcccccccC',
+        },
+        message: TYPED_DATA.message,
+      })
+    );
+    expect(result.safeMessageHash).toBe(referenceSafeMessageHash(1, result.rawMessageHash));
+  });
+
+  it('should accept a string chainId in the typed-data domain', () => {
+    const withString = { ...TYPED_DATA, domain: { ...TYPED_DATA.domain, chainId: '0x1' } };
+    expect(calculateRawMessageHash(withString)).toBe(calculateRawMessageHash(TYPED_DATA));
+  });
+
+  it('should throw for unsupported version', () => {
+    expect(() => calculateSafeMessageHash(1, SAFE, 'Hello Safe', '0.0.0')).toThrow();
+  });
+});
+
+describe('parseSafeMessage', () => {
+  it('should parse JSON typed data', () => {
+    const parsed = parseSafeMessage(JSON.stringify(TYPED_DATA));
+    expect(isTypedDataMessage(parsed)).toBe(true);
+  });
+
+  it('should leave plain text and non-typed-data JSON as a string', () => {
+    expect(parseSafeMessage('Hello Safe')).toBe('Hello Safe');
+    expect(parseSafeMessage('{"foo": 1}')).toBe('{"foo": 1}');
+    expect(parseSafeMessage('{not json')).toBe('{not json');
+  });
+});
+
+describe('fromApiMessage', () => {
+  it('should keep service strings verbatim, even when they look like JSON', () => {
+    const text = JSON.stringify(TYPED_DATA);
+    expect(fromApiMessage(text)).toBe(text);
+  });
+
+  it('should accept typed-data objects and reject anything else', () => {
+    expect(fromApiMessage(TYPED_DATA as unknown as Record<string, unknown>)).toBe(TYPED_DATA);
+    expect(() => fromApiMessage({ foo: 1 })).toThrow('Unrecognised message format');
+  });
+});
@@ -0,0 +1,232 @@
+/**
+ * Safe Off-Chain Message Hash Calculation
+ *
+ * Computes the SafeMessage hash that owners sign for off-chain messages
+ * (EIP-191 strings and EIP-712 typed data) through the Safe{Wallet} message
+ * flow, `SignMessageLib`, or the `CompatibilityFallbackHandler`.
+ */
+
+import {
+  concat,
+  encodeAbiParameters,
+  hashMessage,
+  hashTypedData,
+  keccak256,
+  type Address,
+  type Hex,
+  type TypedDataDefinition,
+} from 'viem';
+import { SAFE_MSG_TYPEHASH } from './constants.js';
+import { calculateDomainHash } from './domain.js';
+import { validateVersion } from './version.js';
+
+/**
+ * An EIP-712 typed-data payload, as produced by `eth_signTypedData_v4` and
+ * returned by the Safe Transaction Service for typed-data messages.
+ */
+export interface SafeMessageTypedData {
+  types: Record<string, readonly { name: string; type: string }[]>;
+  primaryType: string;
+  domain: Record<string, unknown>;
+  message: Record<string, unknown>;
+}
+
+/**
+ * An off-chain message a Safe can sign.
+ *
+ * - `string`: an EIP-191 personal message, hashed as UTF-8 text (this is how
+ *   Safe{Wallet} hashes string messages, including ones that look like hex)
+ * - `{ raw: Hex }`: an EIP-191 personal message over raw bytes
+ * - typed data: an EIP-712 payload
+ */
+export type SafeMessage = string | { raw: Hex } | SafeMessageTypedData;
+
+/**
+ * Result of SafeMessage hash calculation.
+ */
+export interface SafeMessageHashResult {
+  /**
+   * The hash of the message itself.
+   * EIP-191 `hashMessage` for personal messages, EIP-712 `hashTypedData` for typed data.
+   */
+  rawMessageHash: Hex;
+
+  /**
+   * The EIP-712 domain hash of the Safe.
+   * Same domain as Safe transactions (chain ID + Safe address).
+   */
+  domainHash: Hex;
+
+  /**
+   * The SafeMessage struct hash.
+   * Calculated as: keccak256(abi.encode(SAFE_MSG_TYPEHASH, keccak256(rawMessageHash)))
+   */
+  messageHash: Hex;
+
+  /**
+   * The final SafeMessage hash.
+   * This is what owners sign, and what the Safe Transaction Service calls `messageHash`.
+   * Calculated as: keccak256(0x1901 + domainHash + messageHash)
+   */
+  safeMessageHash: Hex;
+}
+
+/**
+ * Check whether a message is an EIP-712 typed-data payload.
+ *
+ * @param message - The message to check
+ * @returns True if the message has `types`, `primaryType`, `domain` and `message`
+ */
+export function isTypedDataMessage(message: unknown): message is SafeMessageTypedData {
+  if (typeof message !== 'object' || message === null) return false;
+  const m = message as Record<string, unknown>;
+  return (
+    typeof m.types === 'object' &&
+    m.types !== null &&
+    typeof m.primaryType === 'string' &&
+    typeof m.domain === 'object' &&
+    m.domain !== null &&
+    typeof m.message === 'object' &&
+    m.message !== null
+  );
+}
+
+/**
+ * Parse message text as entered by a user or read from a file.
+ *
+ * Text that parses as a JSON EIP-712 payload is returned as typed data;
+ * anything else is returned unchanged and treated as a personal message.
+ *
+ * @param text - The message text
+ * @returns The parsed message
+ *
+ * @example
+ * parseSafeMessage('Hello Safe')                       // 'Hello Safe'
+ * parseSafeMessage('{"types":{...},"primaryType":...}') // typed data object
+ */
+export function parseSafeMessage(text: string): SafeMessage {
+  const trimmed = text.trim();
+  if (trimmed.startsWith('{')) {
+    try {
+      const parsed: unknown = JSON.parse(trimmed);
+      if (isTypedDataMessage(parsed)) return parsed;
+    } catch {
+      // Not JSON — fall through to a personal message.
+    }
+  }
+  return text;
+}
+
+/**
+ * Convert a message as stored by the Safe Transaction Service.
+ *
+ * The service keeps personal messages as the literal string that was signed
+ * and typed data as a JSON object, so strings are never re-parsed here.
+ *
+ * @param message - The `message` field of a Safe API message
+ * @returns The message in the form `calculateSafeMessageHash` expects
+ * @throws Error if an object message is not an EIP-712 typed-data payload
+ */
+export function fromApiMessage(message: string | Record<string, unknown>): SafeMessage {
+  if (typeof message === 'string') return message;
+  if (isTypedDataMessage(message)) return message;
+  throw new Error('Unrecognised message format: expected a string or EIP-712 typed data');
+}
+
+/**
+ * Calculate the hash of the message itself, before Safe wrapping.
+ *
+ * @param message - The message (string, raw bytes, or EIP-712 typed data)
+ * @returns The EIP-191 or EIP-712 hash of the message
+ */
+export function calculateRawMessageHash(message: SafeMessage): Hex {
+  if (typeof message === 'string') {
+    return hashMessage(message);
+  }
+  if ('raw' in message) {
+    return hashMessage({ raw: message.raw });
+  }
+
+  // JSON payloads often carry chainId as a decimal or hex string; viem wants a number.
+  const domain = { ...message.domain };
+  if (typeof domain.chainId === 'string') {
+    domain.chainId = Number(BigInt(domain.chainId));
+  }
+
+  return hashTypedData({
+    types: message.types,
+    primaryType: message.primaryType,
+    domain,
+    message: message.message,
+  } as TypedDataDefinition);
+}
+
+/**
+ * Calculate the SafeMessage hash for an off-chain message.
+ *
+ * The message is first hashed on its own (EIP-191 or EIP-712), then wrapped in
+ * the Safe's own EIP-712 `SafeMessage(bytes message)` struct, using the same
+ * domain as Safe transactions:
+ *
+ * 1. Raw Message Hash: hashMessage(message) or hashTypedData(message)
+ * 2. Domain Hash: Hash of the EIP-712 domain (chain ID + Safe address)
+ * 3. Message Hash: keccak256(abi.encode(SAFE_MSG_TYPEHASH, keccak256(rawMessageHash)))
+ * 4. Safe Message Hash: keccak256(0x1901 + domainHash + messageHash)
+ *
+ * The domain varies based on Safe version the same way it does for
+ * transactions: v1.2.0 and older don't include chainId.
+ *
+ * @param chainId - The blockchain chain ID (e.g., 1 for Ethereum mainnet)
+ * @param safeAddress - The Safe contract address
+ * @param message - The message (string, raw bytes, or EIP-712 typed data)
+ * @param version - The Safe contract version (e.g., "1.3.0", "1.2.0+L2")
+ * @returns Object containing rawMessageHash, domainHash, messageHash, and safeMessageHash
+ * @throws Error if version is invalid or unsupported
+ *
+ * @see https://github.com/safe-global/safe-smart-account/blob/v1.4.1/contracts/handler/CompatibilityFallbackHandler.sol
+ *
+ * @example
+ * const result = calculateSafeMessageHash(
+ *   1,
+ *   "0xf65475e74C1Ed6d004d5240b06E3088724dFDA5d",
+ *   "Hello Safe",
+ *   "1.3.0"
+ * );
+ *
+ * console.log(result.safeMessageHash); // The hash owners sign
+ */
+export function calculateSafeMessageHash(
+  chainId: number,
+  safeAddress: Address,
+  message: SafeMessage,
+  version: string
+): SafeMessageHashResult {
+  validateVersion(version);
+
+  const rawMessageHash = calculateRawMessageHash(message);
+  const domainHash = calculateDomainHash(chainId, safeAddress, version);
+
+  // `SafeMessage(bytes message)` — the message bytes are the 32-byte raw hash,
+  // and EIP-712 encodes dynamic `bytes` as the keccak256 of its content.
+  const messageHash = keccak256(
+    encodeAbiParameters(
+      [{ type: 'bytes32' }, { type: 'bytes32' }],
+      [SAFE_MSG_TYPEHASH, keccak256(rawMessageHash)]
+    )
+  );
+
+  const safeMessageHash = keccak256(
+    concat([
+      '0x1901' as Hex,  // EIP-712 magic prefix
+      domainHash,
+      messageHash,
+    ])
+  );
+
+  return {
+    rawMessageHash,
+    domainHash,
+    messageHash,
+    safeMessageHash,
+  };
+}
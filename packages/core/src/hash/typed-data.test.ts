@@ -0,0 +1,184 @@
+/**
+ * Tests for SafeTx typed data parsing and checking
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  checkSafeTxTypedData,
+  createSafeTxTypedData,
+  getSafeTxTypes,
+  parseSafeTxTypedData,
+  safeTxTypedDataToProposal,
+} from './typed-data.js';
+import { calculateSafeTxHash } from './calculator.js';
+import { calculateRawMessageHash } from './safe-message.js';
+import type { SafeMessageTypedData } from './safe-message.js';
+import { verifySafeTransaction } from '../verification/pipeline.js';
+
+const SAFE = '0xf65475e74C1Ed6d004d5240b06E3088724dFDA5d';
+const OTHER_SAFE = '0x1234567890123456789012345678901234567890';
+const ZERO = '0x0000000000000000000000000000000000000000';
+
+// Nonce 434 of the Safe above, with the hash a Ledger showed for it
+const SAFE_TX_HASH = '0x57f5c1a8390932d29f5aa6e321a2e689c483a728fa5bccfc4ac7becb91239801';
+const message = {
+  to: '0xCe01C90dE7FD1bcFa39e237FE6D8D9F569e8A6a3',
+  value: '0',
+  data: '0xac9650d800000000000000000000000000000000000000000000000000000000000000200000000000000000000000000000000000000000000000000000000000000001000000000000000000000000000000000000000000000000000000000000002000000000000000000000000000000000000000000000000000000000000000846c3dead4000000000000000000000000f65475e74c1ed6d004d5240b06e3088724dfda5d00000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000002caaf1dd9f3a1ff6000000000000000000000000000000000000000000000000000000000000000000000100000000000000000000000000000000000000000000000000000000',
+  operation: 0,
+  safeTxGas: '0',
+  baseGas: '0',
+  gasPrice: '0',
+  gasToken: ZERO,
+  refundReceiver: ZERO,
+  nonce: 434,
+};
+
+function typedData(overrides: Partial<SafeMessageTypedData> = {}): SafeMessageTypedData {
+  return {
+    types: { ...getSafeTxTypes('1.3.0') },
+    primaryType: 'SafeTx',
+    domain: { chainId: 1, verifyingContract: SAFE },
+    message,
+    ...overrides,
+  };
+}
+
+const expected = { safeAddress: SAFE, chainId: 1, version: '1.3.0' } as const;
+
+describe('getSafeTxTypes', () => {
+  it('should drop the domain chainId for v1.2.0 and use dataGas before v1.0.0', () => {
+    expect(getSafeTxTypes('1.3.0+L2').EIP712Domain.map((f) => f.name)).toEqual(['chainId', 'verifyingContract']);
+    expect(getSafeTxTypes('1.2.0').EIP712Domain.map((f) => f.name)).toEqual(['verifyingContract']);
+    expect(getSafeTxTypes('1.0.0').SafeTx[5]!.name).toBe('baseGas');
+    expect(getSafeTxTypes('0.1.0').SafeTx[5]!.name).toBe('dataGas');
+  });
+});
+
+describe('createSafeTxTypedData', () => {
+  const txData = checkSafeTxTypedData(typedData(), expected).txData;
+
+  it('should produce typed data that hashes to the Safe transaction hash', () => {
+    const created = createSafeTxTypedData(1, SAFE, txData, '1.3.0');
+
+    expect(created.domain).toEqual({ chainId: 1, verifyingContract: SAFE });
+    expect(created.message).toEqual({ ...message, nonce: '434' });
+    expect(calculateRawMessageHash(created)).toBe(SAFE_TX_HASH);
+    // The JSON form is what a wallet receives
+    expect(calculateRawMessageHash(parseSafeTxTypedData(JSON.stringify(created)))).toBe(SAFE_TX_HASH);
+  });
+
+  it.each(['1.2.0', '1.0.0', '0.1.0'])('should follow the v%s schema', (version) => {
+    const created = createSafeTxTypedData(1, SAFE, txData, version);
+
+    expect(checkSafeTxTypedData(created, { ...expected, version }).schemaErrors).toEqual([]);
+    expect(calculateRawMessageHash(created)).toBe(calculateSafeTxHash(1, SAFE, txData, version).safeTxHash);
+  });
+
+  it('should use dataGas and leave chainId out for old versions', () => {
+    const created = createSafeTxTypedData(1, SAFE, txData, '0.1.0');
+
+    expect(created.domain).toEqual({ verifyingContract: SAFE });
+    expect(created.message).toHaveProperty('dataGas', '0');
+    expect(created.message).not.toHaveProperty('baseGas');
+  });
+});
+
+describe('parseSafeTxTypedData', () => {
+  it('should accept the object, a JSON string of it, or an eth_signTypedData_v4 request', () => {
+    const json = JSON.stringify(typedData());
+
+    expect(parseSafeTxTypedData(json).primaryType).toBe('SafeTx');
+    expect(parseSafeTxTypedData(JSON.stringify(json)).domain).toEqual({ chainId: 1, verifyingContract: SAFE });
+    const request = { method: 'eth_signTypedData_v4', params: [ZERO, json] };
+    expect(parseSafeTxTypedData(JSON.stringify(request)).message).toEqual(message);
+  });
+
+  it('should reject typed data that is not a SafeTx', () => {
+    expect(() => parseSafeTxTypedData('{')).toThrow('Typed data: not valid JSON');
+    expect(() => parseSafeTxTypedData('{"domain":{}}')).toThrow('expected an object with domain');
+    expect(() => parseSafeTxTypedData(JSON.stringify(typedData({ primaryType: 'Permit' })))).toThrow(
+      'primaryType is "Permit", not "SafeTx"'
+    );
+  });
+});
+
+describe('checkSafeTxTypedData', () => {
+  it('should hash typed data for the right Safe to the Safe transaction hash', () => {
+    const check = checkSafeTxTypedData(typedData(), expected);
+
+    expect(check.typedDataHash).toBe(SAFE_TX_HASH);
+    expect(check.txData).toMatchObject({ to: message.to, nonce: '434', baseGas: '0' });
+    expect(check.schemaErrors).toEqual([]);
+    expect(check.domainMismatches).toEqual([]);
+  });
+
+  it('should derive the domain type when EIP712Domain is left out', () => {
+    const { SafeTx } = getSafeTxTypes('1.3.0');
+    const check = checkSafeTxTypedData(typedData({ types: { SafeTx } }), expected);
+
+    expect(check.schemaErrors).toEqual([]);
+    expect(check.typedDataHash).toBe(SAFE_TX_HASH);
+  });
+
+  it('should flag types that do not match the Safe version', () => {
+    const legacy = getSafeTxTypes('0.1.0');
+    const check = checkSafeTxTypedData(
+      typedData({
+        types: { ...legacy, Extra: [{ name: 'x', type: 'uint256' }] },
+        domain: { verifyingContract: SAFE },
+        message: { ...message, dataGas: '0', baseGas: undefined },
+      }),
+      expected
+    );
+
+    expect(check.schemaErrors).toEqual([
+      'EIP712Domain is (address verifyingContract), expected (uint256 chainId, address verifyingContract) for Safe v1.3.0',
+      expect.stringMatching(/^SafeTx is \(.*uint256 dataGas.*\), expected \(.*uint256 baseGas.*\) for Safe v1\.3\.0$/),
+      'Unexpected type(s) Extra; a SafeTx has no nested types',
+    ]);
+    expect(check.domain.chainId).toBeNull();
+    expect(check.typedDataHash).not.toBe(SAFE_TX_HASH);
+  });
+
+  it('should flag a domain for another Safe or chain', () => {
+    const check = checkSafeTxTypedData(
+      typedData({ domain: { chainId: '0xa', verifyingContract: OTHER_SAFE } }),
+      expected
+    );
+
+    expect(check.domainMismatches).toEqual([
+      `The domain's verifyingContract ${OTHER_SAFE} is not the Safe ${SAFE}. A signature would be for another Safe.`,
+      "The domain's chainId 10 is not chain 1. A signature would be for another chain.",
+    ]);
+  });
+
+  it('should reject a malformed message', () => {
+    expect(() => checkSafeTxTypedData(typedData({ message: { ...message, to: '0x12' } }), expected)).toThrow(
+      'Typed data: message.to is not an address'
+    );
+    expect(() => checkSafeTxTypedData(typedData({ message: { ...message, operation: 2 } }), expected)).toThrow(
+      'message.operation is 2'
+    );
+  });
+});
+
+describe('safeTxTypedDataToProposal', () => {
+  it('should verify as matching when the typed data is for the Safe being verified', async () => {
+    const tx = safeTxTypedDataToProposal(checkSafeTxTypedData(typedData(), expected));
+    const report = await verifySafeTransaction(tx, '1.3.0', 'ethereum', { safeAddress: SAFE });
+
+    expect(tx).toMatchObject({ safe: SAFE, nonce: 434, safeTxHash: SAFE_TX_HASH, confirmations: [] });
+    expect(report.verdict.hashMatch).toBe(true);
+  });
+
+  it('should fail the hash check, and name the cause, for a domain naming another chain', async () => {
+    const check = checkSafeTxTypedData(typedData({ domain: { chainId: 8453, verifyingContract: SAFE } }), expected);
+    const report = await verifySafeTransaction(safeTxTypedDataToProposal(check), '1.3.0', 'ethereum', {
+      safeAddress: SAFE,
+    });
+
+    expect(report.verdict.hashMatch).toBe(false);
+    expect(report.hashDiagnosis?.matches[0]?.kind).toBe('chain-id');
+  });
+});
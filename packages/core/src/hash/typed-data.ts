@@ -0,0 +1,384 @@
+/**
+ * SafeTx EIP-712 Typed Data
+ *
+ * A wallet asked to sign a Safe transaction is handed the SafeTx typed data
+ * (`eth_signTypedData_v4`), not a Safe API record, and it shows and signs the
+ * hash of that typed data. The Safe contract only accepts the signature if
+ * the types are exactly the SafeTx schema of its version and the domain names
+ * this Safe on this chain, so both are checked here before the transaction in
+ * `message` is verified like any other.
+ */
+
+import { getTypesForEIP712Domain, isAddress, isHex, type Address, type Hex } from 'viem';
+import type { Operation, SafeApiMultisigTransaction, SafeTransactionData } from '../types.js';
+import { calculateRawMessageHash, isTypedDataMessage, type SafeMessageTypedData } from './safe-message.js';
+import { getVersion, isVersionLt, isVersionLte, validateVersion } from './version.js';
+
+/**
+ * A field of an EIP-712 struct type.
+ */
+export interface TypedDataField {
+  name: string;
+  type: string;
+}
+
+/**
+ * The EIP-712 types a Safe of a given version signs transactions with.
+ */
+export type SafeTxTypes = Record<'EIP712Domain' | 'SafeTx', TypedDataField[]>;
+
+/**
+ * An `eth_signTypedData_v4` payload for a Safe transaction.
+ */
+export interface SafeTxTypedData {
+  types: SafeTxTypes;
+  primaryType: 'SafeTx';
+  /** `chainId` only for Safes newer than v1.2.0 */
+  domain: { chainId?: number; verifyingContract: Address };
+  /** Integers as decimal strings, `operation` as a number */
+  message: Record<string, string | number>;
+}
+
+/**
+ * Result of checking SafeTx typed data against the Safe it is meant for.
+ */
+export interface SafeTxTypedDataCheck {
+  /** The transaction in `message` */
+  txData: SafeTransactionData;
+
+  /**
+   * Hash of the typed data exactly as given: what the wallet shows and signs.
+   * Null when the types cannot be hashed at all.
+   */
+  typedDataHash: Hex | null;
+
+  /** The Safe and chain the domain names. `chainId` is null when the domain has none. */
+  domain: { verifyingContract: Address; chainId: number | null };
+
+  /** Where the types differ from the SafeTx schema of the Safe's version */
+  schemaErrors: string[];
+
+  /** Where the domain differs from the Safe and chain being verified */
+  domainMismatches: string[];
+}
+
+/**
+ * Get the EIP-712 types of a Safe transaction for a Safe version.
+ *
+ * - Domain: v1.2.0 and older have no chainId
+ * - SafeTx: before v1.0.0 the gas field is `dataGas`, later `baseGas`
+ *
+ * @param version - The Safe version (e.g., "1.3.0", "1.2.0+L2")
+ * @returns The EIP712Domain and SafeTx types
+ */
+export function getSafeTxTypes(version: string): SafeTxTypes {
+  const cleanVersion = getVersion(version);
+
+  return {
+    EIP712Domain: isVersionLte(cleanVersion, '1.2.0')
+      ? [{ name: 'verifyingContract', type: 'address' }]
+      : [
+          { name: 'chainId', type: 'uint256' },
+          { name: 'verifyingContract', type: 'address' },
+        ],
+    SafeTx: [
+      { name: 'to', type: 'address' },
+      { name: 'value', type: 'uint256' },
+      { name: 'data', type: 'bytes' },
+      { name: 'operation', type: 'uint8' },
+      { name: 'safeTxGas', type: 'uint256' },
+      { name: isVersionLt(cleanVersion, '1.0.0') ? 'dataGas' : 'baseGas', type: 'uint256' },
+      { name: 'gasPrice', type: 'uint256' },
+      { name: 'gasToken', type: 'address' },
+      { name: 'refundReceiver', type: 'address' },
+      { name: 'nonce', type: 'uint256' },
+    ],
+  };
+}
+
+/**
+ * Build the `eth_signTypedData_v4` payload for a Safe transaction.
+ *
+ * Signing it with a wallet that shows typed data produces a signature over
+ * exactly the transaction verified here: its hash is `calculateSafeTxHash()`
+ * for the same inputs. The gas field is `dataGas` before v1.0.0, and the
+ * domain leaves chainId out for v1.2.0 and older.
+ *
+ * @param chainId - The chain ID (only in the domain for versions >= 1.3.0)
+ * @param safeAddress - The Safe contract address
+ * @param txData - The Safe transaction data
+ * @param version - The Safe version (e.g., "1.3.0", "1.2.0+L2")
+ * @returns The typed data, ready for JSON.stringify
+ * @throws Error if version is invalid or unsupported
+ *
+ * @example
+ * const typedData = createSafeTxTypedData(1, safeAddress, report.txData, '1.3.0');
+ * writeFileSync('safe-tx.json', JSON.stringify(typedData, null, 2));
+ */
+export function createSafeTxTypedData(
+  chainId: number,
+  safeAddress: Address,
+  txData: SafeTransactionData,
+  version: string
+): SafeTxTypedData {
+  validateVersion(version);
+  const types = getSafeTxTypes(version);
+  const chainIdInDomain = types.EIP712Domain.some((field) => field.name === 'chainId');
+
+  return {
+    types,
+    primaryType: 'SafeTx',
+    domain: chainIdInDomain ? { chainId, verifyingContract: safeAddress } : { verifyingContract: safeAddress },
+    message: {
+      to: txData.to,
+      value: BigInt(txData.value).toString(),
+      data: txData.data,
+      operation: txData.operation,
+      safeTxGas: BigInt(txData.safeTxGas).toString(),
+      // baseGas, or dataGas before v1.0.0
+      [types.SafeTx[5]!.name]: BigInt(txData.baseGas).toString(),
+      gasPrice: BigInt(txData.gasPrice).toString(),
+      gasToken: txData.gasToken,
+      refundReceiver: txData.refundReceiver,
+      nonce: BigInt(txData.nonce).toString(),
+    },
+  };
+}
+
+/**
+ * Parse SafeTx typed data as pasted by a user or read from a file.
+ *
+ * Accepts the typed-data object, the same object as a JSON string (the form
+ * `eth_signTypedData_v4` takes it in), or a whole `eth_signTypedData_v4`
+ * request, whose second parameter is the typed data.
+ *
+ * @param text - JSON text
+ * @returns The typed data
+ * @throws Error if the text is not EIP-712 typed data with primaryType SafeTx
+ */
+export function parseSafeTxTypedData(text: string): SafeMessageTypedData {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+    const params = (parsed as { params?: unknown } | null)?.params;
+    if (Array.isArray(params) && params.length === 2) {
+      parsed = params[1];
+    }
+    if (typeof parsed === 'string') {
+      parsed = JSON.parse(parsed);
+    }
+  } catch {
+    throw new Error('Typed data: not valid JSON');
+  }
+
+  if (!isTypedDataMessage(parsed)) {
+    throw new Error('Typed data: expected an object with domain, types, primaryType and message');
+  }
+  if (parsed.primaryType !== 'SafeTx') {
+    throw new Error(`Typed data: primaryType is "${parsed.primaryType}", not "SafeTx". It is not a Safe transaction.`);
+  }
+  return parsed;
+}
+
+function formatFields(fields: readonly TypedDataField[]): string {
+  return fields.map((field) => `${field.type} ${field.name}`).join(', ');
+}
+
+function uint(message: Record<string, unknown>, name: string): string {
+  const value = message[name];
+  try {
+    if ((typeof value === 'string' && value !== '') || typeof value === 'number') {
+      const parsed = BigInt(value);
+      if (parsed >= 0n) return parsed.toString();
+    }
+  } catch {
+    // Reported below
+  }
+  throw new Error(`Typed data: message.${name} is not an unsigned integer`);
+}
+
+function address(message: Record<string, unknown>, name: string): Address {
+  const value = message[name];
+  if (typeof value !== 'string' || !isAddress(value, { strict: false })) {
+    throw new Error(`Typed data: message.${name} is not an address`);
+  }
+  return value;
+}
+
+/**
+ * Read the transaction from the typed data's message.
+ *
+ * @throws Error if a field is missing or malformed
+ */
+function messageToSafeTransaction(message: Record<string, unknown>): SafeTransactionData {
+  const data = message.data;
+  if (typeof data !== 'string' || !isHex(data) || data.length % 2 !== 0) {
+    throw new Error('Typed data: message.data is not hex bytes');
+  }
+  const operation = Number(uint(message, 'operation'));
+  if (operation !== 0 && operation !== 1) {
+    throw new Error(`Typed data: message.operation is ${operation}, not 0 (call) or 1 (delegatecall)`);
+  }
+
+  return {
+    to: address(message, 'to'),
+    value: uint(message, 'value'),
+    data,
+    operation: operation as Operation,
+    safeTxGas: uint(message, 'safeTxGas'),
+    baseGas: uint(message, message.baseGas !== undefined ? 'baseGas' : 'dataGas'),
+    gasPrice: uint(message, 'gasPrice'),
+    gasToken: address(message, 'gasToken'),
+    refundReceiver: address(message, 'refundReceiver'),
+    nonce: uint(message, 'nonce'),
+  };
+}
+
+/**
+ * Check SafeTx typed data against the Safe and chain it is meant for.
+ *
+ * The types must be exactly the schema of the Safe's version: any other type,
+ * field name or order changes the hash the wallet signs, and the Safe will not
+ * accept the signature. The domain must name the Safe and the chain, or the
+ * signature is for a different Safe or chain.
+ *
+ * @param typedData - Typed data from `parseSafeTxTypedData()`
+ * @param expected - The Safe being verified, its chain and version
+ * @returns The transaction, the typed data's own hash, and any schema or domain problems
+ * @throws Error if the message or domain is malformed
+ *
+ * @example
+ * const typedData = parseSafeTxTypedData(readFileSync('safe-tx.json', 'utf-8'));
+ * const check = checkSafeTxTypedData(typedData, { safeAddress, chainId: 1, version: '1.3.0' });
+ * // check.domainMismatches = ["The domain's chainId 10 is not chain 1. ..."]
+ */
+export function checkSafeTxTypedData(
+  typedData: SafeMessageTypedData,
+  expected: { safeAddress: Address; chainId: number; version: string }
+): SafeTxTypedDataCheck {
+  const { domain, message } = typedData;
+  const verifyingContract = domain.verifyingContract;
+  if (typeof verifyingContract !== 'string' || !isAddress(verifyingContract, { strict: false })) {
+    throw new Error('Typed data: domain.verifyingContract is not an address');
+  }
+  let chainId: number | null = null;
+  if (domain.chainId !== undefined) {
+    try {
+      chainId = Number(BigInt(domain.chainId as string | number));
+    } catch {
+      throw new Error('Typed data: domain.chainId is not a number');
+    }
+  }
+  const txData = messageToSafeTransaction(message);
+
+  const schemaErrors: string[] = [];
+  const schema = getSafeTxTypes(expected.version);
+  // Without an EIP712Domain type, wallets derive one from the domain's fields
+  const domainTypes = typedData.types.EIP712Domain ?? getTypesForEIP712Domain({ domain });
+  const given: Record<keyof SafeTxTypes, readonly TypedDataField[] | undefined> = {
+    EIP712Domain: domainTypes,
+    SafeTx: typedData.types.SafeTx,
+  };
+  for (const name of ['EIP712Domain', 'SafeTx'] as const) {
+    const actual = given[name];
+    const wanted = formatFields(schema[name]);
+    if (!actual) {
+      schemaErrors.push(`${name} type is missing; expected (${wanted}) for Safe v${expected.version}`);
+    } else if (formatFields(actual) !== wanted) {
+      schemaErrors.push(`${name} is (${formatFields(actual)}), expected (${wanted}) for Safe v${expected.version}`);
+    }
+  }
+  const extraTypes = Object.keys(typedData.types).filter((name) => name !== 'EIP712Domain' && name !== 'SafeTx');
+  if (extraTypes.length > 0) {
+    schemaErrors.push(`Unexpected type(s) ${extraTypes.join(', ')}; a SafeTx has no nested types`);
+  }
+
+  let typedDataHash: Hex | null = null;
+  try {
+    typedDataHash = calculateRawMessageHash(typedData);
+  } catch (error) {
+    schemaErrors.push(`The typed data cannot be hashed: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const domainMismatches: string[] = [];
+  if (verifyingContract.toLowerCase() !== expected.safeAddress.toLowerCase()) {
+    domainMismatches.push(
+      `The domain's verifyingContract ${verifyingContract} is not the Safe ${expected.safeAddress}. A signature would be for another Safe.`
+    );
+  }
+  if (chainId !== null && chainId !== expected.chainId) {
+    domainMismatches.push(
+      `The domain's chainId ${chainId} is not chain ${expected.chainId}. A signature would be for another chain.`
+    );
+  }
+
+  return {
+    txData,
+    typedDataHash,
+    domain: { verifyingContract, chainId },
+    schemaErrors,
+    domainMismatches,
+  };
+}
+
+/**
+ * Turn checked typed data into the transaction record the verification
+ * pipeline takes.
+ *
+ * The record's `safeTxHash` is the typed data's own hash, the one the wallet
+ * shows, so the pipeline's hash check compares it with the hash calculated for
+ * the Safe being verified. `safe` is the domain's verifyingContract, so a
+ * mismatch there is named by the hash diagnosis.
+ *
+ * @param check - Result of `checkSafeTxTypedData()`
+ * @returns A not-yet-proposed Safe API transaction
+ * @throws Error if the typed data could not be hashed, or a gas field or the nonce is too large for the record
+ */
+export function safeTxTypedDataToProposal(check: SafeTxTypedDataCheck): SafeApiMultisigTransaction {
+  const { txData } = check;
+  if (!check.typedDataHash) {
+    throw new Error(`Typed data: ${check.schemaErrors.at(-1) ?? 'cannot be hashed'}`);
+  }
+  for (const field of ['safeTxGas', 'baseGas', 'nonce'] as const) {
+    if (!Number.isSafeInteger(Number(txData[field]))) {
+      throw new Error(`Typed data: message.${field} ${txData[field]} is too large`);
+    }
+  }
+
+  const now = new Date().toISOString();
+  return {
+    safe: check.domain.verifyingContract,
+    to: txData.to,
+    value: String(txData.value),
+    data: txData.data,
+    operation: txData.operation,
+    gasToken: txData.gasToken,
+    safeTxGas: Number(txData.safeTxGas),
+    baseGas: Number(txData.baseGas),
+    gasPrice: String(txData.gasPrice),
+    refundReceiver: txData.refundReceiver,
+    nonce: Number(txData.nonce),
+    executionDate: null,
+    submissionDate: now,
+    modified: now,
+    blockNumber: null,
+    transactionHash: null,
+    safeTxHash: check.typedDataHash,
+    executor: null,
+    proposer: null,
+    proposedByDelegate: null,
+    isExecuted: false,
+    isSuccessful: null,
+    ethGasPrice: null,
+    maxFeePerGas: null,
+    maxPriorityFeePerGas: null,
+    gasUsed: null,
+    fee: null,
+    origin: null,
+    dataDecoded: null,
+    confirmationsRequired: 0,
+    confirmations: [],
+    trusted: false,
+    signatures: null,
+  };
+}
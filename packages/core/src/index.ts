@@ -13,6 +13,8 @@ export * from './utils/units.js'
 export * from './utils/token-decimals.js'
 export * from './utils/address-tags.js'
 export * from './utils/address-book.js'
+export * from './utils/policy-file.js'
+export * from './utils/transaction-builder.js'
 export * from './utils/extract-addresses.js'
 export * from './utils/verify-decoded.js'
 export * from './utils/reencode.js'
@@ -33,3 +35,4 @@ export * from './decoders/pas-common.js'
 export * from './decoders/pas-configurator.js'
 export * from './hash/index.js'
 export * from './security/index.js'
+export * from './verification/index.js'
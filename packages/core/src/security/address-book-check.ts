@@ -20,7 +20,7 @@
  */
 
 import type { Address, Hex } from 'viem'
-import { decodeMultiSend } from './multisend-decoder.js'
+import { flattenMultiSendCalls, parseMultiSend } from './multisend-decoder.js'
 import type { WarningLevel } from './types.js'
 import {
   getAddressBookEntries,
@@ -133,12 +133,10 @@ export function checkAddressBook(
 
   addAddress(to, 'to', false)
 
-  // MultiSend nested recipients.
-  const nested = decodeMultiSend(data)
-  if (nested) {
-    for (const tx of nested) {
-      addAddress(tx.to as Address, 'multisend', true)
-    }
+  // MultiSend nested recipients, nested batches included.
+  const multiSend = parseMultiSend(data)
+  for (const call of flattenMultiSendCalls(multiSend?.calls ?? [])) {
+    addAddress(call.to, 'multisend', true)
   }
 
   // Caller-supplied additional addresses (decoded params).
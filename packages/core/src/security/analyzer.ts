@@ -3,23 +3,54 @@
  */
 
 import { checkAddressBook, type AdditionalAddress } from './address-book-check.js';
+import { checkLookalikeAddresses } from './lookalike-check.js';
+import { checkTokenApprovals } from './approval-checks.js';
+import { checkValueTransfers } from './value-checks.js';
+import { checkCrossChainReplay } from './replay-check.js';
+import { checkNonce } from './nonce-checks.js';
+import { checkProposer } from './proposer-check.js';
 import { checkDelegateCall } from './delegate-call.js';
 import { checkGasTokenAttack } from './gas-token.js';
-import { checkOwnerModifications } from './owner-checks.js';
+import { checkOwnerModifications, previewOwnerChanges } from './owner-checks.js';
 import { checkModuleGuardOperations } from './module-guard-checks.js';
-import type { SecurityAnalysisResult } from './types.js';
-import type { SafeTransactionData } from '../types.js';
+import { checkSafeUpgradeOperations } from './upgrade-checks.js';
+import { checkMultiSendStructure } from './multisend-checks.js';
+import { checkPolicy } from './policy-check.js';
+import type {
+  CrossChainSafeState,
+  SafeNonceState,
+  SafeOwnerState,
+  SecurityAnalysisResult,
+  TransferThresholds,
+} from './types.js';
+import type { SafeApiDelegate, SafeTransactionData } from '../types.js';
+import type { DecoderRegistry } from '../decoders/registry.js';
+import type { SafePolicy } from '../utils/policy-file.js';
 import type { Address, Hex } from 'viem';
 
 /**
  * Perform comprehensive security analysis on a Safe transaction
  *
  * Combines all security checks:
- * 1. Delegate call detection (trusted vs untrusted)
+ * 1. Delegate call detection (trusted, MultiSend or untrusted), including
+ *    delegatecalls inside a MultiSend batch
  * 2. Gas token attack detection
- * 3. Owner/threshold modification detection
+ * 3. Owner/threshold modification detection, with a before/after preview
+ *    when the current owners and threshold are known
  * 4. Module enable/disable detection
  * 5. Guard modification detection
+ * 6. Fallback handler, singleton and SafeMigration upgrade detection
+ * 7. Malformed or too deeply nested MultiSend payloads
+ * 8. Lookalikes of address-book, network-contract and Safe addresses
+ * 9. Token approvals (ERC-20, setApprovalForAll, Permit2): unlimited or
+ *    to spenders outside the address book
+ * 10. Native value and known-token transfers, summed per asset across a
+ *     batch and compared with per-network thresholds
+ * 11. Signature replay on other chains, for Safes whose domain has no
+ *     chainId (v1.2.0 and older)
+ * 12. Nonce against the Safe's current nonce and queue, when known
+ * 13. Proposer against the owners, registered delegates and address book
+ * 14. The Safe's own signing policy, when one is given
  *
  * @param txData - Safe transaction data
  * @returns Complete security analysis result
@@ -52,10 +83,66 @@ export function analyzeSecurity(
      * in unknown-recipient warnings even if absent from the loaded book.
      */
     safeAddress?: Address
+    /**
+     * Current owners and threshold. When given, owner changes are replayed
+     * against them for a before/after preview.
+     */
+    ownerState?: SafeOwnerState
+    /**
+     * Owner reviewing the transaction, flagged if the transaction removes them.
+     */
+    signer?: Address
+    /**
+     * Network the transaction is for. New fallback handlers and singletons
+     * are checked against that network's canonical Safe deployments.
+     */
+    chainId?: number
+    /**
+     * Network name, for the lookalike check against that network's
+     * well-known contracts, for token decimals and for transfer thresholds
+     */
+    network?: string
+    /**
+     * Large-transfer thresholds overriding the network's defaults
+     * (see DEFAULT_TRANSFER_THRESHOLDS)
+     */
+    transferThresholds?: TransferThresholds
+    /**
+     * Safe version. Versions at or below 1.2.0 sign without the chainId and
+     * get a cross-chain replay finding.
+     */
+    version?: string
+    /**
+     * The Safe on other networks (see fetchCrossChainSafeStates), to list
+     * where a replay could execute. Omit when not checked.
+     */
+    crossChainSafes?: CrossChainSafeState[]
+    /**
+     * The Safe's current nonce and queue, to flag dead, far-future, gapped
+     * and competing transactions
+     */
+    nonceState?: SafeNonceState
+    /**
+     * Who proposed the transaction, from the Safe API
+     */
+    proposal?: { proposer: Address | null; proposedByDelegate: Address | null }
+    /**
+     * Delegates registered for the Safe (see SafeApiClient.fetchDelegates).
+     * Omit when not fetched.
+     */
+    delegates?: SafeApiDelegate[]
+    /**
+     * Signing policy for this Safe (see findSafePolicy). Violations are high risk.
+     */
+    policy?: SafePolicy
+    /**
+     * Decoders for the policy's requiredDecoders rule (defaults to the shared registry)
+     */
+    registry?: DecoderRegistry
   } = {}
 ): SecurityAnalysisResult {
   // Check for untrusted delegate calls
-  const delegateCall = checkDelegateCall(txData.operation, txData.to);
+  const delegateCall = checkDelegateCall(txData.operation, txData.to, txData.data as Hex);
 
   // Check for gas token attacks
   const gasToken = checkGasTokenAttack(
@@ -66,10 +153,30 @@ export function analyzeSecurity(
 
   // Check for owner/threshold modifications
   const ownerModification = checkOwnerModifications(txData.data);
+  if (ownerModification.modifiesOwners && options.ownerState) {
+    const preview = previewOwnerChanges(txData.to as Address, txData.data as Hex, options.ownerState, {
+      safeAddress: options.safeAddress,
+      signer: options.signer,
+    });
+    if (preview) {
+      ownerModification.preview = preview;
+    }
+  }
 
   // Check for module/guard operations
   const moduleGuard = checkModuleGuardOperations(txData.data);
 
+  // Check for fallback handler / singleton changes
+  const safeUpgrade = checkSafeUpgradeOperations(
+    txData.to as Address,
+    txData.data as Hex,
+    txData.operation,
+    options.chainId
+  );
+
+  // Check the MultiSend payload, nested batches included, for structural errors
+  const multiSend = checkMultiSendStructure(txData.data as Hex);
+
   // Check recipients against loaded address book (silent when no book loaded)
   const addressBook = checkAddressBook(
     txData.to as Address,
@@ -78,6 +185,58 @@ export function analyzeSecurity(
     { safeAddress: options.safeAddress }
   );
 
+  // Check every touched address for lookalikes of known ones
+  const lookalike = checkLookalikeAddresses(
+    txData.to as Address,
+    txData.data as Hex,
+    options.additionalAddresses?.map((extra) => extra.address),
+    { network: options.network, safeAddress: options.safeAddress }
+  );
+
+  // Check token approvals and their spenders
+  const tokenApprovals = checkTokenApprovals(txData.to as Address, txData.data as Hex, {
+    network: options.network,
+    safeAddress: options.safeAddress,
+    operation: txData.operation,
+  });
+
+  // Sum what leaves the Safe, per asset and recipient
+  const valueTransfers = checkValueTransfers(
+    txData.to as Address,
+    BigInt(txData.value),
+    txData.data as Hex,
+    txData.operation,
+    { network: options.network, safeAddress: options.safeAddress, thresholds: options.transferThresholds }
+  );
+
+  // Check whether the signatures would also be valid on other chains
+  const crossChainReplay = options.version
+    ? checkCrossChainReplay(options.version, Number(txData.nonce), {
+        network: options.network,
+        owners: options.ownerState?.owners,
+        states: options.crossChainSafes,
+      })
+    : { replayable: false, checked: false, exposures: [], unchecked: [] };
+
+  // Check the nonce against the Safe's current nonce and queue
+  const nonce = checkNonce(Number(txData.nonce), options.nonceState);
+
+  // Check who proposed the transaction
+  const proposer = checkProposer(options.proposal?.proposer ?? null, options.proposal?.proposedByDelegate ?? null, {
+    owners: options.ownerState?.owners,
+    delegates: options.delegates,
+  });
+
+  // Check against the Safe's own policy (no violations when it has none)
+  const policy = checkPolicy(
+    txData.to as Address,
+    BigInt(txData.value),
+    txData.data as Hex,
+    txData.operation,
+    options.policy,
+    options.registry
+  );
+
   // Determine overall risk level (highest of all checks)
   let overallRisk: SecurityAnalysisResult['overallRisk'] = 'none';
 
@@ -85,7 +244,9 @@ export function analyzeSecurity(
     delegateCall.warningLevel === 'critical' ||
     gasToken.riskLevel === 'critical' ||
     ownerModification.warningLevel === 'critical' ||
-    moduleGuard.warningLevel === 'critical'
+    moduleGuard.warningLevel === 'critical' ||
+    safeUpgrade.warningLevel === 'critical' ||
+    multiSend.warningLevel === 'critical'
   ) {
     overallRisk = 'critical';
   } else if (
@@ -93,7 +254,15 @@ export function analyzeSecurity(
     gasToken.riskLevel === 'high' ||
     ownerModification.warningLevel === 'high' ||
     moduleGuard.warningLevel === 'high' ||
-    addressBook.warningLevel === 'high'
+    safeUpgrade.warningLevel === 'high' ||
+    multiSend.warningLevel === 'high' ||
+    addressBook.warningLevel === 'high' ||
+    lookalike.warningLevel === 'high' ||
+    tokenApprovals.warningLevel === 'high' ||
+    valueTransfers.warningLevel === 'high' ||
+    crossChainReplay.warningLevel === 'high' ||
+    proposer.warningLevel === 'high' ||
+    policy.warningLevel === 'high'
   ) {
     overallRisk = 'high';
   } else if (
@@ -101,14 +270,21 @@ export function analyzeSecurity(
     gasToken.riskLevel === 'medium' ||
     ownerModification.warningLevel === 'medium' ||
     moduleGuard.warningLevel === 'medium' ||
-    addressBook.warningLevel === 'medium'
+    addressBook.warningLevel === 'medium' ||
+    tokenApprovals.warningLevel === 'medium' ||
+    crossChainReplay.warningLevel === 'medium' ||
+    nonce.warningLevel === 'medium' ||
+    proposer.warningLevel === 'medium'
   ) {
     overallRisk = 'medium';
   } else if (
     delegateCall.warningLevel === 'low' ||
     gasToken.riskLevel === 'low' ||
     ownerModification.warningLevel === 'low' ||
-    moduleGuard.warningLevel === 'low'
+    moduleGuard.warningLevel === 'low' ||
+    crossChainReplay.warningLevel === 'low' ||
+    nonce.warningLevel === 'low' ||
+    proposer.warningLevel === 'low'
   ) {
     overallRisk = 'low';
   }
@@ -122,14 +298,29 @@ export function analyzeSecurity(
     ownerModification.modifiesOwners ||
     moduleGuard.hasModuleOperation ||
     moduleGuard.hasGuardOperation ||
-    addressBook.warnings.length > 0;
+    safeUpgrade.detections.length > 0 ||
+    multiSend.errors.length > 0 ||
+    addressBook.warnings.length > 0 ||
+    lookalike.matches.length > 0 ||
+    tokenApprovals.warningLevel !== undefined ||
+    valueTransfers.warningLevel !== undefined ||
+    policy.violations.length > 0;
 
   return {
     delegateCall,
     gasToken,
     ownerModification,
     moduleGuard,
+    safeUpgrade,
+    multiSend,
     addressBook,
+    lookalike,
+    tokenApprovals,
+    valueTransfers,
+    crossChainReplay,
+    nonce,
+    proposer,
+    policy,
     overallRisk,
     requiresCarefulReview,
   };
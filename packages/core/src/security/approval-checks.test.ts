@@ -0,0 +1,227 @@
+/**
+ * Tests for token approval detection
+ */
+
+import { afterEach, describe, it, expect } from 'vitest';
+import {
+  concat,
+  encodeFunctionData,
+  erc20Abi,
+  maxUint160,
+  maxUint256,
+  pad,
+  parseAbi,
+  toHex,
+  type Address,
+  type Hex,
+} from 'viem';
+import { checkTokenApprovals, isUnlimitedAllowance } from './approval-checks.js';
+import { analyzeSecurity } from './analyzer.js';
+import { MULTISEND_CALL_ONLY, PERMIT2, ZERO_ADDRESS } from './constants.js';
+import { CONTRACTS_BY_NETWORK } from '../contracts/index.js';
+import { loadAddressBookCsv } from '../utils/address-book.js';
+import { clearAddressBookTags } from '../utils/address-tags.js';
+
+const SPENDER = '0x1111111111111111111111111111111111111111' as Address;
+const NFT = '0x2222222222222222222222222222222222222222' as Address;
+const USDC = CONTRACTS_BY_NETWORK.ethereum!.find((contract) => contract.label === 'USDC')!.address as Address;
+
+const abi = parseAbi([
+  'function multiSend(bytes transactions)',
+  'function setApprovalForAll(address operator, bool approved)',
+  'function approve(address token, address spender, uint160 amount, uint48 expiration)',
+  'struct PermitDetails { address token; uint160 amount; uint48 expiration; uint48 nonce; }',
+  'struct PermitBatch { PermitDetails[] details; address spender; uint256 sigDeadline; }',
+  'function permit(address owner, PermitBatch permitBatch, bytes signature)',
+]);
+
+function approve(spender: Address, amount: bigint): Hex {
+  return encodeFunctionData({ abi: erc20Abi, functionName: 'approve', args: [spender, amount] });
+}
+
+function multiSend(calls: { operation?: number; to: Address; data: Hex }[]): Hex {
+  const entries = calls.map((call) =>
+    concat([
+      toHex(call.operation ?? 0, { size: 1 }),
+      call.to,
+      pad(toHex(0n)),
+      pad(toHex(BigInt((call.data.length - 2) / 2))),
+      call.data,
+    ])
+  );
+  return encodeFunctionData({ abi, functionName: 'multiSend', args: [concat(entries)] });
+}
+
+function loadBook(rows: string[]) {
+  loadAddressBookCsv(['address,label,verification_date,status', ...rows].join('\n'));
+}
+
+afterEach(() => {
+  clearAddressBookTags();
+});
+
+describe('isUnlimitedAllowance', () => {
+  it('should treat max-value sentinels as unlimited', () => {
+    expect(isUnlimitedAllowance(maxUint256)).toBe(true);
+    expect(isUnlimitedAllowance(maxUint160)).toBe(true);
+    expect(isUnlimitedAllowance(2n ** 96n - 1n)).toBe(true);
+    expect(isUnlimitedAllowance(10n ** 30n)).toBe(false);
+  });
+});
+
+describe('checkTokenApprovals', () => {
+  it('should make an unlimited approval to an unknown spender high risk', () => {
+    const result = checkTokenApprovals(USDC, approve(SPENDER, maxUint256), { network: 'ethereum' });
+
+    expect(result.approvals).toMatchObject([
+      {
+        kind: 'erc20-approve',
+        token: USDC,
+        tokenLabel: 'USDC',
+        spender: SPENDER,
+        spenderStatus: 'unverified',
+        isUnlimited: true,
+        warningLevel: 'high',
+      },
+    ]);
+    expect(result.warnings![0]).toContain(`grants unknown spender ${SPENDER} an unlimited allowance of USDC`);
+    expect(result.warningLevel).toBe('high');
+  });
+
+  it('should scale bounded allowances and check the spender against the address book', () => {
+    const data = approve(SPENDER, 1_500_000n);
+
+    const unknown = checkTokenApprovals(USDC, data, { network: 'ethereum' });
+    expect(unknown.approvals[0]!.formattedAmount).toBe('1.5 USDC');
+    expect(unknown.warningLevel).toBe('medium');
+
+    loadBook([`${SPENDER},Payroll,2026-05-01,active`]);
+    const known = checkTokenApprovals(USDC, data, { network: 'ethereum' });
+    expect(known.approvals[0]).toMatchObject({ spenderStatus: 'verified', spenderLabel: 'Payroll' });
+    expect(known.warnings).toBeUndefined();
+  });
+
+  it('should make any approval to an inactive address-book entry high risk', () => {
+    loadBook([`${SPENDER},Old Vendor,2024-01-01,inactive`]);
+
+    const result = checkTokenApprovals(USDC, approve(SPENDER, 1n), { network: 'ethereum' });
+
+    expect(result.approvals[0]!.spenderStatus).toBe('inactive');
+    expect(result.warningLevel).toBe('high');
+  });
+
+  it('should flag setApprovalForAll and ignore revocations', () => {
+    const grant = encodeFunctionData({ abi, functionName: 'setApprovalForAll', args: [SPENDER, true] });
+    const revoke = encodeFunctionData({ abi, functionName: 'setApprovalForAll', args: [SPENDER, false] });
+
+    expect(checkTokenApprovals(NFT, grant).approvals[0]).toMatchObject({
+      kind: 'approval-for-all',
+      isUnlimited: true,
+      warningLevel: 'high',
+    });
+    expect(checkTokenApprovals(NFT, revoke).approvals[0]!.isRevocation).toBe(true);
+    expect(checkTokenApprovals(NFT, revoke).warnings).toBeUndefined();
+    expect(checkTokenApprovals(USDC, approve(SPENDER, 0n), { network: 'ethereum' }).warnings).toBeUndefined();
+  });
+
+  it('should read an ambiguous approve amount on an unknown token as a possible token ID', () => {
+    // An ERC-721 approve: the second argument is a token ID
+    const tokenId = 2n ** 96n - 1n;
+
+    const result = checkTokenApprovals(NFT, approve(SPENDER, tokenId), { network: 'ethereum' });
+
+    expect(result.approvals[0]).toMatchObject({ kind: 'erc20-approve', amount: tokenId, isUnlimited: false });
+    expect(result.warningLevel).toBe('medium');
+    expect(result.warnings![0]).toContain(`or token ID ${tokenId} on an ERC-721`);
+    // Token ID 0 is an approval, not a revocation
+    expect(checkTokenApprovals(NFT, approve(SPENDER, 0n)).approvals[0]!.isRevocation).toBe(false);
+    expect(checkTokenApprovals(NFT, approve(SPENDER, 0n)).warningLevel).toBe('medium');
+  });
+
+  it('should treat an allowance above the threshold as unlimited on any token', () => {
+    const result = checkTokenApprovals(USDC, approve(SPENDER, maxUint256));
+
+    expect(result.approvals[0]!.isUnlimited).toBe(true);
+    expect(result.warnings![0]).toContain('an unlimited allowance');
+    expect(result.warningLevel).toBe('high');
+  });
+
+  it('should only report approvals from batches the Safe delegatecalls', () => {
+    const inner = multiSend([{ to: USDC, data: approve(SPENDER, maxUint256) }]);
+    const data = multiSend([
+      { operation: 1, to: MULTISEND_CALL_ONLY[0]!, data: inner },
+      // Runs as the MultiSend contract, so the allowance would be its own
+      { operation: 0, to: MULTISEND_CALL_ONLY[0]!, data: inner },
+    ]);
+    const options = { network: 'ethereum', operation: 1 };
+
+    const result = checkTokenApprovals(MULTISEND_CALL_ONLY[0]!, data, options);
+
+    expect(result.approvals.map((approval) => approval.batchPath)).toEqual([[0, 0]]);
+    expect(checkTokenApprovals(MULTISEND_CALL_ONLY[0]!, data, { ...options, operation: 0 }).approvals).toEqual([]);
+  });
+
+  it('should find Permit2 approvals inside a MultiSend batch', () => {
+    const permit2Approve = encodeFunctionData({
+      abi,
+      functionName: 'approve',
+      args: [USDC, SPENDER, maxUint160, 1_900_000_000],
+    });
+    const permit = encodeFunctionData({
+      abi,
+      functionName: 'permit',
+      args: [
+        SPENDER,
+        {
+          details: [
+            { token: USDC, amount: 2_000_000n, expiration: 0, nonce: 0 },
+            { token: NFT, amount: maxUint160, expiration: 0, nonce: 0 },
+          ],
+          spender: SPENDER,
+          sigDeadline: 0n,
+        },
+        '0x',
+      ],
+    });
+    const data = multiSend([
+      { to: USDC, data: approve(PERMIT2, maxUint256) },
+      { to: PERMIT2, data: permit2Approve },
+      { to: PERMIT2, data: permit },
+    ]);
+
+    const result = checkTokenApprovals(MULTISEND_CALL_ONLY[0]!, data, { network: 'ethereum' });
+
+    expect(result.approvals.map((approval) => [approval.kind, approval.batchPath, approval.warningLevel])).toEqual([
+      ['erc20-approve', [0], 'medium'],
+      ['permit2-approve', [1], 'high'],
+      ['permit2-permit', [2], 'medium'],
+      ['permit2-permit', [2], 'high'],
+    ]);
+    expect(result.approvals[0]!.spenderLabel).toBe('Permit2');
+    expect(result.approvals[1]!.expiration).toBe(1_900_000_000);
+    expect(result.warnings![1]).toContain('(batch call 1)');
+    expect(result.warnings![1]).toContain('through Permit2');
+  });
+
+  it('should raise the overall risk in analyzeSecurity', () => {
+    const result = analyzeSecurity(
+      {
+        to: USDC,
+        value: '0',
+        data: approve(SPENDER, maxUint256),
+        operation: 0,
+        safeTxGas: '0',
+        baseGas: '0',
+        gasPrice: '0',
+        gasToken: ZERO_ADDRESS,
+        refundReceiver: ZERO_ADDRESS,
+        nonce: '1',
+      },
+      { network: 'ethereum' }
+    );
+
+    expect(result.tokenApprovals.approvals).toHaveLength(1);
+    expect(result.overallRisk).toBe('high');
+    expect(result.requiresCarefulReview).toBe(true);
+  });
+});
@@ -0,0 +1,256 @@
+/**
+ * Token Approval Checker
+ *
+ * An allowance outlives the transaction that grants it: the spender can move
+ * the approved tokens at any later time without another Safe signature. An
+ * unlimited allowance, or an operator approval over a whole NFT collection,
+ * to an address the signer does not know is how drainer contracts get paid.
+ *
+ * Detects ERC-20 approve / increaseAllowance, ERC-721 / ERC-1155
+ * setApprovalForAll and Permit2 approve / permit, direct or inside a
+ * MultiSend batch, and checks each spender against the address book.
+ */
+
+import type { Address, Hex } from 'viem';
+import { decodeFunctionData, formatUnits, maxUint96, parseAbi } from 'viem';
+import { flattenSafeBatchCalls, parseMultiSend } from './multisend-decoder.js';
+import type { TokenApproval, TokenApprovalCheckResult, WarningLevel } from './types.js';
+import { CONTRACTS_BY_NETWORK } from '../contracts/index.js';
+import { getAddressTag } from '../utils/address-tags.js';
+import { getKnownTokenDecimals } from '../utils/token-decimals.js';
+
+/**
+ * Allowances at or above this are treated as unlimited. No token supply comes
+ * near it; maxUint256 and Permit2's maxUint160 are both above it.
+ */
+export const UNLIMITED_ALLOWANCE_THRESHOLD = 2n ** 128n;
+
+const APPROVAL_ABI = parseAbi([
+  'function approve(address spender, uint256 amount)',
+  'function increaseAllowance(address spender, uint256 addedValue)',
+  'function setApprovalForAll(address operator, bool approved)',
+  'function approve(address token, address spender, uint160 amount, uint48 expiration)',
+  'struct PermitDetails { address token; uint160 amount; uint48 expiration; uint48 nonce; }',
+  'struct PermitSingle { PermitDetails details; address spender; uint256 sigDeadline; }',
+  'struct PermitBatch { PermitDetails[] details; address spender; uint256 sigDeadline; }',
+  'function permit(address owner, PermitSingle permitSingle, bytes signature)',
+  'function permit(address owner, PermitBatch permitBatch, bytes signature)',
+]);
+
+export interface TokenApprovalOptions {
+  /** Network name, for token labels and decimals (see CONTRACTS_BY_NETWORK) */
+  network?: string;
+  /** The Safe the transaction is for; approving it counts as a known spender */
+  safeAddress?: Address;
+  /** Operation of the transaction; a MultiSend batch is unwrapped only when delegatecalled (the default) */
+  operation?: number;
+}
+
+/**
+ * Whether an allowance amount is effectively unlimited
+ *
+ * Besides anything at or above UNLIMITED_ALLOWANCE_THRESHOLD, maxUint96 is
+ * the "infinite" sentinel of tokens that store allowances in 96 bits
+ * (COMP, UNI and their forks).
+ */
+export function isUnlimitedAllowance(amount: bigint): boolean {
+  return amount >= UNLIMITED_ALLOWANCE_THRESHOLD || amount === maxUint96;
+}
+
+type ApprovalFields = Pick<TokenApproval, 'kind' | 'functionName' | 'token' | 'spender'> & {
+  amount?: bigint;
+  expiration?: number;
+  approved?: boolean;
+};
+
+/**
+ * Decode the approvals one call grants, if it is an approval call
+ */
+function decodeApprovals(to: Address, data: Hex): ApprovalFields[] {
+  let decoded;
+  try {
+    decoded = decodeFunctionData({ abi: APPROVAL_ABI, data });
+  } catch {
+    return [];
+  }
+
+  switch (decoded.functionName) {
+    case 'approve': {
+      if (decoded.args.length === 2) {
+        const [spender, amount] = decoded.args;
+        return [{ kind: 'erc20-approve', functionName: 'approve', token: to, spender, amount }];
+      }
+      const [token, spender, amount, expiration] = decoded.args;
+      return [{ kind: 'permit2-approve', functionName: 'approve', token, spender, amount, expiration }];
+    }
+    case 'increaseAllowance': {
+      const [spender, amount] = decoded.args;
+      return [{ kind: 'erc20-increase-allowance', functionName: 'increaseAllowance', token: to, spender, amount }];
+    }
+    case 'setApprovalForAll': {
+      const [spender, approved] = decoded.args;
+      return [{ kind: 'approval-for-all', functionName: 'setApprovalForAll', token: to, spender, approved }];
+    }
+    case 'permit': {
+      const permit = decoded.args[1];
+      const details = Array.isArray(permit.details) ? permit.details : [permit.details];
+      return details.map((detail) => ({
+        kind: 'permit2-permit' as const,
+        functionName: 'permit',
+        token: detail.token,
+        spender: permit.spender,
+        amount: detail.amount,
+        expiration: detail.expiration,
+      }));
+    }
+  }
+}
+
+function tokenLabelOf(token: Address, network: string | undefined): string | undefined {
+  const key = token.toLowerCase();
+  return (
+    getAddressTag(token)?.label ??
+    CONTRACTS_BY_NETWORK[network ?? '']?.find((contract) => contract.address.toLowerCase() === key)?.label
+  );
+}
+
+function spenderOf(
+  spender: Address,
+  options: TokenApprovalOptions
+): Pick<TokenApproval, 'spenderStatus' | 'spenderLabel'> {
+  if (options.safeAddress && spender.toLowerCase() === options.safeAddress.toLowerCase()) {
+    return { spenderStatus: 'verified', spenderLabel: 'Your Safe' };
+  }
+  const tag = getAddressTag(spender);
+  if (!tag) {
+    return { spenderStatus: 'unverified' };
+  }
+  const spenderStatus = tag.source === 'address-book' && tag.status === 'inactive' ? 'inactive' : 'verified';
+  return { spenderStatus, spenderLabel: tag.label };
+}
+
+function levelFor(approval: TokenApproval): WarningLevel | undefined {
+  if (approval.isRevocation) {
+    return undefined;
+  }
+  if (approval.spenderStatus === 'inactive') {
+    return 'high';
+  }
+  if (approval.isUnlimited) {
+    return approval.spenderStatus === 'unverified' ? 'high' : 'medium';
+  }
+  return approval.spenderStatus === 'unverified' ? 'medium' : undefined;
+}
+
+function warningFor(approval: TokenApproval, level: WarningLevel): string {
+  const where = approval.batchPath ? ` (batch call ${approval.batchPath.join('.')})` : '';
+  const token = approval.tokenLabel ? `${approval.tokenLabel} (${approval.token})` : approval.token;
+  const spender =
+    approval.spenderStatus === 'unverified'
+      ? `unknown spender ${approval.spender}`
+      : approval.spenderStatus === 'inactive'
+        ? `${approval.spenderLabel} (${approval.spender}), INACTIVE in the address book`
+        : `${approval.spenderLabel} (${approval.spender})`;
+  const prefix = level === 'high' ? 'WARNING' : 'NOTICE';
+
+  if (approval.kind === 'erc20-approve' && approval.formattedAmount === undefined && !approval.isUnlimited) {
+    // Not a known ERC-20: ERC-721 approve has the same selector, with a token ID
+    return (
+      `${prefix}: approve${where} lets ${spender} move ${token}: an allowance of ${approval.amount} on an ERC-20, ` +
+      `or token ID ${approval.amount} on an ERC-721.`
+    );
+  }
+  if (approval.kind === 'approval-for-all') {
+    return (
+      `${prefix}: setApprovalForAll${where} makes ${spender} an operator for every token of ${token} ` +
+      `the Safe holds, now and later.`
+    );
+  }
+  const amount = approval.isUnlimited ? 'an unlimited' : `a ${approval.formattedAmount ?? String(approval.amount)}`;
+  const via = approval.kind.startsWith('permit2') ? ' through Permit2' : '';
+  return `${prefix}: ${approval.functionName}${where} grants ${spender} ${amount} allowance of ${token}${via}.`;
+}
+
+/**
+ * Check a transaction for token approvals, MultiSend batches included
+ *
+ * approve(address,uint256) is both ERC-20's and ERC-721's. Token IDs stay far
+ * below UNLIMITED_ALLOWANCE_THRESHOLD, so amounts above it are unlimited on any
+ * target; the maxUint96 sentinel and a zero amount (a revocation) only count on
+ * a known ERC-20, since elsewhere they may be token IDs.
+ *
+ * Severity:
+ *   - spender INACTIVE in the address book: high
+ *   - unlimited allowance or setApprovalForAll to an unknown spender: high
+ *   - unlimited allowance to a known spender, or a bounded one to an unknown
+ *     spender: medium
+ *   - bounded allowance to a known spender, or a revocation: no warning
+ *
+ * A spender is known when it is an active address-book entry, a built-in
+ * contract or the Safe itself.
+ *
+ * @param to - Transaction target
+ * @param data - Transaction data
+ * @param options - Network (for token decimals), Safe address and operation
+ * @returns Approvals found, with a warning on each risky one
+ *
+ * @example
+ * const result = checkTokenApprovals(usdc, approveData, { network: 'ethereum' });
+ * // result.approvals[0].isUnlimited = true
+ * // result.warningLevel = "high"
+ */
+export function checkTokenApprovals(
+  to: Address,
+  data: Hex,
+  options: TokenApprovalOptions = {}
+): TokenApprovalCheckResult {
+  // Only batches the Safe delegatecalls grant approvals as the Safe
+  const multiSend = (options.operation ?? 1) === 1 ? parseMultiSend(data) : null;
+  const calls = multiSend
+    ? flattenSafeBatchCalls(multiSend.calls)
+        .filter((call) => call.operation === 0)
+        .map((call) => ({ to: call.to, data: call.data, batchPath: call.path }))
+    : [{ to, data, batchPath: undefined }];
+
+  const approvals: TokenApproval[] = [];
+  for (const call of calls) {
+    for (const fields of decodeApprovals(call.to, call.data)) {
+      const { approved, amount, ...rest } = fields;
+      const tokenLabel = tokenLabelOf(fields.token, options.network);
+      const decimals = options.network ? getKnownTokenDecimals(options.network, fields.token) : null;
+      const maybeTokenId = fields.kind === 'erc20-approve' && decimals === null;
+      const approval: TokenApproval = {
+        ...rest,
+        tokenLabel,
+        ...spenderOf(fields.spender, options),
+        amount,
+        formattedAmount:
+          amount !== undefined && decimals !== null
+            ? `${formatUnits(amount, decimals)}${tokenLabel ? ` ${tokenLabel}` : ''}`
+            : undefined,
+        isUnlimited:
+          approved ??
+          (amount !== undefined &&
+            (maybeTokenId ? amount >= UNLIMITED_ALLOWANCE_THRESHOLD : isUnlimitedAllowance(amount))),
+        isRevocation: approved === false || (amount === 0n && !maybeTokenId),
+        batchPath: call.batchPath,
+      };
+      const level = levelFor(approval);
+      if (level) {
+        approval.warningLevel = level;
+        approval.warning = warningFor(approval, level);
+      }
+      approvals.push(approval);
+    }
+  }
+
+  const warnings = approvals.flatMap((approval) => (approval.warning ? [approval.warning] : []));
+  if (warnings.length === 0) {
+    return { approvals };
+  }
+  return {
+    approvals,
+    warnings,
+    warningLevel: approvals.some((approval) => approval.warningLevel === 'high') ? 'high' : 'medium',
+  };
+}
@@ -8,6 +8,7 @@
  */
 
 import type { Address } from 'viem';
+import { SAFE_DEPLOYMENTS } from './deployments.js';
 
 /**
  * MultiSendCallOnly addresses (trusted for batch transactions)
@@ -22,6 +23,22 @@ export const MULTISEND_CALL_ONLY: readonly Address[] = [
   '0xA83c336B20401Af773B6219BA5027174338D1836', // v1.5.0 (canonical)
 ] as const;
 
+/**
+ * MultiSend addresses (the plain variant, which also runs delegatecalls)
+ *
+ * Not trusted for delegate calls: a call inside the batch can itself be a
+ * delegatecall to any contract, which then runs as the Safe. Each of those is
+ * checked on its own.
+ */
+export const MULTISEND: readonly Address[] = [
+  '0xA238CBeb142c10Ef7Ad8442C6D1f9E89e07e7761', // v1.3.0 (canonical)
+  '0x998739BFdAAdde7C933B942a68053933098f9EDa', // v1.3.0 (eip155)
+  '0x0dFcccB95225ffB03c6FBB2559B530C2B7C8A912', // v1.3.0 (zksync)
+  '0x38869bf66a61cF6bDB996A6aE40D5853Fd43B526', // v1.4.1 (canonical)
+  '0x309D0B190FeCCa8e1D5D8309a16F7e3CB133E885', // v1.4.1 (zksync)
+  '0x218543288004CD07832472D464648173c77D7eB7', // v1.5.0 (canonical)
+] as const;
+
 /**
  * SafeMigration addresses (trusted for Safe contract migrations)
  * Reference: safe_hashes.sh lines 198-206
@@ -45,6 +62,12 @@ export const SIGN_MESSAGE_LIB: readonly Address[] = [
   '0x4FfeF8222648872B3dE295Ba1e49110E61f5b5aa', // v1.5.0 (canonical)
 ] as const;
 
+/**
+ * Uniswap Permit2, the same address on every network. Tokens approved to it
+ * once can be moved by any spender the Safe then grants a Permit2 allowance.
+ */
+export const PERMIT2: Address = '0x000000000022D473030F116dDEE9F6B43aC78BA3';
+
 /**
  * All trusted addresses for delegate calls
  */
@@ -106,6 +129,27 @@ export const GUARD_MANAGEMENT_FUNCTIONS = [
  */
 export const TRUSTED_GUARDS: readonly Address[] = [] as const;
 
+/**
+ * Safe singleton (masterCopy) addresses, on any network
+ *
+ * A Safe proxy delegates every call to its singleton, so a non-canonical
+ * singleton means the Safe runs code nobody has audited.
+ */
+export const TRUSTED_SINGLETONS: readonly Address[] = SAFE_DEPLOYMENTS.filter(
+  (d) => d.contract === 'Safe' || d.contract === 'SafeL2'
+).map((d) => d.address);
+
+/**
+ * Fallback handler addresses, on any network
+ *
+ * The fallback handler answers every call the Safe itself does not implement
+ * (EIP-1271 isValidSignature, token callbacks), so an unknown one can
+ * validate signatures on the Safe's behalf.
+ */
+export const TRUSTED_FALLBACK_HANDLERS: readonly Address[] = SAFE_DEPLOYMENTS.filter(
+  (d) => d.contract === 'FallbackHandler'
+).map((d) => d.address);
+
 /**
  * Storage slot for guard address
  * keccak256("guard_manager.guard.address")
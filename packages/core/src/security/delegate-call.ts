@@ -4,9 +4,15 @@
  * Reference: safe_hashes.sh lines 789-806
  */
 
-import type { Address } from 'viem';
-import { TRUSTED_DELEGATE_CALL_ADDRESSES } from './constants.js';
-import type { DelegateCallCheckResult } from './types.js';
+import type { Address, Hex } from 'viem';
+import { MULTISEND, MULTISEND_CALL_ONLY, TRUSTED_DELEGATE_CALL_ADDRESSES } from './constants.js';
+import { parseMultiSend, type MultiSendCall } from './multisend-decoder.js';
+import type {
+  DelegateCallCheckResult,
+  DelegateCallTrustTier,
+  NestedDelegateCall,
+  WarningLevel,
+} from './types.js';
 
 /**
  * Operation type constants matching Safe's Enum.Operation
@@ -17,6 +23,11 @@ export const OperationType = {
   DelegateCall: 1,
 } as const;
 
+function isListed(list: readonly Address[], address: Address): boolean {
+  const normalizedAddress = address.toLowerCase();
+  return list.some((entry) => entry.toLowerCase() === normalizedAddress);
+}
+
 /**
  * Check if an address is trusted for delegate calls
  *
@@ -24,22 +35,81 @@ export const OperationType = {
  * @returns True if the address is in the trusted list
  */
 export function isTrustedForDelegateCall(address: Address): boolean {
-  const normalizedAddress = address.toLowerCase() as Address;
-  return TRUSTED_DELEGATE_CALL_ADDRESSES.some(
-    (trusted) => trusted.toLowerCase() === normalizedAddress
-  );
+  return isListed(TRUSTED_DELEGATE_CALL_ADDRESSES, address);
+}
+
+/**
+ * Get the trust tier of a delegate call target
+ *
+ * A canonical MultiSend is its own tier: the contract is genuine, but unlike
+ * MultiSendCallOnly it runs delegatecalls from inside the batch, so the batch
+ * can hide a delegatecall to anything.
+ *
+ * @param address - The delegate call target
+ * @returns 'trusted', 'multisend' or 'untrusted'
+ */
+export function getDelegateCallTrustTier(address: Address): DelegateCallTrustTier {
+  if (isTrustedForDelegateCall(address)) {
+    return 'trusted';
+  }
+  return isListed(MULTISEND, address) ? 'multisend' : 'untrusted';
+}
+
+const LEVEL_ORDER: WarningLevel[] = ['critical', 'high', 'medium', 'low', 'info'];
+
+/**
+ * Collect the delegatecalls a batch makes as the Safe. Only batches reached
+ * by delegatecall run as the Safe, so plain calls are not descended into.
+ */
+function collectNestedDelegateCalls(
+  calls: MultiSendCall[],
+  batchTarget: Address,
+  found: NestedDelegateCall[]
+): void {
+  const callOnly = isListed(MULTISEND_CALL_ONLY, batchTarget);
+
+  for (const call of calls) {
+    if (call.operation !== OperationType.DelegateCall) {
+      continue;
+    }
+    const trustTier = getDelegateCallTrustTier(call.to);
+    const where = `batch call ${call.path.join('.')}`;
+    const nested: NestedDelegateCall = { targetAddress: call.to, batchPath: call.path, trustTier };
+
+    if (callOnly) {
+      // MultiSendCallOnly reverts on a delegatecall, so this one never runs,
+      // but nothing but a hand-crafted payload puts it there.
+      nested.warning = `WARNING: ${where} is a delegatecall to ${call.to} inside a MultiSendCallOnly batch, which rejects delegatecalls. The whole transaction will revert.`;
+      nested.warningLevel = 'high';
+    } else if (trustTier === 'untrusted') {
+      nested.warning = `WARNING: ${where} is an untrusted delegate call to address ${call.to}, hidden inside the MultiSend batch! It runs with full control of the Safe. Please review it carefully before you sign!`;
+      nested.warningLevel = 'critical';
+    } else if (trustTier === 'multisend') {
+      nested.warning = `WARNING: ${where} delegatecalls MultiSend at ${call.to}, whose own calls may be delegatecalls too. Each one is checked below.`;
+      nested.warningLevel = 'high';
+    }
+    found.push(nested);
+
+    if (!callOnly && trustTier !== 'untrusted' && call.calls) {
+      collectNestedDelegateCalls(call.calls, call.to, found);
+    }
+  }
 }
 
 /**
  * Check if a transaction uses an untrusted delegate call
  *
  * Warns the user if operation equals 1 (delegate call) and the target address
- * is not in the trusted contracts list.
+ * is not in the trusted contracts list. A delegatecall to a canonical
+ * MultiSend is high risk rather than critical; either way, when `data` is a
+ * MultiSend batch, every delegatecall inside it is judged the same way and
+ * reported with its batch position.
  *
  * Reference: safe_hashes.sh lines 789-806
  *
  * @param operation - The operation type (0 = Call, 1 = DelegateCall)
  * @param to - The target address
+ * @param data - Transaction data, to find delegatecalls inside a MultiSend batch
  * @returns Check result with warning if delegate call is untrusted
  *
  * @example
@@ -50,10 +120,17 @@ export function isTrustedForDelegateCall(address: Address): boolean {
  * // Untrusted delegate call
  * const result = checkDelegateCall(1, "0x1234567890123456789012345678901234567890");
  * // result.isTrusted = false, warning present
+ *
+ * // MultiSend batch whose call 2 delegatecalls an unknown contract
+ * const result = checkDelegateCall(1, "0x38869bf66a61cF6bDB996A6aE40D5853Fd43B526", "0x8d80ff0a...");
+ * // result.trustTier = "multisend"
+ * // result.nestedDelegateCalls[0].batchPath = [2]
+ * // result.warningLevel = "critical"
  */
 export function checkDelegateCall(
   operation: number,
-  to: Address
+  to: Address,
+  data?: Hex
 ): DelegateCallCheckResult {
   const isDelegateCall = operation === OperationType.DelegateCall;
 
@@ -61,27 +138,40 @@ export function checkDelegateCall(
     return {
       isDelegateCall: false,
       isTrusted: false,
+      nestedDelegateCalls: [],
     };
   }
 
-  const isTrusted = isTrustedForDelegateCall(to);
-
-  if (isTrusted) {
-    return {
-      isDelegateCall: true,
-      isTrusted: true,
-      targetAddress: to,
-    };
-  }
-
-  // Untrusted delegate call detected
-  return {
+  const trustTier = getDelegateCallTrustTier(to);
+  const result: DelegateCallCheckResult = {
     isDelegateCall: true,
-    isTrusted: false,
+    isTrusted: trustTier === 'trusted',
     targetAddress: to,
-    warning: `WARNING: The transaction includes an untrusted delegate call to address ${to}! This may lead to unexpected behaviour or vulnerabilities. Please review it carefully before you sign!`,
-    warningLevel: 'critical',
+    trustTier,
+    nestedDelegateCalls: [],
   };
+
+  if (trustTier === 'untrusted') {
+    // Untrusted delegate call detected; what it does with `data` is up to it
+    result.warning = `WARNING: The transaction includes an untrusted delegate call to address ${to}! This may lead to unexpected behaviour or vulnerabilities. Please review it carefully before you sign!`;
+    result.warningLevel = 'critical';
+    return result;
+  }
+
+  const levels: Array<WarningLevel | undefined> = [];
+  if (trustTier === 'multisend') {
+    result.warning = `WARNING: The transaction delegatecalls MultiSend at ${to}, not MultiSendCallOnly. Calls in this batch can themselves be delegatecalls that run as the Safe; each one is checked below.`;
+    levels.push('high');
+  }
+
+  const batch = data ? parseMultiSend(data) : null;
+  if (batch) {
+    collectNestedDelegateCalls(batch.calls, to, result.nestedDelegateCalls);
+    levels.push(...result.nestedDelegateCalls.map((nested) => nested.warningLevel));
+  }
+
+  const warningLevel = LEVEL_ORDER.find((level) => levels.includes(level));
+  return warningLevel ? { ...result, warningLevel } : result;
 }
 
 /**
@@ -97,10 +187,12 @@ export function getOperationDescription(operation: number, to: Address): string
   }
 
   if (operation === OperationType.DelegateCall) {
-    const isTrusted = isTrustedForDelegateCall(to);
-    return isTrusted
+    const trustTier = getDelegateCallTrustTier(to);
+    return trustTier === 'trusted'
       ? 'DelegateCall (trusted)'
-      : 'DelegateCall (UNTRUSTED - carefully verify before proceeding!)';
+      : trustTier === 'multisend'
+        ? 'DelegateCall (MultiSend - the batch may delegatecall too)'
+        : 'DelegateCall (UNTRUSTED - carefully verify before proceeding!)';
   }
 
   return 'Unknown';
@@ -0,0 +1,109 @@
+/**
+ * Canonical Safe Deployments
+ *
+ * Singleton, fallback handler and migration contract addresses published by
+ * Safe, per version and per deployment type. Canonical and EIP-155
+ * deployments share one address on every EVM chain; zkSync's compiler
+ * produces different addresses, so those are only valid on zkSync.
+ *
+ * @see https://github.com/safe-global/safe-deployments
+ */
+
+import type { Address } from 'viem';
+
+export type SafeDeploymentContract = 'Safe' | 'SafeL2' | 'FallbackHandler' | 'SafeMigration';
+
+export type SafeDeploymentType = 'canonical' | 'eip155' | 'zksync';
+
+export interface SafeDeployment {
+  contract: SafeDeploymentContract;
+  version: string;
+  deployment: SafeDeploymentType;
+  address: Address;
+}
+
+/**
+ * zkSync Era mainnet and Sepolia
+ */
+export const ZKSYNC_CHAIN_IDS: readonly number[] = [324, 300] as const;
+
+function deployment(
+  contract: SafeDeploymentContract,
+  version: string,
+  type: SafeDeploymentType,
+  address: Address
+): SafeDeployment {
+  return { contract, version, deployment: type, address };
+}
+
+export const SAFE_DEPLOYMENTS: readonly SafeDeployment[] = [
+  // Singletons
+  deployment('Safe', '1.0.0', 'canonical', '0xb6029EA3B2c51D09a50B53CA8012FeEB05bDa35A'),
+  deployment('Safe', '1.1.1', 'canonical', '0x34CfAC646f301356fAa8B21e94227e3583Fe3F5F'),
+  deployment('Safe', '1.2.0', 'canonical', '0x6851D6fDFAfD08c0295C392436245E5bc78B0185'),
+  deployment('Safe', '1.3.0', 'canonical', '0xd9Db270c1B5E3Bd161E8c8503c55cEABeE709552'),
+  deployment('SafeL2', '1.3.0', 'canonical', '0x3E5c63644E683549055b9Be8653de26E0B4CD36E'),
+  deployment('Safe', '1.3.0', 'eip155', '0x69f4D1788e39c87893C980c06EdF4b7f686e2938'),
+  deployment('SafeL2', '1.3.0', 'eip155', '0xfb1bffC9d739B8D520DaF37dF666da4C687191EA'),
+  deployment('Safe', '1.3.0', 'zksync', '0xB00ce5CCcdEf57e539ddcEd01DF43a13855d9910'),
+  deployment('SafeL2', '1.3.0', 'zksync', '0x1727c2c531cf966f902E5927b98490fDFb3b2b70'),
+  deployment('Safe', '1.4.1', 'canonical', '0x41675C099F32341bf84BFc5382aF534df5C7461a'),
+  deployment('SafeL2', '1.4.1', 'canonical', '0x29fcB43b46531BcA003ddC8FCB67FFE91900C762'),
+  deployment('Safe', '1.4.1', 'zksync', '0xC35F063962328aC65cED5D4c3fC5dEf8dec68dFa'),
+  deployment('SafeL2', '1.4.1', 'zksync', '0x610fcA2e0279Fa1F8C00c8c2F71dF522AD469380'),
+  deployment('Safe', '1.5.0', 'canonical', '0xFf51A5898e281Db6DfC7855790607438dF2ca44b'),
+  deployment('SafeL2', '1.5.0', 'canonical', '0xEdd160fEBBD92E350D4D398fb636302fccd67C7e'),
+
+  // Fallback handlers (DefaultCallbackHandler for 1.1.1, CompatibilityFallbackHandler after)
+  deployment('FallbackHandler', '1.1.1', 'canonical', '0xd5D82B6aDDc9027B22dCA772Aa68D5d74cdBdF44'),
+  deployment('FallbackHandler', '1.3.0', 'canonical', '0xf48f2B2d2a534e402487b3ee7C18c33Aec0Fe5e4'),
+  deployment('FallbackHandler', '1.3.0', 'eip155', '0x017062a1dE2FE6b99BE3d9d37841FeD19F573804'),
+  deployment('FallbackHandler', '1.3.0', 'zksync', '0x2f870a80647BbC554F3a0EBD093f11B4d2a7492A'),
+  deployment('FallbackHandler', '1.4.1', 'canonical', '0xfd0732Dc9E303f09fCEf3a7388Ad10A83459Ec99'),
+  deployment('FallbackHandler', '1.4.1', 'zksync', '0x9301E98DD367135f21bdF66f342A249c9D5F9069'),
+  deployment('FallbackHandler', '1.5.0', 'canonical', '0x3EfCBb83A4A7AfcB4F68D501E2c2203a38be77f4'),
+
+  // SafeMigration: migrates to the singleton and fallback handler of its own version
+  deployment('SafeMigration', '1.4.1', 'canonical', '0x526643F69b81B008F46d95CD5ced5eC0edFFDaC6'),
+  deployment('SafeMigration', '1.4.1', 'zksync', '0x817756C6c555A94BCEE39eB5a102AbC1678b09A7'),
+  deployment('SafeMigration', '1.5.0', 'canonical', '0x6439e7ABD8Bb915A5263094784C5CF561c4172AC'),
+];
+
+function isDeployedOn(d: SafeDeployment, chainId: number | undefined): boolean {
+  if (chainId === undefined) return true;
+  return (d.deployment === 'zksync') === ZKSYNC_CHAIN_IDS.includes(chainId);
+}
+
+/**
+ * Find the canonical deployment at an address.
+ *
+ * @param address - Contract address
+ * @param contracts - Contract kinds to accept
+ * @param chainId - Network to check against. Omit to accept a deployment from any network.
+ * @returns The deployment, or undefined if the address is not a canonical one
+ *
+ * @example
+ * findSafeDeployment('0x41675C099F32341bf84BFc5382aF534df5C7461a', ['Safe', 'SafeL2'], 1);
+ * // { contract: 'Safe', version: '1.4.1', deployment: 'canonical', ... }
+ */
+export function findSafeDeployment(
+  address: Address,
+  contracts: readonly SafeDeploymentContract[],
+  chainId?: number
+): SafeDeployment | undefined {
+  const key = address.toLowerCase();
+  return SAFE_DEPLOYMENTS.find(
+    (d) => d.address.toLowerCase() === key && contracts.includes(d.contract) && isDeployedOn(d, chainId)
+  );
+}
+
+/**
+ * Look up the deployment of a contract for a version and deployment type
+ */
+export function getSafeDeployment(
+  contract: SafeDeploymentContract,
+  version: string,
+  deployment: SafeDeploymentType
+): SafeDeployment | undefined {
+  return SAFE_DEPLOYMENTS.find((d) => d.contract === contract && d.version === version && d.deployment === deployment);
+}
@@ -2,11 +2,20 @@
  * Security checks module
  *
  * Provides security analysis for Safe transactions including:
- * - Untrusted delegate call detection
+ * - Untrusted delegate call detection, inside MultiSend batches too
  * - Gas token attack detection
  * - Owner/threshold modification detection
  * - Module enable/disable detection
  * - Guard modification detection
+ * - Malformed MultiSend payload detection
+ * - Lookalike (address-poisoning) detection
+ * - Token approval detection (ERC-20, setApprovalForAll, Permit2)
+ * - Native value and large-transfer thresholds
+ * - Cross-chain signature replay for Safes without a chainId in their domain
+ * - Nonce checks against the Safe's current nonce and queue
+ * - Proposer checks against owners, delegates and the address book
+ * - Per-Safe signing policy checks
+ * - Confirmation signature verification
  */
 
 // Main analyzer
@@ -19,9 +28,35 @@ export type {
   AddressBookRecipient,
   AddressBookRecipientStatus,
 } from './address-book-check.js';
-export { checkDelegateCall, isTrustedForDelegateCall, getOperationDescription, OperationType } from './delegate-call.js';
+export {
+  LOOKALIKE_AFFIX_LENGTH,
+  checkLookalikeAddresses,
+  differingCharacters,
+  findLookalikeAddress,
+} from './lookalike-check.js';
+export type { LookalikeCheckResult, LookalikeMatch, LookalikeOptions, LookalikeSource } from './lookalike-check.js';
+export { checkSafeConfiguration } from './safe-config.js';
+export type {
+  SafeConfigCheckResult,
+  SafeConfigEntry,
+  SafeConfigEntryStatus,
+  SafeConfigRole,
+} from './safe-config.js';
+export {
+  checkDelegateCall,
+  getDelegateCallTrustTier,
+  isTrustedForDelegateCall,
+  getOperationDescription,
+  OperationType,
+} from './delegate-call.js';
 export { checkGasTokenAttack } from './gas-token.js';
-export { checkOwnerModifications, checkOwnerModificationsFromDecoded, isOwnerModificationFunction } from './owner-checks.js';
+export { verifyConfirmations, getSafeSignatureType } from './signatures.js';
+export {
+  checkOwnerModifications,
+  checkOwnerModificationsFromDecoded,
+  isOwnerModificationFunction,
+  previewOwnerChanges,
+} from './owner-checks.js';
 export {
   checkModuleGuardOperations,
   checkModuleGuardOperationsFromDecoded,
@@ -29,13 +64,43 @@ export {
   isGuardManagementFunction,
 } from './module-guard-checks.js';
 
+export { checkSafeUpgradeOperations } from './upgrade-checks.js';
+export { checkMultiSendStructure } from './multisend-checks.js';
+export { checkPolicy } from './policy-check.js';
+export { UNLIMITED_ALLOWANCE_THRESHOLD, checkTokenApprovals, isUnlimitedAllowance } from './approval-checks.js';
+export type { TokenApprovalOptions } from './approval-checks.js';
+export { DEFAULT_TRANSFER_THRESHOLDS, checkValueTransfers, resolveTransferThresholds } from './value-checks.js';
+export type { ValueTransferOptions } from './value-checks.js';
+export { checkCrossChainReplay, fetchCrossChainSafeStates, isCrossChainReplayable } from './replay-check.js';
+export type { CrossChainReplayOptions } from './replay-check.js';
+export { FAR_FUTURE_NONCE_DISTANCE, checkNonce, fetchQueuedNonces } from './nonce-checks.js';
+export { checkProposer } from './proposer-check.js';
+export type { ProposerCheckOptions } from './proposer-check.js';
+export { SAFE_DEPLOYMENTS, ZKSYNC_CHAIN_IDS, findSafeDeployment, getSafeDeployment } from './deployments.js';
+export type { SafeDeployment, SafeDeploymentContract, SafeDeploymentType } from './deployments.js';
+
 // Utilities
-export { decodeMultiSend, isMultiSend } from './multisend-decoder.js';
-export type { DecodedMultiSendTransaction } from './multisend-decoder.js';
+export {
+  MAX_MULTISEND_DEPTH,
+  decodeMultiSend,
+  flattenMultiSendCalls,
+  flattenSafeBatchCalls,
+  isMultiSend,
+  parseMultiSend,
+} from './multisend-decoder.js';
+export type {
+  DecodedMultiSendTransaction,
+  MultiSendCall,
+  MultiSendParseError,
+  MultiSendParseErrorKind,
+  MultiSendParseResult,
+} from './multisend-decoder.js';
 
 // Constants
 export {
+  MULTISEND,
   MULTISEND_CALL_ONLY,
+  PERMIT2,
   SAFE_MIGRATION,
   SIGN_MESSAGE_LIB,
   TRUSTED_DELEGATE_CALL_ADDRESSES,
@@ -44,6 +109,8 @@ export {
   TRUSTED_MODULES,
   GUARD_MANAGEMENT_FUNCTIONS,
   TRUSTED_GUARDS,
+  TRUSTED_SINGLETONS,
+  TRUSTED_FALLBACK_HANDLERS,
   GUARD_STORAGE_SLOT,
   ZERO_ADDRESS,
 } from './constants.js';
@@ -51,11 +118,44 @@ export {
 // Types
 export type {
   WarningLevel,
+  DelegateCallTrustTier,
+  NestedDelegateCall,
   DelegateCallCheckResult,
   GasTokenCheckResult,
   OwnerModificationDetection,
   OwnerModificationCheckResult,
+  SafeOwnerState,
+  OwnerChangeFindingKind,
+  OwnerChangeFinding,
+  OwnerChangeStep,
+  OwnerStatePreview,
   ModuleGuardDetection,
   ModuleGuardCheckResult,
+  SafeUpgradeDetection,
+  SafeUpgradeCheckResult,
+  MultiSendStructureCheckResult,
+  TokenApprovalKind,
+  TokenApproval,
+  TokenApprovalCheckResult,
+  TransferThresholds,
+  RecipientOutflow,
+  AssetOutflow,
+  ValueTransferCheckResult,
+  CrossChainSafeState,
+  CrossChainReplayExposure,
+  CrossChainReplayCheckResult,
+  SafeNonceState,
+  NonceFindingKind,
+  NonceFinding,
+  NonceCheckResult,
+  ProposerStatus,
+  ProposerCheckResult,
+  PolicyViolationKind,
+  PolicyViolation,
+  PolicyCheckResult,
   SecurityAnalysisResult,
+  SafeSignatureType,
+  ConfirmationStatus,
+  ConfirmationCheck,
+  ConfirmationsCheckResult,
 } from './types.js';
@@ -0,0 +1,98 @@
+/**
+ * Tests for lookalike address detection
+ */
+
+import { afterEach, describe, it, expect } from 'vitest';
+import { encodeFunctionData, erc20Abi, type Address } from 'viem';
+import { checkLookalikeAddresses, differingCharacters, findLookalikeAddress } from './lookalike-check.js';
+import { analyzeSecurity } from './analyzer.js';
+import { ZERO_ADDRESS } from './constants.js';
+import { CONTRACTS_BY_NETWORK } from '../contracts/index.js';
+import { loadAddressBookCsv } from '../utils/address-book.js';
+import { clearAddressBookTags } from '../utils/address-tags.js';
+
+const SAFE = '0xf65475e74C1Ed6d004d5240b06E3088724dFDA5d' as Address;
+const TREASURY = '0x1234567890123456789012345678901234567890' as Address;
+const POISONED = '0x1234ffffffffffffffffffffffffffffffff7890' as Address;
+const USDC = CONTRACTS_BY_NETWORK.ethereum!.find((contract) => contract.label === 'USDC')!.address as Address;
+
+function lookalikeOf(address: Address): Address {
+  return `${address.slice(0, 6)}${'0'.repeat(32)}${address.slice(-4)}`.toLowerCase() as Address;
+}
+
+afterEach(() => {
+  clearAddressBookTags();
+});
+
+describe('findLookalikeAddress', () => {
+  it('should match the first and last 4 hex characters of an address-book entry', () => {
+    loadAddressBookCsv(['address,label,verification_date,status', `${TREASURY},Treasury,2026-05-01,active`].join('\n'));
+
+    expect(findLookalikeAddress(POISONED)).toEqual({
+      address: POISONED,
+      resembles: TREASURY,
+      label: 'Treasury',
+      source: 'address-book',
+    });
+    expect(findLookalikeAddress(TREASURY)).toBeUndefined();
+    expect(findLookalikeAddress('0x1235ffffffffffffffffffffffffffffffff7890')).toBeUndefined();
+  });
+
+  it('should match network contracts and the Safe itself', () => {
+    expect(findLookalikeAddress(lookalikeOf(USDC), { network: 'ethereum' })).toMatchObject({
+      label: 'USDC',
+      source: 'network-contract',
+    });
+    expect(findLookalikeAddress(lookalikeOf(USDC), { network: 'base' })?.source).not.toBe('network-contract');
+    expect(findLookalikeAddress(lookalikeOf(SAFE), { safeAddress: SAFE })).toMatchObject({
+      label: 'Your Safe',
+      source: 'safe',
+    });
+  });
+});
+
+describe('checkLookalikeAddresses', () => {
+  it('should check decoded parameters and raise a high finding', () => {
+    const data = encodeFunctionData({ abi: erc20Abi, functionName: 'transfer', args: [lookalikeOf(SAFE), 1n] });
+
+    const result = checkLookalikeAddresses(USDC, data, [lookalikeOf(SAFE)], { network: 'ethereum', safeAddress: SAFE });
+
+    expect(result.matches.map((match) => match.resembles)).toEqual([SAFE]);
+    expect(result.warnings![0]).toContain('looks like Your Safe');
+    expect(result.warningLevel).toBe('high');
+  });
+
+  it('should stay silent when nothing imitates a known address', () => {
+    expect(checkLookalikeAddresses(TREASURY, '0x', [], { network: 'ethereum', safeAddress: SAFE })).toEqual({
+      matches: [],
+    });
+  });
+
+  it('should raise the overall risk in analyzeSecurity', () => {
+    const result = analyzeSecurity(
+      {
+        to: lookalikeOf(USDC),
+        value: '0',
+        data: '0x',
+        operation: 0,
+        safeTxGas: '0',
+        baseGas: '0',
+        gasPrice: '0',
+        gasToken: ZERO_ADDRESS,
+        refundReceiver: ZERO_ADDRESS,
+        nonce: '1',
+      },
+      { network: 'ethereum' }
+    );
+
+    expect(result.lookalike.matches[0]!.label).toBe('USDC');
+    expect(result.overallRisk).toBe('high');
+    expect(result.requiresCarefulReview).toBe(true);
+  });
+});
+
+describe('differingCharacters', () => {
+  it('should flag the characters that differ, ignoring case', () => {
+    expect(differingCharacters('0xAb12', '0xab13')).toEqual([false, false, false, false, false, true]);
+  });
+});
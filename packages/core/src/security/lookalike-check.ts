@@ -0,0 +1,168 @@
+/**
+ * Lookalike Address Check
+ *
+ * Address poisoning relies on signers comparing only the start and end of an
+ * address. An attacker generates an address that shares the first and last
+ * few hex characters of one the victim uses, then gets it into the victim's
+ * history so it is copied by mistake.
+ *
+ * Every address a transaction touches is compared with the addresses the
+ * signer trusts: the loaded address book (My Safes included, which the UI
+ * loads into it), the network's well-known contracts and the Safe itself. An
+ * unknown address with the same first 4 and last 4 hex characters as one of
+ * them is reported, naming the address it imitates.
+ */
+
+import { getAddress, type Address, type Hex } from 'viem';
+import { CONTRACTS_BY_NETWORK } from '../contracts/index.js';
+import { getAddressBookEntries, getAddressTag } from '../utils/address-tags.js';
+import { flattenMultiSendCalls, parseMultiSend } from './multisend-decoder.js';
+import type { WarningLevel } from './types.js';
+
+/**
+ * Hex characters compared at each end of an address
+ */
+export const LOOKALIKE_AFFIX_LENGTH = 4;
+
+/**
+ * Where the imitated address comes from
+ */
+export type LookalikeSource = 'address-book' | 'network-contract' | 'safe';
+
+/**
+ * A touched address that imitates a known one
+ */
+export interface LookalikeMatch {
+  /** Address in the transaction */
+  address: Address;
+  /** Known address it imitates */
+  resembles: Address;
+  /** Label of the known address */
+  label: string;
+  source: LookalikeSource;
+}
+
+export interface LookalikeCheckResult {
+  /** Lookalikes found, one per touched address */
+  matches: LookalikeMatch[];
+  warnings?: string[];
+  /** 'high' when any lookalike is found */
+  warningLevel?: WarningLevel;
+}
+
+export interface LookalikeOptions {
+  /** Network whose well-known contracts to compare against (see CONTRACTS_BY_NETWORK) */
+  network?: string;
+  /** The Safe the transaction is for */
+  safeAddress?: Address;
+}
+
+interface KnownAddress {
+  address: Address;
+  label: string;
+  source: LookalikeSource;
+}
+
+function affixes(address: string): string {
+  const hex = address.slice(2).toLowerCase();
+  return hex.slice(0, LOOKALIKE_AFFIX_LENGTH) + hex.slice(-LOOKALIKE_AFFIX_LENGTH);
+}
+
+function knownAddresses(options: LookalikeOptions): KnownAddress[] {
+  // The registry keys entries by lowercase address
+  const known: KnownAddress[] = getAddressBookEntries().map(([address, tag]) => ({
+    address: getAddress(address),
+    label: tag.label,
+    source: 'address-book',
+  }));
+  for (const contract of CONTRACTS_BY_NETWORK[options.network ?? ''] ?? []) {
+    known.push({ address: contract.address as Address, label: contract.label, source: 'network-contract' });
+  }
+  if (options.safeAddress) {
+    known.push({ address: options.safeAddress, label: 'Your Safe', source: 'safe' });
+  }
+  return known;
+}
+
+/**
+ * Find the known address an address imitates, if any
+ *
+ * An address that is itself known (tagged, or the Safe) is never a lookalike.
+ *
+ * @param address - Address to check
+ * @param options - Network and Safe to compare against, besides the address book
+ * @returns The match, or undefined if the address imitates nothing known
+ *
+ * @example
+ * // Address book holds 0x1234...abcd as "Treasury"
+ * findLookalikeAddress('0x1234ffffffffffffffffffffffffffffffffabcd');
+ * // { address: '0x1234ff...abcd', resembles: '0x1234...abcd', label: 'Treasury', source: 'address-book' }
+ */
+export function findLookalikeAddress(address: Address, options: LookalikeOptions = {}): LookalikeMatch | undefined {
+  const key = address.toLowerCase();
+  const known = knownAddresses(options);
+  if (getAddressTag(address) || known.some((entry) => entry.address.toLowerCase() === key)) {
+    return undefined;
+  }
+  const target = affixes(address);
+  const match = known.find((entry) => affixes(entry.address) === target);
+  return match && { address, resembles: match.address, label: match.label, source: match.source };
+}
+
+/**
+ * Mark which characters of an address differ from the address it imitates,
+ * so a front-end can highlight them. Case is ignored.
+ *
+ * @param address - The lookalike
+ * @param resembles - The known address
+ * @returns One flag per character of `address`, true where it differs
+ */
+export function differingCharacters(address: string, resembles: string): boolean[] {
+  const other = resembles.toLowerCase();
+  return [...address.toLowerCase()].map((char, i) => char !== other[i]);
+}
+
+/**
+ * Check every address a transaction touches for lookalikes of known addresses
+ *
+ * Addresses are the transaction `to`, every call in a MultiSend call tree and
+ * `additionalAddresses` (decoded parameters: recipients, spenders, ...).
+ *
+ * @param to - Transaction target
+ * @param data - Transaction data
+ * @param additionalAddresses - Addresses from decoded parameters
+ * @param options - Network and Safe to compare against, besides the address book
+ * @returns Lookalikes found, high risk when any
+ */
+export function checkLookalikeAddresses(
+  to: Address,
+  data: Hex,
+  additionalAddresses: Address[] = [],
+  options: LookalikeOptions = {}
+): LookalikeCheckResult {
+  const multiSend = parseMultiSend(data);
+  const touched = [to, ...flattenMultiSendCalls(multiSend?.calls ?? []).map((call) => call.to), ...additionalAddresses];
+
+  const matches: LookalikeMatch[] = [];
+  const seen = new Set<string>();
+  for (const address of touched) {
+    const key = address.toLowerCase();
+    if (seen.has(key)) continue;
+    seen.add(key);
+    const match = findLookalikeAddress(address, options);
+    if (match) matches.push(match);
+  }
+
+  if (matches.length === 0) {
+    return { matches };
+  }
+  return {
+    matches,
+    warnings: matches.map(
+      (match) =>
+        `WARNING: ${match.address} looks like ${match.label} (${match.resembles}): same first and last ` +
+        `${LOOKALIKE_AFFIX_LENGTH} hex characters, different address. This is what an address-poisoning attack looks like.`
+    ),
+    warningLevel: 'high',
+  };
+}
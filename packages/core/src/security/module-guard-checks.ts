@@ -14,7 +14,7 @@ import {
   TRUSTED_GUARDS,
 } from './constants.js';
 import type { ModuleGuardCheckResult, ModuleGuardDetection } from './types.js';
-import { decodeMultiSend } from './multisend-decoder.js';
+import { flattenMultiSendCalls, parseMultiSend } from './multisend-decoder.js';
 
 /**
  * Generate function selectors for module management functions
@@ -81,10 +81,13 @@ export function isGuardManagementFunction(functionName: string): boolean {
 
 /**
  * Try to decode transaction data and check for module/guard management
+ *
+ * With `descend`, calls in a MultiSend call tree are checked too.
  */
 function checkTransactionData(
   data: Hex,
-  depth: number = 0
+  depth: number = 0,
+  descend: boolean = true
 ): ModuleGuardDetection[] {
   const detections: ModuleGuardDetection[] = [];
 
@@ -179,14 +182,11 @@ function checkTransactionData(
     }
   }
 
-  // Try to decode as MultiSend to check nested transactions
-  const multiSendTxs = decodeMultiSend(data);
-  if (multiSendTxs) {
-    for (const tx of multiSendTxs) {
-      // Recursively check each nested transaction
-      const nestedDetections = checkTransactionData(tx.data, depth + 1);
-      detections.push(...nestedDetections);
-    }
+  // Check every call in the MultiSend call tree, nested batches included
+  const multiSend = descend ? parseMultiSend(data) : null;
+  for (const call of flattenMultiSendCalls(multiSend?.calls ?? [])) {
+    const nestedDetections = checkTransactionData(call.data, depth + call.depth, false);
+    detections.push(...nestedDetections);
   }
 
   return detections;
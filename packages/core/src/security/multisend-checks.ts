@@ -0,0 +1,58 @@
+/**
+ * MultiSend Structure Checker
+ *
+ * Flags MultiSend payloads that do not parse cleanly. A signer reviews the
+ * calls a decoder shows them; a truncated entry, an unknown operation byte
+ * or bytes the contract never reads mean the payload was not produced by a
+ * normal batch builder, and what executes may not be what was reviewed.
+ */
+
+import type { Hex } from 'viem';
+import { flattenMultiSendCalls, parseMultiSend, type MultiSendParseError } from './multisend-decoder.js';
+import type { MultiSendStructureCheckResult } from './types.js';
+
+function warningFor(error: MultiSendParseError): string {
+  if (error.kind === 'depth-limit') {
+    return `WARNING: ${error.message}. Its calls were not checked.`;
+  }
+  return `CRITICAL: Malformed MultiSend payload: ${error.message}.`;
+}
+
+/**
+ * Check a transaction's MultiSend payload, nested batches included, for
+ * structural errors
+ *
+ * Any structural error is critical. A batch nested past the depth limit is
+ * high risk: the calls in it are not analysed.
+ *
+ * @param data - Transaction data
+ * @returns Check result with the batch's size and any structural errors
+ *
+ * @example
+ * const result = checkMultiSendStructure(tx.data);
+ * // result.errors[0].kind = "overrun"
+ * // result.warningLevel = "critical"
+ */
+export function checkMultiSendStructure(data: Hex): MultiSendStructureCheckResult {
+  const parsed = parseMultiSend(data);
+  if (!parsed) {
+    return { isMultiSend: false, callCount: 0, maxDepth: 0, errors: [] };
+  }
+
+  const calls = flattenMultiSendCalls(parsed.calls);
+  const result: MultiSendStructureCheckResult = {
+    isMultiSend: true,
+    callCount: calls.length,
+    maxDepth: Math.max(0, ...calls.map((call) => call.depth)),
+    errors: parsed.errors,
+  };
+  if (parsed.errors.length === 0) {
+    return result;
+  }
+
+  return {
+    ...result,
+    warnings: parsed.errors.map(warningFor),
+    warningLevel: parsed.errors.some((error) => error.kind !== 'depth-limit') ? 'critical' : 'high',
+  };
+}
@@ -0,0 +1,219 @@
+/**
+ * Tests for the strict MultiSend parser
+ */
+
+import { afterEach, describe, it, expect } from 'vitest';
+import { concat, encodeFunctionData, pad, parseAbi, toHex, type Address, type Hex } from 'viem';
+import { decodeMultiSend, flattenMultiSendCalls, isMultiSend, parseMultiSend } from './multisend-decoder.js';
+import { checkMultiSendStructure } from './multisend-checks.js';
+import { checkOwnerModifications } from './owner-checks.js';
+import { checkModuleGuardOperations } from './module-guard-checks.js';
+import { checkAddressBook } from './address-book-check.js';
+import { analyzeSecurity } from './analyzer.js';
+import { MULTISEND_CALL_ONLY, ZERO_ADDRESS } from './constants.js';
+import { loadAddressBookCsv } from '../utils/address-book.js';
+import { clearAddressBookTags } from '../utils/address-tags.js';
+
+const A = '0x1111111111111111111111111111111111111111' as Address;
+const B = '0x2222222222222222222222222222222222222222' as Address;
+const MULTISEND = MULTISEND_CALL_ONLY[0]!;
+
+const abi = parseAbi([
+  'function multiSend(bytes transactions)',
+  'function removeOwner(address prevOwner, address owner, uint256 threshold)',
+  'function enableModule(address module)',
+]);
+const removeOwner = encodeFunctionData({ abi, functionName: 'removeOwner', args: [A, B, 1n] });
+const enableModule = encodeFunctionData({ abi, functionName: 'enableModule', args: [B] });
+
+function entry(call: { operation?: number; to: Address; value?: bigint; data: Hex }): Hex {
+  return concat([
+    toHex(call.operation ?? 0, { size: 1 }),
+    call.to,
+    pad(toHex(call.value ?? 0n)),
+    pad(toHex(BigInt((call.data.length - 2) / 2))),
+    call.data,
+  ]);
+}
+
+function multiSend(entries: Hex[]): Hex {
+  return encodeFunctionData({ abi, functionName: 'multiSend', args: [entries.length > 0 ? concat(entries) : '0x'] });
+}
+
+/** A batch nested `levels` deep, with `data` at the bottom */
+function nested(levels: number, data: Hex): Hex {
+  let batch = multiSend([entry({ to: A, data })]);
+  for (let i = 1; i < levels; i++) {
+    batch = multiSend([entry({ to: MULTISEND, data: batch })]);
+  }
+  return batch;
+}
+
+describe('parseMultiSend', () => {
+  it('should return null for other calldata', () => {
+    expect(parseMultiSend(removeOwner)).toBeNull();
+    expect(parseMultiSend('0x')).toBeNull();
+    expect(isMultiSend(multiSend([]))).toBe(true);
+  });
+
+  it('should parse a well-formed batch', () => {
+    const data = multiSend([
+      entry({ to: A, value: 5n, data: '0x' }),
+      entry({ operation: 1, to: B, data: removeOwner }),
+    ]);
+
+    const result = parseMultiSend(data)!;
+
+    expect(result.errors).toEqual([]);
+    expect(result.calls).toEqual([
+      { operation: 0, to: A, value: 5n, data: '0x', index: 0, path: [0], depth: 1, calls: null },
+      { operation: 1, to: B, value: 0n, data: removeOwner, index: 1, path: [1], depth: 1, calls: null },
+    ]);
+  });
+
+  it('should parse nested batches into a tree', () => {
+    const data = multiSend([entry({ to: A, data: '0x' }), entry({ to: MULTISEND, data: nested(2, removeOwner) })]);
+
+    const result = parseMultiSend(data)!;
+    const flat = flattenMultiSendCalls(result.calls);
+
+    expect(result.errors).toEqual([]);
+    expect(flat.map((call) => call.path)).toEqual([[0], [1], [1, 0], [1, 0, 0]]);
+    expect(flat[3]).toMatchObject({ data: removeOwner, depth: 3, calls: null });
+  });
+
+  it('should stop at the depth limit and report it', () => {
+    const result = parseMultiSend(nested(3, removeOwner), { maxDepth: 2 })!;
+
+    expect(flattenMultiSendCalls(result.calls)).toHaveLength(2);
+    expect(result.errors).toMatchObject([{ kind: 'depth-limit', path: [0] }]);
+  });
+
+  it('should report a truncated final entry', () => {
+    const good = entry({ to: A, data: '0x' });
+    const data = encodeFunctionData({ abi, functionName: 'multiSend', args: [concat([good, '0x00112233'])] });
+
+    const result = parseMultiSend(data)!;
+
+    expect(result.calls).toHaveLength(1);
+    expect(result.errors).toMatchObject([{ kind: 'overrun', path: [], offset: 4 + 64 + 85 }]);
+    expect(decodeMultiSend(data)).toBeNull();
+  });
+
+  it('should report a data length past the end of the batch', () => {
+    const full = entry({ to: A, data: removeOwner });
+    const data = encodeFunctionData({ abi, functionName: 'multiSend', args: [full.slice(0, -8) as Hex] });
+
+    const result = parseMultiSend(data)!;
+
+    expect(result.calls).toEqual([]);
+    expect(result.errors[0]!.kind).toBe('overrun');
+    expect(result.errors[0]!.message).toContain('runs past the end of the batch');
+  });
+
+  it('should report a transactions length past the calldata', () => {
+    const data = multiSend([entry({ to: A, data: '0x' })]);
+    const lengthWord = data.slice(2 + 8 + 64, 2 + 8 + 128);
+    const truncated = data.replace(lengthWord, pad(toHex(1000n)).slice(2)) as Hex;
+
+    expect(parseMultiSend(truncated)!.errors).toMatchObject([{ kind: 'overrun', offset: 36 }]);
+  });
+
+  it('should report a bad operation byte and keep parsing', () => {
+    const data = multiSend([entry({ operation: 2, to: A, data: '0x' }), entry({ to: B, data: '0x' })]);
+
+    const result = parseMultiSend(data)!;
+
+    expect(result.calls).toHaveLength(2);
+    expect(result.errors).toMatchObject([{ kind: 'bad-operation', path: [] }]);
+  });
+
+  it('should report dirty padding and leftover bytes', () => {
+    // One 85-byte entry: padded to 96 bytes, the last 11 of which must be zero
+    const data = multiSend([entry({ to: A, data: '0x' })]);
+    const dirty = (data.slice(0, -2) + 'ff') as Hex;
+
+    expect(parseMultiSend(dirty)!.errors).toMatchObject([{ kind: 'dirty-padding', offset: 4 + 64 + 85 }]);
+    expect(parseMultiSend(concat([data, '0xdeadbeef']))!.errors).toMatchObject([
+      { kind: 'leftover-bytes', offset: 4 + 64 + 96 },
+    ]);
+  });
+
+  it('should report a payload that is not whole bytes of hex', () => {
+    const truncated = multiSend([entry({ to: A, data: '0x' })]).slice(0, -1) as Hex;
+
+    expect(isMultiSend(truncated)).toBe(true);
+    expect(parseMultiSend(truncated)).toMatchObject({ calls: [], errors: [{ kind: 'malformed-hex', path: [] }] });
+    expect(decodeMultiSend(truncated)).toBeNull();
+    expect(checkMultiSendStructure(truncated).warningLevel).toBe('critical');
+  });
+
+  it('should report errors inside a nested batch with its path', () => {
+    const inner = concat([multiSend([entry({ to: A, data: '0x' })]), '0x01']);
+    const data = multiSend([entry({ to: B, data: '0x' }), entry({ to: MULTISEND, data: inner })]);
+
+    expect(parseMultiSend(data)!.errors).toMatchObject([{ kind: 'leftover-bytes', path: [1] }]);
+  });
+});
+
+describe('checkMultiSendStructure', () => {
+  it('should pass a well-formed batch', () => {
+    const result = checkMultiSendStructure(nested(2, '0x'));
+
+    expect(result).toEqual({ isMultiSend: true, callCount: 2, maxDepth: 2, errors: [] });
+  });
+
+  it('should make a malformed batch critical and a too-deep one high', () => {
+    const dirty = multiSend([entry({ operation: 7, to: A, data: '0x' })]);
+
+    expect(checkMultiSendStructure(dirty).warningLevel).toBe('critical');
+    expect(checkMultiSendStructure(nested(6, '0x')).warningLevel).toBe('high');
+    expect(checkMultiSendStructure(removeOwner).isMultiSend).toBe(false);
+  });
+
+  it('should raise the overall risk in analyzeSecurity', () => {
+    const result = analyzeSecurity({
+      to: MULTISEND,
+      value: '0',
+      data: multiSend([entry({ operation: 2, to: A, data: '0x' })]),
+      operation: 1,
+      safeTxGas: '0',
+      baseGas: '0',
+      gasPrice: '0',
+      gasToken: ZERO_ADDRESS,
+      refundReceiver: ZERO_ADDRESS,
+      nonce: '1',
+    });
+
+    expect(result.multiSend.errors[0]!.kind).toBe('bad-operation');
+    expect(result.overallRisk).toBe('critical');
+  });
+});
+
+describe('checks on the call tree', () => {
+  const data = nested(3, removeOwner);
+
+  it('should find owner changes in nested batches', () => {
+    expect(checkOwnerModifications(data).modifications).toEqual([
+      { functionName: 'removeOwner', isNested: true, depth: 3 },
+    ]);
+  });
+
+  it('should find module changes in nested batches', () => {
+    const result = checkModuleGuardOperations(nested(2, enableModule));
+
+    expect(result.detections).toMatchObject([{ functionName: 'enableModule', depth: 2 }]);
+  });
+
+  afterEach(() => {
+    clearAddressBookTags();
+  });
+
+  it('should check every nested recipient against the address book', () => {
+    loadAddressBookCsv(['address,label,verification_date,status', `${B},Treasury,2026-05-01,active`].join('\n'));
+
+    const result = checkAddressBook(MULTISEND, data);
+
+    expect(result.recipients.map((r) => r.address.toLowerCase())).toEqual([MULTISEND.toLowerCase(), A]);
+  });
+});
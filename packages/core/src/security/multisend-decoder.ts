@@ -4,19 +4,23 @@
  * Utilities for decoding MultiSend packed transactions
  */
 
-import type { Hex } from 'viem';
-import { decodeFunctionData } from 'viem';
+import type { Address, Hex } from 'viem';
 
 /**
- * MultiSend ABI for decoding
+ * multiSend(bytes) selector
  */
-const MULTISEND_ABI = [
-  {
-    name: 'multiSend',
-    type: 'function',
-    inputs: [{ name: 'transactions', type: 'bytes' }],
-  },
-] as const;
+const MULTISEND_SELECTOR = '0x8d80ff0a';
+
+/**
+ * Bytes before each call's data: operation (1), to (20), value (32), dataLength (32)
+ */
+const ENTRY_HEADER_SIZE = 85;
+
+/**
+ * How many MultiSend batches deep the parser descends by default. A batch
+ * nested deeper than this is reported, not unpacked.
+ */
+export const MAX_MULTISEND_DEPTH = 4;
 
 /**
  * Decoded transaction from MultiSend
@@ -28,14 +32,241 @@ export interface DecodedMultiSendTransaction {
   data: Hex;
 }
 
+/**
+ * Kind of structural problem in a MultiSend payload
+ *
+ * - malformed-hex: calldata that is not whole bytes of hex, e.g. a truncated
+ *   payload with an odd number of digits
+ * - overrun: a length or an entry runs past the end of the data
+ * - bad-operation: an operation byte other than 0 (call) or 1 (delegatecall),
+ *   which makes MultiSend revert
+ * - dirty-padding: non-zero bytes where ABI encoding requires zero padding
+ * - leftover-bytes: bytes the MultiSend contract never reads
+ * - depth-limit: a nested batch deeper than the limit, left unpacked
+ */
+export type MultiSendParseErrorKind =
+  | 'malformed-hex'
+  | 'overrun'
+  | 'bad-operation'
+  | 'dirty-padding'
+  | 'leftover-bytes'
+  | 'depth-limit';
+
+/**
+ * Structural problem found while parsing a MultiSend payload
+ */
+export interface MultiSendParseError {
+  kind: MultiSendParseErrorKind;
+  message: string;
+  /** Batch the problem is in: [] for the outer batch, [2] for the batch in call 2, ... */
+  path: number[];
+  /** Byte offset in that batch's calldata (selector included) */
+  offset: number;
+}
+
+/**
+ * One call in a MultiSend batch, with any batch nested in it
+ */
+export interface MultiSendCall extends DecodedMultiSendTransaction {
+  to: Address;
+  /** Position in its own batch, from 0 */
+  index: number;
+  /** Positions from the outer batch down to this call, e.g. [2, 0] */
+  path: number[];
+  /** Nesting level: 1 for a call in the outer batch */
+  depth: number;
+  /** Calls of the batch in `data`, or null if `data` is not a multiSend (or is past the depth limit) */
+  calls: MultiSendCall[] | null;
+}
+
+/**
+ * Result of strictly parsing a MultiSend payload
+ */
+export interface MultiSendParseResult {
+  /** Calls parsed before any fatal error, as a tree */
+  calls: MultiSendCall[];
+  /** Structural problems, in the outer batch and any nested one */
+  errors: MultiSendParseError[];
+}
+
+function formatPath(path: number[]): string {
+  return path.length === 0 ? 'outer batch' : `batch in call ${path.join('.')}`;
+}
+
+function isZero(hex: string): boolean {
+  return /^0*$/.test(hex);
+}
+
+/**
+ * Parse one multiSend(bytes) calldata into calls, recursing into nested batches.
+ * `bytes` is the calldata without its 0x prefix.
+ */
+function parseBatch(bytes: string, path: number[], maxDepth: number, errors: MultiSendParseError[]): MultiSendCall[] {
+  const size = bytes.length / 2;
+  const fail = (kind: MultiSendParseErrorKind, offset: number, message: string) => {
+    errors.push({ kind, message: `${message} (${formatPath(path)}, byte ${offset})`, path, offset });
+  };
+  const word = (offset: number) => BigInt('0x' + bytes.slice(offset * 2, offset * 2 + 64));
+
+  // Head: selector, then the offset of the `transactions` argument
+  if (size < 36) {
+    fail('overrun', 4, 'Calldata ends before the offset of the transactions argument');
+    return [];
+  }
+  const argOffset = word(4);
+  if (argOffset + 36n > BigInt(size)) {
+    fail('overrun', 4, `Offset of the transactions argument (${argOffset}) points past the calldata`);
+    return [];
+  }
+  const lengthAt = 4 + Number(argOffset);
+  if (lengthAt > 36) {
+    fail('leftover-bytes', 36, `${lengthAt - 36} bytes between the head and the transactions argument are never read`);
+  } else if (lengthAt < 36) {
+    fail('overrun', 4, 'Offset of the transactions argument points into the head');
+    return [];
+  }
+  const length = word(lengthAt);
+  const start = lengthAt + 32;
+  if (BigInt(start) + length > BigInt(size)) {
+    fail('overrun', lengthAt, `Transactions length (${length}) runs past the end of the calldata`);
+    return [];
+  }
+  const end = start + Number(length);
+
+  // Packed entries: [uint8 operation][address to][uint256 value][uint256 dataLength][bytes data]
+  const calls: MultiSendCall[] = [];
+  let offset = start;
+  while (offset < end) {
+    const index = calls.length;
+    if (end - offset < ENTRY_HEADER_SIZE) {
+      fail('overrun', offset, `Call ${index} is truncated: ${end - offset} of at least ${ENTRY_HEADER_SIZE} bytes`);
+      break;
+    }
+    const operation = parseInt(bytes.slice(offset * 2, offset * 2 + 2), 16);
+    const to = ('0x' + bytes.slice(offset * 2 + 2, offset * 2 + 42)) as Address;
+    const value = word(offset + 21);
+    const dataLength = word(offset + 53);
+    const dataStart = offset + ENTRY_HEADER_SIZE;
+    if (BigInt(dataStart) + dataLength > BigInt(end)) {
+      fail('overrun', offset + 53, `Call ${index} data length (${dataLength}) runs past the end of the batch`);
+      break;
+    }
+    if (operation > 1) {
+      fail(
+        'bad-operation',
+        offset,
+        `Call ${index} has operation ${operation}; MultiSend reverts on anything but 0 or 1`
+      );
+    }
+    const dataEnd = dataStart + Number(dataLength);
+    const data = ('0x' + bytes.slice(dataStart * 2, dataEnd * 2)) as Hex;
+    const callPath = [...path, index];
+    const call: MultiSendCall = {
+      operation,
+      to,
+      value,
+      data,
+      index,
+      path: callPath,
+      depth: callPath.length,
+      calls: null,
+    };
+
+    if (isMultiSend(data)) {
+      if (callPath.length >= maxDepth) {
+        fail('depth-limit', offset, `Call ${index} is a MultiSend batch nested deeper than ${maxDepth} levels`);
+      } else {
+        call.calls = parseBatch(data.slice(2), callPath, maxDepth, errors);
+      }
+    }
+
+    calls.push(call);
+    offset = dataEnd;
+  }
+
+  // Tail: zero padding to a 32-byte boundary, then nothing
+  const paddedEnd = Math.min(start + Math.ceil(Number(length) / 32) * 32, size);
+  if (!isZero(bytes.slice(end * 2, paddedEnd * 2))) {
+    fail('dirty-padding', end, 'Non-zero bytes in the padding after the transactions argument');
+  }
+  if (paddedEnd < size) {
+    fail('leftover-bytes', paddedEnd, `${size - paddedEnd} bytes after the transactions argument are never read`);
+  }
+
+  return calls;
+}
+
+/**
+ * Strictly parse a MultiSend payload into a tree of calls
+ *
+ * Every length is bounds-checked. Structural problems are reported instead
+ * of being papered over: a truncated entry or a data length past the end of
+ * the batch (overrun), an unknown operation byte, non-zero ABI padding, and
+ * bytes the MultiSend contract would never read. Parsing a batch stops at the
+ * first overrun; calls before it are kept.
+ *
+ * Calls whose data is itself a multiSend are parsed into `calls`, down to
+ * `maxDepth` levels.
+ *
+ * @param data - Transaction data (should be a multiSend call)
+ * @param options - Nesting limit (defaults to MAX_MULTISEND_DEPTH)
+ * @returns Call tree and structural errors, or null if not a MultiSend
+ *
+ * @example
+ * const parsed = parseMultiSend(data);
+ * if (parsed?.errors.length) {
+ *   console.error('Malformed MultiSend:', parsed.errors[0].message);
+ * }
+ */
+export function parseMultiSend(data: Hex, options: { maxDepth?: number } = {}): MultiSendParseResult | null {
+  if (!isMultiSend(data)) {
+    return null;
+  }
+  const errors: MultiSendParseError[] = [];
+  // Nested batches are sliced out of whole bytes, so only the outer one can be malformed
+  if (!/^0x([0-9a-fA-F]{2})*$/.test(data)) {
+    const message = `Calldata is not whole bytes of hex (${formatPath([])}, byte 0)`;
+    return { calls: [], errors: [{ kind: 'malformed-hex', message, path: [], offset: 0 }] };
+  }
+  const calls = parseBatch(data.slice(2), [], options.maxDepth ?? MAX_MULTISEND_DEPTH, errors);
+  return { calls, errors };
+}
+
+/**
+ * Flatten a MultiSend call tree in execution order (each batch call before
+ * the calls nested in it)
+ *
+ * @param calls - Calls from parseMultiSend
+ * @returns Every call in the tree
+ */
+export function flattenMultiSendCalls(calls: MultiSendCall[]): MultiSendCall[] {
+  return calls.flatMap((call) => [call, ...flattenMultiSendCalls(call.calls ?? [])]);
+}
+
+/**
+ * Flatten the calls of a MultiSend batch the Safe delegatecalls: each batch
+ * call, and the calls of a sub-batch only when that call delegatecalls it too.
+ * A sub-batch reached by a plain call runs as the MultiSend contract, not the
+ * Safe, so its calls are left out.
+ *
+ * @param calls - Calls from parseMultiSend
+ * @returns The calls made as the Safe, in execution order
+ */
+export function flattenSafeBatchCalls(calls: MultiSendCall[]): MultiSendCall[] {
+  return calls.flatMap((call) => [call, ...(call.operation === 1 ? flattenSafeBatchCalls(call.calls ?? []) : [])]);
+}
+
 /**
  * Decode MultiSend packed transactions
  *
  * MultiSend packs transactions as:
  * [uint8 operation][address to][uint256 value][uint256 dataLength][bytes data]
  *
+ * Only the outer batch is returned. Use parseMultiSend for nested batches
+ * and for the structural errors that make this return null.
+ *
  * @param data - Transaction data (should be a multiSend call)
- * @returns Array of decoded transactions, or null if not a MultiSend
+ * @returns Array of decoded transactions, or null if not a MultiSend or malformed
  *
  * @example
  * const transactions = decodeMultiSend(data);
@@ -46,72 +277,22 @@ export interface DecodedMultiSendTransaction {
  * }
  */
 export function decodeMultiSend(data: Hex): DecodedMultiSendTransaction[] | null {
-  try {
-    const decoded = decodeFunctionData({
-      abi: MULTISEND_ABI,
-      data,
-    });
-
-    if (decoded.functionName !== 'multiSend' || !decoded.args) {
-      return null;
-    }
-
-    const transactions: DecodedMultiSendTransaction[] = [];
-    const packedData = decoded.args[0] as Hex;
-    let offset = 2; // Skip '0x'
-
-    while (offset < packedData.length) {
-      // Read operation (1 byte = 2 hex chars)
-      const operation = parseInt(packedData.slice(offset, offset + 2), 16);
-      offset += 2;
-
-      // Read to address (20 bytes = 40 hex chars)
-      const to = '0x' + packedData.slice(offset, offset + 40);
-      offset += 40;
-
-      // Read value (32 bytes = 64 hex chars)
-      const valueHex = packedData.slice(offset, offset + 64);
-      const value = BigInt('0x' + valueHex);
-      offset += 64;
-
-      // Read data length (32 bytes = 64 hex chars)
-      const dataLengthHex = packedData.slice(offset, offset + 64);
-      const dataLength = parseInt(dataLengthHex, 16);
-      offset += 64;
-
-      // Read data (dataLength bytes = dataLength * 2 hex chars)
-      const txData = ('0x' + packedData.slice(offset, offset + dataLength * 2)) as Hex;
-      offset += dataLength * 2;
-
-      transactions.push({
-        operation,
-        to,
-        value,
-        data: txData,
-      });
-    }
-
-    return transactions;
-  } catch {
-    // Not a MultiSend or parsing failed
+  const parsed = parseMultiSend(data, { maxDepth: 1 });
+  if (!parsed || parsed.errors.some((error) => error.kind !== 'depth-limit')) {
     return null;
   }
+  return parsed.calls.map(({ operation, to, value, data }) => ({ operation, to, value, data }));
 }
 
 /**
  * Check if transaction data is a MultiSend call
  *
+ * Only the selector is checked; a malformed payload, hex included, is still a
+ * MultiSend call, and parseMultiSend reports what is wrong with it.
+ *
  * @param data - Transaction data to check
  * @returns True if data is a multiSend call
  */
 export function isMultiSend(data: Hex): boolean {
-  try {
-    const decoded = decodeFunctionData({
-      abi: MULTISEND_ABI,
-      data,
-    });
-    return decoded.functionName === 'multiSend';
-  } catch {
-    return false;
-  }
+  return data.slice(0, 10).toLowerCase() === MULTISEND_SELECTOR;
 }
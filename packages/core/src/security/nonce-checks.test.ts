@@ -0,0 +1,102 @@
+/**
+ * Tests for nonce sanity checks
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { Address } from 'viem';
+import { checkNonce, fetchQueuedNonces } from './nonce-checks.js';
+import { analyzeSecurity } from './analyzer.js';
+import { ZERO_ADDRESS } from './constants.js';
+import type { SafeApiClient, SafeTransactionFilter } from '../api/safe-client.js';
+import type { SafeApiMultisigTransaction } from '../types.js';
+
+const SAFE = '0xf65475e74C1Ed6d004d5240b06E3088724dFDA5d' as Address;
+
+describe('checkNonce', () => {
+  it('should flag a transaction whose nonce is already used', () => {
+    const result = checkNonce(41, { safeNonce: 45 });
+
+    expect(result.findings.map((finding) => finding.kind)).toEqual(['dead']);
+    expect(result.warnings![0]).toContain('It can never execute');
+    expect(result.warningLevel).toBe('medium');
+    expect(checkNonce(41, { safeNonce: 45, executed: true }).findings).toEqual([]);
+  });
+
+  it('should flag a nonce far ahead and list the gap before it', () => {
+    const result = checkNonce(52, { safeNonce: 45, queuedNonces: [45, 46, 48] });
+
+    expect(result.missingNonces).toEqual([47, 49, 50, 51]);
+    expect(result.findings.map((finding) => [finding.kind, finding.warningLevel])).toEqual([
+      ['far-future', 'medium'],
+      ['gap', 'low'],
+    ]);
+    expect(result.warnings![1]).toContain('Nonces 47, 49, 50, 51 before this transaction have no proposal');
+  });
+
+  it('should report a gap as low risk on its own', () => {
+    const result = checkNonce(47, { safeNonce: 45, queuedNonces: [45] });
+
+    expect(result.missingNonces).toEqual([46]);
+    expect(result.warningLevel).toBe('low');
+  });
+
+  it('should flag competing proposals for the same nonce', () => {
+    const result = checkNonce(45, { safeNonce: 45, competingProposals: ['0xabc'] });
+
+    expect(result.competingProposals).toEqual(['0xabc']);
+    expect(result.warnings).toEqual([
+      'NOTICE: 1 other proposal shares nonce 45. Only one of them can execute, and executing it voids the rest: ' +
+        'make sure this is the one the Safe means to run.',
+    ]);
+  });
+
+  it('should check nothing when the Safe nonce is unknown', () => {
+    expect(checkNonce(45)).toEqual({
+      checked: false,
+      nonce: 45,
+      missingNonces: [],
+      competingProposals: [],
+      findings: [],
+    });
+  });
+
+  it('should raise the overall risk in analyzeSecurity', () => {
+    const result = analyzeSecurity(
+      {
+        to: SAFE,
+        value: '0',
+        data: '0x',
+        operation: 0,
+        safeTxGas: '0',
+        baseGas: '0',
+        gasPrice: '0',
+        gasToken: ZERO_ADDRESS,
+        refundReceiver: ZERO_ADDRESS,
+        nonce: '3',
+      },
+      { nonceState: { safeNonce: 10 } }
+    );
+
+    expect(result.nonce.findings[0]!.kind).toBe('dead');
+    expect(result.overallRisk).toBe('medium');
+  });
+});
+
+describe('fetchQueuedNonces', () => {
+  it('should collect distinct queued nonces below the transaction', async () => {
+    const filters: SafeTransactionFilter[] = [];
+    const client = {
+      async *iterateTransactions(_safe: Address, filter: SafeTransactionFilter = {}) {
+        filters.push(filter);
+        for (const nonce of [47, 45, 47]) {
+          yield { nonce } as SafeApiMultisigTransaction;
+        }
+      },
+    } as Pick<SafeApiClient, 'iterateTransactions'>;
+
+    expect(await fetchQueuedNonces(client, SAFE, 45, 49)).toEqual([45, 47]);
+    expect(filters[0]).toMatchObject({ executed: false, nonceGte: 45, nonceLte: 48 });
+    expect(await fetchQueuedNonces(client, SAFE, 45, 45)).toEqual([]);
+    expect(filters).toHaveLength(1);
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * Nonce Sanity Checker
+ *
+ * A Safe executes transactions strictly in nonce order, one per nonce. The
+ * nonce of a transaction, set against the Safe's current nonce and queue,
+ * says whether it can still execute, when, and what else competes with it:
+ *   - below the current nonce and not executed: dead, it can never execute
+ *   - far above the current nonce: signatures collected now wait, valid, for
+ *     as long as it takes the Safe to get there
+ *   - earlier nonces without a proposal: whatever is proposed for them later
+ *     executes first
+ *   - several proposals for one nonce: only one of them can execute
+ */
+
+import type { Address } from 'viem';
+import type { SafeApiClient } from '../api/safe-client.js';
+import type { NonceCheckResult, NonceFinding, SafeNonceState, WarningLevel } from './types.js';
+
+/**
+ * Nonces ahead of the current one beyond which a transaction counts as
+ * pre-signed for the future
+ */
+export const FAR_FUTURE_NONCE_DISTANCE = 5;
+
+/**
+ * Largest range of nonces checked for gaps; a wider one is reported as far
+ * ahead instead of listing every missing nonce
+ */
+const MAX_GAP_RANGE = 100;
+
+const LEVEL_ORDER: WarningLevel[] = ['critical', 'high', 'medium', 'low', 'info'];
+
+/**
+ * Nonces with a queued proposal from the Safe's current nonce up to, not
+ * including, a transaction's
+ *
+ * @param client - Safe API client for the Safe's network
+ * @param safeAddress - Safe address
+ * @param safeNonce - The Safe's current nonce
+ * @param nonce - The transaction's nonce
+ * @returns Sorted, distinct nonces; empty when the transaction is not ahead of the Safe
+ * @throws {SafeApiError} if a page request fails
+ */
+export async function fetchQueuedNonces(
+  client: Pick<SafeApiClient, 'iterateTransactions'>,
+  safeAddress: Address,
+  safeNonce: number,
+  nonce: number
+): Promise<number[]> {
+  if (nonce <= safeNonce || nonce - safeNonce > MAX_GAP_RANGE) {
+    return [];
+  }
+  const nonces = new Set<number>();
+  for await (const tx of client.iterateTransactions(safeAddress, {
+    executed: false,
+    nonceGte: safeNonce,
+    nonceLte: nonce - 1,
+    pageSize: 100,
+  })) {
+    nonces.add(Number(tx.nonce));
+  }
+  return [...nonces].sort((a, b) => a - b);
+}
+
+function formatNonces(nonces: number[]): string {
+  const shown = nonces.slice(0, 10).join(', ');
+  return nonces.length > 10 ? `${shown} and ${nonces.length - 10} more` : shown;
+}
+
+/**
+ * Check a transaction's nonce against the Safe's current nonce and queue
+ *
+ * Severity:
+ *   - dead (below the current nonce, not executed): medium
+ *   - more than FAR_FUTURE_NONCE_DISTANCE ahead: medium
+ *   - competing proposals for the same nonce: medium
+ *   - earlier nonces without a proposal: low
+ *
+ * Executed transactions get no finding: their nonce did what it should.
+ *
+ * @param nonce - The transaction's nonce
+ * @param state - The Safe's nonce and queue. Omit when unknown (nothing is checked).
+ * @returns Findings with an explanation each
+ *
+ * @example
+ * const result = checkNonce(48, { safeNonce: 45, queuedNonces: [45], competingProposals: [] });
+ * // result.missingNonces = [46, 47]
+ * // result.findings[0].kind = "gap"
+ */
+export function checkNonce(nonce: number, state?: SafeNonceState): NonceCheckResult {
+  if (!state) {
+    return { checked: false, nonce, missingNonces: [], competingProposals: [], findings: [] };
+  }
+
+  const { safeNonce, executed } = state;
+  const competingProposals = executed ? [] : (state.competingProposals ?? []);
+  const ahead = nonce - safeNonce;
+  const queued = state.queuedNonces && new Set(state.queuedNonces);
+  const missingNonces: number[] = [];
+  if (!executed && queued && ahead > 0 && ahead <= MAX_GAP_RANGE) {
+    for (let n = safeNonce; n < nonce; n++) {
+      if (!queued.has(n)) {
+        missingNonces.push(n);
+      }
+    }
+  }
+
+  const findings: NonceFinding[] = [];
+  if (!executed && ahead < 0) {
+    findings.push({
+      kind: 'dead',
+      message:
+        `NOTICE: Nonce ${nonce} is already used (the Safe is at nonce ${safeNonce}) and this transaction was not ` +
+        `executed. It can never execute; signing it has no effect.`,
+      warningLevel: 'medium',
+    });
+  }
+  if (!executed && ahead > FAR_FUTURE_NONCE_DISTANCE) {
+    findings.push({
+      kind: 'far-future',
+      message:
+        `NOTICE: Nonce ${nonce} is ${ahead} ahead of the Safe's current nonce ${safeNonce}. Signatures collected ` +
+        `now stay valid until the Safe gets there, and anyone holding them can execute it then.`,
+      warningLevel: 'medium',
+    });
+  }
+  if (missingNonces.length > 0) {
+    const plural = missingNonces.length > 1;
+    findings.push({
+      kind: 'gap',
+      message:
+        `NOTICE: Nonce${plural ? 's' : ''} ${formatNonces(missingNonces)} before this transaction ` +
+        `${plural ? 'have' : 'has'} no proposal. It cannot execute until ${plural ? 'they are' : 'it is'} used, ` +
+        `and whatever is proposed there executes first.`,
+      warningLevel: 'low',
+    });
+  }
+  if (competingProposals.length > 0) {
+    const others =
+      competingProposals.length === 1 ? '1 other proposal' : `${competingProposals.length} other proposals`;
+    findings.push({
+      kind: 'competing',
+      message:
+        `NOTICE: ${others} share${competingProposals.length === 1 ? 's' : ''} nonce ${nonce}. Only one of them ` +
+        `can execute, and executing it voids the rest: make sure this is the one the Safe means to run.`,
+      warningLevel: 'medium',
+    });
+  }
+
+  const result: NonceCheckResult = { checked: true, nonce, safeNonce, missingNonces, competingProposals, findings };
+  if (findings.length === 0) {
+    return result;
+  }
+  return {
+    ...result,
+    warnings: findings.map((finding) => finding.message),
+    warningLevel: LEVEL_ORDER.find((level) => findings.some((finding) => finding.warningLevel === level)),
+  };
+}
@@ -7,14 +7,19 @@
  * Reference: safe_hashes.sh lines 525-548
  */
 
-import type { Hex } from 'viem';
-import { toFunctionSelector } from 'viem';
-import { OWNER_MODIFICATION_FUNCTIONS } from './constants.js';
+import type { Address, Hex } from 'viem';
+import { decodeFunctionData, getAddress, parseAbi, toFunctionSelector } from 'viem';
+import { OWNER_MODIFICATION_FUNCTIONS, ZERO_ADDRESS } from './constants.js';
 import type {
+  OwnerChangeFinding,
+  OwnerChangeStep,
   OwnerModificationCheckResult,
   OwnerModificationDetection,
+  OwnerStatePreview,
+  SafeOwnerState,
+  WarningLevel,
 } from './types.js';
-import { decodeMultiSend } from './multisend-decoder.js';
+import { flattenMultiSendCalls, parseMultiSend } from './multisend-decoder.js';
 
 /**
  * Generate function selectors for owner modification functions
@@ -54,11 +59,13 @@ export function isOwnerModificationFunction(functionName: string): boolean {
  *
  * @param data - Transaction data
  * @param depth - Call depth (0 for direct, >0 for nested)
+ * @param descend - Also check the calls in a MultiSend call tree
  * @returns List of detected modifications
  */
 function checkTransactionData(
   data: Hex,
-  depth: number = 0
+  depth: number = 0,
+  descend: boolean = true
 ): OwnerModificationDetection[] {
   const modifications: OwnerModificationDetection[] = [];
 
@@ -80,14 +87,11 @@ function checkTransactionData(
     }
   }
 
-  // Try to decode as MultiSend to check nested transactions
-  const multiSendTxs = decodeMultiSend(data);
-  if (multiSendTxs) {
-    for (const tx of multiSendTxs) {
-      // Recursively check each nested transaction
-      const nestedModifications = checkTransactionData(tx.data, depth + 1);
-      modifications.push(...nestedModifications);
-    }
+  // Check every call in the MultiSend call tree, nested batches included
+  const multiSend = descend ? parseMultiSend(data) : null;
+  for (const call of flattenMultiSendCalls(multiSend?.calls ?? [])) {
+    const nestedModifications = checkTransactionData(call.data, depth + call.depth, false);
+    modifications.push(...nestedModifications);
   }
 
   return modifications;
@@ -195,3 +199,274 @@ export function checkOwnerModificationsFromDecoded(
     warningLevel: 'critical',
   };
 }
+
+/**
+ * Head of the Safe's owner linked list. `prevOwner` of the first owner.
+ */
+const SENTINEL_OWNERS: Address = '0x0000000000000000000000000000000000000001';
+
+const OWNER_MANAGER_ABI = parseAbi([
+  'function addOwnerWithThreshold(address owner, uint256 _threshold)',
+  'function removeOwner(address prevOwner, address owner, uint256 _threshold)',
+  'function swapOwner(address prevOwner, address oldOwner, address newOwner)',
+  'function changeThreshold(uint256 _threshold)',
+]);
+
+const LEVEL_ORDER: WarningLevel[] = ['critical', 'high', 'medium', 'low', 'info'];
+
+interface OwnerCall {
+  to: Address;
+  data: Hex;
+  depth: number;
+}
+
+function sameAddress(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+/**
+ * Collect owner-changing calls in execution order, from the MultiSend call tree too
+ */
+function collectOwnerCalls(to: Address, data: Hex, depth: number, calls: OwnerCall[]): void {
+  const selector = getFunctionSelector(data);
+  if (selector && OWNER_MODIFICATION_SELECTORS.has(selector)) {
+    calls.push({ to, data, depth });
+    return;
+  }
+  const multiSend = parseMultiSend(data);
+  for (const call of flattenMultiSendCalls(multiSend?.calls ?? [])) {
+    const nestedSelector = getFunctionSelector(call.data);
+    if (nestedSelector && OWNER_MODIFICATION_SELECTORS.has(nestedSelector)) {
+      calls.push({ to: call.to, data: call.data, depth: depth + call.depth });
+    }
+  }
+}
+
+/**
+ * Replay a transaction's owner and threshold changes against the Safe's
+ * current state, mirroring the checks in Safe's OwnerManager.
+ *
+ * Changes are applied in execution order, including those nested in
+ * MultiSend. Replay stops at the first change the Safe would reject; the
+ * whole transaction then reverts and the owner set is left unchanged. Calls
+ * that target a contract other than `safeAddress` change some other Safe and
+ * are not replayed.
+ *
+ * @param to - Transaction target
+ * @param data - Transaction data
+ * @param state - Current owners (in linked-list order) and threshold
+ * @param options - The Safe being changed, and the owner reviewing the transaction
+ * @returns The before/after preview, or null if the transaction changes no owners
+ *
+ * @example
+ * const info = await client.fetchSafeInfo(safeAddress);
+ * const preview = previewOwnerChanges(tx.to, tx.data, info, { safeAddress, signer: myAddress });
+ * // preview.thresholdBefore = 2, preview.thresholdAfter = 1
+ * // preview.findings[0].kind = "threshold-one"
+ */
+export function previewOwnerChanges(
+  to: Address,
+  data: Hex,
+  state: SafeOwnerState,
+  options: { safeAddress?: Address; signer?: Address } = {}
+): OwnerStatePreview | null {
+  const calls: OwnerCall[] = [];
+  collectOwnerCalls(to, data, 0, calls);
+  const safeCalls = options.safeAddress
+    ? calls.filter((call) => sameAddress(call.to, options.safeAddress!))
+    : calls;
+  if (safeCalls.length === 0) {
+    return null;
+  }
+
+  const ownersBefore = state.owners.map((owner) => getAddress(owner));
+  const owners = [...ownersBefore];
+  let threshold = state.threshold;
+  const steps: OwnerChangeStep[] = [];
+  const findings: OwnerChangeFinding[] = [];
+  let reverts = false;
+  let signerRemovedAt: number | undefined;
+
+  for (const call of safeCalls) {
+    const stepIndex = steps.length;
+    let functionName = OWNER_MODIFICATION_SELECTORS.get(getFunctionSelector(call.data)!)!;
+    const args: OwnerChangeStep['args'] = {};
+
+    // Returns the reason the Safe would reject this change, or undefined.
+    const apply = (): { kind: OwnerChangeFinding['kind']; reason: string } | undefined => {
+      let decoded;
+      try {
+        decoded = decodeFunctionData({ abi: OWNER_MANAGER_ABI, data: call.data });
+      } catch {
+        return { kind: 'invalid-change', reason: `${functionName} calldata does not decode` };
+      }
+      functionName = decoded.functionName;
+
+      const indexOf = (address: Address) => owners.findIndex((owner) => sameAddress(owner, address));
+      const prevOf = (index: number): Address => (index === 0 ? SENTINEL_OWNERS : owners[index - 1]!);
+      const isValidNewOwner = (address: Address) =>
+        !sameAddress(address, ZERO_ADDRESS) &&
+        !sameAddress(address, SENTINEL_OWNERS) &&
+        !(options.safeAddress && sameAddress(address, options.safeAddress));
+      const setThreshold = (value: bigint) => {
+        if (value > BigInt(owners.length)) {
+          return {
+            kind: 'threshold-exceeds-owners' as const,
+            reason: `Threshold ${value} is above the ${owners.length} owner(s) (GS201)`,
+          };
+        }
+        if (value < 1n) {
+          return { kind: 'invalid-change' as const, reason: 'Threshold cannot be 0 (GS202)' };
+        }
+        threshold = Number(value);
+        return undefined;
+      };
+
+      switch (decoded.functionName) {
+        case 'addOwnerWithThreshold': {
+          const [owner, newThreshold] = decoded.args;
+          Object.assign(args, { owner, _threshold: Number(newThreshold) });
+          if (!isValidNewOwner(owner)) {
+            return { kind: 'invalid-change', reason: `${owner} cannot be an owner (GS203)` };
+          }
+          if (indexOf(owner) !== -1) {
+            return { kind: 'invalid-change', reason: `${owner} is already an owner (GS204)` };
+          }
+          // New owners go to the head of the linked list
+          owners.unshift(getAddress(owner));
+          return setThreshold(newThreshold);
+        }
+        case 'removeOwner': {
+          const [prevOwner, owner, newThreshold] = decoded.args;
+          Object.assign(args, { prevOwner, owner, _threshold: Number(newThreshold) });
+          const index = indexOf(owner);
+          if (index === -1) {
+            return { kind: 'invalid-change', reason: `${owner} is not an owner` };
+          }
+          if (newThreshold > BigInt(owners.length - 1)) {
+            return {
+              kind: 'threshold-exceeds-owners',
+              reason: `Threshold ${newThreshold} is above the ${owners.length - 1} owner(s) left (GS201)`,
+            };
+          }
+          if (!sameAddress(prevOwner, prevOf(index))) {
+            return {
+              kind: 'broken-prev-owner',
+              reason: `prevOwner ${prevOwner} does not point to ${owner}; expected ${prevOf(index)} (GS205)`,
+            };
+          }
+          owners.splice(index, 1);
+          return setThreshold(newThreshold);
+        }
+        case 'swapOwner': {
+          const [prevOwner, oldOwner, newOwner] = decoded.args;
+          Object.assign(args, { prevOwner, oldOwner, newOwner });
+          if (!isValidNewOwner(newOwner)) {
+            return { kind: 'invalid-change', reason: `${newOwner} cannot be an owner (GS203)` };
+          }
+          if (indexOf(newOwner) !== -1) {
+            return { kind: 'invalid-change', reason: `${newOwner} is already an owner (GS204)` };
+          }
+          const index = indexOf(oldOwner);
+          if (index === -1) {
+            return { kind: 'invalid-change', reason: `${oldOwner} is not an owner` };
+          }
+          if (!sameAddress(prevOwner, prevOf(index))) {
+            return {
+              kind: 'broken-prev-owner',
+              reason: `prevOwner ${prevOwner} does not point to ${oldOwner}; expected ${prevOf(index)} (GS205)`,
+            };
+          }
+          owners[index] = getAddress(newOwner);
+          return undefined;
+        }
+        case 'changeThreshold': {
+          const [newThreshold] = decoded.args;
+          Object.assign(args, { _threshold: Number(newThreshold) });
+          return setThreshold(newThreshold);
+        }
+      }
+    };
+
+    const rejected = apply();
+    steps.push({
+      functionName,
+      args,
+      depth: call.depth,
+      ownersAfter: [...owners],
+      thresholdAfter: threshold,
+      revertReason: rejected?.reason,
+    });
+
+    if (rejected) {
+      reverts = true;
+      findings.push({
+        kind: rejected.kind,
+        message: `${functionName} would revert: ${rejected.reason}. The transaction fails and uses up gas.`,
+        warningLevel: 'high',
+        step: stepIndex,
+      });
+      break;
+    }
+
+    if (
+      options.signer &&
+      signerRemovedAt === undefined &&
+      ownersBefore.some((owner) => sameAddress(owner, options.signer!)) &&
+      !owners.some((owner) => sameAddress(owner, options.signer!))
+    ) {
+      signerRemovedAt = stepIndex;
+    }
+  }
+
+  const ownersAfter = reverts ? [...ownersBefore] : owners;
+  const thresholdAfter = reverts ? state.threshold : threshold;
+
+  if (!reverts) {
+    if (
+      options.signer &&
+      signerRemovedAt !== undefined &&
+      !ownersAfter.some((owner) => sameAddress(owner, options.signer!))
+    ) {
+      findings.push({
+        kind: 'removes-signer',
+        message: `This transaction removes you (${getAddress(options.signer)}) as an owner`,
+        warningLevel: 'high',
+        step: signerRemovedAt,
+      });
+    }
+    if (thresholdAfter === 1 && ownersAfter.length > 1) {
+      findings.push({
+        kind: 'threshold-one',
+        message: `Threshold becomes 1 of ${ownersAfter.length}: any single owner can execute transactions alone`,
+        warningLevel: 'high',
+      });
+    } else if (thresholdAfter === 1) {
+      findings.push({
+        kind: 'threshold-one',
+        message: 'The Safe becomes 1 of 1: a single key controls it',
+        warningLevel: 'high',
+      });
+    }
+    if (thresholdAfter === ownersAfter.length && ownersAfter.length > 1) {
+      findings.push({
+        kind: 'threshold-equals-owners',
+        message: `Threshold becomes ${thresholdAfter} of ${ownersAfter.length}: losing any one key locks the Safe`,
+        warningLevel: 'medium',
+      });
+    }
+  }
+
+  return {
+    ownersBefore,
+    thresholdBefore: state.threshold,
+    ownersAfter,
+    thresholdAfter,
+    added: ownersAfter.filter((owner) => !ownersBefore.some((before) => sameAddress(before, owner))),
+    removed: ownersBefore.filter((owner) => !ownersAfter.some((after) => sameAddress(after, owner))),
+    steps,
+    reverts,
+    findings,
+    warningLevel: LEVEL_ORDER.find((level) => findings.some((finding) => finding.warningLevel === level)),
+  };
+}
@@ -0,0 +1,181 @@
+/**
+ * Tests for per-Safe policy checks
+ */
+
+import { describe, it, expect } from 'vitest';
+import { concat, encodeFunctionData, pad, parseAbi, toHex, type Address, type Hex } from 'viem';
+import { checkPolicy } from './policy-check.js';
+import { analyzeSecurity } from './analyzer.js';
+import { MULTISEND as PLAIN_MULTISENDS, MULTISEND_CALL_ONLY, ZERO_ADDRESS } from './constants.js';
+import { DecoderRegistry } from '../decoders/registry.js';
+import { SPBEAMDecoder } from '../decoders/spbeam.js';
+import type { SafePolicy } from '../utils/policy-file.js';
+
+const SAFE = '0xf65475e74C1Ed6d004d5240b06E3088724dFDA5d' as Address;
+const SPBEAM = '0x36B072ed8AFE665E3Aa6DaBa79Decbec63752b22' as Address;
+const OTHER = '0x1234567890123456789012345678901234567890' as Address;
+const MULTISEND = MULTISEND_CALL_ONLY[0]!;
+const PLAIN_MULTISEND = PLAIN_MULTISENDS[0]!;
+
+const abi = parseAbi(['function rely(address usr)', 'function deny(address usr)', 'function multiSend(bytes)']);
+const rely = encodeFunctionData({ abi, functionName: 'rely', args: [OTHER] });
+const deny = encodeFunctionData({ abi, functionName: 'deny', args: [OTHER] });
+const RELY_SELECTOR = rely.slice(0, 10) as Hex;
+
+const policy: SafePolicy = {
+  network: 'ethereum',
+  safeAddress: SAFE,
+  label: 'cBEAM Safe',
+  maxValue: 0n,
+  allowedTargets: [{ address: SPBEAM, selectors: [RELY_SELECTOR] }],
+  allowedDelegatecalls: [MULTISEND],
+};
+
+function multiSend(calls: Array<{ operation: number; to: Address; value?: bigint; data: Hex }>): Hex {
+  const packed = concat(
+    calls.map((call) =>
+      concat([
+        toHex(call.operation, { size: 1 }),
+        call.to,
+        pad(toHex(call.value ?? 0n)),
+        pad(toHex(BigInt((call.data.length - 2) / 2))),
+        call.data,
+      ])
+    )
+  );
+  return encodeFunctionData({ abi, functionName: 'multiSend', args: [packed] });
+}
+
+describe('checkPolicy', () => {
+  it('should report no policy when none is given', () => {
+    const result = checkPolicy(OTHER, 0n, '0x', 0, undefined);
+
+    expect(result).toEqual({ hasPolicy: false, violations: [] });
+  });
+
+  it('should pass a call the policy allows', () => {
+    const result = checkPolicy(SPBEAM, 0n, rely, 0, policy);
+
+    expect(result.hasPolicy).toBe(true);
+    expect(result.label).toBe('cBEAM Safe');
+    expect(result.violations).toHaveLength(0);
+    expect(result.warningLevel).toBeUndefined();
+  });
+
+  it('should flag targets, selectors and value outside the policy', () => {
+    expect(checkPolicy(OTHER, 0n, rely, 0, policy).violations[0]!.kind).toBe('target-not-allowed');
+    expect(checkPolicy(SPBEAM, 0n, deny, 0, policy).violations[0]).toMatchObject({
+      kind: 'selector-not-allowed',
+      selector: deny.slice(0, 10),
+    });
+    expect(checkPolicy(SPBEAM, 0n, '0x', 0, policy).violations[0]!.kind).toBe('selector-not-allowed');
+
+    const result = checkPolicy(SPBEAM, 1n, rely, 0, policy);
+    expect(result.violations.map((v) => v.kind)).toEqual(['value-exceeds-max']);
+    expect(result.warningLevel).toBe('high');
+  });
+
+  it('should flag delegatecalls not on the list', () => {
+    expect(checkPolicy(OTHER, 0n, '0x', 1, policy).violations[0]!.kind).toBe('delegatecall-not-allowed');
+    // Allowed targets without a delegatecall list allow no delegatecall
+    const noList = { ...policy, allowedDelegatecalls: undefined };
+    expect(checkPolicy(SPBEAM, 0n, rely, 1, noList).violations[0]!.kind).toBe('delegatecall-not-allowed');
+  });
+
+  it('should check each call in a MultiSendCallOnly batch and sum its value', () => {
+    const data = multiSend([
+      { operation: 0, to: SPBEAM, data: rely },
+      { operation: 0, to: OTHER, value: 5n, data: '0x' },
+    ]);
+
+    const result = checkPolicy(MULTISEND, 0n, data, 1, policy);
+
+    expect(result.violations.map((v) => [v.kind, v.batchIndex])).toEqual([
+      ['target-not-allowed', 1],
+      ['value-exceeds-max', undefined],
+    ]);
+    expect(result.violations[0]!.message).toContain('batch call 1');
+  });
+
+  it('should count the value of a delegatecalled batch by its calls, not the outer value', () => {
+    const data = multiSend([{ operation: 0, to: SPBEAM, value: 2n, data: rely }]);
+
+    expect(checkPolicy(MULTISEND, 5n, data, 1, { ...policy, maxValue: 3n }).violations).toHaveLength(0);
+    expect(checkPolicy(MULTISEND, 5n, data, 1, { ...policy, maxValue: 1n }).violations[0]!.message).toContain(
+      'moves 2 wei'
+    );
+  });
+
+  it('should check the delegatecall into the batch contract against the list', () => {
+    const data = multiSend([{ operation: 0, to: SPBEAM, data: rely }]);
+
+    const result = checkPolicy(MULTISEND, 0n, data, 1, { ...policy, allowedDelegatecalls: undefined });
+
+    expect(result.violations.map((v) => [v.kind, v.to, v.batchIndex])).toEqual([
+      ['delegatecall-not-allowed', MULTISEND, undefined],
+    ]);
+  });
+
+  it('should check each call of a plain MultiSend batch, down through delegatecalled sub-batches', () => {
+    const data = multiSend([
+      { operation: 0, to: SPBEAM, data: rely },
+      {
+        operation: 1,
+        to: PLAIN_MULTISEND,
+        data: multiSend([
+          { operation: 0, to: OTHER, value: 5n, data: rely },
+          { operation: 1, to: OTHER, data: '0x' },
+        ]),
+      },
+    ]);
+
+    const result = checkPolicy(PLAIN_MULTISEND, 0n, data, 1, { ...policy, allowedDelegatecalls: [PLAIN_MULTISEND] });
+
+    expect(result.violations.map((v) => [v.kind, v.to, v.batchIndex])).toEqual([
+      ['target-not-allowed', OTHER, 1],
+      ['delegatecall-not-allowed', OTHER, 1],
+      ['value-exceeds-max', undefined, undefined],
+    ]);
+    expect(result.violations[0]!.message).toContain('batch call 1.0');
+  });
+
+  it('should not unwrap a batch the Safe only calls, since it runs as the MultiSend contract', () => {
+    const data = multiSend([{ operation: 0, to: OTHER, value: 5n, data: rely }]);
+    const allowMultiSend = { ...policy, allowedTargets: [{ address: PLAIN_MULTISEND }] };
+
+    expect(checkPolicy(PLAIN_MULTISEND, 0n, data, 0, allowMultiSend).violations).toHaveLength(0);
+  });
+
+  it('should require calls to be decoded by a listed decoder', () => {
+    const registry = new DecoderRegistry();
+    registry.register(new SPBEAMDecoder());
+    const strict = { ...policy, allowedTargets: undefined, requiredDecoders: ['spbeam'] };
+
+    expect(checkPolicy(SPBEAM, 0n, rely, 0, strict, registry).violations).toHaveLength(0);
+    expect(checkPolicy(OTHER, 0n, rely, 0, strict, registry).violations[0]!.kind).toBe('decoder-required');
+    // No calldata, nothing to decode
+    expect(checkPolicy(OTHER, 0n, '0x', 0, { ...strict, maxValue: undefined }, registry).violations).toHaveLength(0);
+  });
+
+  it('should raise the overall risk in analyzeSecurity', () => {
+    const result = analyzeSecurity(
+      {
+        to: OTHER,
+        value: '0',
+        data: rely,
+        operation: 0,
+        safeTxGas: '0',
+        baseGas: '0',
+        gasPrice: '0',
+        gasToken: ZERO_ADDRESS,
+        refundReceiver: ZERO_ADDRESS,
+        nonce: '1',
+      },
+      { policy }
+    );
+
+    expect(result.policy.violations[0]!.kind).toBe('target-not-allowed');
+    expect(result.overallRisk).toBe('high');
+    expect(result.requiresCarefulReview).toBe(true);
+  });
+});
@@ -0,0 +1,201 @@
+/**
+ * Per-Safe Policy Checker
+ *
+ * Evaluates a transaction against the signing policy declared for its Safe
+ * (see utils/policy-file.ts). The general heuristics apply to every Safe; a
+ * policy narrows what one Safe may do, so anything outside it is a violation
+ * even when it looks harmless.
+ *
+ * A batch delegatecalled into MultiSend or MultiSendCallOnly is checked call
+ * by call, down through the sub-batches it delegatecalls, since those calls
+ * run as the Safe. The delegatecall into the batch contract is itself checked
+ * against allowedDelegatecalls like any other.
+ */
+
+import type { Address, Hex } from 'viem';
+import { decoderRegistry, type DecoderRegistry } from '../decoders/registry.js';
+import type { SafePolicy } from '../utils/policy-file.js';
+import { MULTISEND, MULTISEND_CALL_ONLY } from './constants.js';
+import { parseMultiSend, type MultiSendCall } from './multisend-decoder.js';
+import type { PolicyCheckResult, PolicyViolation } from './types.js';
+
+interface PolicyCall {
+  to: Address;
+  value: bigint;
+  data: Hex;
+  operation: number;
+  /** Position in the outer MultiSend batch, undefined for the transaction itself */
+  batchIndex?: number;
+  /** Positions from the outer batch down to this call, e.g. [2, 0] */
+  batchPath?: number[];
+  /** A delegatecall into a MultiSend whose calls are checked on their own */
+  isBatch?: boolean;
+}
+
+function sameAddress(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+function hasCalldata(data: Hex): boolean {
+  return !!data && data !== '0x';
+}
+
+/**
+ * Whether a call runs a MultiSend batch as the Safe: a delegatecall into
+ * either MultiSend contract. A plain call runs the batch as the MultiSend
+ * contract instead, so its calls are not the Safe's.
+ */
+function isSafeBatch(to: Address, operation: number): boolean {
+  return operation === 1 && [...MULTISEND_CALL_ONLY, ...MULTISEND].some((addr) => sameAddress(addr, to));
+}
+
+/**
+ * Flatten the transaction into the calls the Safe makes, unwrapping the
+ * MultiSend batches it delegatecalls at any depth
+ */
+function collectCalls(to: Address, value: bigint, data: Hex, operation: number): PolicyCall[] {
+  const batch = isSafeBatch(to, operation) ? parseMultiSend(data) : null;
+  const calls: PolicyCall[] = [{ to, value, data, operation, isBatch: batch !== null }];
+
+  const walk = (batchCalls: MultiSendCall[]) => {
+    for (const call of batchCalls) {
+      const isBatch = call.calls !== null && isSafeBatch(call.to, call.operation);
+      calls.push({
+        to: call.to,
+        value: call.value,
+        data: call.data,
+        operation: call.operation,
+        batchIndex: call.path[0],
+        batchPath: call.path,
+        isBatch,
+      });
+      if (isBatch) {
+        walk(call.calls!);
+      }
+    }
+  };
+  if (batch) {
+    walk(batch.calls);
+  }
+  return calls;
+}
+
+function where(call: PolicyCall): string {
+  return call.batchPath === undefined ? '' : ` (batch call ${call.batchPath.join('.')})`;
+}
+
+function checkCall(call: PolicyCall, policy: SafePolicy, registry: DecoderRegistry): PolicyViolation[] {
+  const violations: PolicyViolation[] = [];
+  const base = { to: call.to, batchIndex: call.batchIndex };
+  const selector = call.data.length >= 10 ? (call.data.slice(0, 10).toLowerCase() as Hex) : undefined;
+
+  if (call.operation === 1) {
+    // With allowed targets but no delegatecall list, no delegatecall is allowed:
+    // a delegatecall runs arbitrary code as the Safe.
+    const allowed = policy.allowedDelegatecalls ?? (policy.allowedTargets ? [] : undefined);
+    if (allowed && !allowed.some((addr) => sameAddress(addr, call.to))) {
+      violations.push({
+        kind: 'delegatecall-not-allowed',
+        message: `Delegatecall to ${call.to}${where(call)} is not in the policy's allowed delegatecalls.`,
+        ...base,
+      });
+    }
+  } else if (policy.allowedTargets) {
+    const target = policy.allowedTargets.find((t) => sameAddress(t.address, call.to));
+    if (!target) {
+      violations.push({
+        kind: 'target-not-allowed',
+        message: `Call to ${call.to}${where(call)} is not in the policy's allowed targets.`,
+        ...base,
+      });
+    } else if (target.selectors && !(selector && target.selectors.includes(selector))) {
+      violations.push({
+        kind: 'selector-not-allowed',
+        message: selector
+          ? `Function ${selector} on ${call.to}${where(call)} is not allowed by the policy.`
+          : `Plain transfer to ${call.to}${where(call)} is not allowed: the policy only allows listed functions on it.`,
+        selector,
+        ...base,
+      });
+    }
+  }
+
+  // A batch's calls are decoded one by one; the multiSend wrapper is not theirs to decode
+  if (policy.requiredDecoders && hasCalldata(call.data) && !call.isBatch) {
+    const decoder = registry.getDecoder(call.to, policy.network);
+    const required = policy.requiredDecoders.map((name) => name.toLowerCase());
+    const decoded =
+      decoder && required.includes(decoder.contractName.toLowerCase())
+        ? registry.decode(call.to, call.data, policy.network)
+        : undefined;
+    if (!decoded) {
+      violations.push({
+        kind: 'decoder-required',
+        message:
+          `Call to ${call.to}${where(call)} is not decoded by a required decoder ` +
+          `(${policy.requiredDecoders.join(', ')}).`,
+        selector,
+        ...base,
+      });
+    }
+  }
+
+  return violations;
+}
+
+/**
+ * Check a transaction against a Safe's signing policy
+ *
+ * @param to - Transaction target
+ * @param value - Native value in wei
+ * @param data - Transaction data
+ * @param operation - 0 for Call, 1 for DelegateCall
+ * @param policy - The Safe's policy, or undefined when it has none
+ * @param registry - Decoders for the requiredDecoders rule (defaults to the shared `decoderRegistry`)
+ * @returns Check result with one violation per broken rule
+ *
+ * @example
+ * const policy = findSafePolicy(parsePolicyFile(text), 'ethereum', safeAddress);
+ * const result = checkPolicy(tx.to, BigInt(tx.value), tx.data, tx.operation, policy);
+ * // result.violations[0].kind = "target-not-allowed"
+ * // result.warningLevel = "high"
+ */
+export function checkPolicy(
+  to: Address,
+  value: bigint,
+  data: Hex,
+  operation: number,
+  policy: SafePolicy | undefined,
+  registry: DecoderRegistry = decoderRegistry
+): PolicyCheckResult {
+  if (!policy) {
+    return { hasPolicy: false, violations: [] };
+  }
+
+  const calls = collectCalls(to, value, data, operation);
+  const violations = calls.flatMap((call) => checkCall(call, policy, registry));
+
+  if (policy.maxValue !== undefined) {
+    // The outer value when the Safe calls out, plus, for a batch, the value
+    // each call sends. A delegatecall sends nothing itself, so neither the
+    // value on one nor a sub-batch's own entry counts: its calls do instead.
+    const batchValue = calls.reduce(
+      (sum, call) => (call.batchPath === undefined || call.isBatch ? sum : sum + call.value),
+      0n
+    );
+    const total = (operation === 0 ? value : 0n) + batchValue;
+    if (total > policy.maxValue) {
+      violations.push({
+        kind: 'value-exceeds-max',
+        message: `Transaction moves ${total} wei of native value; the policy allows at most ${policy.maxValue} wei.`,
+      });
+    }
+  }
+
+  return {
+    hasPolicy: true,
+    label: policy.label,
+    violations,
+    warningLevel: violations.length > 0 ? 'high' : undefined,
+  };
+}
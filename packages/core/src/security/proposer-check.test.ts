@@ -0,0 +1,126 @@
+/**
+ * Tests for the proposer trust check
+ */
+
+import { afterEach, describe, it, expect } from 'vitest';
+import type { Address } from 'viem';
+import { checkProposer } from './proposer-check.js';
+import { analyzeSecurity } from './analyzer.js';
+import { ZERO_ADDRESS } from './constants.js';
+import { loadAddressBookCsv } from '../utils/address-book.js';
+import { clearAddressBookTags } from '../utils/address-tags.js';
+import type { SafeApiDelegate } from '../types.js';
+
+const SAFE = '0xf65475e74C1Ed6d004d5240b06E3088724dFDA5d' as Address;
+const ALICE = '0x1111111111111111111111111111111111111111' as Address;
+const BOB = '0x2222222222222222222222222222222222222222' as Address;
+const BOT = '0x3333333333333333333333333333333333333333' as Address;
+const MALLORY = '0x4444444444444444444444444444444444444444' as Address;
+
+const owners = [ALICE];
+
+function delegate(overrides: Partial<SafeApiDelegate> = {}): SafeApiDelegate {
+  return { safe: SAFE, delegate: BOT, delegator: ALICE, label: 'Proposer bot', expiryDate: null, ...overrides };
+}
+
+afterEach(() => {
+  clearAddressBookTags();
+});
+
+describe('checkProposer', () => {
+  it('should accept a proposal from a current owner', () => {
+    const result = checkProposer(ALICE.toLowerCase() as Address, null, { owners, delegates: [] });
+
+    expect(result).toEqual({
+      actor: ALICE.toLowerCase(),
+      status: 'owner',
+      delegator: undefined,
+      label: undefined,
+      inAddressBook: undefined,
+      message: 'Proposed by a current owner',
+    });
+  });
+
+  it('should note a registered delegate of a current owner', () => {
+    const result = checkProposer(ALICE, BOT, { owners, delegates: [delegate()] });
+
+    expect(result).toMatchObject({ actor: BOT, status: 'delegate', delegator: ALICE, warningLevel: 'medium' });
+    expect(result.warnings![0]).toMatch(/^NOTICE: Proposed by a delegate of owner/);
+  });
+
+  it('should flag a delegate whose delegator is no longer an owner', () => {
+    const result = checkProposer(BOB, BOT, { owners, delegates: [delegate({ delegator: BOB })] });
+
+    expect(result).toMatchObject({ status: 'orphaned-delegate', delegator: BOB, warningLevel: 'high' });
+  });
+
+  it('should flag a delegate that is not registered or has expired', () => {
+    const expired = delegate({ expiryDate: '2026-01-01T00:00:00Z' });
+    const result = checkProposer(ALICE, BOT, {
+      owners,
+      delegates: [expired],
+      now: new Date('2026-06-01T00:00:00Z'),
+    });
+
+    expect(result).toMatchObject({ status: 'unregistered-delegate', warningLevel: 'high' });
+    expect(result.warnings![0]).toContain('which is not registered for this Safe or has expired');
+  });
+
+  it('should judge a delegate by its named owner when delegates were not fetched', () => {
+    expect(checkProposer(ALICE, BOT, { owners }).status).toBe('delegate');
+    expect(checkProposer(BOB, BOT, { owners }).status).toBe('orphaned-delegate');
+  });
+
+  it('should flag a proposer that is neither an owner nor a delegate', () => {
+    const result = checkProposer(MALLORY, null, { owners, delegates: [delegate()] });
+
+    expect(result.status).toBe('unknown');
+    expect(result.warnings).toEqual([
+      `WARNING: Proposed by ${MALLORY}, which is neither an owner nor a registered delegate.`,
+    ]);
+  });
+
+  it('should check the proposer against a loaded address book', () => {
+    loadAddressBookCsv(
+      [
+        'address,label,verification_date,status',
+        `${ALICE},Alice,2026-01-01,inactive`,
+        `${BOB},Bob,2026-01-01,active`,
+      ].join('\n')
+    );
+
+    expect(checkProposer(ALICE, null, { owners })).toMatchObject({
+      status: 'owner',
+      label: 'Alice',
+      inAddressBook: false,
+      warningLevel: 'medium',
+    });
+    expect(checkProposer(BOB, null, { owners: [BOB] })).toMatchObject({ inAddressBook: true });
+    expect(checkProposer(BOT, null)).toMatchObject({ status: 'unchecked', inAddressBook: false, warningLevel: 'low' });
+  });
+
+  it('should report a missing proposer without a finding', () => {
+    expect(checkProposer(null, null, { owners })).toMatchObject({ actor: null, status: 'none' });
+  });
+
+  it('should raise the overall risk in analyzeSecurity', () => {
+    const result = analyzeSecurity(
+      {
+        to: SAFE,
+        value: '0',
+        data: '0x',
+        operation: 0,
+        safeTxGas: '0',
+        baseGas: '0',
+        gasPrice: '0',
+        gasToken: ZERO_ADDRESS,
+        refundReceiver: ZERO_ADDRESS,
+        nonce: '3',
+      },
+      { ownerState: { owners, threshold: 1 }, proposal: { proposer: MALLORY, proposedByDelegate: null } }
+    );
+
+    expect(result.proposer.status).toBe('unknown');
+    expect(result.overallRisk).toBe('high');
+  });
+});
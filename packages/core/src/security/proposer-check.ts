@@ -0,0 +1,138 @@
+/**
+ * Proposer Trust Check
+ *
+ * Anyone the Safe Transaction Service accepts can put a transaction in a
+ * Safe's queue: an owner, or a delegate an owner registered. A proposal from
+ * anyone else, or from a delegate whose owner has since been removed, is a
+ * transaction none of the current signers asked for. That is how a malicious
+ * transaction gets into the queue, next to the one signers expect.
+ *
+ * The proposer is checked against the current owners, the Safe's registered
+ * delegates (SafeApiClient.fetchDelegates) and the address book.
+ */
+
+import type { Address } from 'viem';
+import type { SafeApiDelegate } from '../types.js';
+import { getAddressBookEntries, getAddressTag } from '../utils/address-tags.js';
+import type { ProposerCheckResult, ProposerStatus, WarningLevel } from './types.js';
+
+export interface ProposerCheckOptions {
+  /** Current owners. Without them only the address book is checked. */
+  owners?: readonly Address[];
+  /** Delegates registered for the Safe. Omit when not fetched. */
+  delegates?: readonly SafeApiDelegate[];
+  /** Time to judge delegate expiry against (defaults to now) */
+  now?: Date;
+}
+
+const LEVEL_ORDER: WarningLevel[] = ['critical', 'high', 'medium', 'low', 'info'];
+
+function sameAddress(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+function isActive(delegation: SafeApiDelegate, now: Date): boolean {
+  return delegation.expiryDate === null || new Date(delegation.expiryDate).getTime() > now.getTime();
+}
+
+/**
+ * Check who proposed a transaction
+ *
+ * Severity:
+ *   - neither an owner nor a registered delegate: high
+ *   - through a delegate that is not registered, or expired: high
+ *   - a delegate whose delegator is no longer an owner: high
+ *   - a delegate of a current owner: medium (delegates propose, they never sign)
+ *   - marked inactive in the address book: medium
+ *   - not in the loaded address book: low
+ *
+ * @param proposer - `proposer` of the Safe API transaction
+ * @param proposedByDelegate - `proposedByDelegate` of the Safe API transaction
+ * @param options - Current owners and registered delegates
+ * @returns The proposer's status with a verdict, and a warning for each finding
+ *
+ * @example
+ * const delegates = await client.fetchDelegates(safeAddress);
+ * const result = checkProposer(tx.proposer, tx.proposedByDelegate, { owners: info.owners, delegates });
+ * // result.status = "unknown"
+ * // result.warningLevel = "high"
+ */
+export function checkProposer(
+  proposer: Address | null,
+  proposedByDelegate: Address | null,
+  options: ProposerCheckOptions = {}
+): ProposerCheckResult {
+  const actor = proposedByDelegate ?? proposer;
+  if (!actor) {
+    return { actor: null, status: 'none', message: 'The Safe API did not report who proposed this transaction' };
+  }
+
+  const { owners } = options;
+  const now = options.now ?? new Date();
+  const isOwner = (address: Address) => owners?.some((owner) => sameAddress(owner, address)) ?? false;
+  const delegation = options.delegates?.find((d) => sameAddress(d.delegate, actor) && isActive(d, now));
+  // Without a registry, a delegate proposal can only be judged by the owner it names
+  const delegator = delegation?.delegator ?? (proposedByDelegate && !options.delegates ? proposer : null);
+
+  let status: ProposerStatus;
+  let message: string;
+  let level: WarningLevel | undefined;
+  if (!owners) {
+    status = 'unchecked';
+    message = 'Owners not known; the proposer was not checked against them';
+  } else if (isOwner(actor)) {
+    status = 'owner';
+    message = 'Proposed by a current owner';
+  } else if (delegator && isOwner(delegator)) {
+    status = 'delegate';
+    message = `Proposed by a delegate of owner ${delegator}; delegates can propose but not sign`;
+    level = 'medium';
+  } else if (delegator) {
+    status = 'orphaned-delegate';
+    message = `Proposed by a delegate of ${delegator}, who is no longer an owner`;
+    level = 'high';
+  } else if (proposedByDelegate) {
+    status = 'unregistered-delegate';
+    message = `Proposed through delegate ${actor}, which is not registered for this Safe or has expired`;
+    level = 'high';
+  } else {
+    status = 'unknown';
+    message = `Proposed by ${actor}, which is neither an owner nor a registered delegate`;
+    level = 'high';
+  }
+
+  const warnings: string[] = [];
+  const levels: WarningLevel[] = [];
+  if (level) {
+    warnings.push(`${level === 'high' ? 'WARNING' : 'NOTICE'}: ${message}.`);
+    levels.push(level);
+  }
+
+  const tag = getAddressTag(actor);
+  const inAddressBook =
+    getAddressBookEntries().length > 0 ? tag?.source === 'address-book' && tag.status !== 'inactive' : undefined;
+  if (tag?.source === 'address-book' && tag.status === 'inactive') {
+    warnings.push(`NOTICE: The proposer ${tag.label} (${actor}) is marked inactive in the address book.`);
+    levels.push('medium');
+  } else if (inAddressBook === false) {
+    warnings.push(`NOTICE: The proposer ${actor} is not in the address book.`);
+    levels.push('low');
+  }
+
+  const result: ProposerCheckResult = {
+    actor,
+    status,
+    delegator: delegator ?? undefined,
+    label: tag?.label,
+    inAddressBook,
+    message,
+  };
+  if (warnings.length === 0) {
+    return result;
+  }
+  return {
+    ...result,
+    warnings,
+    warningLevel: LEVEL_ORDER.find((candidate) => levels.includes(candidate)),
+  };
+}
@@ -0,0 +1,136 @@
+/**
+ * Tests for cross-chain replay detection
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { Address } from 'viem';
+import { checkCrossChainReplay, fetchCrossChainSafeStates, isCrossChainReplayable } from './replay-check.js';
+import { analyzeSecurity } from './analyzer.js';
+import { ZERO_ADDRESS } from './constants.js';
+import { SafeApiError } from '../api/safe-client.js';
+import type { SafeApiSafeInfo } from '../types.js';
+import type { CrossChainSafeState } from './types.js';
+
+const SAFE = '0xf65475e74C1Ed6d004d5240b06E3088724dFDA5d' as Address;
+const ALICE = '0x1111111111111111111111111111111111111111' as Address;
+const BOB = '0x2222222222222222222222222222222222222222' as Address;
+
+const states: CrossChainSafeState[] = [
+  { network: 'sepolia', chainId: 11155111, deployed: true, nonce: 45, owners: [ALICE] },
+  { network: 'base', chainId: 8453, deployed: true, nonce: 40, owners: [ALICE, BOB] },
+];
+
+describe('isCrossChainReplayable', () => {
+  it('should apply to Safes whose domain has no chainId', () => {
+    expect(isCrossChainReplayable('1.2.0')).toBe(true);
+    expect(isCrossChainReplayable('1.1.1+L2')).toBe(true);
+    expect(isCrossChainReplayable('1.3.0')).toBe(false);
+  });
+});
+
+describe('checkCrossChainReplay', () => {
+  it('should list networks where the Safe exists with the nonce unused', () => {
+    const result = checkCrossChainReplay('1.1.1', 42, { network: 'ethereum', owners: [BOB], states });
+
+    expect(result.exposures).toEqual([{ network: 'base', chainId: 8453, safeNonce: 40, sharedOwners: [BOB] }]);
+    expect(result.warnings![0]).toContain('The same Safe exists on base with nonce 42 still unused');
+    expect(result.warningLevel).toBe('high');
+  });
+
+  it('should skip networks whose owners share nobody with this Safe', () => {
+    const result = checkCrossChainReplay('1.1.1', 42, {
+      states: [{ ...states[1]!, owners: [ALICE] }],
+      owners: [BOB],
+    });
+
+    expect(result.exposures).toEqual([]);
+    expect(result.warningLevel).toBe('low');
+  });
+
+  it('should be a notice when other networks were not checked', () => {
+    const result = checkCrossChainReplay('1.2.0', 42);
+
+    expect(result).toMatchObject({ replayable: true, checked: false, exposures: [], warningLevel: 'medium' });
+    expect(result.warnings![0]).toContain('Other networks were not checked');
+  });
+
+  it('should stay silent for Safes that sign with the chainId', () => {
+    expect(checkCrossChainReplay('1.3.0', 42, { states })).toEqual({
+      replayable: false,
+      checked: true,
+      exposures: [],
+      unchecked: [],
+    });
+  });
+
+  it('should raise the overall risk in analyzeSecurity', () => {
+    const result = analyzeSecurity(
+      {
+        to: ALICE,
+        value: '0',
+        data: '0x',
+        operation: 0,
+        safeTxGas: '0',
+        baseGas: '0',
+        gasPrice: '0',
+        gasToken: ZERO_ADDRESS,
+        refundReceiver: ZERO_ADDRESS,
+        nonce: '42',
+      },
+      { network: 'ethereum', version: '1.1.1', crossChainSafes: states }
+    );
+
+    expect(result.crossChainReplay.exposures.map((exposure) => exposure.network)).toEqual(['base']);
+    expect(result.overallRisk).toBe('high');
+  });
+
+  it('should warn offline, with only the chain and version known', () => {
+    const result = analyzeSecurity(
+      {
+        to: ALICE,
+        value: '0',
+        data: '0x',
+        operation: 0,
+        safeTxGas: '0',
+        baseGas: '0',
+        gasPrice: '0',
+        gasToken: ZERO_ADDRESS,
+        refundReceiver: ZERO_ADDRESS,
+        nonce: '42',
+      },
+      // What `sky-safe hash` knows without a network connection
+      { safeAddress: SAFE, chainId: 1, network: 'ethereum', version: '1.2.0' }
+    );
+
+    expect(result.crossChainReplay).toMatchObject({ replayable: true, checked: false, warningLevel: 'medium' });
+    expect(result.overallRisk).toBe('medium');
+  });
+});
+
+describe('fetchCrossChainSafeStates', () => {
+  it('should treat a 404 as no Safe and record other failures', async () => {
+    const fetchSafeInfo = async (network: string): Promise<SafeApiSafeInfo> => {
+      if (network === 'sepolia') {
+        throw new SafeApiError('Failed to fetch Safe info: Not Found', 404);
+      }
+      if (network === 'base') {
+        throw new SafeApiError('Failed to fetch Safe info: Bad Gateway', 502);
+      }
+      return { nonce: 7, owners: [ALICE] } as SafeApiSafeInfo;
+    };
+
+    expect(await fetchCrossChainSafeStates(SAFE, 'ethereum', fetchSafeInfo)).toEqual([
+      { network: 'sepolia', chainId: 11155111, deployed: false },
+      {
+        network: 'base',
+        chainId: 8453,
+        deployed: false,
+        error: 'Failed to fetch Safe info: Bad Gateway',
+      },
+    ]);
+    expect(await fetchCrossChainSafeStates(SAFE, 'base', fetchSafeInfo)).toMatchObject([
+      { network: 'ethereum', deployed: true, nonce: 7 },
+      { network: 'sepolia', deployed: false },
+    ]);
+  });
+});
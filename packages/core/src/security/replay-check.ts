@@ -0,0 +1,163 @@
+/**
+ * Cross-Chain Replay Checker
+ *
+ * Safes at v1.2.0 and older hash their EIP-712 domain without the chainId
+ * (see calculateDomainHash). A signature for one of their transactions is
+ * therefore valid on every chain where a Safe with the same address and
+ * owners exists: anyone holding the signatures can execute the same
+ * transaction there, as long as the nonce is still unused.
+ *
+ * The Safe Transaction Service of each configured network (NETWORKS) tells
+ * whether the address is a Safe there and what its nonce is.
+ */
+
+import type { Address } from 'viem';
+import { NETWORKS } from '../api/networks.js';
+import { SafeApiClient, SafeApiError } from '../api/safe-client.js';
+import { getVersion, isVersionLte } from '../hash/version.js';
+import type { SafeApiSafeInfo } from '../types.js';
+import type {
+  CrossChainReplayCheckResult,
+  CrossChainReplayExposure,
+  CrossChainSafeState,
+  WarningLevel,
+} from './types.js';
+
+export interface CrossChainReplayOptions {
+  /** Network the transaction is for; never counted as an exposure */
+  network?: string;
+  /** Current owners of the Safe; exposures are limited to networks sharing one of them */
+  owners?: readonly Address[];
+  /** The Safe on the other networks (see fetchCrossChainSafeStates). Omit when not checked. */
+  states?: readonly CrossChainSafeState[];
+}
+
+/**
+ * Whether a Safe version signs without the chainId, making its signatures
+ * valid on every chain
+ *
+ * @param version - Safe version (e.g., "1.2.0", "1.1.1+L2")
+ */
+export function isCrossChainReplayable(version: string): boolean {
+  return isVersionLte(getVersion(version), '1.2.0');
+}
+
+/**
+ * Look up a Safe address on every configured network but one
+ *
+ * A 404 from a network's Safe Transaction Service means no Safe at that
+ * address; any other failure is recorded in `error`.
+ *
+ * @param safeAddress - Safe address to look up
+ * @param network - Network the transaction is for (skipped)
+ * @param fetchSafeInfo - Fetches Safe info from one network (defaults to SafeApiClient)
+ * @returns One state per other network, in NETWORKS order
+ *
+ * @example
+ * const states = await fetchCrossChainSafeStates(safeAddress, 'ethereum');
+ * const replay = checkCrossChainReplay('1.1.1', 42, { network: 'ethereum', states });
+ */
+export async function fetchCrossChainSafeStates(
+  safeAddress: Address,
+  network: string,
+  fetchSafeInfo: (network: string, safeAddress: Address) => Promise<SafeApiSafeInfo> = (name, address) =>
+    new SafeApiClient(name).fetchSafeInfo(address)
+): Promise<CrossChainSafeState[]> {
+  const others = Object.entries(NETWORKS).filter(([name]) => name !== network);
+
+  return Promise.all(
+    others.map(async ([name, config]): Promise<CrossChainSafeState> => {
+      try {
+        const info = await fetchSafeInfo(name, safeAddress);
+        return {
+          network: name,
+          chainId: config.chainId,
+          deployed: true,
+          nonce: Number(info.nonce),
+          owners: info.owners,
+        };
+      } catch (error) {
+        if (error instanceof SafeApiError && error.statusCode === 404) {
+          return { network: name, chainId: config.chainId, deployed: false };
+        }
+        return {
+          network: name,
+          chainId: config.chainId,
+          deployed: false,
+          error: error instanceof Error ? error.message : String(error),
+        };
+      }
+    })
+  );
+}
+
+/**
+ * Check whether a transaction's signatures could be replayed on other chains
+ *
+ * Severity, for Safes at v1.2.0 and older:
+ *   - the Safe exists on another network with the nonce unused, and shares
+ *     an owner with this one (when the owners are known): high
+ *   - other networks not checked: medium
+ *   - checked, no exposure: low (the Safe could still be deployed there later)
+ *
+ * Newer Safes include the chainId in their domain and get no finding.
+ *
+ * @param version - Safe version
+ * @param nonce - The transaction's nonce
+ * @param options - Network, owners and the Safe's state on other networks
+ * @returns Whether signatures are chain-independent, and where they could be replayed
+ *
+ * @example
+ * const result = checkCrossChainReplay('1.1.1', 42, { network: 'ethereum', states });
+ * // result.exposures = [{ network: 'base', chainId: 8453, safeNonce: 40 }]
+ * // result.warningLevel = "high"
+ */
+export function checkCrossChainReplay(
+  version: string,
+  nonce: number,
+  options: CrossChainReplayOptions = {}
+): CrossChainReplayCheckResult {
+  const checked = options.states !== undefined;
+  if (!isCrossChainReplayable(version)) {
+    return { replayable: false, checked, exposures: [], unchecked: [] };
+  }
+
+  const owners = options.owners?.map((owner) => owner.toLowerCase());
+  const states = (options.states ?? []).filter((state) => state.network !== options.network);
+  const unchecked = states.filter((state) => state.error !== undefined).map((state) => state.network);
+
+  const exposures: CrossChainReplayExposure[] = [];
+  for (const state of states) {
+    if (!state.deployed || state.nonce === undefined || state.nonce > nonce) {
+      continue;
+    }
+    const sharedOwners = owners && (state.owners ?? []).filter((owner) => owners.includes(owner.toLowerCase()));
+    if (sharedOwners?.length === 0) {
+      continue;
+    }
+    exposures.push({ network: state.network, chainId: state.chainId, safeNonce: state.nonce, sharedOwners });
+  }
+
+  const intro = `This Safe is v${getVersion(version)}, whose signatures do not include the chainId`;
+  const failed = unchecked.length > 0 ? ` Could not check ${unchecked.join(', ')}.` : '';
+  let warning: string;
+  let warningLevel: WarningLevel;
+  if (exposures.length > 0) {
+    warningLevel = 'high';
+    warning =
+      `WARNING: ${intro}. The same Safe exists on ${exposures.map((e) => e.network).join(', ')} with nonce ` +
+      `${nonce} still unused: the signatures collected for this transaction can execute it there too.${failed}`;
+  } else if (!checked) {
+    warningLevel = 'medium';
+    warning =
+      `NOTICE: ${intro}: they are valid on every chain where a Safe with this address and these owners ` +
+      `exists. Other networks were not checked.`;
+  } else {
+    warningLevel = 'low';
+    warning =
+      `NOTICE: ${intro}. No other configured network has this Safe with nonce ${nonce} unused, but the ` +
+      `signatures stay valid on any chain where it is deployed later.${failed}`;
+  }
+
+  return { replayable: true, checked, exposures, unchecked, warnings: [warning], warningLevel };
+}
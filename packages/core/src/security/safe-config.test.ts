@@ -0,0 +1,122 @@
+/**
+ * Tests for the Safe configuration check
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import type { Address } from 'viem';
+import { checkSafeConfiguration } from './safe-config.js';
+import { TRUSTED_FALLBACK_HANDLERS, TRUSTED_MODULES, TRUSTED_SINGLETONS, ZERO_ADDRESS } from './constants.js';
+import { loadAddressBookCsv } from '../utils/address-book.js';
+import { clearAddressBookTags } from '../utils/address-tags.js';
+import type { SafeApiSafeInfo } from '../types.js';
+
+const SAFE = '0xf65475e74C1Ed6d004d5240b06E3088724dFDA5d' as Address;
+const ALICE = '0x1111111111111111111111111111111111111111' as Address;
+const BOB = '0x2222222222222222222222222222222222222222' as Address;
+const STRANGER = '0x1234567890123456789012345678901234567890' as Address;
+
+function safeInfo(overrides: Partial<SafeApiSafeInfo> = {}): SafeApiSafeInfo {
+  return {
+    address: SAFE,
+    nonce: 10,
+    threshold: 2,
+    owners: [ALICE, BOB],
+    masterCopy: TRUSTED_SINGLETONS[3]!,
+    modules: [],
+    fallbackHandler: TRUSTED_FALLBACK_HANDLERS[1]!,
+    guard: ZERO_ADDRESS,
+    version: '1.3.0',
+    ...overrides,
+  };
+}
+
+function loadBook(rows: string[]): void {
+  loadAddressBookCsv(['address,label,verification_date,status', ...rows].join('\n'));
+}
+
+beforeEach(() => {
+  clearAddressBookTags();
+});
+
+describe('checkSafeConfiguration', () => {
+  it('should pass a canonical Safe with no modules or guard', () => {
+    const result = checkSafeConfiguration(safeInfo());
+
+    expect(result.threshold).toBe(2);
+    expect(result.warnings).toHaveLength(0);
+    expect(result.warningLevel).toBeUndefined();
+    expect(result.entries.find((e) => e.role === 'guard')?.status).toBe('unset');
+    expect(result.entries.find((e) => e.role === 'masterCopy')?.status).toBe('trusted');
+    expect(result.entries.find((e) => e.role === 'fallbackHandler')?.label).toBe('Safe Fallback Handler');
+  });
+
+  it('should not flag owners when no address book is loaded', () => {
+    const result = checkSafeConfiguration(safeInfo());
+
+    expect(result.addressBookLoaded).toBe(false);
+    expect(result.entries.filter((e) => e.role === 'owner').map((e) => e.status)).toEqual(['unchecked', 'unchecked']);
+  });
+
+  it('should label owners from the address book and flag the rest', () => {
+    loadBook([`${ALICE},Alice (Ledger),2026-05-01,active`]);
+
+    const result = checkSafeConfiguration(safeInfo());
+    const [alice, bob] = result.entries.filter((e) => e.role === 'owner');
+
+    expect(alice).toMatchObject({ status: 'address-book', label: 'Alice (Ledger)', flagged: false });
+    expect(bob).toMatchObject({ status: 'unknown', flagged: true, warningLevel: 'medium' });
+    expect(result.warningLevel).toBe('medium');
+  });
+
+  it('should flag an owner marked inactive in the address book', () => {
+    loadBook([`${ALICE},Alice (old key),2026-05-01,inactive`, `${BOB},Bob,2026-05-01,active`]);
+
+    const result = checkSafeConfiguration(safeInfo());
+
+    expect(result.warnings.map((w) => w.address)).toEqual([ALICE]);
+    expect(result.warningLevel).toBe('high');
+  });
+
+  it('should accept trusted modules and flag unknown ones', () => {
+    const result = checkSafeConfiguration(safeInfo({ modules: [TRUSTED_MODULES[0]!, STRANGER] }));
+    const modules = result.entries.filter((e) => e.role === 'module');
+
+    expect(modules.map((e) => e.status)).toEqual(['trusted', 'unknown']);
+    expect(result.warningLevel).toBe('high');
+  });
+
+  it('should accept a module the signers put in their address book', () => {
+    loadBook([`${STRANGER},Roles Module,2026-05-01,active`]);
+
+    const result = checkSafeConfiguration(safeInfo({ owners: [], modules: [STRANGER] }));
+
+    expect(result.warnings).toHaveLength(0);
+  });
+
+  it('should flag an unknown guard and fallback handler', () => {
+    const result = checkSafeConfiguration(safeInfo({ guard: STRANGER, fallbackHandler: BOB }));
+
+    expect(result.warnings.map((w) => w.role)).toEqual(['guard', 'fallbackHandler']);
+    expect(result.warningLevel).toBe('high');
+  });
+
+  it('should trust a zkSync v1.4.1 Safe', () => {
+    const result = checkSafeConfiguration(
+      safeInfo({
+        masterCopy: '0x610fcA2e0279Fa1F8C00c8c2F71dF522AD469380',
+        fallbackHandler: '0x9301E98DD367135f21bdF66f342A249c9D5F9069',
+        version: '1.4.1+L2',
+      })
+    );
+
+    expect(result.warnings).toHaveLength(0);
+  });
+
+  it('should treat a non-canonical singleton as critical', () => {
+    const result = checkSafeConfiguration(safeInfo({ masterCopy: STRANGER }));
+
+    expect(result.warnings).toHaveLength(1);
+    expect(result.warnings[0]).toMatchObject({ role: 'masterCopy', warningLevel: 'critical' });
+    expect(result.warningLevel).toBe('critical');
+  });
+});
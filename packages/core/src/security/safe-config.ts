@@ -0,0 +1,171 @@
+/**
+ * Safe Configuration Check
+ *
+ * Reviews a Safe's current setup as reported by the Safe Transaction Service:
+ * owners, enabled modules, guard, fallback handler and singleton (masterCopy).
+ *
+ * Each entry is known when it is in the matching trusted list in
+ * `constants.ts` or in the loaded address book. Anything else is flagged: a
+ * module the signers never approved, or a singleton that is not a Safe
+ * deployment, changes what a signature on this Safe actually authorises.
+ */
+
+import type { Address } from 'viem';
+import type { SafeApiSafeInfo } from '../types.js';
+import { getAddressBookEntries, getAddressTag } from '../utils/address-tags.js';
+import {
+  TRUSTED_FALLBACK_HANDLERS,
+  TRUSTED_GUARDS,
+  TRUSTED_MODULES,
+  TRUSTED_SINGLETONS,
+  ZERO_ADDRESS,
+} from './constants.js';
+import type { WarningLevel } from './types.js';
+
+/**
+ * Part of the Safe configuration an address fills
+ */
+export type SafeConfigRole = 'owner' | 'module' | 'guard' | 'fallbackHandler' | 'masterCopy';
+
+export type SafeConfigEntryStatus =
+  /** In the trusted list for its role */
+  | 'trusted'
+  /** Active entry in the loaded address book */
+  | 'address-book'
+  /** Marked inactive in the loaded address book */
+  | 'inactive'
+  /** Neither trusted nor in the address book */
+  | 'unknown'
+  /** Owner, but no address book is loaded to check it against */
+  | 'unchecked'
+  /** Guard or fallback handler not set (zero address) */
+  | 'unset';
+
+export interface SafeConfigEntry {
+  role: SafeConfigRole;
+  address: Address;
+  /** Address-book or built-in label, if any */
+  label?: string;
+  status: SafeConfigEntryStatus;
+  /** Whether the entry needs a signer's attention */
+  flagged: boolean;
+  /** Why the entry is flagged */
+  message?: string;
+  warningLevel?: WarningLevel;
+}
+
+export interface SafeConfigCheckResult {
+  threshold: number;
+  /** Owners, then modules, guard, fallback handler and masterCopy */
+  entries: SafeConfigEntry[];
+  /** Flagged entries only */
+  warnings: SafeConfigEntry[];
+  addressBookLoaded: boolean;
+  warningLevel?: WarningLevel;
+}
+
+const TRUSTED_BY_ROLE: Record<SafeConfigRole, readonly Address[]> = {
+  owner: [],
+  module: TRUSTED_MODULES,
+  guard: TRUSTED_GUARDS,
+  fallbackHandler: TRUSTED_FALLBACK_HANDLERS,
+  masterCopy: TRUSTED_SINGLETONS,
+};
+
+/** Severity of an entry nobody has vouched for */
+const UNKNOWN_LEVEL: Record<SafeConfigRole, WarningLevel> = {
+  owner: 'medium',
+  module: 'high',
+  guard: 'high',
+  fallbackHandler: 'high',
+  masterCopy: 'critical',
+};
+
+const UNKNOWN_MESSAGE: Record<SafeConfigRole, string> = {
+  owner: 'Owner is not in the address book',
+  module: 'Module is not trusted and not in the address book — it can execute transactions without signatures',
+  guard: 'Guard is not trusted and not in the address book — it can block every transaction',
+  fallbackHandler:
+    'Fallback handler is not a Safe deployment and not in the address book — it can answer signature checks for the Safe',
+  masterCopy: 'Singleton is not a Safe deployment — the Safe is running unknown code',
+};
+
+const LEVEL_ORDER: WarningLevel[] = ['critical', 'high', 'medium', 'low', 'info'];
+
+function isListed(list: readonly Address[], address: Address): boolean {
+  const key = address.toLowerCase();
+  return list.some((entry) => entry.toLowerCase() === key);
+}
+
+function checkEntry(role: SafeConfigRole, address: Address, addressBookLoaded: boolean): SafeConfigEntry {
+  const tag = getAddressTag(address);
+  const label = tag?.label;
+
+  if ((role === 'guard' || role === 'fallbackHandler') && address.toLowerCase() === ZERO_ADDRESS) {
+    return { role, address, status: 'unset', flagged: false };
+  }
+  if (isListed(TRUSTED_BY_ROLE[role], address)) {
+    return { role, address, label, status: 'trusted', flagged: false };
+  }
+  if (tag?.source === 'address-book') {
+    if (tag.status === 'inactive') {
+      return {
+        role,
+        address,
+        label,
+        status: 'inactive',
+        flagged: true,
+        message: 'Marked inactive in the address book',
+        warningLevel: 'high',
+      };
+    }
+    return { role, address, label, status: 'address-book', flagged: false };
+  }
+  // Without a book, every owner would be "unknown" — that is noise, not a finding.
+  if (role === 'owner' && !addressBookLoaded) {
+    return { role, address, label, status: 'unchecked', flagged: false };
+  }
+  return {
+    role,
+    address,
+    label,
+    status: 'unknown',
+    flagged: true,
+    message: UNKNOWN_MESSAGE[role],
+    warningLevel: UNKNOWN_LEVEL[role],
+  };
+}
+
+/**
+ * Check a Safe's configuration against the trusted lists and address book.
+ *
+ * @param info - Safe info from the Safe Transaction Service
+ * @returns One entry per owner, module, guard, fallback handler and masterCopy
+ *
+ * @example
+ * const info = await client.fetchSafeInfo(safeAddress);
+ * const config = checkSafeConfiguration(info);
+ * for (const entry of config.warnings) console.warn(entry.role, entry.address, entry.message);
+ */
+export function checkSafeConfiguration(info: SafeApiSafeInfo): SafeConfigCheckResult {
+  const addressBookLoaded = getAddressBookEntries().length > 0;
+
+  const entries: SafeConfigEntry[] = [
+    ...info.owners.map((owner) => checkEntry('owner', owner, addressBookLoaded)),
+    ...info.modules.map((module) => checkEntry('module', module, addressBookLoaded)),
+    checkEntry('guard', info.guard ?? ZERO_ADDRESS, addressBookLoaded),
+    checkEntry('fallbackHandler', info.fallbackHandler ?? ZERO_ADDRESS, addressBookLoaded),
+    checkEntry('masterCopy', info.masterCopy, addressBookLoaded),
+  ];
+
+  const warnings = entries.filter((entry) => entry.flagged);
+  const warningLevel = LEVEL_ORDER.find((level) => warnings.some((entry) => entry.warningLevel === level));
+
+  return {
+    threshold: info.threshold,
+    entries,
+    warnings,
+    addressBookLoaded,
+    warningLevel,
+  };
+}
@@ -3,12 +3,12 @@
  */
 
 import { describe, it, expect } from 'vitest';
-import { encodeFunctionData, concat, toHex, pad } from 'viem';
-import { checkDelegateCall, isTrustedForDelegateCall } from './delegate-call.js';
+import { encodeFunctionData, concat, toHex, pad, parseAbi, type Address, type Hex } from 'viem';
+import { checkDelegateCall, getDelegateCallTrustTier, isTrustedForDelegateCall } from './delegate-call.js';
 import { checkGasTokenAttack } from './gas-token.js';
-import { checkOwnerModifications } from './owner-checks.js';
+import { checkOwnerModifications, previewOwnerChanges } from './owner-checks.js';
 import { analyzeSecurity } from './analyzer.js';
-import { MULTISEND_CALL_ONLY, ZERO_ADDRESS } from './constants.js';
+import { MULTISEND, MULTISEND_CALL_ONLY, SIGN_MESSAGE_LIB, ZERO_ADDRESS } from './constants.js';
 import type { SafeTransactionData } from '../types.js';
 
 describe('Delegate Call Detection', () => {
@@ -47,6 +47,75 @@ describe('Delegate Call Detection', () => {
   });
 });
 
+describe('Delegate calls inside MultiSend batches', () => {
+  const UNKNOWN = '0x1234567890123456789012345678901234567890' as Address;
+  const batch = (calls: Array<{ operation: number; to: Address; data?: Hex }>): Hex =>
+    encodeFunctionData({
+      abi: parseAbi(['function multiSend(bytes transactions)']),
+      functionName: 'multiSend',
+      args: [
+        concat(
+          calls.map(({ operation, to, data = '0x' }) =>
+            concat([toHex(operation, { size: 1 }), to, pad(toHex(0n)), pad(toHex(BigInt((data.length - 2) / 2))), data])
+          )
+        ),
+      ],
+    });
+
+  it('should put canonical MultiSend in its own trust tier', () => {
+    expect(getDelegateCallTrustTier(MULTISEND_CALL_ONLY[0]!)).toBe('trusted');
+    expect(getDelegateCallTrustTier(MULTISEND[0]!.toLowerCase() as Address)).toBe('multisend');
+    expect(getDelegateCallTrustTier(UNKNOWN)).toBe('untrusted');
+
+    const result = checkDelegateCall(1, MULTISEND[0]!, batch([{ operation: 0, to: UNKNOWN }]));
+    expect(result.isTrusted).toBe(false);
+    expect(result.trustTier).toBe('multisend');
+    expect(result.warningLevel).toBe('high');
+    expect(result.nestedDelegateCalls).toEqual([]);
+  });
+
+  it('should flag an untrusted delegatecall inside a MultiSend batch with its index', () => {
+    const data = batch([
+      { operation: 0, to: UNKNOWN },
+      { operation: 1, to: SIGN_MESSAGE_LIB[0]! },
+      { operation: 1, to: UNKNOWN },
+    ]);
+
+    const result = checkDelegateCall(1, MULTISEND[0]!, data);
+
+    expect(result.nestedDelegateCalls.map((call) => [call.batchPath, call.trustTier])).toEqual([
+      [[1], 'trusted'],
+      [[2], 'untrusted'],
+    ]);
+    expect(result.nestedDelegateCalls[1]!.warning).toContain('batch call 2');
+    expect(result.warningLevel).toBe('critical');
+  });
+
+  it('should descend into nested MultiSend batches run by delegatecall only', () => {
+    const inner = batch([{ operation: 1, to: UNKNOWN }]);
+
+    const viaDelegateCall = checkDelegateCall(
+      1,
+      MULTISEND[0]!,
+      batch([{ operation: 1, to: MULTISEND[0]!, data: inner }])
+    );
+    expect(viaDelegateCall.nestedDelegateCalls.map((call) => call.batchPath)).toEqual([[0], [0, 0]]);
+    expect(viaDelegateCall.warningLevel).toBe('critical');
+
+    // A plain call to MultiSend does not run the inner batch as the Safe
+    const viaCall = checkDelegateCall(1, MULTISEND[0]!, batch([{ operation: 0, to: MULTISEND[0]!, data: inner }]));
+    expect(viaCall.nestedDelegateCalls).toEqual([]);
+  });
+
+  it('should flag a delegatecall inside a MultiSendCallOnly batch, which reverts', () => {
+    const result = checkDelegateCall(1, MULTISEND_CALL_ONLY[0]!, batch([{ operation: 1, to: UNKNOWN }]));
+
+    expect(result.isTrusted).toBe(true);
+    expect(result.nestedDelegateCalls[0]!.warning).toContain('revert');
+    expect(result.warningLevel).toBe('high');
+  });
+});
+
 describe('Gas Token Attack Detection', () => {
   it('should detect critical risk (custom gas token + refund receiver + non-zero gas price)', () => {
     const result = checkGasTokenAttack(
@@ -568,3 +637,129 @@ describe('Security Analyzer (combined checks)', () => {
     expect(result.delegateCall.isTrusted).toBe(true); // MultiSendCallOnly is trusted
   });
 });
+
+describe('Owner Change Preview', () => {
+  const SAFE = '0xf65475e74C1Ed6d004d5240b06E3088724dFDA5d' as Address;
+  const SENTINEL = '0x0000000000000000000000000000000000000001' as Address;
+  const A = '0x1111111111111111111111111111111111111111' as Address;
+  const B = '0x2222222222222222222222222222222222222222' as Address;
+  const C = '0x3333333333333333333333333333333333333333' as Address;
+  const D = '0x4444444444444444444444444444444444444444' as Address;
+  const STATE = { owners: [A, B, C], threshold: 2 };
+
+  const ownerAbi = parseAbi([
+    'function addOwnerWithThreshold(address owner, uint256 _threshold)',
+    'function removeOwner(address prevOwner, address owner, uint256 _threshold)',
+    'function swapOwner(address prevOwner, address oldOwner, address newOwner)',
+    'function changeThreshold(uint256 _threshold)',
+  ]);
+
+  const multiSend = (calls: Hex[]): Hex =>
+    encodeFunctionData({
+      abi: parseAbi(['function multiSend(bytes transactions)']),
+      functionName: 'multiSend',
+      args: [
+        concat(
+          calls.map((call) =>
+            concat([toHex(0, { size: 1 }), SAFE, pad(toHex(0n)), pad(toHex(BigInt((call.length - 2) / 2))), call])
+          )
+        ),
+      ],
+    });
+
+  it('should return null when no owner changes target the Safe', () => {
+    const data = encodeFunctionData({ abi: ownerAbi, functionName: 'changeThreshold', args: [1n] });
+
+    expect(previewOwnerChanges(SAFE, '0x', STATE, { safeAddress: SAFE })).toBeNull();
+    expect(previewOwnerChanges(D, data, STATE, { safeAddress: SAFE })).toBeNull();
+  });
+
+  it('should replay nested changes in order and show before/after', () => {
+    const data = multiSend([
+      encodeFunctionData({ abi: ownerAbi, functionName: 'addOwnerWithThreshold', args: [D, 2n] }),
+      encodeFunctionData({ abi: ownerAbi, functionName: 'removeOwner', args: [A, B, 3n] }),
+    ]);
+
+    const preview = previewOwnerChanges(MULTISEND_CALL_ONLY[0]!, data, STATE, { safeAddress: SAFE })!;
+
+    expect(preview.steps.map((step) => step.depth)).toEqual([1, 1]);
+    expect(preview.ownersBefore).toEqual([A, B, C]);
+    // addOwner inserts at the head of the linked list
+    expect(preview.steps[0]!.ownersAfter).toEqual([D, A, B, C]);
+    expect(preview.ownersAfter).toEqual([D, A, C]);
+    expect(preview.thresholdAfter).toBe(3);
+    expect(preview.added).toEqual([D]);
+    expect(preview.removed).toEqual([B]);
+    expect(preview.reverts).toBe(false);
+    expect(preview.findings.map((f) => f.kind)).toEqual(['threshold-equals-owners']);
+    expect(preview.warningLevel).toBe('medium');
+  });
+
+  it('should flag a threshold of 1', () => {
+    const data = encodeFunctionData({ abi: ownerAbi, functionName: 'changeThreshold', args: [1n] });
+
+    const preview = previewOwnerChanges(SAFE, data, STATE, { safeAddress: SAFE })!;
+
+    expect(preview.thresholdBefore).toBe(2);
+    expect(preview.thresholdAfter).toBe(1);
+    expect(preview.findings[0]).toMatchObject({ kind: 'threshold-one', warningLevel: 'high' });
+  });
+
+  it('should flag removing the reviewing signer', () => {
+    const data = encodeFunctionData({ abi: ownerAbi, functionName: 'swapOwner', args: [SENTINEL, A, D] });
+
+    const preview = previewOwnerChanges(SAFE, data, STATE, { safeAddress: SAFE, signer: A })!;
+
+    expect(preview.ownersAfter).toEqual([D, B, C]);
+    expect(preview.findings).toEqual([
+      expect.objectContaining({ kind: 'removes-signer', warningLevel: 'high', step: 0 }),
+    ]);
+  });
+
+  it('should flag a threshold above the owner count as a revert', () => {
+    const data = encodeFunctionData({ abi: ownerAbi, functionName: 'removeOwner', args: [B, C, 3n] });
+
+    const preview = previewOwnerChanges(SAFE, data, STATE, { safeAddress: SAFE })!;
+
+    expect(preview.reverts).toBe(true);
+    expect(preview.ownersAfter).toEqual(preview.ownersBefore);
+    expect(preview.thresholdAfter).toBe(2);
+    expect(preview.findings[0]!.kind).toBe('threshold-exceeds-owners');
+    expect(preview.steps[0]!.revertReason).toContain('GS201');
+  });
+
+  it('should flag a prevOwner that does not point at the removed owner', () => {
+    const data = multiSend([
+      encodeFunctionData({ abi: ownerAbi, functionName: 'changeThreshold', args: [1n] }),
+      // C's predecessor is B, not A
+      encodeFunctionData({ abi: ownerAbi, functionName: 'removeOwner', args: [A, C, 1n] }),
+    ]);
+
+    const preview = previewOwnerChanges(MULTISEND_CALL_ONLY[0]!, data, STATE, { safeAddress: SAFE })!;
+
+    expect(preview.reverts).toBe(true);
+    expect(preview.steps).toHaveLength(2);
+    expect(preview.findings).toEqual([expect.objectContaining({ kind: 'broken-prev-owner', step: 1 })]);
+    expect(preview.steps[1]!.revertReason).toContain(B);
+  });
+
+  it('should attach the preview in analyzeSecurity when the owner state is known', () => {
+    const data = encodeFunctionData({ abi: ownerAbi, functionName: 'changeThreshold', args: [3n] });
+    const txData: SafeTransactionData = {
+      to: SAFE,
+      value: '0',
+      data,
+      operation: 0,
+      safeTxGas: '0',
+      baseGas: '0',
+      gasPrice: '0',
+      gasToken: ZERO_ADDRESS,
+      refundReceiver: ZERO_ADDRESS,
+      nonce: '1',
+    };
+
+    expect(analyzeSecurity(txData).ownerModification.preview).toBeUndefined();
+    const result = analyzeSecurity(txData, { safeAddress: SAFE, ownerState: STATE });
+    expect(result.ownerModification.preview?.thresholdAfter).toBe(3);
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * Tests for confirmation signature verification
+ */
+
+import { describe, it, expect } from 'vitest';
+import { concat, pad, toHex, type Hex } from 'viem';
+import { privateKeyToAccount, sign, signatureToHex } from 'viem/accounts';
+import { getSafeSignatureType, verifyConfirmations } from './signatures.js';
+import type { SafeApiConfirmation } from '../types.js';
+
+const SAFE_TX_HASH = '0x57f5c1a8390932d29f5aa6e321a2e689c483a728fa5bccfc4ac7becb91239801' as Hex;
+const OTHER_HASH = '0x1111111111111111111111111111111111111111111111111111111111111111' as Hex;
+
+const KEY_A = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80' as Hex;
+const KEY_B = '0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d' as Hex;
+const ownerA = privateKeyToAccount(KEY_A);
+const ownerB = privateKeyToAccount(KEY_B);
+
+function confirmation(owner: string, signature: string): SafeApiConfirmation {
+  return {
+    owner: owner as `0x${string}`,
+    submissionDate: '2026-01-01T00:00:00Z',
+    transactionHash: null,
+    signature,
+    signatureType: 'EOA',
+  };
+}
+
+async function ecdsa(hash: Hex, privateKey: Hex): Promise<Hex> {
+  return signatureToHex(await sign({ hash, privateKey }));
+}
+
+describe('getSafeSignatureType', () => {
+  it('should decode every Safe v value', () => {
+    expect(getSafeSignatureType(0)).toBe('contract');
+    expect(getSafeSignatureType(1)).toBe('approved-hash');
+    expect(getSafeSignatureType(27)).toBe('ecdsa');
+    expect(getSafeSignatureType(28)).toBe('ecdsa');
+    expect(getSafeSignatureType(31)).toBe('eth_sign');
+    expect(getSafeSignatureType(32)).toBe('eth_sign');
+    expect(getSafeSignatureType(5)).toBe('unknown');
+  });
+});
+
+describe('verifyConfirmations', () => {
+  it('should verify an ECDSA signature from a current owner', async () => {
+    const sig = await ecdsa(SAFE_TX_HASH, KEY_A);
+    const result = await verifyConfirmations(SAFE_TX_HASH, [confirmation(ownerA.address, sig)], [ownerA.address]);
+
+    expect(result.checks[0]!.status).toBe('valid');
+    expect(result.checks[0]!.signatureType).toBe('ecdsa');
+    expect(result.checks[0]!.isOwner).toBe(true);
+    expect(result.validCount).toBe(1);
+    expect(result.warningLevel).toBeUndefined();
+  });
+
+  it('should verify an eth_sign signature (v + 4)', async () => {
+    const raw = await ownerA.signMessage({ message: { raw: SAFE_TX_HASH } });
+    const v = parseInt(raw.slice(-2), 16);
+    const sig = concat([raw.slice(0, -2) as Hex, toHex(v + 4, { size: 1 })]);
+
+    const result = await verifyConfirmations(SAFE_TX_HASH, [confirmation(ownerA.address, sig)], [ownerA.address]);
+
+    expect(result.checks[0]!.signatureType).toBe('eth_sign');
+    expect(result.checks[0]!.status).toBe('valid');
+  });
+
+  it('should flag a signature that recovers to someone other than the claimed owner', async () => {
+    const sig = await ecdsa(SAFE_TX_HASH, KEY_B);
+    const result = await verifyConfirmations(SAFE_TX_HASH, [confirmation(ownerA.address, sig)], [ownerA.address]);
+
+    expect(result.checks[0]!.status).toBe('wrong-signer');
+    expect(result.checks[0]!.signer).toBe(ownerB.address);
+    expect(result.warningLevel).toBe('critical');
+  });
+
+  it('should flag a signature over a different hash', async () => {
+    const sig = await ecdsa(OTHER_HASH, KEY_A);
+    const result = await verifyConfirmations(SAFE_TX_HASH, [confirmation(ownerA.address, sig)]);
+
+    expect(result.checks[0]!.status).toBe('wrong-signer');
+    expect(result.warningLevel).toBe('critical');
+  });
+
+  it('should flag a valid signer who is not a current owner', async () => {
+    const sig = await ecdsa(SAFE_TX_HASH, KEY_B);
+    const result = await verifyConfirmations(SAFE_TX_HASH, [confirmation(ownerB.address, sig)], [ownerA.address]);
+
+    expect(result.checks[0]!.status).toBe('not-owner');
+    expect(result.checks[0]!.isOwner).toBe(false);
+    expect(result.warningLevel).toBe('high');
+  });
+
+  it('should skip the ownership check when owners are not provided', async () => {
+    const sig = await ecdsa(SAFE_TX_HASH, KEY_B);
+    const result = await verifyConfirmations(SAFE_TX_HASH, [confirmation(ownerB.address, sig)]);
+
+    expect(result.checks[0]!.status).toBe('valid');
+    expect(result.checks[0]!.isOwner).toBeNull();
+  });
+
+  it('should report contract signatures as unverifiable offline', async () => {
+    // r = signer, s = offset of the dynamic part, v = 0, then the dynamic part
+    const sig = concat([
+      pad(ownerA.address),
+      pad(toHex(65)),
+      '0x00',
+      pad(toHex(2)),
+      '0xabcd',
+    ]);
+    const result = await verifyConfirmations(SAFE_TX_HASH, [confirmation(ownerA.address, sig)], [ownerA.address]);
+
+    expect(result.checks[0]!.signatureType).toBe('contract');
+    expect(result.checks[0]!.status).toBe('unverifiable');
+    expect(result.warningLevel).toBe('low');
+  });
+
+  it('should report approved hashes as unverifiable, but still check the named owner', async () => {
+    const sig = concat([pad(ownerA.address), pad('0x00'), '0x01']);
+    const ok = await verifyConfirmations(SAFE_TX_HASH, [confirmation(ownerA.address, sig)], [ownerA.address]);
+    const mismatched = await verifyConfirmations(SAFE_TX_HASH, [confirmation(ownerB.address, sig)]);
+
+    expect(ok.checks[0]!.signatureType).toBe('approved-hash');
+    expect(ok.checks[0]!.status).toBe('unverifiable');
+    expect(mismatched.checks[0]!.status).toBe('wrong-signer');
+  });
+
+  it('should treat malformed signatures as invalid', async () => {
+    const result = await verifyConfirmations(SAFE_TX_HASH, [
+      confirmation(ownerA.address, '0x1234'),
+      confirmation(ownerA.address, concat([pad('0x01'), pad('0x02'), '0x05'])),
+    ]);
+
+    expect(result.checks[0]!.status).toBe('invalid');
+    expect(result.checks[1]!.status).toBe('invalid');
+    expect(result.checks[1]!.signatureType).toBe('unknown');
+    expect(result.warningLevel).toBe('critical');
+  });
+});
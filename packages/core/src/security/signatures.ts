@@ -0,0 +1,227 @@
+/**
+ * Confirmation Signature Verification
+ *
+ * Recovers the signer of each owner confirmation reported by the Safe
+ * Transaction Service and checks it against the owner the service claims
+ * signed, and against the Safe's current owner list.
+ *
+ * The service's `owner` field is otherwise taken on trust: a compromised or
+ * buggy service could list confirmations that were never made, or attach a
+ * signature over a different hash than the one being displayed.
+ *
+ * @see https://docs.safe.global/advanced/smart-account-signatures
+ */
+
+import { concat, getAddress, hashMessage, isHex, recoverAddress, slice, toHex, type Address, type Hex } from 'viem';
+import type { SafeApiConfirmation } from '../types.js';
+import type { ConfirmationCheck, ConfirmationsCheckResult, SafeSignatureType } from './types.js';
+
+/**
+ * Decode the Safe signature type from the `v` byte of a signature slot.
+ *
+ * | v       | Type                                    |
+ * |---------|-----------------------------------------|
+ * | 0       | Contract signature (EIP-1271), r = signer |
+ * | 1       | Pre-approved hash, r = owner            |
+ * | 27, 28  | ECDSA over the safeTxHash               |
+ * | 31, 32  | eth_sign over the safeTxHash (v + 4)    |
+ *
+ * @param v - The `v` byte
+ * @returns The signature type
+ */
+export function getSafeSignatureType(v: number): SafeSignatureType {
+  if (v === 0) return 'contract';
+  if (v === 1) return 'approved-hash';
+  if (v === 27 || v === 28) return 'ecdsa';
+  if (v > 30) return 'eth_sign';
+  return 'unknown';
+}
+
+/**
+ * Address encoded in the `r` word of a contract signature or approved hash.
+ */
+function addressFromR(r: Hex): Address | null {
+  // The address occupies the low 20 bytes; anything in the high 12 bytes means
+  // this is not a well-formed address word.
+  if (BigInt(slice(r, 0, 12)) !== 0n) return null;
+  return getAddress(slice(r, 12, 32));
+}
+
+function sameAddress(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+/**
+ * Verify a single confirmation against the safeTxHash.
+ */
+async function verifyConfirmation(
+  safeTxHash: Hex,
+  confirmation: SafeApiConfirmation,
+  owners?: readonly Address[]
+): Promise<ConfirmationCheck> {
+  const owner = confirmation.owner;
+  const signature = confirmation.signature;
+
+  const invalid = (message: string): ConfirmationCheck => ({
+    owner,
+    signatureType: 'unknown',
+    signer: null,
+    status: 'invalid',
+    isOwner: null,
+    message,
+  });
+
+  // Only the first 65 bytes matter here. Contract signatures append a
+  // dynamic part after every static slot, which needs the on-chain contract.
+  if (!signature || !isHex(signature) || (signature.length - 2) / 2 < 65) {
+    return invalid('Signature is missing or shorter than 65 bytes');
+  }
+
+  const r = slice(signature, 0, 32);
+  const s = slice(signature, 32, 64);
+  const v = Number(BigInt(slice(signature, 64, 65)));
+  const signatureType = getSafeSignatureType(v);
+
+  let signer: Address | null = null;
+
+  try {
+    switch (signatureType) {
+      case 'ecdsa':
+        signer = await recoverAddress({ hash: safeTxHash, signature: concat([r, s, toHex(v, { size: 1 })]) });
+        break;
+      case 'eth_sign':
+        // eth_sign prefixes the hash with "\x19Ethereum Signed Message:\n32";
+        // the Safe marks this by adding 4 to v.
+        signer = await recoverAddress({
+          hash: hashMessage({ raw: safeTxHash }),
+          signature: concat([r, s, toHex(v - 4, { size: 1 })]),
+        });
+        break;
+      case 'contract':
+      case 'approved-hash':
+        signer = addressFromR(r);
+        break;
+      case 'unknown':
+        return { ...invalid(`Unknown signature type (v = ${v})`), signatureType };
+    }
+  } catch (error) {
+    return {
+      ...invalid(`Signature recovery failed: ${error instanceof Error ? error.message : String(error)}`),
+      signatureType,
+    };
+  }
+
+  if (!signer) {
+    return { ...invalid('Signer address in r is malformed'), signatureType };
+  }
+
+  const isOwner = owners ? owners.some((o) => sameAddress(o, signer!)) : null;
+
+  if (!sameAddress(signer, owner)) {
+    return {
+      owner,
+      signatureType,
+      signer,
+      status: 'wrong-signer',
+      isOwner,
+      message:
+        signatureType === 'ecdsa' || signatureType === 'eth_sign'
+          ? `Signature recovers to ${signer}, not the claimed owner ${owner}`
+          : `Signature names ${signer}, not the claimed owner ${owner}`,
+    };
+  }
+
+  if (isOwner === false) {
+    return {
+      owner,
+      signatureType,
+      signer,
+      status: 'not-owner',
+      isOwner,
+      message: `${signer} signed, but is not a current owner of this Safe`,
+    };
+  }
+
+  if (signatureType === 'contract') {
+    return {
+      owner,
+      signatureType,
+      signer,
+      status: 'unverifiable',
+      isOwner,
+      message: 'Contract signature (EIP-1271): validity depends on the signing contract and cannot be checked offline',
+    };
+  }
+
+  if (signatureType === 'approved-hash') {
+    return {
+      owner,
+      signatureType,
+      signer,
+      status: 'unverifiable',
+      isOwner,
+      message: 'Pre-approved hash: requires an on-chain approveHash by this owner, which cannot be checked offline',
+    };
+  }
+
+  return {
+    owner,
+    signatureType,
+    signer,
+    status: 'valid',
+    isOwner,
+    message: signatureType === 'eth_sign' ? 'Valid eth_sign signature' : 'Valid ECDSA signature',
+  };
+}
+
+/**
+ * Verify owner confirmation signatures against a safeTxHash.
+ *
+ * Pass the locally computed safeTxHash, not the one the API reports, so a
+ * signature only verifies if it was made over the transaction shown.
+ *
+ * Severity:
+ * - critical: a signature that does not recover to its claimed owner, or is malformed
+ * - high: a valid signature from an address that is not a current owner
+ * - low: contract signatures / approved hashes that cannot be checked offline
+ *
+ * @param safeTxHash - The safeTxHash the confirmations should sign
+ * @param confirmations - Confirmations from the Safe API
+ * @param owners - Current Safe owners (omit to skip the ownership check)
+ * @returns Per-signer results with an overall warning level
+ *
+ * @example
+ * const result = await verifyConfirmations(hashes.safeTxHash, tx.confirmations, safeInfo.owners);
+ * for (const check of result.checks) {
+ *   console.log(check.owner, check.status);
+ * }
+ */
+export async function verifyConfirmations(
+  safeTxHash: Hex,
+  confirmations: readonly SafeApiConfirmation[],
+  owners?: readonly Address[]
+): Promise<ConfirmationsCheckResult> {
+  const checks = await Promise.all(confirmations.map((c) => verifyConfirmation(safeTxHash, c, owners)));
+
+  const warnings: string[] = [];
+  for (const check of checks) {
+    if (check.status === 'wrong-signer' || check.status === 'invalid' || check.status === 'not-owner') {
+      warnings.push(`${check.owner}: ${check.message}`);
+    }
+  }
+
+  const warningLevel = checks.some((c) => c.status === 'wrong-signer' || c.status === 'invalid')
+    ? 'critical'
+    : checks.some((c) => c.status === 'not-owner')
+      ? 'high'
+      : checks.some((c) => c.status === 'unverifiable')
+        ? 'low'
+        : undefined;
+
+  return {
+    checks,
+    validCount: checks.filter((c) => c.status === 'valid').length,
+    warnings,
+    warningLevel,
+  };
+}
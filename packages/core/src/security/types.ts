@@ -2,13 +2,54 @@
  * Security check types and result interfaces
  */
 
-import type { Address } from 'viem';
+import type { Address, Hex } from 'viem';
+import type { SafeDeployment } from './deployments.js';
+import type { MultiSendParseError } from './multisend-decoder.js';
 
 /**
  * Security warning severity levels
  */
 export type WarningLevel = 'critical' | 'high' | 'medium' | 'low' | 'info';
 
+/**
+ * How far a delegate call target is trusted
+ *
+ * - trusted: MultiSendCallOnly, SafeMigration or SignMessageLib
+ * - multisend: a canonical MultiSend, whose batch may itself delegatecall anything
+ * - untrusted: any other contract
+ */
+export type DelegateCallTrustTier = 'trusted' | 'multisend' | 'untrusted';
+
+/**
+ * A delegatecall made from inside a MultiSend batch
+ */
+export interface NestedDelegateCall {
+  /**
+   * Delegate call target
+   */
+  targetAddress: Address;
+
+  /**
+   * Position in the batch: [2] for call 2, [2, 0] for call 0 of the batch in call 2
+   */
+  batchPath: number[];
+
+  /**
+   * Trust tier of the target
+   */
+  trustTier: DelegateCallTrustTier;
+
+  /**
+   * Warning message (absent for a trusted target)
+   */
+  warning?: string;
+
+  /**
+   * Warning severity level
+   */
+  warningLevel?: WarningLevel;
+}
+
 /**
  * Result of delegate call security check
  */
@@ -28,13 +69,24 @@ export interface DelegateCallCheckResult {
    */
   targetAddress?: Address;
 
+  /**
+   * Trust tier of the delegate call target
+   */
+  trustTier?: DelegateCallTrustTier;
+
+  /**
+   * Delegatecalls inside the MultiSend batch the Safe delegatecalls, nested
+   * batches included
+   */
+  nestedDelegateCalls: NestedDelegateCall[];
+
   /**
    * Warning message if applicable
    */
   warning?: string;
 
   /**
-   * Warning severity level
+   * Warning severity level, the highest of the outer and nested delegatecalls
    */
   warningLevel?: WarningLevel;
 }
@@ -109,6 +161,130 @@ export interface OwnerModificationDetection {
   depth: number;
 }
 
+/**
+ * Current owners and threshold, as returned by the safe-info endpoint
+ */
+export interface SafeOwnerState {
+  /**
+   * Owners in the Safe's linked-list order (the order `getOwners()` returns)
+   */
+  owners: readonly Address[];
+
+  /**
+   * Confirmations required
+   */
+  threshold: number;
+}
+
+/**
+ * Kind of problem found while replaying owner changes
+ */
+export type OwnerChangeFindingKind =
+  /** Any single key can execute transactions */
+  | 'threshold-one'
+  /** Losing any single key locks the Safe */
+  | 'threshold-equals-owners'
+  /** The person signing is removed (or swapped out) */
+  | 'removes-signer'
+  /** Threshold above the owner count; the Safe reverts with GS201 */
+  | 'threshold-exceeds-owners'
+  /** prevOwner does not point at the owner being removed or swapped; the Safe reverts with GS205 */
+  | 'broken-prev-owner'
+  /** Any other change the Safe would reject (zero threshold, duplicate or unknown owner) */
+  | 'invalid-change';
+
+/**
+ * Problem found while replaying owner changes
+ */
+export interface OwnerChangeFinding {
+  kind: OwnerChangeFindingKind;
+
+  /**
+   * Human-readable description
+   */
+  message: string;
+
+  /**
+   * Warning severity level
+   */
+  warningLevel: WarningLevel;
+
+  /**
+   * Index into `steps` of the change that caused it (absent for findings about the final state)
+   */
+  step?: number;
+}
+
+/**
+ * One owner change, replayed in execution order
+ */
+export interface OwnerChangeStep {
+  functionName: string;
+
+  /**
+   * Decoded arguments, by parameter name
+   */
+  args: Record<string, Address | number>;
+
+  /**
+   * Call depth (0 for direct, >0 for nested)
+   */
+  depth: number;
+
+  /**
+   * Owners after this change
+   */
+  ownersAfter: Address[];
+
+  /**
+   * Threshold after this change
+   */
+  thresholdAfter: number;
+
+  /**
+   * Why the Safe would revert on this change
+   */
+  revertReason?: string;
+}
+
+/**
+ * Owner set and threshold before and after the transaction
+ */
+export interface OwnerStatePreview {
+  ownersBefore: Address[];
+  thresholdBefore: number;
+
+  /**
+   * Resulting owners. Equal to `ownersBefore` when the transaction reverts.
+   */
+  ownersAfter: Address[];
+
+  /**
+   * Resulting threshold. Equal to `thresholdBefore` when the transaction reverts.
+   */
+  thresholdAfter: number;
+
+  added: Address[];
+  removed: Address[];
+
+  /**
+   * Replayed changes, stopping at the first one the Safe would reject
+   */
+  steps: OwnerChangeStep[];
+
+  /**
+   * Whether some change would make the Safe revert
+   */
+  reverts: boolean;
+
+  findings: OwnerChangeFinding[];
+
+  /**
+   * Highest severity among the findings
+   */
+  warningLevel?: WarningLevel;
+}
+
 /**
  * Result of owner/threshold modification check
  */
@@ -132,6 +308,12 @@ export interface OwnerModificationCheckResult {
    * Warning severity level
    */
   warningLevel: WarningLevel;
+
+  /**
+   * Before/after owner set and threshold. Present when the current owner
+   * state was supplied and the transaction changes it.
+   */
+  preview?: OwnerStatePreview;
 }
 
 /**
@@ -200,41 +382,780 @@ export interface ModuleGuardCheckResult {
 }
 
 /**
- * Combined security analysis result
+ * Fallback handler change, singleton change or SafeMigration call detected in transaction
  */
-export interface SecurityAnalysisResult {
+export interface SafeUpgradeDetection {
   /**
-   * Delegate call check result
+   * What changes: the fallback handler, the singleton, or both through SafeMigration
    */
-  delegateCall: DelegateCallCheckResult;
+  type: 'fallbackHandler' | 'singleton' | 'migration';
 
   /**
-   * Gas token attack check result
+   * Function name (setFallbackHandler, changeMasterCopy, migrateSingleton, ...)
    */
-  gasToken: GasTokenCheckResult;
+  functionName: string;
 
   /**
-   * Owner/threshold modification check result
+   * New fallback handler or singleton; the SafeMigration contract for migrations
    */
-  ownerModification: OwnerModificationCheckResult;
+  targetAddress?: Address;
 
   /**
-   * Module/guard operation check result
+   * Canonical deployment at `targetAddress`, if it is one on this network
    */
-  moduleGuard: ModuleGuardCheckResult;
+  deployment?: SafeDeployment;
 
   /**
-   * Address book check (silent when no book loaded).
+   * For migrations: the singleton and fallback handler installed
    */
-  addressBook: import('./address-book-check.js').AddressBookCheckResult;
+  migratesTo?: {
+    singleton?: SafeDeployment;
+    fallbackHandler?: SafeDeployment;
+  };
 
   /**
-   * Overall risk assessment
+   * Whether the target is a canonical Safe deployment for this network
    */
-  overallRisk: 'critical' | 'high' | 'medium' | 'low' | 'none';
+  isCanonical: boolean;
 
   /**
-   * Whether the transaction should be flagged for careful review
+   * Whether this is a nested call (within MultiSend)
    */
-  requiresCarefulReview: boolean;
+  isNested: boolean;
+
+  /**
+   * Call depth (0 for direct, >0 for nested)
+   */
+  depth: number;
+}
+
+/**
+ * Result of fallback handler / singleton upgrade check
+ */
+export interface SafeUpgradeCheckResult {
+  /**
+   * Whether the transaction changes the fallback handler
+   */
+  hasFallbackHandlerChange: boolean;
+
+  /**
+   * Whether the transaction changes the singleton (masterCopy)
+   */
+  hasSingletonChange: boolean;
+
+  /**
+   * List of detected operations
+   */
+  detections: SafeUpgradeDetection[];
+
+  /**
+   * Warning messages
+   */
+  warnings?: string[];
+
+  /**
+   * Warning severity level
+   */
+  warningLevel: WarningLevel;
+}
+
+/**
+ * Result of the MultiSend structure check
+ */
+export interface MultiSendStructureCheckResult {
+  /**
+   * Whether the transaction data is a multiSend call
+   */
+  isMultiSend: boolean;
+
+  /**
+   * Calls in the batch, nested batches included
+   */
+  callCount: number;
+
+  /**
+   * Deepest nesting level reached (1 for a flat batch, 0 when not a MultiSend)
+   */
+  maxDepth: number;
+
+  /**
+   * Structural errors in the payload (empty when well-formed)
+   */
+  errors: MultiSendParseError[];
+
+  /**
+   * Warning messages
+   */
+  warnings?: string[];
+
+  /**
+   * Warning severity level
+   */
+  warningLevel?: WarningLevel;
+}
+
+/**
+ * Token approval function detected in a transaction
+ *
+ * - erc20-approve: approve(address,uint256) (ERC-721 shares the selector, with a token id)
+ * - erc20-increase-allowance: increaseAllowance(address,uint256)
+ * - approval-for-all: ERC-721 / ERC-1155 setApprovalForAll(address,bool)
+ * - permit2-approve: Permit2 approve(token, spender, amount, expiration)
+ * - permit2-permit: Permit2 permit with an owner signature, single or batch
+ */
+export type TokenApprovalKind =
+  | 'erc20-approve'
+  | 'erc20-increase-allowance'
+  | 'approval-for-all'
+  | 'permit2-approve'
+  | 'permit2-permit';
+
+/**
+ * One allowance a transaction grants (or revokes)
+ */
+export interface TokenApproval {
+  kind: TokenApprovalKind;
+
+  /**
+   * Function name as called
+   */
+  functionName: string;
+
+  /**
+   * Token the allowance is for: the call target, or the token named in a Permit2 call
+   */
+  token: Address;
+
+  /**
+   * Label of the token, if known
+   */
+  tokenLabel?: string;
+
+  /**
+   * Address allowed to move the tokens
+   */
+  spender: Address;
+
+  /**
+   * Spender against the address book: 'verified' also covers built-in contracts and the Safe itself
+   */
+  spenderStatus: 'verified' | 'unverified' | 'inactive';
+
+  /**
+   * Label of the spender, if known
+   */
+  spenderLabel?: string;
+
+  /**
+   * Raw allowance (absent for setApprovalForAll)
+   */
+  amount?: bigint;
+
+  /**
+   * Allowance scaled by the token's decimals, when they are known
+   */
+  formattedAmount?: string;
+
+  /**
+   * Whether the allowance is effectively unlimited (always true for setApprovalForAll(true); on a token
+   * not known as an ERC-20, only above UNLIMITED_ALLOWANCE_THRESHOLD, since the amount may be an ERC-721 token ID)
+   */
+  isUnlimited: boolean;
+
+  /**
+   * Whether the call removes an allowance (amount 0 on a known ERC-20 or through Permit2, or setApprovalForAll(false))
+   */
+  isRevocation: boolean;
+
+  /**
+   * Permit2 expiration, in unix seconds
+   */
+  expiration?: number;
+
+  /**
+   * Position in the MultiSend call tree (absent for a direct call)
+   */
+  batchPath?: number[];
+
+  /**
+   * Warning message
+   */
+  warning?: string;
+
+  /**
+   * Warning severity level
+   */
+  warningLevel?: WarningLevel;
+}
+
+/**
+ * Result of the token approval check
+ */
+export interface TokenApprovalCheckResult {
+  /**
+   * Approvals found, direct and in MultiSend batches
+   */
+  approvals: TokenApproval[];
+
+  /**
+   * Warning messages
+   */
+  warnings?: string[];
+
+  /**
+   * Warning severity level (highest of the approvals)
+   */
+  warningLevel?: WarningLevel;
+}
+
+/**
+ * Large-transfer thresholds for one network, in whole units (e.g. "10" for 10 ETH)
+ */
+export interface TransferThresholds {
+  /**
+   * Native value sent out of the Safe
+   */
+  native?: string;
+
+  /**
+   * Token amounts, keyed by the token's label in CONTRACTS_BY_NETWORK (e.g. "USDS")
+   */
+  tokens?: Record<string, string>;
+}
+
+/**
+ * What one recipient receives of one asset
+ */
+export interface RecipientOutflow {
+  recipient: Address;
+
+  /**
+   * Amount in the asset's smallest unit, summed over the transaction
+   */
+  amount: bigint;
+
+  /**
+   * Amount in whole units with the asset's symbol, e.g. "1,250,000 USDS"
+   */
+  formattedAmount: string;
+}
+
+/**
+ * Everything a transaction sends out of the Safe in one asset
+ */
+export interface AssetOutflow {
+  /**
+   * 'native', or the token address
+   */
+  asset: 'native' | Address;
+
+  /**
+   * Native currency symbol or token label
+   */
+  symbol: string;
+
+  decimals: number;
+
+  /**
+   * Total sent, in the smallest unit
+   */
+  total: bigint;
+
+  /**
+   * Total in whole units with the symbol
+   */
+  formattedTotal: string;
+
+  /**
+   * Threshold for this asset on this network, in the smallest unit
+   */
+  threshold?: bigint;
+
+  /**
+   * Whether the total is above the threshold
+   */
+  exceedsThreshold: boolean;
+
+  /**
+   * Transfers summed into the total
+   */
+  transferCount: number;
+
+  /**
+   * Totals per recipient, largest first
+   */
+  recipients: RecipientOutflow[];
+}
+
+/**
+ * Result of the native value and token transfer check
+ */
+export interface ValueTransferCheckResult {
+  /**
+   * Outflow per asset: native value and transfers of known tokens
+   */
+  outflows: AssetOutflow[];
+
+  /**
+   * Warning messages
+   */
+  warnings?: string[];
+
+  /**
+   * Warning severity level ('high' when any asset is above its threshold)
+   */
+  warningLevel?: WarningLevel;
+}
+
+/**
+ * The queried Safe's address as seen by another network's Safe Transaction Service
+ */
+export interface CrossChainSafeState {
+  network: string;
+
+  chainId: number;
+
+  /**
+   * Whether the Safe Transaction Service knows a Safe at this address
+   */
+  deployed: boolean;
+
+  /**
+   * Current nonce of the Safe there (when deployed)
+   */
+  nonce?: number;
+
+  /**
+   * Owners of the Safe there (when deployed)
+   */
+  owners?: Address[];
+
+  /**
+   * Why the network could not be checked
+   */
+  error?: string;
+}
+
+/**
+ * Another network where a signature for this transaction could be replayed
+ */
+export interface CrossChainReplayExposure {
+  network: string;
+
+  chainId: number;
+
+  /**
+   * The Safe's current nonce there, at or below the transaction's
+   */
+  safeNonce: number;
+
+  /**
+   * Owners of this Safe who also own the Safe there; their signatures
+   * replay. Undefined when this Safe's owners are not known.
+   */
+  sharedOwners?: Address[];
+}
+
+/**
+ * Result of the cross-chain replay check
+ */
+export interface CrossChainReplayCheckResult {
+  /**
+   * The Safe's EIP-712 domain leaves out the chainId (v1.2.0 and older), so
+   * its signatures are valid on every chain
+   */
+  replayable: boolean;
+
+  /**
+   * Whether other networks were checked (false when no states were given)
+   */
+  checked: boolean;
+
+  /**
+   * Networks where the same Safe exists and the transaction's nonce is still unused
+   */
+  exposures: CrossChainReplayExposure[];
+
+  /**
+   * Networks that could not be checked
+   */
+  unchecked: string[];
+
+  /**
+   * Warning messages
+   */
+  warnings?: string[];
+
+  /**
+   * Warning severity level ('high' with exposures, 'medium' when unchecked, otherwise 'low')
+   */
+  warningLevel?: WarningLevel;
+}
+
+/**
+ * The Safe's nonce and queue around a transaction, from the Safe Transaction Service
+ */
+export interface SafeNonceState {
+  /**
+   * The Safe's current nonce: the next one to execute (SafeApiSafeInfo.nonce)
+   */
+  safeNonce: number;
+
+  /**
+   * Nonces with a queued proposal from the current nonce up to the
+   * transaction's. Omit when the queue was not fetched.
+   */
+  queuedNonces?: number[];
+
+  /**
+   * safeTxHashes of the other proposals for the transaction's nonce
+   */
+  competingProposals?: string[];
+
+  /**
+   * Whether the transaction has been executed
+   */
+  executed?: boolean;
+}
+
+/**
+ * What is wrong with a transaction's nonce
+ */
+export type NonceFindingKind = 'dead' | 'far-future' | 'gap' | 'competing';
+
+export interface NonceFinding {
+  kind: NonceFindingKind;
+
+  /**
+   * What the finding means for the signer
+   */
+  message: string;
+
+  warningLevel: WarningLevel;
+}
+
+/**
+ * Result of the nonce check
+ */
+export interface NonceCheckResult {
+  /**
+   * Whether the Safe's current nonce was known
+   */
+  checked: boolean;
+
+  nonce: number;
+
+  safeNonce?: number;
+
+  /**
+   * Nonces between the current one and the transaction's with no proposal
+   */
+  missingNonces: number[];
+
+  /**
+   * safeTxHashes of the other proposals for this nonce
+   */
+  competingProposals: string[];
+
+  findings: NonceFinding[];
+
+  /**
+   * Warning messages
+   */
+  warnings?: string[];
+
+  /**
+   * Warning severity level (highest of the findings)
+   */
+  warningLevel?: WarningLevel;
+}
+
+/**
+ * Who proposed a transaction, relative to the Safe
+ */
+export type ProposerStatus =
+  /** A current owner */
+  | 'owner'
+  /** A registered delegate of a current owner */
+  | 'delegate'
+  /** Proposed through a delegate that is not registered (or has expired) */
+  | 'unregistered-delegate'
+  /** A registered delegate whose delegator is no longer an owner */
+  | 'orphaned-delegate'
+  /** Neither an owner nor a delegate */
+  | 'unknown'
+  /** Owners not known, so not checked */
+  | 'unchecked'
+  /** The Safe API did not report a proposer */
+  | 'none';
+
+/**
+ * Result of the proposer check
+ */
+export interface ProposerCheckResult {
+  /**
+   * Address that submitted the proposal: the delegate when there is one,
+   * otherwise the proposer
+   */
+  actor: Address | null;
+
+  status: ProposerStatus;
+
+  /**
+   * Owner a delegate proposed for
+   */
+  delegator?: Address;
+
+  /**
+   * Address-book or built-in label of the actor
+   */
+  label?: string;
+
+  /**
+   * Whether the actor is an active address-book entry (undefined when no book is loaded)
+   */
+  inAddressBook?: boolean;
+
+  /**
+   * Human-readable verdict
+   */
+  message: string;
+
+  /**
+   * Warning messages
+   */
+  warnings?: string[];
+
+  /**
+   * Warning severity level
+   */
+  warningLevel?: WarningLevel;
+}
+
+/**
+ * Which policy rule a call breaks
+ */
+export type PolicyViolationKind =
+  | 'target-not-allowed'
+  | 'selector-not-allowed'
+  | 'delegatecall-not-allowed'
+  | 'value-exceeds-max'
+  | 'decoder-required';
+
+/**
+ * One broken policy rule
+ */
+export interface PolicyViolation {
+  kind: PolicyViolationKind;
+
+  /**
+   * Human-readable description
+   */
+  message: string;
+
+  /**
+   * Call target (absent for the whole-transaction value rule)
+   */
+  to?: Address;
+
+  /**
+   * Function selector of the call, if it has calldata
+   */
+  selector?: Hex;
+
+  /**
+   * Position in the MultiSend batch (absent for a direct call)
+   */
+  batchIndex?: number;
+}
+
+/**
+ * Result of checking a transaction against its Safe's policy
+ */
+export interface PolicyCheckResult {
+  /**
+   * Whether a policy exists for this Safe and network
+   */
+  hasPolicy: boolean;
+
+  /**
+   * The policy's label
+   */
+  label?: string;
+
+  /**
+   * Broken rules (empty when the transaction complies)
+   */
+  violations: PolicyViolation[];
+
+  /**
+   * Warning severity level ('high' when any rule is broken)
+   */
+  warningLevel?: WarningLevel;
+}
+
+/**
+ * Combined security analysis result
+ */
+export interface SecurityAnalysisResult {
+  /**
+   * Delegate call check result
+   */
+  delegateCall: DelegateCallCheckResult;
+
+  /**
+   * Gas token attack check result
+   */
+  gasToken: GasTokenCheckResult;
+
+  /**
+   * Owner/threshold modification check result
+   */
+  ownerModification: OwnerModificationCheckResult;
+
+  /**
+   * Module/guard operation check result
+   */
+  moduleGuard: ModuleGuardCheckResult;
+
+  /**
+   * Fallback handler / singleton upgrade check result
+   */
+  safeUpgrade: SafeUpgradeCheckResult;
+
+  /**
+   * MultiSend payload structure check result
+   */
+  multiSend: MultiSendStructureCheckResult;
+
+  /**
+   * Token approvals and their spenders
+   */
+  tokenApprovals: TokenApprovalCheckResult;
+
+  /**
+   * Native value and known-token transfers out of the Safe, per asset and recipient
+   */
+  valueTransfers: ValueTransferCheckResult;
+
+  /**
+   * Signature replay on other chains, for Safes whose domain has no chainId
+   */
+  crossChainReplay: CrossChainReplayCheckResult;
+
+  /**
+   * Transaction nonce against the Safe's current nonce and queue
+   */
+  nonce: NonceCheckResult;
+
+  /**
+   * Proposer against the Safe's owners, delegates and the address book
+   */
+  proposer: ProposerCheckResult;
+
+  /**
+   * Address book check (silent when no book loaded).
+   */
+  addressBook: import('./address-book-check.js').AddressBookCheckResult;
+
+  /**
+   * Lookalikes of known addresses among the addresses the transaction touches
+   */
+  lookalike: import('./lookalike-check.js').LookalikeCheckResult;
+
+  /**
+   * Per-Safe policy check (no violations when the Safe has no policy)
+   */
+  policy: PolicyCheckResult;
+
+  /**
+   * Overall risk assessment
+   */
+  overallRisk: 'critical' | 'high' | 'medium' | 'low' | 'none';
+
+  /**
+   * Whether the transaction should be flagged for careful review
+   */
+  requiresCarefulReview: boolean;
+}
+
+/**
+ * Safe signature type, from the `v` byte of each 65-byte signature slot
+ */
+export type SafeSignatureType = 'ecdsa' | 'eth_sign' | 'contract' | 'approved-hash' | 'unknown';
+
+/**
+ * Outcome of checking one confirmation signature
+ */
+export type ConfirmationStatus =
+  /** Recovers to the claimed owner, who is a current owner (or owners unknown) */
+  | 'valid'
+  /** Recovers (or points) to an address other than the claimed owner */
+  | 'wrong-signer'
+  /** Signer matches the claim but is not a current owner */
+  | 'not-owner'
+  /** Contract signature or pre-approved hash: needs on-chain state to verify */
+  | 'unverifiable'
+  /** Malformed signature, or recovery failed */
+  | 'invalid';
+
+/**
+ * Per-signer confirmation check
+ */
+export interface ConfirmationCheck {
+  /**
+   * Owner the Safe API says produced this confirmation
+   */
+  owner: Address;
+
+  /**
+   * Signature type decoded from the `v` byte
+   */
+  signatureType: SafeSignatureType;
+
+  /**
+   * Recovered signer (ECDSA / eth_sign), or the signer encoded in `r`
+   * (contract signature / approved hash). Null when it could not be determined.
+   */
+  signer: Address | null;
+
+  /**
+   * Check outcome
+   */
+  status: ConfirmationStatus;
+
+  /**
+   * Whether the signer is a current owner. Null when owners were not provided.
+   */
+  isOwner: boolean | null;
+
+  /**
+   * Human-readable explanation of the outcome
+   */
+  message: string;
+}
+
+/**
+ * Result of confirmation signature verification
+ */
+export interface ConfirmationsCheckResult {
+  /**
+   * One check per confirmation, in the order given
+   */
+  checks: ConfirmationCheck[];
+
+  /**
+   * Number of confirmations that verified offline
+   */
+  validCount: number;
+
+  /**
+   * Warning messages
+   */
+  warnings: string[];
+
+  /**
+   * Warning severity level
+   */
+  warningLevel?: WarningLevel;
 }
@@ -0,0 +1,187 @@
+/**
+ * Tests for fallback handler / singleton upgrade detection
+ */
+
+import { describe, it, expect } from 'vitest';
+import { concat, encodeFunctionData, pad, parseAbi, toHex, type Address, type Hex } from 'viem';
+import { checkSafeUpgradeOperations } from './upgrade-checks.js';
+import { findSafeDeployment } from './deployments.js';
+import { analyzeSecurity } from './analyzer.js';
+import { MULTISEND_CALL_ONLY, SAFE_MIGRATION, ZERO_ADDRESS } from './constants.js';
+
+const SAFE = '0xf65475e74C1Ed6d004d5240b06E3088724dFDA5d' as Address;
+const ATTACKER = '0x1234567890123456789012345678901234567890' as Address;
+const CFH_141 = '0xfd0732Dc9E303f09fCEf3a7388Ad10A83459Ec99' as Address;
+const CFH_130_ZKSYNC = '0x2f870a80647BbC554F3a0EBD093f11B4d2a7492A' as Address;
+const SAFE_141 = '0x41675C099F32341bf84BFc5382aF534df5C7461a' as Address;
+const SAFE_L2_150 = '0xEdd160fEBBD92E350D4D398fb636302fccd67C7e' as Address;
+const SAFE_MIGRATION_141_ZKSYNC = '0x817756C6c555A94BCEE39eB5a102AbC1678b09A7' as Address;
+const SAFE_L2_141_ZKSYNC = '0x610fcA2e0279Fa1F8C00c8c2F71dF522AD469380' as Address;
+const CFH_141_ZKSYNC = '0x9301E98DD367135f21bdF66f342A249c9D5F9069' as Address;
+
+const abi = parseAbi([
+  'function setFallbackHandler(address handler)',
+  'function changeMasterCopy(address _masterCopy)',
+  'function migrateSingleton()',
+  'function migrateL2WithFallbackHandler()',
+  'function multiSend(bytes transactions)',
+]);
+
+const setFallbackHandler = (handler: Address) =>
+  encodeFunctionData({ abi, functionName: 'setFallbackHandler', args: [handler] });
+
+function multiSend(calls: Array<{ operation: number; to: Address; data: Hex }>): Hex {
+  const packed = concat(
+    calls.map((call) =>
+      concat([
+        toHex(call.operation, { size: 1 }),
+        call.to,
+        pad(toHex(0n)),
+        pad(toHex(BigInt((call.data.length - 2) / 2))),
+        call.data,
+      ])
+    )
+  );
+  return encodeFunctionData({ abi, functionName: 'multiSend', args: [packed] });
+}
+
+describe('findSafeDeployment', () => {
+  it('should only accept zkSync deployments on zkSync', () => {
+    expect(findSafeDeployment(CFH_130_ZKSYNC, ['FallbackHandler'], 324)?.version).toBe('1.3.0');
+    expect(findSafeDeployment(CFH_130_ZKSYNC, ['FallbackHandler'], 1)).toBeUndefined();
+    expect(findSafeDeployment(CFH_141, ['FallbackHandler'], 324)).toBeUndefined();
+    expect(findSafeDeployment(CFH_141, ['FallbackHandler'])?.version).toBe('1.4.1');
+  });
+});
+
+describe('checkSafeUpgradeOperations', () => {
+  it('should ignore unrelated transactions', () => {
+    const result = checkSafeUpgradeOperations(SAFE, '0x', 0, 1);
+
+    expect(result.detections).toHaveLength(0);
+    expect(result.warningLevel).toBe('info');
+  });
+
+  it('should flag a non-canonical fallback handler as critical', () => {
+    const result = checkSafeUpgradeOperations(SAFE, setFallbackHandler(ATTACKER), 0, 1);
+
+    expect(result.hasFallbackHandlerChange).toBe(true);
+    expect(result.detections[0]).toMatchObject({
+      type: 'fallbackHandler',
+      targetAddress: ATTACKER,
+      isCanonical: false,
+    });
+    expect(result.warningLevel).toBe('critical');
+    expect(result.warnings?.[0]).toContain('CRITICAL');
+  });
+
+  it('should rate a canonical fallback handler high and name its version', () => {
+    const result = checkSafeUpgradeOperations(SAFE, setFallbackHandler(CFH_141), 0, 1);
+
+    expect(result.detections[0]!.isCanonical).toBe(true);
+    expect(result.detections[0]!.deployment?.version).toBe('1.4.1');
+    expect(result.warningLevel).toBe('high');
+  });
+
+  it('should treat a handler from another network as non-canonical', () => {
+    const result = checkSafeUpgradeOperations(SAFE, setFallbackHandler(CFH_130_ZKSYNC), 0, 1);
+
+    expect(result.warningLevel).toBe('critical');
+  });
+
+  it('should not call removing the fallback handler a takeover', () => {
+    const result = checkSafeUpgradeOperations(SAFE, setFallbackHandler(ZERO_ADDRESS), 0, 1);
+
+    expect(result.warningLevel).toBe('high');
+    expect(result.warnings?.[0]).toContain('removes the fallback handler');
+  });
+
+  it('should check changeMasterCopy against canonical singletons', () => {
+    const canonical = checkSafeUpgradeOperations(
+      SAFE,
+      encodeFunctionData({ abi, functionName: 'changeMasterCopy', args: [SAFE_141] }),
+      0,
+      1
+    );
+    const rogue = checkSafeUpgradeOperations(
+      SAFE,
+      encodeFunctionData({ abi, functionName: 'changeMasterCopy', args: [ATTACKER] }),
+      0,
+      1
+    );
+
+    expect(canonical.hasSingletonChange).toBe(true);
+    expect(canonical.warningLevel).toBe('high');
+    expect(rogue.warningLevel).toBe('critical');
+  });
+
+  it('should resolve what a canonical SafeMigration delegatecall installs', () => {
+    const data = encodeFunctionData({ abi, functionName: 'migrateL2WithFallbackHandler' });
+
+    const result = checkSafeUpgradeOperations(SAFE_MIGRATION[2]!, data, 1, 1);
+
+    expect(result.detections[0]).toMatchObject({ type: 'migration', isCanonical: true });
+    expect(result.detections[0]!.migratesTo?.singleton?.address).toBe(SAFE_L2_150);
+    expect(result.hasFallbackHandlerChange).toBe(true);
+    expect(result.hasSingletonChange).toBe(true);
+    expect(result.warningLevel).toBe('high');
+  });
+
+  it('should resolve a zkSync SafeMigration to the zkSync v1.4.1 deployments', () => {
+    const data = encodeFunctionData({ abi, functionName: 'migrateL2WithFallbackHandler' });
+
+    const result = checkSafeUpgradeOperations(SAFE_MIGRATION_141_ZKSYNC, data, 1, 324);
+
+    expect(result.detections[0]).toMatchObject({ type: 'migration', isCanonical: true });
+    expect(result.detections[0]!.migratesTo?.singleton?.address).toBe(SAFE_L2_141_ZKSYNC);
+    expect(result.detections[0]!.migratesTo?.fallbackHandler?.address).toBe(CFH_141_ZKSYNC);
+    expect(result.warningLevel).toBe('high');
+    // Setting them directly on zkSync is canonical too
+    expect(checkSafeUpgradeOperations(SAFE, setFallbackHandler(CFH_141_ZKSYNC), 0, 324).warningLevel).toBe('high');
+  });
+
+  it('should flag a migration delegatecall into an unknown contract as critical', () => {
+    const data = encodeFunctionData({ abi, functionName: 'migrateSingleton' });
+
+    expect(checkSafeUpgradeOperations(ATTACKER, data, 1, 1).warningLevel).toBe('critical');
+    // A plain call cannot migrate: SafeMigration only works through delegatecall
+    expect(checkSafeUpgradeOperations(ATTACKER, data, 0, 1).detections).toHaveLength(0);
+  });
+
+  it('should find changes nested in MultiSend', () => {
+    const data = multiSend([
+      { operation: 0, to: SAFE, data: setFallbackHandler(CFH_141) },
+      { operation: 1, to: ATTACKER, data: encodeFunctionData({ abi, functionName: 'migrateSingleton' }) },
+    ]);
+
+    const result = checkSafeUpgradeOperations(MULTISEND_CALL_ONLY[0]!, data, 1, 1);
+
+    expect(result.detections.map((d) => [d.type, d.isNested, d.isCanonical])).toEqual([
+      ['fallbackHandler', true, true],
+      ['migration', true, false],
+    ]);
+    expect(result.warningLevel).toBe('critical');
+  });
+
+  it('should raise the overall risk in analyzeSecurity', () => {
+    const result = analyzeSecurity(
+      {
+        to: SAFE,
+        value: '0',
+        data: setFallbackHandler(ATTACKER),
+        operation: 0,
+        safeTxGas: '0',
+        baseGas: '0',
+        gasPrice: '0',
+        gasToken: ZERO_ADDRESS,
+        refundReceiver: ZERO_ADDRESS,
+        nonce: '1',
+      },
+      { chainId: 1 }
+    );
+
+    expect(result.safeUpgrade.hasFallbackHandlerChange).toBe(true);
+    expect(result.overallRisk).toBe('critical');
+    expect(result.requiresCarefulReview).toBe(true);
+  });
+});
@@ -0,0 +1,229 @@
+/**
+ * Fallback Handler and Singleton Upgrade Detector
+ *
+ * Detects transactions that replace the code a Safe runs:
+ * - setFallbackHandler: the handler answers EIP-1271 signature checks and
+ *   every call the Safe does not implement itself
+ * - changeMasterCopy (Safe < 1.3.0): points the proxy at a new singleton
+ * - a delegatecall into SafeMigration, which rewrites the singleton and
+ *   optionally the fallback handler
+ *
+ * Any of these with a non-canonical address hands the Safe to whoever wrote
+ * that contract, so it is critical. Canonical upgrades are still high risk.
+ */
+
+import type { Address, Hex } from 'viem';
+import { decodeFunctionData, parseAbi, toFunctionSelector } from 'viem';
+import { ZERO_ADDRESS } from './constants.js';
+import { findSafeDeployment, getSafeDeployment, type SafeDeployment } from './deployments.js';
+import { flattenMultiSendCalls, parseMultiSend } from './multisend-decoder.js';
+import type { SafeUpgradeCheckResult, SafeUpgradeDetection } from './types.js';
+
+const UPGRADE_ABI = parseAbi([
+  'function setFallbackHandler(address handler)',
+  'function changeMasterCopy(address _masterCopy)',
+]);
+
+const SET_FALLBACK_HANDLER_SELECTOR = toFunctionSelector('setFallbackHandler(address)');
+const CHANGE_MASTER_COPY_SELECTOR = toFunctionSelector('changeMasterCopy(address)');
+
+/**
+ * SafeMigration entry points, and what each installs
+ */
+const MIGRATION_SELECTORS = new Map<Hex, { functionName: string; l2: boolean; withFallbackHandler: boolean }>([
+  [
+    toFunctionSelector('migrateSingleton()'),
+    { functionName: 'migrateSingleton', l2: false, withFallbackHandler: false },
+  ],
+  [
+    toFunctionSelector('migrateWithFallbackHandler()'),
+    { functionName: 'migrateWithFallbackHandler', l2: false, withFallbackHandler: true },
+  ],
+  [
+    toFunctionSelector('migrateL2Singleton()'),
+    { functionName: 'migrateL2Singleton', l2: true, withFallbackHandler: false },
+  ],
+  [
+    toFunctionSelector('migrateL2WithFallbackHandler()'),
+    { functionName: 'migrateL2WithFallbackHandler', l2: true, withFallbackHandler: true },
+  ],
+]);
+
+function getFunctionSelector(data: Hex): Hex | null {
+  if (!data || data === '0x' || data.length < 10) {
+    return null;
+  }
+  return data.slice(0, 10) as Hex;
+}
+
+function describeDeployment(deployment: SafeDeployment): string {
+  return `canonical v${deployment.version} ${deployment.contract}`;
+}
+
+/**
+ * Check one call and, with `descend`, every call in its MultiSend call tree
+ */
+function checkCall(
+  to: Address,
+  data: Hex,
+  operation: number,
+  depth: number,
+  chainId: number | undefined,
+  descend = true
+): SafeUpgradeDetection[] {
+  const selector = getFunctionSelector(data);
+  if (!selector) {
+    return [];
+  }
+  const base = { isNested: depth > 0, depth };
+
+  if (selector === SET_FALLBACK_HANDLER_SELECTOR || selector === CHANGE_MASTER_COPY_SELECTOR) {
+    const isHandler = selector === SET_FALLBACK_HANDLER_SELECTOR;
+    const type = isHandler ? 'fallbackHandler' : 'singleton';
+    const functionName = isHandler ? 'setFallbackHandler' : 'changeMasterCopy';
+    try {
+      const decoded = decodeFunctionData({ abi: UPGRADE_ABI, data });
+      const targetAddress = decoded.args[0];
+      const deployment = findSafeDeployment(
+        targetAddress,
+        isHandler ? ['FallbackHandler'] : ['Safe', 'SafeL2'],
+        chainId
+      );
+      return [{ type, functionName, targetAddress, deployment, isCanonical: deployment !== undefined, ...base }];
+    } catch {
+      // Undecodable arguments: nothing to vouch for
+      return [{ type, functionName, isCanonical: false, ...base }];
+    }
+  }
+
+  const migration = MIGRATION_SELECTORS.get(selector);
+  if (migration && operation === 1) {
+    // SafeMigration only works through delegatecall, and installs the
+    // singleton and handler of its own version and deployment.
+    const deployment = findSafeDeployment(to, ['SafeMigration'], chainId);
+    return [
+      {
+        type: 'migration',
+        functionName: migration.functionName,
+        targetAddress: to,
+        deployment,
+        migratesTo: deployment && {
+          singleton: getSafeDeployment(migration.l2 ? 'SafeL2' : 'Safe', deployment.version, deployment.deployment),
+          fallbackHandler: migration.withFallbackHandler
+            ? getSafeDeployment('FallbackHandler', deployment.version, deployment.deployment)
+            : undefined,
+        },
+        isCanonical: deployment !== undefined,
+        ...base,
+      },
+    ];
+  }
+
+  const multiSend = descend ? parseMultiSend(data) : null;
+  if (multiSend) {
+    return flattenMultiSendCalls(multiSend.calls).flatMap((call) =>
+      checkCall(call.to, call.data, call.operation, depth + call.depth, chainId, false)
+    );
+  }
+
+  return [];
+}
+
+function warningFor(detection: SafeUpgradeDetection): string {
+  const where = detection.isNested ? ' (nested in MultiSend)' : '';
+  const target = detection.targetAddress ?? 'an undecodable address';
+
+  if (detection.type === 'migration') {
+    if (!detection.deployment) {
+      return (
+        `CRITICAL: ${detection.functionName}${where} delegatecalls ${target}, which is not a canonical ` +
+        `SafeMigration contract on this network. It can rewrite the Safe's singleton and fallback handler to anything.`
+      );
+    }
+    const installs = [detection.migratesTo?.singleton, detection.migratesTo?.fallbackHandler]
+      .filter((d): d is SafeDeployment => d !== undefined)
+      .map((d) => `${describeDeployment(d)} (${d.address})`);
+    return (
+      `WARNING: ${detection.functionName}${where} migrates the Safe with the ${describeDeployment(detection.deployment)} ` +
+      `contract${installs.length > 0 ? `, installing the ${installs.join(' and the ')}` : ''}. ` +
+      `Confirm the upgrade is intended.`
+    );
+  }
+
+  if (detection.type === 'fallbackHandler') {
+    if (detection.targetAddress && detection.targetAddress.toLowerCase() === ZERO_ADDRESS) {
+      return (
+        `WARNING: setFallbackHandler${where} removes the fallback handler. ` +
+        `EIP-1271 signatures and token callbacks stop working.`
+      );
+    }
+    if (!detection.deployment) {
+      return (
+        `CRITICAL: setFallbackHandler${where} installs ${target}, which is not a canonical Safe fallback handler ` +
+        `on this network. The handler answers EIP-1271 signature checks for the Safe: a malicious one can take it over.`
+      );
+    }
+    return `WARNING: setFallbackHandler${where} installs the ${describeDeployment(detection.deployment)} (${target}).`;
+  }
+
+  if (!detection.deployment) {
+    return (
+      `CRITICAL: changeMasterCopy${where} points the Safe at ${target}, which is not a canonical Safe singleton ` +
+      `on this network. The Safe would run that contract's code: this is a full takeover.`
+    );
+  }
+  return `WARNING: changeMasterCopy${where} upgrades the Safe to the ${describeDeployment(detection.deployment)} singleton (${target}).`;
+}
+
+/**
+ * Check if a transaction changes the Safe's fallback handler or singleton
+ *
+ * Checks direct calls and calls nested in MultiSend. New handler and
+ * singleton addresses are compared with the canonical Safe deployments for
+ * the network.
+ *
+ * @param to - Transaction target
+ * @param data - Transaction data
+ * @param operation - 0 for Call, 1 for DelegateCall
+ * @param chainId - Network to check deployments against. Omit to accept any network's.
+ * @returns Check result with list of detected operations
+ *
+ * @example
+ * const result = checkSafeUpgradeOperations(safeAddress, "0xf08a0323...", 0, 1); // setFallbackHandler data
+ * // result.hasFallbackHandlerChange = true
+ * // result.detections[0].isCanonical = false
+ * // result.warningLevel = "critical"
+ */
+export function checkSafeUpgradeOperations(
+  to: Address,
+  data: Hex,
+  operation: number,
+  chainId?: number
+): SafeUpgradeCheckResult {
+  const detections = checkCall(to, data, operation, 0, chainId);
+
+  if (detections.length === 0) {
+    return {
+      hasFallbackHandlerChange: false,
+      hasSingletonChange: false,
+      detections: [],
+      warningLevel: 'info',
+    };
+  }
+
+  const removesHandler = (d: SafeUpgradeDetection) =>
+    d.type === 'fallbackHandler' && d.targetAddress?.toLowerCase() === ZERO_ADDRESS;
+  const hasNonCanonical = detections.some((d) => !d.isCanonical && !removesHandler(d));
+
+  return {
+    hasFallbackHandlerChange: detections.some(
+      (d) =>
+        d.type === 'fallbackHandler' ||
+        (d.type === 'migration' && (!d.isCanonical || d.functionName.endsWith('WithFallbackHandler')))
+    ),
+    hasSingletonChange: detections.some((d) => d.type === 'singleton' || d.type === 'migration'),
+    detections,
+    warnings: detections.map(warningFor),
+    warningLevel: hasNonCanonical ? 'critical' : 'high',
+  };
+}
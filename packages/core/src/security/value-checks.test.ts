@@ -0,0 +1,164 @@
+/**
+ * Tests for native value and large-transfer checks
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  concat,
+  encodeFunctionData,
+  erc20Abi,
+  pad,
+  parseAbi,
+  parseEther,
+  parseUnits,
+  toHex,
+  type Address,
+  type Hex,
+} from 'viem';
+import { checkValueTransfers, resolveTransferThresholds } from './value-checks.js';
+import { analyzeSecurity } from './analyzer.js';
+import { MULTISEND_CALL_ONLY, ZERO_ADDRESS } from './constants.js';
+import { CONTRACTS_BY_NETWORK } from '../contracts/index.js';
+
+const SAFE = '0xf65475e74C1Ed6d004d5240b06E3088724dFDA5d' as Address;
+const ALICE = '0x1111111111111111111111111111111111111111' as Address;
+const BOB = '0x2222222222222222222222222222222222222222' as Address;
+const UNKNOWN_TOKEN = '0x3333333333333333333333333333333333333333' as Address;
+const USDS = CONTRACTS_BY_NETWORK.ethereum!.find((contract) => contract.label === 'USDS')!.address as Address;
+const BATCH = MULTISEND_CALL_ONLY[0]!;
+
+const abi = parseAbi(['function multiSend(bytes transactions)']);
+
+function transfer(to: Address, amount: bigint): Hex {
+  return encodeFunctionData({ abi: erc20Abi, functionName: 'transfer', args: [to, amount] });
+}
+
+function multiSend(calls: { operation?: number; to: Address; value?: bigint; data?: Hex }[]): Hex {
+  const entries = calls.map((call) => {
+    const data = call.data ?? '0x';
+    return concat([
+      toHex(call.operation ?? 0, { size: 1 }),
+      call.to,
+      pad(toHex(call.value ?? 0n)),
+      pad(toHex(BigInt((data.length - 2) / 2))),
+      data,
+    ]);
+  });
+  return encodeFunctionData({ abi, functionName: 'multiSend', args: [concat(entries)] });
+}
+
+describe('resolveTransferThresholds', () => {
+  it('should apply overrides token by token', () => {
+    const thresholds = resolveTransferThresholds('ethereum', { native: '1', tokens: { USDS: '500' } });
+
+    expect(thresholds.native).toBe('1');
+    expect(thresholds.tokens!.USDS).toBe('500');
+    expect(thresholds.tokens!.USDC).toBe('1000000');
+    expect(resolveTransferThresholds('unknown')).toEqual({ native: undefined, tokens: {} });
+  });
+});
+
+describe('checkValueTransfers', () => {
+  it('should sum a batch per asset and per recipient', () => {
+    const data = multiSend([
+      { to: USDS, data: transfer(ALICE, parseEther('1000000')) },
+      { to: USDS, data: transfer(BOB, parseEther('200000')) },
+      { to: USDS, data: transfer(ALICE, parseEther('50000')) },
+      { to: BOB, value: parseEther('2') },
+    ]);
+
+    const result = checkValueTransfers(BATCH, 0n, data, 1, { network: 'ethereum', safeAddress: SAFE });
+
+    expect(result.outflows).toHaveLength(2);
+    expect(result.outflows[0]).toMatchObject({
+      asset: USDS,
+      symbol: 'USDS',
+      formattedTotal: '1,250,000 USDS',
+      exceedsThreshold: true,
+      transferCount: 3,
+    });
+    expect(result.outflows[0]!.recipients.map((r) => [r.recipient, r.formattedAmount])).toEqual([
+      [ALICE, '1,050,000 USDS'],
+      [BOB, '200,000 USDS'],
+    ]);
+    expect(result.outflows[1]).toMatchObject({ asset: 'native', formattedTotal: '2 ETH', exceedsThreshold: false });
+    expect(result.warnings).toEqual([
+      'WARNING: This transaction sends 1,250,000 USDS out of the Safe in 3 transfers, above the 1,000,000 USDS threshold for ethereum.',
+    ]);
+    expect(result.warningLevel).toBe('high');
+  });
+
+  it('should count native value only on calls the Safe makes', () => {
+    expect(checkValueTransfers(ALICE, parseEther('20'), '0x', 0, { network: 'ethereum' }).warningLevel).toBe('high');
+    expect(checkValueTransfers(ALICE, parseEther('20'), '0x', 1, { network: 'ethereum' }).outflows).toEqual([]);
+  });
+
+  it('should count sub-batches only when the Safe delegatecalls them', () => {
+    const inner = multiSend([{ to: USDS, data: transfer(ALICE, parseEther('700000')) }]);
+    const data = multiSend([
+      { operation: 1, to: BATCH, data: inner },
+      // Runs as the MultiSend contract, which holds none of the Safe's tokens
+      { operation: 0, to: BATCH, data: inner },
+    ]);
+
+    const result = checkValueTransfers(BATCH, 0n, data, 1, { network: 'ethereum', safeAddress: SAFE });
+
+    expect(result.outflows).toHaveLength(1);
+    expect(result.outflows[0]).toMatchObject({ formattedTotal: '700,000 USDS', transferCount: 1 });
+    expect(result.warnings).toBeUndefined();
+  });
+
+  it('should count transferFrom only from the Safe and skip unknown tokens', () => {
+    const fromSafe = encodeFunctionData({
+      abi: erc20Abi,
+      functionName: 'transferFrom',
+      args: [SAFE, ALICE, parseEther('5')],
+    });
+    const fromOther = encodeFunctionData({
+      abi: erc20Abi,
+      functionName: 'transferFrom',
+      args: [BOB, ALICE, parseEther('5')],
+    });
+
+    const options = { network: 'ethereum', safeAddress: SAFE };
+    expect(checkValueTransfers(USDS, 0n, fromSafe, 0, options).outflows[0]!.total).toBe(parseEther('5'));
+    expect(checkValueTransfers(USDS, 0n, fromOther, 0, options).outflows).toEqual([]);
+    expect(checkValueTransfers(UNKNOWN_TOKEN, 0n, transfer(ALICE, 1n), 0, options).outflows).toEqual([]);
+  });
+
+  it('should use threshold overrides and reject malformed ones', () => {
+    const data = transfer(ALICE, parseUnits('600', 18));
+
+    const result = checkValueTransfers(USDS, 0n, data, 0, {
+      network: 'ethereum',
+      thresholds: { tokens: { USDS: '500' } },
+    });
+    expect(result.outflows[0]!.threshold).toBe(parseUnits('500', 18));
+    expect(result.warningLevel).toBe('high');
+
+    expect(() =>
+      checkValueTransfers(ALICE, 1n, '0x', 0, { network: 'ethereum', thresholds: { native: '1e18' } })
+    ).toThrow('Invalid transfer threshold for ETH');
+  });
+
+  it('should raise the overall risk in analyzeSecurity', () => {
+    const result = analyzeSecurity(
+      {
+        to: ALICE,
+        value: parseEther('11').toString(),
+        data: '0x',
+        operation: 0,
+        safeTxGas: '0',
+        baseGas: '0',
+        gasPrice: '0',
+        gasToken: ZERO_ADDRESS,
+        refundReceiver: ZERO_ADDRESS,
+        nonce: '1',
+      },
+      { network: 'ethereum' }
+    );
+
+    expect(result.valueTransfers.outflows[0]!.formattedTotal).toBe('11 ETH');
+    expect(result.overallRisk).toBe('high');
+  });
+});
@@ -0,0 +1,254 @@
+/**
+ * Native Value and Large-Transfer Checker
+ *
+ * Sums what a transaction sends out of the Safe, per asset and per recipient:
+ * native value on every call, and transfer / transferFrom of tokens whose
+ * decimals are known (CONTRACTS_BY_NETWORK). A batch that moves a large amount
+ * in many small calls is judged on its total, and each total is compared with
+ * a per-network threshold.
+ *
+ * Tokens without known decimals are left out: their amounts cannot be put on
+ * a common scale, and ERC-721 shares the transferFrom selector with a token id
+ * where the amount would be.
+ */
+
+import type { Address, Hex } from 'viem';
+import { decodeFunctionData, parseAbi, parseUnits } from 'viem';
+import { CONTRACTS_BY_NETWORK } from '../contracts/index.js';
+import { formatUnitsLoose } from '../utils/units.js';
+import { flattenSafeBatchCalls, parseMultiSend } from './multisend-decoder.js';
+import type { AssetOutflow, TransferThresholds, ValueTransferCheckResult } from './types.js';
+
+/**
+ * Native currency of every configured network (see NETWORKS)
+ */
+const NATIVE_SYMBOL = 'ETH';
+const NATIVE_DECIMALS = 18;
+
+const TRANSFER_ABI = parseAbi([
+  'function transfer(address to, uint256 amount)',
+  'function transferFrom(address from, address to, uint256 amount)',
+]);
+
+/**
+ * Default large-transfer thresholds per network, in whole units
+ *
+ * Round figures meant to catch a transfer that deserves a second look, not to
+ * bound normal treasury operations. Override them per network with the
+ * `transferThresholds` option.
+ */
+export const DEFAULT_TRANSFER_THRESHOLDS: Record<string, TransferThresholds> = {
+  ethereum: {
+    native: '10',
+    tokens: {
+      USDS: '1000000',
+      sUSDS: '1000000',
+      DAI: '1000000',
+      USDC: '1000000',
+      USDT: '1000000',
+      AUSD: '1000000',
+      SKY: '10000000',
+      WETH: '10',
+      stETH: '10',
+    },
+  },
+  base: {
+    native: '10',
+    tokens: {
+      USDC: '1000000',
+      USDbC: '1000000',
+      WETH: '10',
+    },
+  },
+  sepolia: {
+    native: '100',
+  },
+};
+
+export interface ValueTransferOptions {
+  /** Network name, for token decimals and the default thresholds */
+  network?: string;
+  /** The Safe the transaction is for; transferFrom counts only when it moves the Safe's tokens */
+  safeAddress?: Address;
+  /** Thresholds overriding the network's defaults */
+  thresholds?: TransferThresholds;
+}
+
+/**
+ * A network's thresholds with overrides applied
+ *
+ * @param network - Network name
+ * @param overrides - Thresholds replacing the defaults, token by token
+ * @returns The thresholds in effect
+ */
+export function resolveTransferThresholds(network: string, overrides: TransferThresholds = {}): TransferThresholds {
+  const defaults = DEFAULT_TRANSFER_THRESHOLDS[network] ?? {};
+  return {
+    native: overrides.native ?? defaults.native,
+    tokens: { ...defaults.tokens, ...overrides.tokens },
+  };
+}
+
+function parseThreshold(amount: string, decimals: number, symbol: string): bigint {
+  if (!/^\d+(\.\d+)?$/.test(amount.trim())) {
+    throw new Error(`Invalid transfer threshold for ${symbol}: "${amount}" (expected an amount in whole units)`);
+  }
+  return parseUnits(amount.trim(), decimals);
+}
+
+interface Transfer {
+  asset: 'native' | Address;
+  recipient: Address;
+  amount: bigint;
+}
+
+/**
+ * Decode a token transfer out of the Safe, if the call is one
+ */
+function decodeTokenTransfer(to: Address, data: Hex, safeAddress: Address | undefined): Transfer | null {
+  try {
+    const decoded = decodeFunctionData({ abi: TRANSFER_ABI, data });
+    if (decoded.functionName === 'transfer') {
+      const [recipient, amount] = decoded.args;
+      return { asset: to, recipient, amount };
+    }
+    const [from, recipient, amount] = decoded.args;
+    if (safeAddress && from.toLowerCase() === safeAddress.toLowerCase()) {
+      return { asset: to, recipient, amount };
+    }
+  } catch {
+    // Not a transfer
+  }
+  return null;
+}
+
+/**
+ * Collect the transfers the Safe itself makes: the outer call when it is a
+ * call, or each call in a batch the Safe delegatecalls. Delegatecalls send no
+ * value.
+ */
+function collectTransfers(
+  to: Address,
+  value: bigint,
+  data: Hex,
+  operation: number,
+  safeAddress: Address | undefined
+): Transfer[] {
+  const batch = operation === 1 ? parseMultiSend(data) : null;
+  const calls = batch
+    ? flattenSafeBatchCalls(batch.calls).filter((call) => call.operation === 0)
+    : operation === 0
+      ? [{ to, value, data }]
+      : [];
+
+  const transfers: Transfer[] = [];
+  for (const call of calls) {
+    if (call.value > 0n) {
+      transfers.push({ asset: 'native', recipient: call.to, amount: call.value });
+    }
+    const token = decodeTokenTransfer(call.to, call.data, safeAddress);
+    if (token) {
+      transfers.push(token);
+    }
+  }
+  return transfers;
+}
+
+/**
+ * Sum native value and known-token transfers out of the Safe, and compare each
+ * asset's total with its threshold
+ *
+ * Native value counts on the outer call and on every call in a MultiSend batch
+ * (and in the sub-batches it delegatecalls). Token amounts count for transfer, and for
+ * transferFrom when the tokens come from the Safe. A total above its threshold
+ * is high risk.
+ *
+ * @param to - Transaction target
+ * @param value - Native value of the outer call, in wei
+ * @param data - Transaction data
+ * @param operation - 0 for call, 1 for delegatecall
+ * @param options - Network, Safe address and threshold overrides
+ * @returns Outflow per asset and recipient, with a warning for each asset over its threshold
+ * @throws {Error} If a threshold is not an amount in whole units
+ *
+ * @example
+ * const result = checkValueTransfers(multiSendCallOnly, 0n, batchData, 1, { network: 'ethereum', safeAddress });
+ * // result.outflows[0].formattedTotal = "1,250,000 USDS"
+ * // result.outflows[0].exceedsThreshold = true
+ */
+export function checkValueTransfers(
+  to: Address,
+  value: bigint,
+  data: Hex,
+  operation: number,
+  options: ValueTransferOptions = {}
+): ValueTransferCheckResult {
+  const network = options.network ?? '';
+  const thresholds = resolveTransferThresholds(network, options.thresholds);
+  const tokens = new Map(
+    (CONTRACTS_BY_NETWORK[network] ?? [])
+      .filter((contract) => contract.category === 'token' && typeof contract.decimals === 'number')
+      .map((contract) => [contract.address.toLowerCase(), { label: contract.label, decimals: contract.decimals! }])
+  );
+
+  const outflows = new Map<string, AssetOutflow>();
+  for (const transfer of collectTransfers(to, value, data, operation, options.safeAddress)) {
+    const key = transfer.asset.toLowerCase();
+    let outflow = outflows.get(key);
+    if (!outflow) {
+      const token = transfer.asset === 'native' ? undefined : tokens.get(key);
+      if (transfer.asset !== 'native' && !token) {
+        continue;
+      }
+      const symbol = token?.label ?? NATIVE_SYMBOL;
+      const decimals = token?.decimals ?? NATIVE_DECIMALS;
+      const threshold = token ? thresholds.tokens?.[token.label] : thresholds.native;
+      outflow = {
+        asset: transfer.asset,
+        symbol,
+        decimals,
+        total: 0n,
+        formattedTotal: '',
+        threshold: threshold === undefined ? undefined : parseThreshold(threshold, decimals, symbol),
+        exceedsThreshold: false,
+        transferCount: 0,
+        recipients: [],
+      };
+      outflows.set(key, outflow);
+    }
+
+    outflow.total += transfer.amount;
+    outflow.transferCount++;
+    const recipient = outflow.recipients.find((r) => r.recipient.toLowerCase() === transfer.recipient.toLowerCase());
+    if (recipient) {
+      recipient.amount += transfer.amount;
+    } else {
+      outflow.recipients.push({ recipient: transfer.recipient, amount: transfer.amount, formattedAmount: '' });
+    }
+  }
+
+  const format = (amount: bigint, outflow: AssetOutflow) =>
+    `${formatUnitsLoose(amount, outflow.decimals, { group: true })} ${outflow.symbol}`;
+  const warnings: string[] = [];
+  for (const outflow of outflows.values()) {
+    outflow.formattedTotal = format(outflow.total, outflow);
+    outflow.recipients.sort((a, b) => (a.amount === b.amount ? 0 : a.amount > b.amount ? -1 : 1));
+    for (const recipient of outflow.recipients) {
+      recipient.formattedAmount = format(recipient.amount, outflow);
+    }
+    outflow.exceedsThreshold = outflow.threshold !== undefined && outflow.total > outflow.threshold;
+    if (outflow.exceedsThreshold) {
+      const calls = outflow.transferCount > 1 ? ` in ${outflow.transferCount} transfers` : '';
+      warnings.push(
+        `WARNING: This transaction sends ${outflow.formattedTotal} out of the Safe${calls}, above the ` +
+          `${format(outflow.threshold!, outflow)} threshold for ${network || 'this network'}.`
+      );
+    }
+  }
+
+  const result: ValueTransferCheckResult = { outflows: [...outflows.values()] };
+  if (warnings.length === 0) {
+    return result;
+  }
+  return { ...result, warnings, warningLevel: 'high' };
+}
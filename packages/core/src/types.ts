@@ -187,3 +187,69 @@ export interface SafeApiSafeInfo {
   guard: Address
   version: string
 }
+
+/**
+ * Delegate registered for a Safe
+ *
+ * A delegate can propose transactions to the Safe Transaction Service on
+ * behalf of its delegator (an owner). It cannot sign for the Safe.
+ */
+export interface SafeApiDelegate {
+  /** Safe the delegation is for (null when it covers every Safe of the delegator) */
+  safe: Address | null
+  delegate: Address
+  delegator: Address
+  label: string
+  /** When the delegation lapses (null for never) */
+  expiryDate: string | null
+}
+
+/**
+ * Response from /api/v2/delegates/?safe={address}
+ */
+export interface SafeApiDelegateResponse {
+  count: number
+  next: string | null
+  previous: string | null
+  results: SafeApiDelegate[]
+}
+
+/**
+ * Response from /api/v1/safes/{address}/messages/
+ */
+export interface SafeApiMessageResponse {
+  count: number
+  next: string | null
+  previous: string | null
+  results: SafeApiMessage[]
+}
+
+/**
+ * Off-chain message from Safe Transaction Service
+ */
+export interface SafeApiMessage {
+  created: string
+  modified: string
+  safe: Address
+  /** SafeMessage hash as computed by the service. */
+  messageHash: Hex
+  /** EIP-191 string message, or an EIP-712 typed-data object. */
+  message: string | Record<string, unknown>
+  proposedBy: Address
+  safeAppId: number | null
+  confirmations: SafeApiMessageConfirmation[]
+  /** Concatenated owner signatures, once the threshold is reached. */
+  preparedSignature: Hex | null
+  origin: string | null
+}
+
+/**
+ * Message confirmation from a Safe owner
+ */
+export interface SafeApiMessageConfirmation {
+  created: string
+  modified: string
+  owner: Address
+  signature: Hex
+  signatureType: string
+}
@@ -13,10 +13,14 @@
 
 import type { Address } from 'viem'
 import {
+  MULTISEND,
   MULTISEND_CALL_ONLY,
+  PERMIT2,
   SAFE_MIGRATION,
   SIGN_MESSAGE_LIB,
+  TRUSTED_FALLBACK_HANDLERS,
   TRUSTED_MODULES,
+  TRUSTED_SINGLETONS,
 } from '../security/constants.js'
 
 export type AddressTagSource = 'built-in' | 'address-book'
@@ -83,6 +87,15 @@ for (const addr of MULTISEND_CALL_ONLY) {
   })
 }
 
+// MultiSend contracts (can delegatecall from inside the batch)
+for (const addr of MULTISEND) {
+  registerCoreBuiltIn(addr, {
+    label: 'MultiSend',
+    description: 'Safe batching contract; calls in the batch may be delegatecalls',
+    category: 'safe-contract',
+  })
+}
+
 // Safe Migration contracts
 for (const addr of SAFE_MIGRATION) {
   registerCoreBuiltIn(addr, {
@@ -110,6 +123,31 @@ for (const addr of TRUSTED_MODULES) {
   })
 }
 
+// Safe singletons (the code a Safe proxy runs)
+for (const addr of TRUSTED_SINGLETONS) {
+  registerCoreBuiltIn(addr, {
+    label: 'Safe Singleton',
+    description: 'Safe contract implementation (masterCopy)',
+    category: 'safe-contract',
+  })
+}
+
+// Fallback handlers
+for (const addr of TRUSTED_FALLBACK_HANDLERS) {
+  registerCoreBuiltIn(addr, {
+    label: 'Safe Fallback Handler',
+    description: 'Handles EIP-1271 signature checks and token callbacks for Safe',
+    category: 'safe-contract',
+  })
+}
+
+// Permit2 — same address on every network
+registerCoreBuiltIn(PERMIT2, {
+  label: 'Permit2',
+  description: 'Uniswap token approval manager; spenders it authorizes can move approved tokens',
+  category: 'protocol',
+})
+
 // Burn addresses — chain-agnostic. Tokens sent here are unrecoverable.
 // Tagging them so signers see the label rather than an "unknown address" tint,
 // and so the address-book check classifies them as known rather than warning.
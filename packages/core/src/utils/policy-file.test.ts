@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import { toFunctionSelector } from 'viem';
+import { findSafePolicy, parsePolicyFile } from './policy-file.js';
+
+const SAFE = '0xf65475e74C1Ed6d004d5240b06E3088724dFDA5d';
+const TARGET = '0x1234567890123456789012345678901234567890';
+const MULTISEND = '0x40A2aCCbd92BCA938b02010E17A5b8929b49130D';
+
+const YAML = `
+# cBEAM Safe policy
+ethereum:
+  "${SAFE}":
+    label: cBEAM Safe # inline comment
+    maxValue: "0"
+    allowedTargets:
+      ${TARGET}:
+        - "file(bytes32,uint256)"
+        - 0x29ae8114
+      '${MULTISEND}': "*"
+    allowedDelegatecalls: ["${MULTISEND}"]
+    requiredDecoders:
+    - SPBEAM
+`;
+
+describe('parsePolicyFile', () => {
+  it('should parse YAML', () => {
+    const { policies } = parsePolicyFile(YAML);
+
+    expect(policies).toHaveLength(1);
+    expect(policies[0]).toEqual({
+      network: 'ethereum',
+      safeAddress: SAFE,
+      label: 'cBEAM Safe',
+      maxValue: 0n,
+      allowedTargets: [
+        { address: TARGET, selectors: [toFunctionSelector('file(bytes32,uint256)'), '0x29ae8114'] },
+        { address: MULTISEND },
+      ],
+      allowedDelegatecalls: [MULTISEND],
+      requiredDecoders: ['SPBEAM'],
+    });
+  });
+
+  it('should parse the same policy from JSON', () => {
+    const json = JSON.stringify({
+      ethereum: {
+        [SAFE]: {
+          label: 'cBEAM Safe',
+          maxValue: 0,
+          allowedTargets: { [TARGET]: ['file(bytes32,uint256)', '0x29ae8114'], [MULTISEND]: '*' },
+          allowedDelegatecalls: [MULTISEND],
+          requiredDecoders: ['SPBEAM'],
+        },
+      },
+    });
+
+    expect(parsePolicyFile(json)).toEqual(parsePolicyFile(YAML));
+  });
+
+  it('should keep large wei amounts exact', () => {
+    const { policies } = parsePolicyFile(`base:\n  ${SAFE}:\n    maxValue: 123456789012345678901234567890\n`);
+
+    expect(policies[0]!.maxValue).toBe(123456789012345678901234567890n);
+  });
+
+  it('should reject unknown rules, networks and bad values', () => {
+    expect(() => parsePolicyFile(`ethereum:\n  ${SAFE}:\n    allowedTarget: x\n`)).toThrow(
+      /unknown rule "allowedTarget"/
+    );
+    expect(() => parsePolicyFile(`mainnet:\n  ${SAFE}:\n    label: x\n`)).toThrow(/unsupported network "mainnet"/);
+    expect(() => parsePolicyFile(`ethereum:\n  0x1234:\n    label: x\n`)).toThrow(/invalid address "0x1234"/);
+    expect(() => parsePolicyFile(`ethereum:\n  ${SAFE}:\n    maxValue: 1 ether\n`)).toThrow(/whole number of wei/);
+    expect(() => parsePolicyFile(`ethereum:\n  ${SAFE}:\n    allowedTargets:\n      ${TARGET}: [transfer]\n`)).toThrow(
+      /neither a 4-byte selector nor a function signature/
+    );
+    expect(() => parsePolicyFile('{ "ethereum": ')).toThrow(/not valid JSON/);
+    expect(() => parsePolicyFile('')).toThrow(/empty/);
+  });
+
+  it('should reject YAML it does not understand', () => {
+    expect(() => parsePolicyFile(`ethereum:\n  ${SAFE}:\n    label: &anchor x\n`)).toThrow(/unsupported YAML syntax/);
+    expect(() => parsePolicyFile(`ethereum:\n  ${SAFE}:\n    label: x\n      extra: y\n`)).toThrow(
+      /unexpected indentation/
+    );
+    expect(() => parsePolicyFile(`ethereum:\n  ${SAFE}:\n    label: x\n    label: y\n`)).toThrow(/duplicate key/);
+  });
+
+  it('should reject two policies for the same Safe', () => {
+    const lower = SAFE.toLowerCase();
+
+    expect(() => parsePolicyFile(`ethereum:\n  ${SAFE}:\n    label: a\n  ${lower}:\n    label: b\n`)).toThrow(
+      /more than one policy/
+    );
+  });
+});
+
+describe('findSafePolicy', () => {
+  it('should match by network and case-insensitive address', () => {
+    const set = parsePolicyFile(YAML);
+
+    expect(findSafePolicy(set, 'ethereum', SAFE.toLowerCase())?.label).toBe('cBEAM Safe');
+    expect(findSafePolicy(set, 'base', SAFE)).toBeUndefined();
+  });
+});
@@ -0,0 +1,366 @@
+/**
+ * Per-Safe signing policy ingest.
+ *
+ * A policy file (JSON or YAML) is keyed by network, then by Safe address:
+ *
+ *   ethereum:
+ *     "0xSafeAddress":
+ *       label: cBEAM Safe
+ *       maxValue: "0"
+ *       allowedTargets:
+ *         "0xTargetAddress": ["file(bytes32,uint256)", "0x29ae8114"]
+ *         "0xOtherTarget": "*"
+ *       allowedDelegatecalls: ["0x40A2aCCbd92BCA938b02010E17A5b8929b49130D"]
+ *       requiredDecoders: [SPBEAM]
+ *
+ * Every rule is optional; an omitted rule is not enforced.
+ * - label: free text, shown with violations
+ * - maxValue: native value in wei the transaction may move, summed across a batch
+ * - allowedTargets: the only addresses the Safe may call. Each maps to "*" (any
+ *   function) or a list of 4-byte selectors / function signatures.
+ * - allowedDelegatecalls: the only addresses the Safe may delegatecall. With
+ *   allowedTargets set and this omitted, no delegatecall is allowed.
+ * - requiredDecoders: every call with calldata must be decoded by one of these
+ *   custom decoders (by contract name, e.g. SPBEAM)
+ *
+ * The YAML reader is intentionally small. Handles block mappings, block
+ * sequences, [flow, sequences], quoted scalars and # comments. Every scalar is
+ * read as a string, so addresses and wei amounts are never mangled into
+ * numbers. Anchors, multi-line strings and flow mappings are rejected.
+ *
+ * Throws on anything it does not understand: a typo in a signing policy should
+ * fail loudly, not silently drop a rule.
+ */
+
+import { toFunctionSelector, type Address, type Hex } from 'viem';
+import { isNetworkSupported } from '../api/networks.js';
+
+export interface SafePolicyTarget {
+  address: Address;
+  /** Allowed 4-byte selectors. Undefined allows any function. */
+  selectors?: Hex[];
+}
+
+export interface SafePolicy {
+  network: string;
+  safeAddress: Address;
+  label?: string;
+  /** Maximum native value in wei, summed across a batch */
+  maxValue?: bigint;
+  allowedTargets?: SafePolicyTarget[];
+  allowedDelegatecalls?: Address[];
+  /** Custom decoder contract names, e.g. "SPBEAM" */
+  requiredDecoders?: string[];
+}
+
+export interface SafePolicySet {
+  policies: SafePolicy[];
+}
+
+type PolicyValue = string | null | PolicyValue[] | { [key: string]: PolicyValue };
+
+const ADDRESS_PATTERN = /^0x[a-fA-F0-9]{40}$/;
+const SELECTOR_PATTERN = /^0x[a-fA-F0-9]{8}$/;
+const WEI_PATTERN = /^[0-9]+$/;
+const POLICY_KEYS = ['label', 'maxValue', 'allowedTargets', 'allowedDelegatecalls', 'requiredDecoders'];
+
+/**
+ * Parse a JSON or YAML policy file. Does not check decoder names against a registry.
+ *
+ * @throws {Error} on malformed input, unsupported networks, invalid addresses or selectors, or unknown keys
+ */
+export function parsePolicyFile(text: string): SafePolicySet {
+  const cleaned = text.replace(/^﻿/, '');
+  if (cleaned.trim() === '') {
+    throw new Error('Policy file is empty.');
+  }
+
+  let root: unknown;
+  if (cleaned.trimStart().startsWith('{')) {
+    try {
+      root = JSON.parse(cleaned);
+    } catch (error) {
+      throw new Error(`Policy file is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  } else {
+    root = parseYamlSubset(cleaned);
+  }
+
+  const policies: SafePolicy[] = [];
+  for (const [network, safes] of Object.entries(expectObject(root, 'policy file'))) {
+    if (!isNetworkSupported(network)) {
+      throw new Error(`Policy file: unsupported network "${network}".`);
+    }
+    for (const [safeAddress, rules] of Object.entries(expectObject(safes, network))) {
+      policies.push(parseSafePolicy(network, expectAddress(safeAddress, network), rules));
+    }
+  }
+
+  const seen = new Set<string>();
+  for (const policy of policies) {
+    const key = `${policy.network}:${policy.safeAddress.toLowerCase()}`;
+    if (seen.has(key)) {
+      throw new Error(`Policy file: more than one policy for ${policy.network} ${policy.safeAddress}.`);
+    }
+    seen.add(key);
+  }
+
+  return { policies };
+}
+
+/**
+ * Find the policy for a Safe on a network
+ */
+export function findSafePolicy(set: SafePolicySet, network: string, safeAddress: string): SafePolicy | undefined {
+  const key = safeAddress.toLowerCase();
+  return set.policies.find((p) => p.network === network && p.safeAddress.toLowerCase() === key);
+}
+
+function parseSafePolicy(network: string, safeAddress: Address, value: unknown): SafePolicy {
+  const path = `${network}.${safeAddress}`;
+  const rules = expectObject(value, path);
+  for (const key of Object.keys(rules)) {
+    if (!POLICY_KEYS.includes(key)) {
+      throw new Error(`Policy file: unknown rule "${key}" at ${path}. Known rules: ${POLICY_KEYS.join(', ')}.`);
+    }
+  }
+
+  const policy: SafePolicy = { network, safeAddress };
+  if (rules.label !== undefined) {
+    policy.label = expectString(rules.label, `${path}.label`);
+  }
+  if (rules.maxValue !== undefined) {
+    const raw = typeof rules.maxValue === 'number' ? String(rules.maxValue) : rules.maxValue;
+    const maxValue = expectString(raw, `${path}.maxValue`);
+    if (!WEI_PATTERN.test(maxValue)) {
+      throw new Error(`Policy file: ${path}.maxValue must be a whole number of wei (got "${maxValue}").`);
+    }
+    policy.maxValue = BigInt(maxValue);
+  }
+  if (rules.allowedTargets !== undefined) {
+    policy.allowedTargets = Object.entries(expectObject(rules.allowedTargets, `${path}.allowedTargets`)).map(
+      ([address, selectors]) => parseTarget(address, selectors, `${path}.allowedTargets`)
+    );
+  }
+  if (rules.allowedDelegatecalls !== undefined) {
+    policy.allowedDelegatecalls = expectArray(rules.allowedDelegatecalls, `${path}.allowedDelegatecalls`).map(
+      (address) => expectAddress(address, `${path}.allowedDelegatecalls`)
+    );
+  }
+  if (rules.requiredDecoders !== undefined) {
+    policy.requiredDecoders = expectArray(rules.requiredDecoders, `${path}.requiredDecoders`).map((name) =>
+      expectString(name, `${path}.requiredDecoders`)
+    );
+  }
+  return policy;
+}
+
+function parseTarget(address: string, value: unknown, path: string): SafePolicyTarget {
+  const target: SafePolicyTarget = { address: expectAddress(address, path) };
+  if (value === '*') {
+    return target;
+  }
+  target.selectors = expectArray(value, `${path}.${address}`).map((entry) => {
+    const selector = expectString(entry, `${path}.${address}`);
+    if (SELECTOR_PATTERN.test(selector)) {
+      return selector.toLowerCase() as Hex;
+    }
+    if (selector.includes('(')) {
+      try {
+        return toFunctionSelector(selector);
+      } catch {
+        // fall through to the error below
+      }
+    }
+    throw new Error(
+      `Policy file: ${path}.${address} has "${selector}", which is neither a 4-byte selector nor a function signature.`
+    );
+  });
+  return target;
+}
+
+function expectObject(value: unknown, path: string): Record<string, unknown> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new Error(`Policy file: ${path} must be a mapping.`);
+  }
+  return value as Record<string, unknown>;
+}
+
+function expectArray(value: unknown, path: string): unknown[] {
+  if (!Array.isArray(value)) {
+    throw new Error(`Policy file: ${path} must be a list.`);
+  }
+  return value;
+}
+
+function expectString(value: unknown, path: string): string {
+  if (typeof value !== 'string' || value.trim() === '') {
+    throw new Error(`Policy file: ${path} must be a non-empty string.`);
+  }
+  return value.trim();
+}
+
+function expectAddress(value: unknown, path: string): Address {
+  const address = typeof value === 'string' ? value.trim() : '';
+  if (!ADDRESS_PATTERN.test(address)) {
+    throw new Error(`Policy file: invalid address "${String(value)}" at ${path}.`);
+  }
+  return address as Address;
+}
+
+interface YamlLine {
+  lineNumber: number;
+  indent: number;
+  text: string;
+}
+
+/**
+ * Parse the YAML subset described in the module comment
+ */
+function parseYamlSubset(text: string): PolicyValue {
+  const lines: YamlLine[] = [];
+  text.split(/\r?\n/).forEach((raw, i) => {
+    const content = stripComment(raw).trimEnd();
+    if (content.trim() === '' || content.trim() === '---') return;
+    if (/^\s*\t/.test(content)) {
+      throw new Error(`Policy file line ${i + 1}: tabs are not allowed for indentation.`);
+    }
+    lines.push({ lineNumber: i + 1, indent: content.search(/\S/), text: content.trim() });
+  });
+
+  let pos = 0;
+  const isSequenceItem = (line: YamlLine) => line.text === '-' || line.text.startsWith('- ');
+
+  function parseBlock(indent: number): PolicyValue {
+    return isSequenceItem(lines[pos]!) ? parseSequence(indent) : parseMapping(indent);
+  }
+
+  // A key with no inline value owns the more-indented block below it, or a
+  // sequence at the key's own indent ("key:\n- item" is common YAML).
+  function parseNested(indent: number, allowSameIndentSequence: boolean): PolicyValue {
+    const next = lines[pos];
+    if (next && next.indent > indent) return parseBlock(next.indent);
+    if (next && allowSameIndentSequence && next.indent === indent && isSequenceItem(next)) {
+      return parseSequence(indent);
+    }
+    return null;
+  }
+
+  function parseSequence(indent: number): PolicyValue[] {
+    const items: PolicyValue[] = [];
+    while (pos < lines.length && lines[pos]!.indent === indent && isSequenceItem(lines[pos]!)) {
+      const line = lines[pos]!;
+      const rest = line.text.slice(1).trim();
+      pos++;
+      if (rest === '') {
+        items.push(parseNested(indent, false));
+      } else if (splitMappingEntry(rest)) {
+        throw new Error(`Policy file line ${line.lineNumber}: lists of mappings are not supported.`);
+      } else {
+        items.push(parseScalar(rest, line.lineNumber));
+      }
+    }
+    return items;
+  }
+
+  function parseMapping(indent: number): { [key: string]: PolicyValue } {
+    const mapping: { [key: string]: PolicyValue } = {};
+    while (pos < lines.length && lines[pos]!.indent === indent) {
+      const line = lines[pos]!;
+      const entry = isSequenceItem(line) ? null : splitMappingEntry(line.text);
+      if (!entry) {
+        throw new Error(`Policy file line ${line.lineNumber}: expected "key: value".`);
+      }
+      if (Object.prototype.hasOwnProperty.call(mapping, entry.key)) {
+        throw new Error(`Policy file line ${line.lineNumber}: duplicate key "${entry.key}".`);
+      }
+      pos++;
+      mapping[entry.key] = entry.value === '' ? parseNested(indent, true) : parseScalar(entry.value, line.lineNumber);
+    }
+    return mapping;
+  }
+
+  if (lines.length === 0) {
+    throw new Error('Policy file is empty.');
+  }
+  const root = parseBlock(lines[0]!.indent);
+  const leftover = lines[pos];
+  if (leftover) {
+    throw new Error(`Policy file line ${leftover.lineNumber}: unexpected indentation.`);
+  }
+  return root;
+}
+
+/**
+ * Split "key: value" (value may be empty). Returns null if the text is not a mapping entry.
+ */
+function splitMappingEntry(text: string): { key: string; value: string } | null {
+  const match = /^("(?:[^"\\]|\\.)*"|'(?:[^']|'')*'|[^"'\s][^:]*?)\s*:(?:\s+(.*))?$/.exec(text);
+  if (!match) return null;
+  return { key: unquote(match[1]!), value: (match[2] ?? '').trim() };
+}
+
+function parseScalar(text: string, lineNumber: number): PolicyValue {
+  if (text.startsWith('[')) {
+    if (!text.endsWith(']')) {
+      throw new Error(`Policy file line ${lineNumber}: unterminated [list].`);
+    }
+    const inner = text.slice(1, -1).trim();
+    return inner === '' ? [] : splitFlowItems(inner).map((item) => parseScalar(item, lineNumber));
+  }
+  if (/^[{&*!|>]/.test(text)) {
+    throw new Error(`Policy file line ${lineNumber}: unsupported YAML syntax "${text}".`);
+  }
+  if (text === '~' || text === 'null') {
+    return null;
+  }
+  return unquote(text);
+}
+
+function splitFlowItems(text: string): string[] {
+  const items: string[] = [];
+  let current = '';
+  let quote: string | null = null;
+  for (const ch of text) {
+    if (quote) {
+      if (ch === quote) quote = null;
+    } else if ((ch === '"' || ch === "'") && current.trim() === '') {
+      quote = ch;
+    } else if (ch === ',') {
+      items.push(current.trim());
+      current = '';
+      continue;
+    }
+    current += ch;
+  }
+  items.push(current.trim());
+  return items;
+}
+
+function unquote(text: string): string {
+  if (text.length >= 2 && text.startsWith('"') && text.endsWith('"')) {
+    return JSON.parse(text) as string;
+  }
+  if (text.length >= 2 && text.startsWith("'") && text.endsWith("'")) {
+    return text.slice(1, -1).replace(/''/g, "'");
+  }
+  return text;
+}
+
+/**
+ * Drop a # comment, unless the # is inside quotes or part of a word
+ */
+function stripComment(line: string): string {
+  let quote: string | null = null;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i]!;
+    if (quote) {
+      if (ch === quote) quote = null;
+    } else if ((ch === '"' || ch === "'") && (i === 0 || /[\s[,:]/.test(line[i - 1]!))) {
+      quote = ch;
+    } else if (ch === '#' && (i === 0 || /\s/.test(line[i - 1]!))) {
+      return line.slice(0, i);
+    }
+  }
+  return line;
+}
@@ -0,0 +1,206 @@
+import { describe, it, expect } from 'vitest';
+import { encodeFunctionData, parseAbi, type Address } from 'viem';
+import {
+  createTransactionBuilderBatch,
+  encodeTransactionBuilderCall,
+  getMultiSendCallOnlyAddress,
+  parseTransactionBuilderFile,
+  transactionBuilderBatchToProposal,
+  transactionBuilderBatchToSafeTransaction,
+  verifyTransactionBuilderChecksum,
+  type TransactionBuilderBatch,
+} from './transaction-builder.js';
+import { MULTISEND_CALL_ONLY } from '../security/constants.js';
+import { parseMultiSend } from '../security/multisend-decoder.js';
+import { verifySafeTransaction } from '../verification/pipeline.js';
+
+const SAFE = '0xf65475e74C1Ed6d004d5240b06E3088724dFDA5d' as Address;
+const TOKEN = '0x6B175474E89094C44Da98b954EedeAC495271d0F' as Address;
+const RECIPIENT = '0x1234567890123456789012345678901234567890' as Address;
+
+const abi = parseAbi([
+  'function transfer(address to, uint256 amount) returns (bool)',
+  'function configure(bool enabled, uint256[] ids, (address target, uint96 weight) route)',
+]);
+
+const batch: TransactionBuilderBatch = {
+  version: '1.0',
+  chainId: '1',
+  createdAt: 1718000000000,
+  meta: { name: 'Payroll', description: '', createdFromSafeAddress: SAFE },
+  transactions: [
+    {
+      to: TOKEN,
+      value: '0',
+      data: null,
+      contractMethod: {
+        name: 'transfer',
+        payable: false,
+        inputs: [
+          { name: 'to', type: 'address', internalType: 'address' },
+          { name: 'amount', type: 'uint256', internalType: 'uint256' },
+        ],
+      },
+      contractInputsValues: { to: RECIPIENT, amount: '1000000000000000000' },
+    },
+    { to: RECIPIENT, value: '5', data: null, contractMethod: null, contractInputsValues: null },
+  ],
+};
+
+const target = { safeAddress: SAFE, version: '1.3.0', chainId: 1, nonce: 7 };
+
+describe('parseTransactionBuilderFile', () => {
+  it('should accept a Transaction Builder export', () => {
+    expect(parseTransactionBuilderFile(JSON.stringify(batch))).toEqual(batch);
+  });
+
+  it('should reject files it cannot turn into a transaction', () => {
+    expect(() => parseTransactionBuilderFile('{')).toThrow('not valid JSON');
+    expect(() => parseTransactionBuilderFile(JSON.stringify({ ...batch, transactions: [] }))).toThrow(
+      'transactions must be a non-empty list'
+    );
+    expect(() =>
+      parseTransactionBuilderFile(JSON.stringify({ ...batch, transactions: [{ to: '0x12', value: '0' }] }))
+    ).toThrow('transactions[0].to must be an address');
+    expect(() => parseTransactionBuilderFile(JSON.stringify({ ...batch, chainId: 1 }))).toThrow('chainId');
+  });
+});
+
+describe('encodeTransactionBuilderCall', () => {
+  it('should encode contractMethod with its input values, arrays and tuples included', () => {
+    const data = encodeTransactionBuilderCall({
+      to: TOKEN,
+      value: '0',
+      data: null,
+      contractMethod: {
+        name: 'configure',
+        payable: false,
+        inputs: [
+          { name: 'enabled', type: 'bool' },
+          { name: 'ids', type: 'uint256[]' },
+          {
+            name: 'route',
+            type: 'tuple',
+            components: [
+              { name: 'target', type: 'address' },
+              { name: 'weight', type: 'uint96' },
+            ],
+          },
+        ],
+      },
+      contractInputsValues: { enabled: 'true', ids: '[1, "2"]', route: `["${RECIPIENT}", "3"]` },
+    });
+
+    expect(data).toBe(
+      encodeFunctionData({
+        abi,
+        functionName: 'configure',
+        args: [true, [1n, 2n], { target: RECIPIENT, weight: 3n }],
+      })
+    );
+  });
+
+  it('should name the input that does not fit its type', () => {
+    const tx = { ...batch.transactions[0]!, contractInputsValues: { to: RECIPIENT, amount: 'lots' } };
+
+    expect(() => encodeTransactionBuilderCall(tx)).toThrow('Cannot encode transfer()');
+    expect(() => encodeTransactionBuilderCall(tx)).toThrow('amount must be an integer');
+  });
+});
+
+describe('transactionBuilderBatchToSafeTransaction', () => {
+  it('should batch every call into MultiSendCallOnly', () => {
+    const txData = transactionBuilderBatchToSafeTransaction(batch, target);
+
+    expect(txData).toMatchObject({ to: MULTISEND_CALL_ONLY[0], operation: 1, value: '0', nonce: '7' });
+    expect(
+      parseMultiSend(txData.data)!.calls.map(({ operation, to, value, data }) => [operation, to, value, data])
+    ).toEqual([
+      [
+        0,
+        TOKEN.toLowerCase(),
+        0n,
+        encodeFunctionData({ abi, functionName: 'transfer', args: [RECIPIENT, 10n ** 18n] }),
+      ],
+      [0, RECIPIENT, 5n, '0x'],
+    ]);
+  });
+
+  it('should refuse a batch built for another chain', () => {
+    expect(() => transactionBuilderBatchToSafeTransaction(batch, { ...target, chainId: 8453 })).toThrow(
+      'Transaction Builder batch is for chain 1, not chain 8453.'
+    );
+  });
+});
+
+describe('getMultiSendCallOnlyAddress', () => {
+  it('should pick the deployment matching the Safe version', () => {
+    const addresses = ['1.1.1', '1.3.0+L2', '1.4.1', '1.5.0'].map((version) => getMultiSendCallOnlyAddress(version, 1));
+
+    expect(new Set(addresses).size).toBe(3);
+    expect(
+      [...addresses, getMultiSendCallOnlyAddress('1.4.1', 324)].every((a) => MULTISEND_CALL_ONLY.includes(a))
+    ).toBe(true);
+  });
+});
+
+describe('transactionBuilderBatchToProposal', () => {
+  it('should run through the verification pipeline with each call re-encode checked', async () => {
+    const report = await verifySafeTransaction(transactionBuilderBatchToProposal(batch, target), '1.3.0', 'ethereum');
+
+    expect(report.verdict).toMatchObject({ hashMatch: true, decodeMismatch: false });
+    expect(report.multiSend!.outerVerification!.verified).toBe(true);
+    expect(report.multiSend!.calls[0]!.verification!.verified).toBe(true);
+    expect(report.multiSend!.calls[0]!.apiDecoded!.method).toBe('transfer');
+  });
+
+  it('should flag raw data that contradicts the batch method and values', async () => {
+    const tampered: TransactionBuilderBatch = {
+      ...batch,
+      transactions: [
+        {
+          ...batch.transactions[0]!,
+          data: encodeFunctionData({ abi, functionName: 'transfer', args: [SAFE, 10n ** 18n] }),
+        },
+      ],
+    };
+    const report = await verifySafeTransaction(
+      transactionBuilderBatchToProposal(tampered, target),
+      '1.3.0',
+      'ethereum'
+    );
+
+    expect(report.verdict.decodeMismatch).toBe(true);
+  });
+});
+
+describe('createTransactionBuilderBatch', () => {
+  it('should export a batch that imports back to the same transaction', () => {
+    const txData = transactionBuilderBatchToSafeTransaction(batch, target);
+    const exported = createTransactionBuilderBatch(txData, { chainId: 1, safeAddress: SAFE, createdAt: 1 });
+
+    expect(exported.transactions).toHaveLength(2);
+    expect(verifyTransactionBuilderChecksum(exported)).toBe(true);
+    expect(transactionBuilderBatchToSafeTransaction(exported, target)).toEqual(txData);
+  });
+
+  it('should catch a batch edited after export', () => {
+    const exported = createTransactionBuilderBatch(transactionBuilderBatchToSafeTransaction(batch, target), {
+      chainId: 1,
+      safeAddress: SAFE,
+    });
+    const edited = { ...exported, transactions: [{ ...exported.transactions[0]!, to: SAFE }] };
+
+    expect(verifyTransactionBuilderChecksum(edited)).toBe(false);
+    expect(verifyTransactionBuilderChecksum({ ...exported, meta: { ...exported.meta, name: 'Renamed' } })).toBe(true);
+    expect(verifyTransactionBuilderChecksum(batch)).toBeNull();
+  });
+
+  it('should refuse delegatecalls, which the Transaction Builder cannot make', () => {
+    const txData = { ...transactionBuilderBatchToSafeTransaction(batch, target), data: '0x1234' as const };
+
+    expect(() => createTransactionBuilderBatch(txData, { chainId: 1, safeAddress: SAFE })).toThrow(
+      'Cannot export a delegatecall'
+    );
+  });
+});
@@ -0,0 +1,539 @@
+/**
+ * Safe Transaction Builder batch files.
+ *
+ * The Transaction Builder app exports a batch as JSON:
+ *
+ *   {
+ *     "version": "1.0",
+ *     "chainId": "1",
+ *     "createdAt": 1718000000000,
+ *     "meta": { "name": "...", "createdFromSafeAddress": "0x...", "checksum": "0x..." },
+ *     "transactions": [
+ *       { "to": "0x...", "value": "0", "data": null,
+ *         "contractMethod": { "name": "file", "inputs": [...], "payable": false },
+ *         "contractInputsValues": { "what": "0x...", "data": "42" } }
+ *     ]
+ *   }
+ *
+ * Each transaction carries either raw `data` or a method and its input values
+ * (arrays and tuples as JSON strings). Proposed, the batch becomes one
+ * delegatecall to MultiSendCallOnly. Reading it here gives that transaction
+ * before it is proposed, so it can run through the same decoders, re-encode
+ * checks and security analysis as a proposed one.
+ *
+ * `meta.checksum` follows the Transaction Builder's own algorithm, so a batch
+ * edited by hand after export shows up as a checksum mismatch.
+ */
+
+import {
+  concat,
+  encodeFunctionData,
+  encodePacked,
+  keccak256,
+  parseAbi,
+  size,
+  stringToHex,
+  type Abi,
+  type Address,
+  type Hex,
+} from 'viem';
+import { calculateSafeTxHash } from '../hash/calculator.js';
+import { getVersion, isVersionLte } from '../hash/version.js';
+import { parseMultiSend } from '../security/multisend-decoder.js';
+import { ZKSYNC_CHAIN_IDS } from '../security/deployments.js';
+import { ZERO_ADDRESS } from '../security/constants.js';
+import { Operation } from '../types.js';
+import type { SafeApiDataDecoded, SafeApiMultisigTransaction, SafeTransactionData } from '../types.js';
+
+export interface TransactionBuilderInput {
+  name: string;
+  type: string;
+  internalType?: string;
+  components?: TransactionBuilderInput[];
+}
+
+export interface TransactionBuilderContractMethod {
+  name: string;
+  inputs: TransactionBuilderInput[];
+  payable: boolean;
+}
+
+export interface TransactionBuilderTransaction {
+  to: Address;
+  /** Native value in wei, as a decimal string */
+  value: string;
+  /** Raw calldata; null when the call is given as contractMethod and contractInputsValues */
+  data: Hex | null;
+  contractMethod?: TransactionBuilderContractMethod | null;
+  /** Input values by name; arrays and tuples as JSON strings */
+  contractInputsValues?: Record<string, string> | null;
+}
+
+export interface TransactionBuilderMeta {
+  name?: string;
+  description?: string;
+  txBuilderVersion?: string;
+  createdFromSafeAddress?: string;
+  createdFromOwnerAddress?: string;
+  checksum?: string;
+}
+
+export interface TransactionBuilderBatch {
+  version: string;
+  chainId: string;
+  createdAt?: number;
+  meta: TransactionBuilderMeta;
+  transactions: TransactionBuilderTransaction[];
+}
+
+/**
+ * Where a batch is for: the Safe, its version and chain, and the nonce it takes
+ */
+export interface TransactionBuilderTarget {
+  safeAddress: Address;
+  version: string;
+  chainId: number;
+  nonce: number;
+}
+
+const ADDRESS_PATTERN = /^0x[a-fA-F0-9]{40}$/;
+const HEX_PATTERN = /^0x([0-9a-fA-F]{2})*$/;
+const WEI_PATTERN = /^[0-9]+$/;
+const ARRAY_TYPE = /^(.*)\[(\d*)\]$/;
+
+const MULTISEND_ABI = parseAbi(['function multiSend(bytes transactions) payable']);
+
+/**
+ * Parse a Transaction Builder batch file
+ *
+ * The batch is returned as read, so its checksum can still be checked.
+ *
+ * @throws {Error} on malformed JSON, a missing field, or an invalid address, value or calldata
+ */
+export function parseTransactionBuilderFile(text: string): TransactionBuilderBatch {
+  let root: unknown;
+  try {
+    root = JSON.parse(text.replace(/^﻿/, ''));
+  } catch (error) {
+    throw new Error(
+      `Transaction Builder file is not valid JSON: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  const batch = expectObject(root, 'file');
+  expectString(batch.version, 'version');
+  if (typeof batch.chainId !== 'string' || !WEI_PATTERN.test(batch.chainId)) {
+    throw new Error('Transaction Builder file: chainId must be a chain ID as a string, e.g. "1".');
+  }
+  expectObject(batch.meta, 'meta');
+  const transactions = batch.transactions;
+  if (!Array.isArray(transactions) || transactions.length === 0) {
+    throw new Error('Transaction Builder file: transactions must be a non-empty list.');
+  }
+  transactions.forEach((entry, i) => parseTransaction(entry, `transactions[${i}]`));
+  return root as TransactionBuilderBatch;
+}
+
+function parseTransaction(value: unknown, path: string): void {
+  const tx = expectObject(value, path);
+  if (typeof tx.to !== 'string' || !ADDRESS_PATTERN.test(tx.to)) {
+    throw new Error(`Transaction Builder file: ${path}.to must be an address.`);
+  }
+  if (typeof tx.value !== 'string' || !WEI_PATTERN.test(tx.value)) {
+    throw new Error(`Transaction Builder file: ${path}.value must be a whole number of wei as a string.`);
+  }
+  if (tx.data !== null && tx.data !== undefined && (typeof tx.data !== 'string' || !HEX_PATTERN.test(tx.data))) {
+    throw new Error(`Transaction Builder file: ${path}.data must be hex calldata or null.`);
+  }
+  if (tx.contractMethod !== null && tx.contractMethod !== undefined) {
+    const method = expectObject(tx.contractMethod, `${path}.contractMethod`);
+    expectString(method.name, `${path}.contractMethod.name`);
+    if (!Array.isArray(method.inputs)) {
+      throw new Error(`Transaction Builder file: ${path}.contractMethod.inputs must be a list.`);
+    }
+    if (tx.contractInputsValues !== null && tx.contractInputsValues !== undefined) {
+      expectObject(tx.contractInputsValues, `${path}.contractInputsValues`);
+    }
+  }
+}
+
+function expectObject(value: unknown, path: string): Record<string, unknown> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new Error(`Transaction Builder file: ${path} must be an object.`);
+  }
+  return value as Record<string, unknown>;
+}
+
+function expectString(value: unknown, path: string): string {
+  if (typeof value !== 'string' || value.trim() === '') {
+    throw new Error(`Transaction Builder file: ${path} must be a non-empty string.`);
+  }
+  return value;
+}
+
+/**
+ * The Transaction Builder's serialization for checksums: keys sorted, and
+ * the key list written out ahead of the values
+ */
+function serializeForChecksum(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(serializeForChecksum).join(',')}]`;
+  }
+  if (typeof value === 'object' && value !== null) {
+    const record = value as Record<string, unknown>;
+    const keys = Object.keys(record).sort();
+    return `{${JSON.stringify(keys)}${keys.map((key) => `${serializeForChecksum(record[key])},`).join('')}}`;
+  }
+  return JSON.stringify(value === undefined ? null : value);
+}
+
+/**
+ * Calculate a batch's checksum as the Transaction Builder does: over the
+ * whole batch with `meta.name` nulled and `meta.checksum` left out
+ */
+export function calculateTransactionBuilderChecksum(batch: TransactionBuilderBatch): Hex {
+  const { checksum: _checksum, ...meta } = batch.meta;
+  return keccak256(stringToHex(serializeForChecksum({ ...batch, meta: { ...meta, name: null } })));
+}
+
+/**
+ * Check a batch's `meta.checksum`
+ *
+ * @returns true if it matches, false if the batch changed after export, null if it has none
+ */
+export function verifyTransactionBuilderChecksum(batch: TransactionBuilderBatch): boolean | null {
+  if (!batch.meta.checksum) {
+    return null;
+  }
+  return calculateTransactionBuilderChecksum(batch).toLowerCase() === batch.meta.checksum.toLowerCase();
+}
+
+/**
+ * The MultiSendCallOnly deployment a Safe batches with: its own version's,
+ * or v1.3.0's for older Safes
+ *
+ * @param version - Safe version
+ * @param chainId - Chain ID, for zkSync's separate deployments
+ */
+export function getMultiSendCallOnlyAddress(version: string, chainId?: number): Address {
+  const v = getVersion(version);
+  if (chainId !== undefined && ZKSYNC_CHAIN_IDS.includes(chainId)) {
+    return isVersionLte(v, '1.3.0')
+      ? '0xf220D3b4DFb23C4ade8C88E526C1353AbAcbC38F'
+      : '0x0408EF011960d02349d50286D20531229BCef773';
+  }
+  if (isVersionLte(v, '1.3.0')) {
+    return '0x40A2aCCbd92BCA938b02010E17A5b8929b49130D';
+  }
+  return isVersionLte(v, '1.4.1')
+    ? '0x9641d764fc13c8B624c04430C7356C1C7C8102e2'
+    : '0xA83c336B20401Af773B6219BA5027174338D1836';
+}
+
+/**
+ * Flattened canonical type, e.g. `(address,uint256)[]` for a tuple array
+ */
+function canonicalType(input: TransactionBuilderInput): string {
+  if (input.type.startsWith('tuple')) {
+    return `(${(input.components ?? []).map(canonicalType).join(',')})${input.type.slice('tuple'.length)}`;
+  }
+  return input.type;
+}
+
+function parseJsonValue(value: unknown, path: string): unknown {
+  if (typeof value !== 'string') {
+    return value;
+  }
+  try {
+    return JSON.parse(value);
+  } catch {
+    throw new Error(`${path} must be a JSON list (got "${value}").`);
+  }
+}
+
+/**
+ * Convert a Transaction Builder input value to what viem's encoder expects
+ */
+function coerceInputValue(input: TransactionBuilderInput, value: unknown, path: string): unknown {
+  const array = ARRAY_TYPE.exec(input.type);
+  if (array) {
+    const items = parseJsonValue(value, path);
+    if (!Array.isArray(items)) {
+      throw new Error(`${path} must be a list.`);
+    }
+    const element = { ...input, type: array[1]! };
+    return items.map((item, i) => coerceInputValue(element, item, `${path}[${i}]`));
+  }
+  if (input.type === 'tuple') {
+    const items = parseJsonValue(value, path);
+    const components = input.components ?? [];
+    if (Array.isArray(items)) {
+      return components.map((component, i) => coerceInputValue(component, items[i], `${path}.${component.name}`));
+    }
+    if (typeof items === 'object' && items !== null) {
+      const record = items as Record<string, unknown>;
+      return components.map((component) =>
+        coerceInputValue(component, record[component.name], `${path}.${component.name}`)
+      );
+    }
+    throw new Error(`${path} must be a list of the tuple's components.`);
+  }
+  if (value === undefined || value === null) {
+    throw new Error(`${path} has no value.`);
+  }
+  if (/^u?int\d*$/.test(input.type)) {
+    try {
+      return BigInt(String(value).trim());
+    } catch {
+      throw new Error(`${path} must be an integer (got "${String(value)}").`);
+    }
+  }
+  if (input.type === 'bool') {
+    const flag = String(value).trim().toLowerCase();
+    if (flag !== 'true' && flag !== 'false') {
+      throw new Error(`${path} must be true or false (got "${String(value)}").`);
+    }
+    return flag === 'true';
+  }
+  // address, string, bytes, bytesN
+  return value;
+}
+
+/**
+ * Calldata of one Transaction Builder transaction: its `data` when given,
+ * otherwise `contractMethod` encoded with `contractInputsValues`
+ *
+ * @throws {Error} if an input value is missing or does not fit its type
+ */
+export function encodeTransactionBuilderCall(tx: TransactionBuilderTransaction): Hex {
+  if (tx.data) {
+    return tx.data;
+  }
+  if (!tx.contractMethod) {
+    return '0x';
+  }
+  const { name, inputs, payable } = tx.contractMethod;
+  const values = tx.contractInputsValues ?? {};
+  const abi = [
+    { type: 'function', name, inputs, outputs: [], stateMutability: payable ? 'payable' : 'nonpayable' },
+  ] as Abi;
+  try {
+    const args = inputs.map((input) => coerceInputValue(input, values[input.name], input.name));
+    return encodeFunctionData({ abi, functionName: name, args });
+  } catch (error) {
+    throw new Error(`Cannot encode ${name}() for ${tx.to}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * The method and input values a Transaction Builder transaction claims, in
+ * the Safe API's decoding format, so the re-encode check can hold the
+ * calldata to them
+ */
+function builderDecoding(tx: TransactionBuilderTransaction): SafeApiDataDecoded | null {
+  if (!tx.contractMethod) {
+    return null;
+  }
+  const values = tx.contractInputsValues ?? {};
+  return {
+    method: tx.contractMethod.name,
+    parameters: tx.contractMethod.inputs.map((input) => ({
+      name: input.name,
+      type: canonicalType(input),
+      value: values[input.name] ?? '',
+    })),
+  };
+}
+
+/**
+ * Pack a batch's calls in MultiSend's format:
+ * [uint8 operation][address to][uint256 value][uint256 dataLength][bytes data]
+ */
+function packTransactions(transactions: TransactionBuilderTransaction[]): Hex {
+  return concat(
+    transactions.map((tx) => {
+      const data = encodeTransactionBuilderCall(tx);
+      return encodePacked(
+        ['uint8', 'address', 'uint256', 'uint256', 'bytes'],
+        [Operation.Call, tx.to, BigInt(tx.value), BigInt(size(data)), data]
+      );
+    })
+  );
+}
+
+/**
+ * Turn a Transaction Builder batch into the Safe transaction proposing it
+ * creates: a delegatecall to MultiSendCallOnly with every call packed into
+ * multiSend(bytes). Gas and refund fields are zero, as the Transaction
+ * Builder leaves them.
+ *
+ * @param batch - Parsed batch (see parseTransactionBuilderFile)
+ * @param target - Safe version, chain and nonce
+ * @returns SafeTransactionData for hashing and analysis
+ * @throws {Error} if the batch is for another chain, or a call cannot be encoded
+ *
+ * @example
+ * const batch = parseTransactionBuilderFile(readFileSync('batch.json', 'utf-8'));
+ * const txData = transactionBuilderBatchToSafeTransaction(batch, { version: '1.3.0', chainId: 1, nonce: 42 });
+ * const analysis = analyzeSecurity(txData, { network: 'ethereum' });
+ */
+export function transactionBuilderBatchToSafeTransaction(
+  batch: TransactionBuilderBatch,
+  target: Pick<TransactionBuilderTarget, 'version' | 'chainId' | 'nonce'>
+): SafeTransactionData {
+  if (batch.chainId !== String(target.chainId)) {
+    throw new Error(`Transaction Builder batch is for chain ${batch.chainId}, not chain ${target.chainId}.`);
+  }
+  return {
+    to: getMultiSendCallOnlyAddress(target.version, target.chainId),
+    value: '0',
+    data: encodeFunctionData({
+      abi: MULTISEND_ABI,
+      functionName: 'multiSend',
+      args: [packTransactions(batch.transactions)],
+    }),
+    operation: Operation.DelegateCall,
+    safeTxGas: '0',
+    baseGas: '0',
+    gasPrice: '0',
+    gasToken: ZERO_ADDRESS,
+    refundReceiver: ZERO_ADDRESS,
+    nonce: String(target.nonce),
+  };
+}
+
+/**
+ * Turn a Transaction Builder batch into a not yet proposed transaction in the
+ * Safe API's format, for verifySafeTransaction
+ *
+ * Its decoding is the batch's own: each call's contractMethod and input
+ * values, so the re-encode check holds the calldata to what the batch claims.
+ * There is no proposal to compare with, so `safeTxHash` is the hash
+ * calculated here: the one a signer should see on their device once the
+ * batch is proposed. Nobody has proposed or signed it.
+ *
+ * @param batch - Parsed batch (see parseTransactionBuilderFile)
+ * @param target - Safe, version, chain and nonce
+ * @throws {Error} if the batch is for another chain, or a call cannot be encoded
+ */
+export function transactionBuilderBatchToProposal(
+  batch: TransactionBuilderBatch,
+  target: TransactionBuilderTarget
+): SafeApiMultisigTransaction {
+  const txData = transactionBuilderBatchToSafeTransaction(batch, target);
+  const { safeTxHash } = calculateSafeTxHash(target.chainId, target.safeAddress, txData, target.version);
+
+  return {
+    safe: target.safeAddress,
+    to: txData.to,
+    value: '0',
+    data: txData.data,
+    operation: Operation.DelegateCall,
+    gasToken: ZERO_ADDRESS,
+    safeTxGas: 0,
+    baseGas: 0,
+    gasPrice: '0',
+    refundReceiver: ZERO_ADDRESS,
+    nonce: target.nonce,
+    executionDate: null,
+    submissionDate: batch.createdAt ? new Date(batch.createdAt).toISOString() : new Date().toISOString(),
+    modified: new Date().toISOString(),
+    blockNumber: null,
+    transactionHash: null,
+    safeTxHash,
+    executor: null,
+    proposer: null,
+    proposedByDelegate: null,
+    isExecuted: false,
+    isSuccessful: null,
+    ethGasPrice: null,
+    maxFeePerGas: null,
+    maxPriorityFeePerGas: null,
+    gasUsed: null,
+    fee: null,
+    origin: batch.meta.name ?? null,
+    dataDecoded: {
+      method: 'multiSend',
+      parameters: [
+        {
+          name: 'transactions',
+          type: 'bytes',
+          value: packTransactions(batch.transactions),
+          valueDecoded: batch.transactions.map((tx) => ({
+            operation: Operation.Call,
+            to: tx.to,
+            value: tx.value,
+            data: encodeTransactionBuilderCall(tx),
+            dataDecoded: builderDecoding(tx),
+          })),
+        },
+      ],
+    },
+    confirmationsRequired: 0,
+    confirmations: [],
+    trusted: false,
+    signatures: null,
+  };
+}
+
+/**
+ * Export a Safe transaction as a Transaction Builder batch, with a checksum
+ *
+ * A MultiSend batch becomes one entry per call; any other transaction a
+ * single entry. Calls carry raw `data`: the Transaction Builder shows it
+ * as-is. The Transaction Builder only makes plain calls, so a transaction
+ * with a delegatecall anywhere but into MultiSend cannot be exported.
+ *
+ * @param txData - Transaction to export
+ * @param source - Chain and Safe, plus an optional name and description
+ * @throws {Error} on a delegatecall that is not a MultiSend batch, a call inside it, or a malformed batch
+ */
+export function createTransactionBuilderBatch(
+  txData: SafeTransactionData,
+  source: { chainId: number; safeAddress: Address; name?: string; description?: string; createdAt?: number }
+): TransactionBuilderBatch {
+  let transactions: TransactionBuilderTransaction[];
+  const parsed = txData.operation === Operation.DelegateCall ? parseMultiSend(txData.data, { maxDepth: 1 }) : null;
+  if (parsed) {
+    if (parsed.errors.length > 0) {
+      throw new Error(`Cannot export a malformed MultiSend batch: ${parsed.errors[0]!.message}`);
+    }
+    if (parsed.calls.some((call) => call.operation !== Operation.Call)) {
+      throw new Error('Cannot export a batch with a delegatecall: the Transaction Builder only makes calls.');
+    }
+    transactions = parsed.calls.map((call) => ({
+      to: call.to,
+      value: call.value.toString(),
+      data: call.data,
+      contractMethod: null,
+      contractInputsValues: null,
+    }));
+  } else if (txData.operation === Operation.Call) {
+    transactions = [
+      {
+        to: txData.to,
+        value: BigInt(txData.value).toString(),
+        data: txData.data,
+        contractMethod: null,
+        contractInputsValues: null,
+      },
+    ];
+  } else {
+    throw new Error('Cannot export a delegatecall: the Transaction Builder only makes calls.');
+  }
+
+  const batch: TransactionBuilderBatch = {
+    version: '1.0',
+    chainId: String(source.chainId),
+    createdAt: source.createdAt ?? Date.now(),
+    meta: {
+      name: source.name ?? 'Transactions Batch',
+      description: source.description ?? '',
+      txBuilderVersion: '1.18.0',
+      createdFromSafeAddress: source.safeAddress,
+      createdFromOwnerAddress: '',
+    },
+    transactions,
+  };
+  return { ...batch, meta: { ...batch.meta, checksum: calculateTransactionBuilderChecksum(batch) } };
+}
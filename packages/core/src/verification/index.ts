@@ -0,0 +1,16 @@
+/**
+ * Verification pipeline module
+ *
+ * One entry point that runs every check on a Safe API transaction and
+ * returns a report for the CLI and UI to render.
+ */
+
+export { verifySafeTransaction, toSafeTransactionData } from './pipeline.js';
+
+export type {
+  VerifySafeTransactionOptions,
+  VerificationReport,
+  VerificationVerdict,
+  MultiSendVerification,
+  MultiSendCallVerification,
+} from './types.js';
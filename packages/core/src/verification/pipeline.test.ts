@@ -0,0 +1,272 @@
+/**
+ * Tests for the shared verification pipeline
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { concat, encodeFunctionData, erc20Abi, pad, toHex, type Address, type Hex } from 'viem';
+import { toSafeTransactionData, verifySafeTransaction } from './pipeline.js';
+import { DecoderRegistry } from '../decoders/registry.js';
+import { loadAddressBookCsv } from '../utils/address-book.js';
+import { clearAddressBookTags } from '../utils/address-tags.js';
+import type { SafeApiDataDecoded, SafeApiMultisigTransaction } from '../types.js';
+
+const SAFE = '0xf65475e74C1Ed6d004d5240b06E3088724dFDA5d' as Address;
+const LOCKSTAKE_ENGINE = '0xCe01C90dE7FD1bcFa39e237FE6D8D9F569e8A6a3' as Address;
+const USDT = '0xdAC17F958D2ee523a2206206994597C13D831ec7' as Address;
+const STRANGER = '0x1234567890123456789012345678901234567890' as Address;
+const MULTISEND_CALL_ONLY = '0x40A2aCCbd92BCA938b02010E17A5b8929b49130D' as Address;
+const ZERO = '0x0000000000000000000000000000000000000000' as Address;
+
+// Real transaction from SAFE, nonce 434 (see hash/calculator.test.ts)
+const NONCE_434_DATA =
+  '0xac9650d800000000000000000000000000000000000000000000000000000000000000200000000000000000000000000000000000000000000000000000000000000001000000000000000000000000000000000000000000000000000000000000002000000000000000000000000000000000000000000000000000000000000000846c3dead4000000000000000000000000f65475e74c1ed6d004d5240b06e3088724dfda5d00000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000002caaf1dd9f3a1ff6000000000000000000000000000000000000000000000000000000000000000000000100000000000000000000000000000000000000000000000000000000' as Hex;
+const NONCE_434_HASH = '0x57f5c1a8390932d29f5aa6e321a2e689c483a728fa5bccfc4ac7becb91239801';
+
+function apiTx(overrides: Partial<SafeApiMultisigTransaction> = {}): SafeApiMultisigTransaction {
+  return {
+    safe: SAFE,
+    to: LOCKSTAKE_ENGINE,
+    value: '0',
+    data: NONCE_434_DATA,
+    operation: 0,
+    gasToken: ZERO,
+    safeTxGas: 0,
+    baseGas: 0,
+    gasPrice: '0',
+    refundReceiver: ZERO,
+    nonce: 434,
+    executionDate: null,
+    submissionDate: '2026-01-01T00:00:00Z',
+    modified: '2026-01-01T00:00:00Z',
+    blockNumber: null,
+    transactionHash: null,
+    safeTxHash: NONCE_434_HASH,
+    proposer: null,
+    executor: null,
+    isExecuted: false,
+    isSuccessful: null,
+    ethGasPrice: null,
+    maxFeePerGas: null,
+    maxPriorityFeePerGas: null,
+    gasUsed: null,
+    fee: null,
+    origin: null,
+    dataDecoded: null,
+    confirmationsRequired: 1,
+    confirmations: [],
+    trusted: true,
+    signatures: null,
+    ...overrides,
+  } as SafeApiMultisigTransaction;
+}
+
+function transferDecoded(to: Address, amount: string): SafeApiDataDecoded {
+  return {
+    method: 'transfer',
+    parameters: [
+      { name: 'to', type: 'address', value: to },
+      { name: 'value', type: 'uint256', value: amount },
+    ],
+  };
+}
+
+function transferData(to: Address, amount: bigint): Hex {
+  return encodeFunctionData({ abi: erc20Abi, functionName: 'transfer', args: [to, amount] });
+}
+
+function multiSendData(calls: Array<{ to: Address; data: Hex }>): Hex {
+  const packed = concat(
+    calls.map((call) =>
+      concat([
+        toHex(0, { size: 1 }),
+        call.to,
+        pad(toHex(0n)),
+        pad(toHex(BigInt((call.data.length - 2) / 2))),
+        call.data,
+      ])
+    )
+  );
+  return encodeFunctionData({
+    abi: [
+      {
+        name: 'multiSend',
+        type: 'function',
+        inputs: [{ name: 'transactions', type: 'bytes' }],
+        outputs: [],
+        stateMutability: 'payable',
+      },
+    ],
+    functionName: 'multiSend',
+    args: [packed],
+  });
+}
+
+beforeEach(() => {
+  clearAddressBookTags();
+});
+
+describe('toSafeTransactionData', () => {
+  it('should stringify gas fields and default null data to 0x', () => {
+    const txData = toSafeTransactionData(apiTx({ data: null, safeTxGas: 5, baseGas: 7, nonce: 9 }));
+
+    expect(txData.data).toBe('0x');
+    expect(txData.safeTxGas).toBe('5');
+    expect(txData.baseGas).toBe('7');
+    expect(txData.nonce).toBe('9');
+  });
+});
+
+describe('verifySafeTransaction', () => {
+  it('should reproduce the API hash for a real transaction', async () => {
+    const report = await verifySafeTransaction(apiTx(), '1.3.0', 'ethereum', { registry: new DecoderRegistry() });
+
+    expect(report.chainId).toBe(1);
+    expect(report.safeAddress).toBe(SAFE);
+    expect(report.hashes?.safeTxHash.toLowerCase()).toBe(NONCE_434_HASH);
+    expect(report.hashError).toBeNull();
+    expect(report.verdict).toEqual({ hashMatch: true, decodeMismatch: false, highRisk: false });
+    expect(report.hashDiagnosis).toBeNull();
+  });
+
+  it('should hash against the queried Safe, not the one the API names', async () => {
+    const report = await verifySafeTransaction(apiTx(), '1.3.0', 'ethereum', {
+      safeAddress: STRANGER,
+      registry: new DecoderRegistry(),
+    });
+
+    expect(report.verdict.hashMatch).toBe(false);
+    expect(report.hashDiagnosis?.matches.map((match) => match.kind)).toEqual(['safe-address']);
+  });
+
+  it('should report hash calculation failures instead of throwing', async () => {
+    const report = await verifySafeTransaction(apiTx(), 'not-a-version', 'ethereum', {
+      registry: new DecoderRegistry(),
+    });
+
+    expect(report.hashes).toBeNull();
+    expect(report.hashError).toBeTruthy();
+    expect(report.verdict.hashMatch).toBe(false);
+  });
+
+  it('should ignore the Safe API fallback sentinel', async () => {
+    const report = await verifySafeTransaction(
+      apiTx({ dataDecoded: { method: 'fallback', parameters: [] } }),
+      '1.3.0',
+      'ethereum',
+      { registry: new DecoderRegistry() }
+    );
+
+    expect(report.apiDecoded).toBeNull();
+    expect(report.apiDecodedVerification).toBeNull();
+    expect(report.verdict.decodeMismatch).toBe(false);
+  });
+
+  it('should flag an API decoding that does not match the calldata', async () => {
+    const report = await verifySafeTransaction(
+      apiTx({ to: USDT, data: transferData(SAFE, 100n), dataDecoded: transferDecoded(STRANGER, '100') }),
+      '1.3.0',
+      'ethereum',
+      { registry: new DecoderRegistry() }
+    );
+
+    expect(report.apiDecodedVerification?.status).toBe('mismatch');
+    expect(report.verdict.decodeMismatch).toBe(true);
+  });
+
+  it('should unpack MultiSend calls and check each decoding', async () => {
+    const calls = [
+      { to: USDT, data: transferData(SAFE, 1n) },
+      { to: USDT, data: transferData(SAFE, 2n) },
+    ];
+    const data = multiSendData(calls);
+    const dataDecoded: SafeApiDataDecoded = {
+      method: 'multiSend',
+      parameters: [
+        {
+          name: 'transactions',
+          type: 'bytes',
+          value: '0x',
+          valueDecoded: [
+            { operation: 0, to: USDT, value: '0', data: calls[0]!.data, dataDecoded: transferDecoded(SAFE, '1') },
+            // Lies about the amount
+            { operation: 0, to: USDT, value: '0', data: calls[1]!.data, dataDecoded: transferDecoded(SAFE, '999') },
+          ],
+        },
+      ],
+    };
+
+    const report = await verifySafeTransaction(
+      apiTx({ to: MULTISEND_CALL_ONLY, data, dataDecoded }),
+      '1.3.0',
+      'ethereum',
+      { registry: new DecoderRegistry() }
+    );
+
+    expect(report.multiSend?.calls).toHaveLength(2);
+    expect(report.multiSend?.calls?.[0]!.verification?.status).toBe('verified');
+    expect(report.multiSend?.calls?.[1]!.verification?.status).toBe('mismatch');
+    expect(report.verdict.decodeMismatch).toBe(true);
+  });
+
+  it('should unpack nested MultiSend batches and pair them with the nested API decoding', async () => {
+    const transfer = transferData(SAFE, 1n);
+    const inner = multiSendData([{ to: USDT, data: transfer }]);
+    const data = multiSendData([{ to: MULTISEND_CALL_ONLY, data: inner }]);
+    const innerDecoded: SafeApiDataDecoded = {
+      method: 'multiSend',
+      parameters: [
+        {
+          name: 'transactions',
+          type: 'bytes',
+          value: '0x',
+          valueDecoded: [
+            { operation: 0, to: USDT, value: '0', data: transfer, dataDecoded: transferDecoded(SAFE, '1') },
+          ],
+        },
+      ],
+    };
+    const dataDecoded: SafeApiDataDecoded = {
+      method: 'multiSend',
+      parameters: [
+        {
+          name: 'transactions',
+          type: 'bytes',
+          value: '0x',
+          valueDecoded: [{ operation: 0, to: MULTISEND_CALL_ONLY, value: '0', data: inner, dataDecoded: innerDecoded }],
+        },
+      ],
+    };
+
+    const report = await verifySafeTransaction(
+      apiTx({ to: MULTISEND_CALL_ONLY, data, dataDecoded }),
+      '1.3.0',
+      'ethereum',
+      { registry: new DecoderRegistry() }
+    );
+
+    expect(report.multiSend?.calls?.map((call) => call.path)).toEqual([[0], [0, 0]]);
+    expect(report.multiSend?.calls?.[1]!.verification?.status).toBe('verified');
+    expect(report.security.multiSend).toMatchObject({ callCount: 2, maxDepth: 2, errors: [] });
+  });
+
+  it('should check decoded parameters against the address book, treating the Safe as known', async () => {
+    loadAddressBookCsv(['address,label,verification_date,status', `${USDT},Tether USD,2026-05-01,active`].join('\n'));
+
+    const toStranger = await verifySafeTransaction(
+      apiTx({ to: USDT, data: transferData(STRANGER, 1n), dataDecoded: transferDecoded(STRANGER, '1') }),
+      '1.3.0',
+      'ethereum',
+      { registry: new DecoderRegistry() }
+    );
+    const toSelf = await verifySafeTransaction(
+      apiTx({ to: USDT, data: transferData(SAFE, 1n), dataDecoded: transferDecoded(SAFE, '1') }),
+      '1.3.0',
+      'ethereum',
+      { registry: new DecoderRegistry() }
+    );
+
+    expect(toStranger.referencedAddresses).toContain(STRANGER);
+    expect(toStranger.security.addressBook.warnings.map((w) => w.address)).toContain(STRANGER);
+    expect(toSelf.security.addressBook.warnings).toHaveLength(0);
+  });
+});
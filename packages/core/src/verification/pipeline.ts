@@ -0,0 +1,273 @@
+/**
+ * Safe Transaction Verification Pipeline
+ *
+ * The one place that turns a transaction from the Safe Transaction Service
+ * into a verdict: decoding checks, custom decoders, MultiSend unpacking,
+ * security analysis, hash calculation and confirmation signatures.
+ *
+ * The CLI and the UI both render the VerificationReport this returns, so a
+ * fix to any step reaches both front-ends at once.
+ */
+
+import type { Hex } from 'viem';
+import type {
+  SafeApiDataDecoded,
+  SafeApiMultisigTransaction,
+  SafeApiNestedTransaction,
+  SafeTransactionData,
+} from '../types.js';
+import { getNetwork } from '../api/networks.js';
+import { decoderRegistry } from '../decoders/registry.js';
+import type { DecoderRegistry } from '../decoders/registry.js';
+import type { DecodedTransactionData } from '../decoders/types.js';
+import { calculateSafeTxHash, verifySafeTxHash, type SafeTxHashResult } from '../hash/calculator.js';
+import { diagnoseHashMismatch } from '../hash/forensics.js';
+import { analyzeSecurity } from '../security/analyzer.js';
+import { parseMultiSend, type MultiSendCall } from '../security/multisend-decoder.js';
+import { verifyConfirmations } from '../security/signatures.js';
+import { extractAddressesFromApiDecoded, extractAddressesFromDecodedTransaction } from '../utils/extract-addresses.js';
+import { isApiFallbackSentinel, verifyDecodedData, type DecodeVerificationResult } from '../utils/verify-decoded.js';
+import type {
+  MultiSendCallVerification,
+  MultiSendVerification,
+  VerificationReport,
+  VerificationVerdict,
+  VerifySafeTransactionOptions,
+} from './types.js';
+
+/**
+ * Convert a Safe API transaction to the fields that are hashed and signed.
+ *
+ * A null `data` (a plain transfer) becomes `0x`, and gas fields the API
+ * returns as numbers become decimal strings.
+ *
+ * @param tx - Transaction from the Safe Transaction Service
+ * @returns SafeTransactionData for hashing and analysis
+ */
+export function toSafeTransactionData(tx: SafeApiMultisigTransaction): SafeTransactionData {
+  return {
+    to: tx.to,
+    value: tx.value,
+    data: (tx.data || '0x') as Hex,
+    operation: tx.operation,
+    safeTxGas: String(tx.safeTxGas),
+    baseGas: String(tx.baseGas),
+    gasPrice: tx.gasPrice,
+    gasToken: tx.gasToken,
+    refundReceiver: tx.refundReceiver,
+    nonce: String(tx.nonce),
+  };
+}
+
+function hasCalldata(data: Hex | null | undefined): data is Hex {
+  return !!data && data !== '0x';
+}
+
+/**
+ * Strip the Safe service's "fallback" sentinel. It means "could not decode",
+ * not a decoding of fallback(), and must never be re-encode-checked as one.
+ */
+function usableApiDecoding(decoded: SafeApiDataDecoded | null | undefined): SafeApiDataDecoded | null {
+  return decoded && !isApiFallbackSentinel(decoded) ? decoded : null;
+}
+
+/**
+ * The Safe API's decodings of the calls in a multiSend(bytes) decoding
+ */
+function apiBatchCalls(apiDecoded: SafeApiDataDecoded | null | undefined): SafeApiNestedTransaction[] | null {
+  const transactionsParam = apiDecoded?.parameters?.find((p) => p.name === 'transactions');
+  if (transactionsParam?.valueDecoded && Array.isArray(transactionsParam.valueDecoded)) {
+    return transactionsParam.valueDecoded as SafeApiNestedTransaction[];
+  }
+  return null;
+}
+
+/**
+ * Unpack a MultiSend batch, nested batches included, and pair each call with
+ * the Safe API's decoding of it (from `valueDecoded`) and any custom decoder
+ * output. Calls come in execution order, each batch before its own calls.
+ */
+function verifyMultiSendCalls(
+  calls: MultiSendCall[],
+  apiCalls: SafeApiNestedTransaction[] | null,
+  network: string,
+  registry: DecoderRegistry
+): MultiSendCallVerification[] {
+  return calls.flatMap((call) => {
+    const apiCall = apiCalls?.[call.index];
+    const callApiDecoded = usableApiDecoding(apiCall?.dataDecoded);
+    const verification: MultiSendCallVerification = {
+      index: call.index,
+      path: call.path,
+      depth: call.depth,
+      to: call.to,
+      value: call.value,
+      operation: call.operation,
+      data: call.data,
+      apiDecoded: callApiDecoded,
+      customDecoded:
+        hasCalldata(call.data) && !call.calls ? (registry.decode(call.to, call.data, network) ?? null) : null,
+      verification: callApiDecoded && hasCalldata(call.data) ? verifyDecodedData(call.data, callApiDecoded) : null,
+    };
+    const nested = call.calls
+      ? verifyMultiSendCalls(call.calls, apiBatchCalls(apiCall?.dataDecoded), network, registry)
+      : [];
+    return [verification, ...nested];
+  });
+}
+
+function isDecodeMismatch(verification: DecodeVerificationResult | null | undefined): boolean {
+  // Trailing bytes after a valid encoding are a payload the decoding does
+  // not show, so they count against the decoding here too.
+  return verification?.status === 'mismatch' || verification?.status === 'trailing-data';
+}
+
+/**
+ * Verify a Safe transaction from the Safe Transaction Service.
+ *
+ * Runs every check the front-ends show, in one pass:
+ * 1. Re-encode check of the Safe API decoding (skipping the "fallback" sentinel)
+ * 2. MultiSend unpacking, with each call's decoding checked
+ * 3. Custom protocol decoders
+ * 4. Security analysis, including address-typed parameters and the Safe itself
+ *    in the address-book check
+ * 5. safeTxHash calculation, compared with the API's
+ * 6. Confirmation signatures, checked against the calculated hash
+ *
+ * Hash calculation failures are reported in the result rather than thrown, so
+ * a front-end can still show everything else.
+ *
+ * @param tx - Transaction from the Safe Transaction Service
+ * @param version - Safe contract version (e.g. "1.3.0")
+ * @param network - Network name (e.g. "ethereum")
+ * @param options - Safe address, current owners and threshold, reviewing signer, decoder registry, policy and transfer thresholds
+ * @returns The full verification report
+ *
+ * @example
+ * const report = await verifySafeTransaction(tx, safeInfo.version, 'ethereum', {
+ *   safeAddress,
+ *   owners: safeInfo.owners,
+ *   threshold: safeInfo.threshold,
+ * });
+ * if (!report.verdict.hashMatch) {
+ *   console.error('DO NOT SIGN THIS TRANSACTION!');
+ * }
+ */
+export async function verifySafeTransaction(
+  tx: SafeApiMultisigTransaction,
+  version: string,
+  network: string,
+  options: VerifySafeTransactionOptions = {}
+): Promise<VerificationReport> {
+  const registry = options.registry ?? decoderRegistry;
+  const chainId = getNetwork(network).chainId;
+  const safeAddress = options.safeAddress ?? tx.safe;
+  const txData = toSafeTransactionData(tx);
+
+  const apiDecoded = usableApiDecoding(tx.dataDecoded);
+  const apiDecodedVerification = apiDecoded && hasCalldata(tx.data) ? verifyDecodedData(tx.data, apiDecoded) : null;
+
+  let multiSend: MultiSendVerification | null = null;
+  let customDecoded: DecodedTransactionData | null = null;
+  let hasCustomDecoder = false;
+
+  if (hasCalldata(tx.data)) {
+    const parsed = parseMultiSend(tx.data);
+    if (parsed) {
+      multiSend = {
+        outerVerification: apiDecodedVerification,
+        calls: verifyMultiSendCalls(parsed.calls, apiBatchCalls(apiDecoded), network, registry),
+      };
+    } else {
+      customDecoded = registry.decode(tx.to, tx.data, network) ?? null;
+      hasCustomDecoder = registry.hasDecoder(tx.to, network);
+    }
+  }
+
+  // Feed every address-typed parameter to the address-book check, not just
+  // `to`: a transfer's recipient or an approval's spender matters more.
+  const referencedAddresses = extractAddressesFromApiDecoded(apiDecoded);
+  if (customDecoded) {
+    referencedAddresses.push(...extractAddressesFromDecodedTransaction(customDecoded));
+  }
+  for (const call of multiSend?.calls ?? []) {
+    if (call.customDecoded) {
+      referencedAddresses.push(...extractAddressesFromDecodedTransaction(call.customDecoded));
+    } else {
+      referencedAddresses.push(...extractAddressesFromApiDecoded(call.apiDecoded));
+    }
+  }
+
+  const security = analyzeSecurity(txData, {
+    additionalAddresses: referencedAddresses.map((address) => ({ address })),
+    safeAddress,
+    ownerState:
+      options.owners && options.threshold !== undefined
+        ? { owners: options.owners, threshold: options.threshold }
+        : undefined,
+    signer: options.signer,
+    chainId,
+    network,
+    policy: options.policy,
+    transferThresholds: options.transferThresholds,
+    version,
+    crossChainSafes: options.crossChainSafes,
+    nonceState: options.nonceState && { executed: tx.isExecuted, ...options.nonceState },
+    proposal: { proposer: tx.proposer, proposedByDelegate: tx.proposedByDelegate },
+    delegates: options.delegates,
+    registry,
+  });
+
+  let hashes: SafeTxHashResult | null = null;
+  let hashError: string | null = null;
+  try {
+    hashes = calculateSafeTxHash(chainId, safeAddress, txData, version);
+  } catch (error) {
+    hashError = error instanceof Error ? error.message : String(error);
+  }
+  const apiSafeTxHash = tx.safeTxHash as Hex;
+  const hashMatch = hashes !== null && verifySafeTxHash(hashes.safeTxHash, apiSafeTxHash);
+  const hashDiagnosis =
+    hashes && !hashMatch
+      ? diagnoseHashMismatch(apiSafeTxHash, { chainId, safeAddress, txData, version, txSafe: tx.safe })
+      : null;
+
+  // Check confirmations against the hash calculated here, not the API's, so a
+  // signature only counts if it covers the transaction shown.
+  const confirmations =
+    hashes && tx.confirmations.length > 0
+      ? await verifyConfirmations(hashes.safeTxHash, tx.confirmations, options.owners)
+      : null;
+
+  const verdict: VerificationVerdict = {
+    hashMatch,
+    decodeMismatch:
+      isDecodeMismatch(apiDecodedVerification) ||
+      (multiSend?.calls ?? []).some((call) => isDecodeMismatch(call.verification)),
+    highRisk:
+      security.overallRisk === 'critical' ||
+      security.overallRisk === 'high' ||
+      confirmations?.warningLevel === 'critical',
+  };
+
+  return {
+    network,
+    chainId,
+    safeAddress,
+    version,
+    txData,
+    apiDecoded,
+    apiDecodedVerification,
+    customDecoded,
+    hasCustomDecoder,
+    multiSend,
+    referencedAddresses,
+    security,
+    hashes,
+    hashError,
+    apiSafeTxHash,
+    hashDiagnosis,
+    confirmations,
+    verdict,
+  };
+}
@@ -0,0 +1,160 @@
+/**
+ * Verification pipeline types
+ */
+
+import type { Address, Hex } from 'viem';
+import type { SafeApiDataDecoded, SafeApiDelegate, SafeTransactionData } from '../types.js';
+import type { DecodedTransactionData } from '../decoders/types.js';
+import type { DecoderRegistry } from '../decoders/registry.js';
+import type { SafePolicy } from '../utils/policy-file.js';
+import type { DecodeVerificationResult } from '../utils/verify-decoded.js';
+import type { SafeTxHashResult } from '../hash/calculator.js';
+import type { HashMismatchDiagnosis } from '../hash/forensics.js';
+import type {
+  ConfirmationsCheckResult,
+  CrossChainSafeState,
+  SafeNonceState,
+  SecurityAnalysisResult,
+  TransferThresholds,
+} from '../security/types.js';
+
+/**
+ * Options for verifySafeTransaction
+ */
+export interface VerifySafeTransactionOptions {
+  /**
+   * Safe the transaction is being verified for. Defaults to the transaction's
+   * own `safe` field; pass the address you queried so a transaction served
+   * under the wrong Safe fails the hash check.
+   */
+  safeAddress?: Address;
+
+  /** Current Safe owners. Omit to skip the ownership check on confirmations. */
+  owners?: readonly Address[];
+
+  /** Current threshold. With `owners`, enables the before/after owner-change preview. */
+  threshold?: number;
+
+  /** Owner reviewing the transaction, flagged if an owner change removes them */
+  signer?: Address;
+
+  /** Decoder registry to use (defaults to the shared `decoderRegistry`) */
+  registry?: DecoderRegistry;
+
+  /** Signing policy for this Safe (see findSafePolicy). Violations count as high risk. */
+  policy?: SafePolicy;
+
+  /** Large-transfer thresholds overriding the network's defaults (see DEFAULT_TRANSFER_THRESHOLDS) */
+  transferThresholds?: TransferThresholds;
+
+  /**
+   * The Safe on other networks (see fetchCrossChainSafeStates). Only used for
+   * Safes at v1.2.0 and older, whose signatures replay across chains.
+   */
+  crossChainSafes?: CrossChainSafeState[];
+
+  /**
+   * The Safe's current nonce and queue (see fetchQueuedNonces). `executed`
+   * defaults to the transaction's own `isExecuted`.
+   */
+  nonceState?: SafeNonceState;
+
+  /**
+   * Delegates registered for the Safe (see SafeApiClient.fetchDelegates), to
+   * tell a delegate proposer from an unknown one
+   */
+  delegates?: SafeApiDelegate[];
+}
+
+/**
+ * One call inside a MultiSend batch
+ */
+export interface MultiSendCallVerification {
+  /** Position in its own batch, from 0 */
+  index: number;
+  /** Positions from the outer batch down to this call, e.g. [2, 0] */
+  path: number[];
+  /** Nesting level: 1 for a call in the outer batch */
+  depth: number;
+  to: Address;
+  value: bigint;
+  operation: number;
+  data: Hex;
+  /** Safe API decoding of this call (null when absent or the "fallback" sentinel) */
+  apiDecoded: SafeApiDataDecoded | null;
+  /** Custom decoder output, if a decoder covers the target */
+  customDecoded: DecodedTransactionData | null;
+  /** Re-encode check of `apiDecoded` against `data` */
+  verification: DecodeVerificationResult | null;
+}
+
+/**
+ * MultiSend-specific results
+ */
+export interface MultiSendVerification {
+  /** Re-encode check of the outer multiSend(bytes) decoding */
+  outerVerification: DecodeVerificationResult | null;
+  /**
+   * Unpacked calls in execution order, nested batches flattened in after the
+   * call that carries them. Calls after a structural error are missing; the
+   * errors are in `security.multiSend`.
+   */
+  calls: MultiSendCallVerification[] | null;
+}
+
+/**
+ * Summary of the checks a signer must not ignore
+ */
+export interface VerificationVerdict {
+  /** Calculated safeTxHash equals the API's */
+  hashMatch: boolean;
+  /** Some Safe API decoding did not re-encode to the raw calldata */
+  decodeMismatch: boolean;
+  /** High or critical security risk, or a confirmation that does not check out */
+  highRisk: boolean;
+}
+
+/**
+ * Everything verifySafeTransaction checked, for a front-end to render
+ */
+export interface VerificationReport {
+  network: string;
+  chainId: number;
+  safeAddress: Address;
+  version: string;
+
+  /** The transaction as hashed and analysed */
+  txData: SafeTransactionData;
+
+  /** Safe API decoding (null when absent or the "fallback" sentinel) */
+  apiDecoded: SafeApiDataDecoded | null;
+  /** Re-encode check of `apiDecoded` against the raw calldata */
+  apiDecodedVerification: DecodeVerificationResult | null;
+
+  /** Custom decoder output for a direct (non-MultiSend) call */
+  customDecoded: DecodedTransactionData | null;
+  /** A custom decoder covers the target, whether or not it decoded this call */
+  hasCustomDecoder: boolean;
+
+  /** Present when the call is a multiSend(bytes) */
+  multiSend: MultiSendVerification | null;
+
+  /** Address-typed parameters found in any decoding, fed to the address-book check */
+  referencedAddresses: Address[];
+
+  security: SecurityAnalysisResult;
+
+  /** Locally calculated hashes (null if calculation failed) */
+  hashes: SafeTxHashResult | null;
+  /** Why hash calculation failed */
+  hashError: string | null;
+  /** The safeTxHash the API reported */
+  apiSafeTxHash: Hex;
+  /** Which single change, if any, reproduces the API's hash (null unless the hashes differ) */
+  hashDiagnosis: HashMismatchDiagnosis | null;
+
+  /** Confirmation signatures checked against the calculated hash (null when there are none) */
+  confirmations: ConfirmationsCheckResult | null;
+
+  verdict: VerificationVerdict;
+}
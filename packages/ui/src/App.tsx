@@ -2,6 +2,8 @@ import { HashRouter, Routes, Route, Link } from 'react-router-dom';
 import Home from './routes/Home';
 import SafeTransactions from './routes/SafeTransactions';
 import TransactionAnalysis from './routes/TransactionAnalysis';
+import SafeMessages from './routes/SafeMessages';
+import MessageAnalysis from './routes/MessageAnalysis';
 import Settings from './routes/Settings';
 import { AddressBookProvider } from './address-book/AddressBookContext';
 import { AddressBookBar } from './address-book/AddressBookBar';
@@ -42,6 +44,12 @@ export default function App() {
                 <Route path="/safe/:network/:address" element={<SafeRouteProvider />}>
                   <Route index element={<SafeTransactions />} />
                   <Route path="tx/:nonce" element={<TransactionAnalysis />} />
+                  {/* A Transaction Builder batch, before it is proposed */}
+                  <Route path="builder" element={<TransactionAnalysis source="builder" />} />
+                  {/* SafeTx typed data a wallet was asked to sign */}
+                  <Route path="typed-data" element={<TransactionAnalysis source="typed-data" />} />
+                  <Route path="messages" element={<SafeMessages />} />
+                  <Route path="message/:messageHash" element={<MessageAnalysis />} />
                 </Route>
               </Routes>
             </main>
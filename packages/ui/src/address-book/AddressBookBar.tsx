@@ -1,7 +1,8 @@
 /**
- * Header strip for the address config — two independent files:
+ * Header strip for the address config — three independent files:
  *   - Address book (managed): labels, read-only, replaceable.
  *   - My Safes (personal): Safe shortcuts, editable + exportable.
+ *   - Signing policies (managed): per-Safe rules, read-only, replaceable.
  *
  * Lives globally in App.tsx — drop files once and every page picks them up.
  * Each slot validates the dropped file's kind and rejects the wrong one.
@@ -10,7 +11,8 @@
 import { useRef, useState, type DragEvent, type ReactNode } from 'react';
 import { useAddressBook } from './AddressBookContext';
 import { AddressBookBrowser } from './AddressBookBrowser';
-import { downloadCsv } from './download';
+import { PolicyBrowser } from './PolicyBrowser';
+import { downloadCsv, downloadFile } from './download';
 
 // Blank templates with `#` comment lines (the parser skips them) so the user
 // knows exactly what each column should be. The address book needs no type/
@@ -33,6 +35,41 @@ const MY_SAFES_TEMPLATE = [
   '',
 ].join('\n');
 
+const POLICY_TEMPLATE = [
+  '# Signing policies — keyed by network, then Safe address. Every rule is optional.',
+  '# Example (delete the leading # and edit):',
+  '# ethereum:',
+  '#   "0xYourSafeAddress________________________":',
+  '#     label: My Treasury Safe',
+  '#     maxValue: "0"                  # native value in wei, summed across a batch',
+  '#     allowedTargets:                # "*" = any function, or a list of selectors / signatures',
+  '#       "0xTargetContract_________________________": ["transfer(address,uint256)"]',
+  '#     allowedDelegatecalls: ["0x40A2aCCbd92BCA938b02010E17A5b8929b49130D"]',
+  '#     requiredDecoders: [SPBEAM]',
+  '',
+].join('\n');
+
+interface ConfigFileKind {
+  label: string;
+  extensions: string[];
+  /** File input `accept` attribute */
+  accept: string;
+  mimeType: string;
+}
+
+const CSV_FILE: ConfigFileKind = {
+  label: 'CSV',
+  extensions: ['.csv'],
+  accept: '.csv,text/csv',
+  mimeType: 'text/csv;charset=utf-8',
+};
+const POLICY_FILE: ConfigFileKind = {
+  label: 'JSON/YAML file',
+  extensions: ['.json', '.yaml', '.yml'],
+  accept: '.json,.yaml,.yml,application/json',
+  mimeType: 'text/yaml;charset=utf-8',
+};
+
 function formatLoadedAt(d: Date): string {
   return d.toLocaleString(undefined, {
     year: 'numeric',
@@ -44,18 +81,28 @@ function formatLoadedAt(d: Date): string {
 }
 
 export function AddressBookBar() {
-  const { addressBook, mySafes, loadAddressBook, loadMySafes, clearAddressBook, clearMySafes, exportMySafes } =
-    useAddressBook();
+  const {
+    addressBook,
+    mySafes,
+    policies,
+    loadAddressBook,
+    loadMySafes,
+    loadPolicies,
+    clearAddressBook,
+    clearMySafes,
+    clearPolicies,
+    exportMySafes,
+  } = useAddressBook();
 
   return (
     <div className="border-b bg-gray-50">
-      <div className="container mx-auto px-4 py-2 grid gap-2 md:grid-cols-2">
+      <div className="container mx-auto px-4 py-2 grid gap-2 md:grid-cols-3">
         <ConfigSlot
           title="Address book (managed)"
           hint="labels known addresses during review"
           accentLoaded="border-green-300 bg-green-50 text-green-900"
           templateFilename="address-book-template.csv"
-          templateCsv={ADDRESS_BOOK_TEMPLATE}
+          template={ADDRESS_BOOK_TEMPLATE}
           onLoad={loadAddressBook}
           onClear={clearAddressBook}
           summary={
@@ -85,7 +132,7 @@ export function AddressBookBar() {
           hint="your Safe shortcuts on the home page"
           accentLoaded="border-blue-300 bg-blue-50 text-blue-900"
           templateFilename="my-safes-template.csv"
-          templateCsv={MY_SAFES_TEMPLATE}
+          template={MY_SAFES_TEMPLATE}
           onLoad={loadMySafes}
           onClear={clearMySafes}
           onExport={mySafes ? () => downloadCsv(mySafes.filename, exportMySafes()) : undefined}
@@ -106,6 +153,31 @@ export function AddressBookBar() {
             ) : null
           }
         />
+
+        <ConfigSlot
+          title="Signing policies"
+          hint="per-Safe rules every transaction is checked against"
+          accentLoaded="border-purple-300 bg-purple-50 text-purple-900"
+          fileKind={POLICY_FILE}
+          templateFilename="policy-template.yaml"
+          template={POLICY_TEMPLATE}
+          onLoad={loadPolicies}
+          onClear={clearPolicies}
+          summary={
+            policies ? `${policies.set.policies.length} Safe${policies.set.policies.length === 1 ? '' : 's'}` : null
+          }
+          loaded={policies ? { filename: policies.filename, loadedAt: policies.loadedAt, skipped: 0 } : null}
+          renderBrowser={(onClose) =>
+            policies ? (
+              <PolicyBrowser
+                filename={policies.filename}
+                loadedAt={policies.loadedAt}
+                policies={policies.set.policies}
+                onClose={onClose}
+              />
+            ) : null
+          }
+        />
       </div>
     </div>
   );
@@ -115,8 +187,10 @@ interface ConfigSlotProps {
   title: string;
   hint: string;
   accentLoaded: string;
+  /** Accepted files (defaults to CSV) */
+  fileKind?: ConfigFileKind;
   templateFilename: string;
-  templateCsv: string;
+  template: string;
   onLoad: (file: File) => Promise<void>;
   onClear: () => void;
   onExport?: () => void;
@@ -129,8 +203,9 @@ function ConfigSlot({
   title,
   hint,
   accentLoaded,
+  fileKind = CSV_FILE,
   templateFilename,
-  templateCsv,
+  template,
   onLoad,
   onClear,
   onExport,
@@ -145,8 +220,9 @@ function ConfigSlot({
 
   const handleFile = async (file: File) => {
     setError(null);
-    if (!file.name.toLowerCase().endsWith('.csv')) {
-      setError(`Expected a .csv file (got "${file.name}").`);
+    const name = file.name.toLowerCase();
+    if (!fileKind.extensions.some((ext) => name.endsWith(ext))) {
+      setError(`Expected a ${fileKind.extensions.join(' / ')} file (got "${file.name}").`);
       return;
     }
     try {
@@ -178,7 +254,7 @@ function ConfigSlot({
           }`}
         >
           <div className="text-gray-700">
-            <span className="font-semibold">{title}:</span> drag a CSV here, or{' '}
+            <span className="font-semibold">{title}:</span> drag a {fileKind.label} here, or{' '}
             <button
               type="button"
               onClick={() => fileInputRef.current?.click()}
@@ -189,7 +265,7 @@ function ConfigSlot({
             {' · '}
             <button
               type="button"
-              onClick={() => downloadCsv(templateFilename, templateCsv)}
+              onClick={() => downloadFile(templateFilename, template, fileKind.mimeType)}
               className="text-blue-600 hover:underline"
             >
               blank template
@@ -199,7 +275,7 @@ function ConfigSlot({
           <input
             ref={fileInputRef}
             type="file"
-            accept=".csv,text/csv"
+            accept={fileKind.accept}
             className="hidden"
             onChange={(e) => {
               const file = e.target.files?.[0];
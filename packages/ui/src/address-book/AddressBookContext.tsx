@@ -1,10 +1,12 @@
 /**
- * Address config session state — two independent files:
+ * Address config session state — three independent files:
  *
  *   - Address book (managed): labels for known addresses, owned/updated by the
  *     team. Read-only in the app; drop a fresh file anytime to replace it.
  *   - My Safes (personal): the signer's own Safe shortcuts (the home dropdown).
  *     The only file that is edited (capture/remove) and exported.
+ *   - Signing policies (managed): per-Safe rules (JSON/YAML) checked against
+ *     every transaction of a Safe that has one. Read-only, like the book.
  *
  * Keeping them separate avoids a sync trap: updating the managed book never
  * touches your Safes, and capturing a Safe never forces you to re-merge the
@@ -18,11 +20,13 @@ import {
   classifyConfigCsv,
   clearAddressBookTags,
   parseAddressBookCsv,
+  parsePolicyFile,
   registerAddressTag,
   serializeAddressBookCsv,
   type AddressBookEntry,
   type AddressBookSafe,
   type AddressBookSkippedRow,
+  type SafePolicySet,
 } from '@shield3/sky-safe-core';
 
 export interface AddressBookSlot {
@@ -39,17 +43,28 @@ export interface MySafesSlot {
   loadedAt: Date;
 }
 
+export interface PoliciesSlot {
+  set: SafePolicySet;
+  filename: string;
+  loadedAt: Date;
+}
+
 interface AddressBookContextValue {
   /** Managed address book (labels). Read-only. */
   addressBook: AddressBookSlot | null;
   /** Personal Safe shortcuts. Editable + exportable. */
   mySafes: MySafesSlot | null;
+  /** Per-Safe signing policies. Read-only. */
+  policies: PoliciesSlot | null;
   /** Load a managed address-book CSV. Throws if the file is the wrong kind. */
   loadAddressBook: (file: File) => Promise<void>;
   /** Load a personal My Safes CSV. Throws if the file is the wrong kind. */
   loadMySafes: (file: File) => Promise<void>;
+  /** Load a JSON/YAML policy file. Throws if it does not parse. */
+  loadPolicies: (file: File) => Promise<void>;
   clearAddressBook: () => void;
   clearMySafes: () => void;
+  clearPolicies: () => void;
   /** Add (or update, last-wins) a Safe shortcut in My Safes. */
   addSafe: (safe: AddressBookSafe) => void;
   /** Remove a Safe shortcut by network + address. */
@@ -69,6 +84,7 @@ function lc(address: string): string {
 export function AddressBookProvider({ children }: { children: ReactNode }) {
   const [addressBook, setAddressBook] = useState<AddressBookSlot | null>(null);
   const [mySafes, setMySafes] = useState<MySafesSlot | null>(null);
+  const [policies, setPolicies] = useState<PoliciesSlot | null>(null);
 
   // Rebuild the shared address-book tag bucket from BOTH sources whenever
   // either slot changes. Centralizing here lets the two files coexist instead
@@ -117,8 +133,14 @@ export function AddressBookProvider({ children }: { children: ReactNode }) {
     });
   }, []);
 
+  const loadPolicies = useCallback(async (file: File) => {
+    const set = parsePolicyFile(await file.text());
+    setPolicies({ set, filename: file.name, loadedAt: new Date() });
+  }, []);
+
   const clearAddressBook = useCallback(() => setAddressBook(null), []);
   const clearMySafes = useCallback(() => setMySafes(null), []);
+  const clearPolicies = useCallback(() => setPolicies(null), []);
 
   const addSafe = useCallback((safe: AddressBookSafe) => {
     setMySafes((prev) => {
@@ -160,10 +182,13 @@ export function AddressBookProvider({ children }: { children: ReactNode }) {
     () => ({
       addressBook,
       mySafes,
+      policies,
       loadAddressBook,
       loadMySafes,
+      loadPolicies,
       clearAddressBook,
       clearMySafes,
+      clearPolicies,
       addSafe,
       removeSafe,
       renameSafe,
@@ -172,10 +197,13 @@ export function AddressBookProvider({ children }: { children: ReactNode }) {
     [
       addressBook,
       mySafes,
+      policies,
       loadAddressBook,
       loadMySafes,
+      loadPolicies,
       clearAddressBook,
       clearMySafes,
+      clearPolicies,
       addSafe,
       removeSafe,
       renameSafe,
@@ -0,0 +1,106 @@
+/**
+ * Modal that lists the loaded signing policies, one card per Safe.
+ * Rules the file omits are shown as "not enforced" so a signer can see what
+ * a policy does not cover, not only what it does.
+ */
+
+import { useEffect, type ReactNode } from 'react';
+import type { SafePolicy } from '@shield3/sky-safe-core';
+
+interface PolicyBrowserProps {
+  filename: string;
+  loadedAt: Date;
+  policies: SafePolicy[];
+  onClose: () => void;
+}
+
+function Rule({ name, children }: { name: string; children: ReactNode }) {
+  return (
+    <div className="grid grid-cols-[10rem_1fr] gap-2">
+      <span className="text-gray-600">{name}</span>
+      <div className="font-mono break-all">{children}</div>
+    </div>
+  );
+}
+
+const NOT_ENFORCED = <span className="font-sans text-gray-400 italic">not enforced</span>;
+
+export function PolicyBrowser({ filename, loadedAt, policies, onClose }: PolicyBrowserProps) {
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [onClose]);
+
+  return (
+    <div
+      role="dialog"
+      aria-modal="true"
+      className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center p-4"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white rounded-lg shadow-xl max-w-3xl w-full max-h-[80vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="px-5 py-3 border-b flex items-center justify-between">
+          <div>
+            <h2 className="text-lg font-semibold">Signing policies</h2>
+            <p className="text-xs text-gray-600 font-mono">
+              {filename} · loaded {loadedAt.toLocaleString()}
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="text-gray-500 hover:text-gray-800 text-xl leading-none"
+            aria-label="Close"
+          >
+            ×
+          </button>
+        </div>
+
+        <div className="overflow-y-auto px-5 py-4 space-y-4">
+          {policies.length === 0 && <p className="text-xs text-gray-500">None.</p>}
+          {policies.map((policy) => (
+            <section key={`${policy.network}:${policy.safeAddress}`} className="border rounded p-3 text-xs space-y-1">
+              <h3 className="text-sm font-semibold text-purple-900">
+                {policy.label ?? 'Unlabelled Safe'}{' '}
+                <span className="font-normal text-gray-600">
+                  · {policy.network} · <span className="font-mono break-all">{policy.safeAddress}</span>
+                </span>
+              </h3>
+              <Rule name="Max native value">
+                {policy.maxValue !== undefined ? `${policy.maxValue} wei` : NOT_ENFORCED}
+              </Rule>
+              <Rule name="Allowed targets">
+                {policy.allowedTargets
+                  ? policy.allowedTargets.map((target) => (
+                      <div key={target.address}>
+                        {target.address}{' '}
+                        <span className="text-gray-600">
+                          {target.selectors ? target.selectors.join(', ') : 'any function'}
+                        </span>
+                      </div>
+                    ))
+                  : NOT_ENFORCED}
+              </Rule>
+              <Rule name="Allowed delegatecalls">
+                {policy.allowedDelegatecalls
+                  ? policy.allowedDelegatecalls.map((address) => <div key={address}>{address}</div>)
+                  : policy.allowedTargets
+                    ? 'none'
+                    : NOT_ENFORCED}
+              </Rule>
+              <Rule name="Required decoders">
+                {policy.requiredDecoders ? policy.requiredDecoders.join(', ') : NOT_ENFORCED}
+              </Rule>
+            </section>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
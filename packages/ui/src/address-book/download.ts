@@ -1,10 +1,10 @@
 /**
- * Trigger a client-side download of a CSV string. Used for the blank template
+ * Trigger a client-side download of a text file. Used for the blank templates
  * and for exporting the in-session config. Nothing is persisted in the browser
  * — the file goes straight to the user's filesystem (the source of truth).
  */
-export function downloadCsv(filename: string, csv: string): void {
-  const blob = new Blob([csv], { type: 'text/csv;charset=utf-8' });
+export function downloadFile(filename: string, content: string, type: string): void {
+  const blob = new Blob([content], { type });
   const url = URL.createObjectURL(blob);
   const a = document.createElement('a');
   a.href = url;
@@ -14,3 +14,7 @@ export function downloadCsv(filename: string, csv: string): void {
   document.body.removeChild(a);
   URL.revokeObjectURL(url);
 }
+
+export function downloadCsv(filename: string, csv: string): void {
+  downloadFile(filename, csv, 'text/csv;charset=utf-8');
+}
@@ -5,9 +5,12 @@
  * and renders the appropriate badge. Built-in + address-book are shown together
  * (e.g. "LockstakeEngine · Sky Staking Vault") so signers see that the protocol
  * is recognized AND that they have explicitly verified it.
+ *
+ * An unknown address that shares the first and last hex characters of a known
+ * one (address poisoning) is rendered with the differing characters marked.
  */
 
-import { getAddressTags, type AddressTag } from '@shield3/sky-safe-core';
+import { differingCharacters, findLookalikeAddress, getAddressTags, type AddressTag } from '@shield3/sky-safe-core';
 import { useAddressBook } from '../address-book/AddressBookContext';
 import { useOptionalSafeRoute } from '../safe-route/SafeRouteProvider';
 
@@ -109,6 +112,35 @@ export function Address({ address, safeAddress, className = '' }: AddressProps)
     );
   }
 
+  // Lookalike of a known address — mark every character that differs, since
+  // the matching start and end are exactly what a signer glances at.
+  const lookalike = findLookalikeAddress(address as `0x${string}`, {
+    network: routeCtx?.network,
+    safeAddress: effectiveSafe as `0x${string}` | undefined,
+  });
+  if (lookalike) {
+    const differs = differingCharacters(address, lookalike.resembles);
+    return (
+      <span
+        className={`inline-flex items-center gap-1 bg-red-50 text-red-900 border border-red-300 px-1 rounded font-mono ${className}`}
+        title={`Looks like ${lookalike.label} (${lookalike.resembles}) but is a different address`}
+      >
+        <span>
+          {[...address].map((char, i) =>
+            differs[i] ? (
+              <span key={i} className="bg-red-300 text-red-950 font-bold">
+                {char}
+              </span>
+            ) : (
+              char
+            )
+          )}
+        </span>
+        <span className="text-xs bg-red-600 text-white px-1 rounded font-semibold">LOOKALIKE: {lookalike.label}</span>
+      </span>
+    );
+  }
+
   // Unlabeled. If a book is loaded, soft yellow tint; otherwise plain mono.
   if (bookLoaded) {
     return (
@@ -0,0 +1,31 @@
+import type { DeviceDisplay } from '@shield3/sky-safe-core';
+
+/**
+ * The hashes as a hardware wallet shows them when blind signing: only the
+ * hashes that device shows, in its case, broken into its lines and screens.
+ * Each box is one screen, so a signer can page through the device alongside
+ * it and compare line by line. Layouts come from the core device profiles.
+ */
+export function DeviceScreens({ display }: { display: DeviceDisplay }) {
+  return (
+    <div>
+      <p className="text-sm font-semibold text-gray-700 mb-2">On your {display.name}:</p>
+      <div className="flex flex-wrap gap-3">
+        {display.screens.map((screen) => (
+          <div key={`${screen.label}-${screen.page}`} className="w-52 rounded-lg bg-gray-900 p-3">
+            <p className="text-xs text-gray-400 mb-1">
+              {screen.label}
+              {screen.pages > 1 && ` (${screen.page}/${screen.pages})`}
+            </p>
+            {screen.lines.map((line, idx) => (
+              <p key={idx} className="font-mono text-sm text-gray-100 whitespace-pre tracking-wider">
+                {line}
+              </p>
+            ))}
+          </div>
+        ))}
+      </div>
+      <p className="text-xs text-gray-500 mt-1">Compare each screen with your device, line by line.</p>
+    </div>
+  );
+}
@@ -0,0 +1,118 @@
+import { useState } from 'react';
+import {
+  createHashChallenge,
+  checkHashChallenge,
+  createHashChallengeRecord,
+  describeHashChunk,
+  type HashChallengeContext,
+  type HashChallengeMode,
+  type HashChallengeRecord,
+  type HashChallengeResult,
+} from '@shield3/sky-safe-core';
+
+/**
+ * The safeTxHash confirmation challenge: the signer types the hash, or a few
+ * 4-digit chunks of it picked at random, from their hardware wallet while the
+ * page keeps the computed hash hidden. Mount it with a key per hash and mode
+ * so a new transaction always gets a fresh challenge.
+ */
+export function HashChallengePanel({
+  safeTxHash,
+  mode,
+  context,
+  onPass,
+}: {
+  safeTxHash: `0x${string}`;
+  mode: HashChallengeMode;
+  context: HashChallengeContext;
+  onPass: (record: HashChallengeRecord) => void;
+}) {
+  const [challenge, setChallenge] = useState(() => createHashChallenge(safeTxHash, mode));
+  const [answers, setAnswers] = useState<string[]>([]);
+  const [result, setResult] = useState<HashChallengeResult | null>(null);
+  // A failed challenge is spent: retrying the same chunks would let a signer
+  // guess digit by digit against the wrong-chunk list
+  const failed = result !== null && !result.match;
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (failed) return;
+    const checked = checkHashChallenge(challenge, mode === 'full' ? (answers[0] ?? '') : answers);
+    setResult(checked);
+    if (checked.match) {
+      onPass(createHashChallengeRecord(challenge, checked, context));
+    }
+  };
+
+  // Pick other chunks rather than let a signer retry the same ones by trial
+  const restart = () => {
+    setChallenge(createHashChallenge(safeTxHash, mode));
+    setAnswers([]);
+    setResult(null);
+  };
+
+  const setAnswer = (idx: number, value: string) => {
+    const next = [...answers];
+    next[idx] = value;
+    setAnswers(next);
+  };
+
+  return (
+    <form onSubmit={submit} className="bg-blue-50 border border-blue-200 rounded-lg p-4 space-y-3">
+      <p className="text-sm text-blue-900">
+        {mode === 'full'
+          ? 'Type the safeTxHash your hardware wallet shows. Case and spaces do not matter.'
+          : 'Type these chunks of the safeTxHash your hardware wallet shows, counting digits after 0x.'}
+      </p>
+      {mode === 'full' ? (
+        <input
+          type="text"
+          value={answers[0] ?? ''}
+          onChange={(e) => setAnswer(0, e.target.value)}
+          placeholder="0x…"
+          autoComplete="off"
+          spellCheck={false}
+          className="block w-full px-2 py-1 border border-gray-300 rounded text-sm font-mono"
+        />
+      ) : (
+        <div className="flex flex-wrap gap-3">
+          {challenge.chunks.map((chunk, idx) => (
+            <label key={chunk} className="text-xs text-gray-600">
+              {describeHashChunk(chunk)}
+              <input
+                type="text"
+                value={answers[idx] ?? ''}
+                onChange={(e) => setAnswer(idx, e.target.value)}
+                maxLength={6}
+                autoComplete="off"
+                spellCheck={false}
+                className="block mt-1 w-20 px-2 py-1 border border-gray-300 rounded text-sm font-mono"
+              />
+            </label>
+          ))}
+        </div>
+      )}
+      <div className="flex items-center gap-3">
+        <button
+          type="submit"
+          disabled={failed}
+          className="px-3 py-1.5 bg-blue-600 text-white rounded text-sm hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Check
+        </button>
+        {failed && (
+          <button type="button" onClick={restart} className="text-sm text-blue-700 hover:underline">
+            New challenge
+          </button>
+        )}
+      </div>
+      {failed && (
+        <div className="bg-red-50 border-2 border-red-400 rounded-lg p-3 text-sm text-red-900">
+          <p className="font-semibold">✗ Not the calculated safeTxHash</p>
+          <p>Wrong: {result.wrongChunks.map(describeHashChunk).join(', ')}</p>
+          <p>DO NOT SIGN unless you mistyped. Check the device screen and start a new challenge.</p>
+        </div>
+      )}
+    </form>
+  );
+}
@@ -0,0 +1,97 @@
+/**
+ * OwnerChangePreview — owners and threshold before and after an owner change.
+ *
+ * Renders core's OwnerStatePreview: the replayed owner set, what the
+ * transaction adds and removes, and anything unsafe about the result. The
+ * signer picks which owner they are, so "this removes you" can be flagged.
+ */
+
+import type { OwnerStatePreview } from '@shield3/sky-safe-core';
+import { Address } from './Address';
+
+interface OwnerChangePreviewProps {
+  preview: OwnerStatePreview;
+  /** Owner the signer says they are ('' when not chosen) */
+  signer: string;
+  onSignerChange: (signer: string) => void;
+}
+
+function OwnerList({ owners, changed, marker }: { owners: string[]; changed: string[]; marker: '+' | '-' }) {
+  return (
+    <ul className="space-y-0.5">
+      {owners.map((owner) => {
+        const isChanged = changed.includes(owner);
+        return (
+          <li
+            key={owner}
+            className={`flex items-center gap-2 ${
+              isChanged ? (marker === '+' ? 'text-green-800' : 'text-red-800 line-through') : ''
+            }`}
+          >
+            <span className="w-3 font-mono">{isChanged ? marker : ''}</span>
+            <Address address={owner} />
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
+
+export function OwnerChangePreview({ preview, signer, onSignerChange }: OwnerChangePreviewProps) {
+  const failed = preview.reverts ? preview.steps[preview.steps.length - 1] : undefined;
+
+  return (
+    <div className="mt-3 space-y-3 text-sm">
+      <label className="flex items-center gap-2">
+        <span className="text-gray-600">Reviewing as:</span>
+        <select
+          value={signer}
+          onChange={(e) => onSignerChange(e.target.value)}
+          className="px-2 py-1 border border-gray-300 rounded font-mono text-xs"
+        >
+          <option value="">(not an owner / not chosen)</option>
+          {preview.ownersBefore.map((owner) => (
+            <option key={owner} value={owner}>
+              {owner}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <div className="grid md:grid-cols-2 gap-4">
+        <div>
+          <p className="font-medium mb-1">
+            Before — threshold {preview.thresholdBefore} of {preview.ownersBefore.length}
+          </p>
+          <OwnerList owners={preview.ownersBefore} changed={preview.removed} marker="-" />
+        </div>
+        <div>
+          <p className="font-medium mb-1">
+            After — threshold {preview.thresholdAfter} of {preview.ownersAfter.length}
+          </p>
+          {preview.reverts ? (
+            <p className="text-gray-500 italic">Unchanged — the transaction reverts</p>
+          ) : (
+            <OwnerList owners={preview.ownersAfter} changed={preview.added} marker="+" />
+          )}
+        </div>
+      </div>
+
+      {failed && (
+        <div className="bg-red-50 border border-red-200 rounded p-2 text-red-800">
+          <strong>Would revert at {failed.functionName}:</strong> {failed.revertReason}
+        </div>
+      )}
+
+      {preview.findings.length > 0 && !preview.reverts && (
+        <ul className="space-y-1">
+          {preview.findings.map((finding, i) => (
+            <li key={i} className={finding.warningLevel === 'medium' ? 'text-yellow-800' : 'text-red-800'}>
+              ⚠️ {finding.message}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,166 @@
+/**
+ * SafeOverview — the Safe's current configuration at a glance.
+ *
+ * Owners, threshold, modules, guard, fallback handler and masterCopy, each
+ * checked by core.checkSafeConfiguration() against the trusted Safe contracts
+ * and the loaded address book. Anything neither vouches for is flagged.
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import {
+  SafeApiClient,
+  checkSafeConfiguration,
+  type SafeApiSafeInfo,
+  type SafeConfigEntry,
+} from '@shield3/sky-safe-core';
+import { Address } from './Address';
+import { useAddressBook } from '../address-book/AddressBookContext';
+
+interface SafeOverviewProps {
+  network: string;
+  safeAddress: string;
+}
+
+const ROLE_LABELS: Record<SafeConfigEntry['role'], string> = {
+  owner: 'Owner',
+  module: 'Module',
+  guard: 'Guard',
+  fallbackHandler: 'Fallback handler',
+  masterCopy: 'MasterCopy',
+};
+
+function StatusBadge({ entry }: { entry: SafeConfigEntry }) {
+  switch (entry.status) {
+    case 'trusted':
+      return <span className="text-xs bg-green-100 text-green-800 px-1.5 py-0.5 rounded">Trusted</span>;
+    case 'address-book':
+      return <span className="text-xs bg-green-100 text-green-800 px-1.5 py-0.5 rounded">In address book</span>;
+    case 'unchecked':
+      return null;
+    case 'unset':
+      return <span className="text-xs text-gray-500 italic">not set</span>;
+    default:
+      return (
+        <span
+          className={`text-xs px-1.5 py-0.5 rounded font-semibold ${
+            entry.warningLevel === 'critical' ? 'bg-red-600 text-white' : 'bg-red-100 text-red-800'
+          }`}
+        >
+          {entry.status === 'inactive' ? 'Inactive' : 'Unknown'}
+        </span>
+      );
+  }
+}
+
+function EntryRow({ entry }: { entry: SafeConfigEntry }) {
+  return (
+    <div className="text-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-gray-600 w-32 shrink-0">{ROLE_LABELS[entry.role]}:</span>
+        {entry.status !== 'unset' && <Address address={entry.address} />}
+        <StatusBadge entry={entry} />
+      </div>
+      {entry.message && <p className="ml-32 pl-2 text-xs text-red-700">{entry.message}</p>}
+    </div>
+  );
+}
+
+export function SafeOverview({ network, safeAddress }: SafeOverviewProps) {
+  const { addressBook } = useAddressBook();
+  const [info, setInfo] = useState<SafeApiSafeInfo | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setInfo(null);
+    setError(null);
+    new SafeApiClient(network)
+      .fetchSafeInfo(safeAddress as `0x${string}`)
+      .then((result) => {
+        if (!cancelled) setInfo(result);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to fetch Safe info');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [network, safeAddress]);
+
+  // Re-check when the address book changes: loading one can clear a flag.
+  const config = useMemo(() => (info ? checkSafeConfiguration(info) : null), [info, addressBook]);
+
+  if (error) {
+    return (
+      <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-6">
+        <p className="text-red-800 text-sm">
+          <strong>Could not load Safe configuration:</strong> {error}
+        </p>
+      </div>
+    );
+  }
+
+  if (!info || !config) {
+    return (
+      <div className="border rounded-lg p-4 mb-6 flex items-center gap-3">
+        <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-blue-600"></div>
+        <p className="text-gray-700 text-sm">Loading Safe configuration...</p>
+      </div>
+    );
+  }
+
+  const owners = config.entries.filter((e) => e.role === 'owner');
+  const modules = config.entries.filter((e) => e.role === 'module');
+  const contracts = config.entries.filter((e) => e.role !== 'owner' && e.role !== 'module');
+  const serious = config.warningLevel === 'critical' || config.warningLevel === 'high';
+
+  return (
+    <div className={`border rounded-lg p-4 mb-6 ${serious ? 'border-red-300' : ''}`}>
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-lg font-semibold">Safe Overview</h3>
+        <span className="text-sm text-gray-600">
+          Version {info.version} · Nonce {info.nonce}
+        </span>
+      </div>
+
+      {config.warnings.length > 0 && (
+        <div
+          className={`rounded p-2 mb-3 text-sm ${
+            serious
+              ? 'bg-red-50 border border-red-200 text-red-800'
+              : 'bg-yellow-50 border border-yellow-200 text-yellow-800'
+          }`}
+        >
+          ⚠️ {config.warnings.length} configuration {config.warnings.length === 1 ? 'entry needs' : 'entries need'}{' '}
+          review: not a trusted Safe contract and not in your address book.
+        </div>
+      )}
+
+      <div className="space-y-1">
+        <div className="text-sm">
+          <span className="text-gray-600 inline-block w-32">Threshold:</span>
+          <span className="font-semibold">
+            {config.threshold} of {owners.length}
+          </span>
+        </div>
+        {owners.map((entry) => (
+          <EntryRow key={`owner-${entry.address}`} entry={entry} />
+        ))}
+        {!config.addressBookLoaded && (
+          <p className="text-xs text-gray-500">Load an address book to check owners against it.</p>
+        )}
+        {modules.length === 0 ? (
+          <div className="text-sm">
+            <span className="text-gray-600 inline-block w-32">Modules:</span>
+            <span className="text-xs text-gray-500 italic">none enabled</span>
+          </div>
+        ) : (
+          modules.map((entry) => <EntryRow key={`module-${entry.address}`} entry={entry} />)
+        )}
+        {contracts.map((entry) => (
+          <EntryRow key={entry.role} entry={entry} />
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -6,9 +6,14 @@
  *
  * Actors (proposer, signer, executor) render through <Address> so they pick up
  * address-book / Safe treatment and are never abbreviated.
+ *
+ * When signature checks are supplied, each "Signed" event carries the offline
+ * verdict for that owner's signature, so a listed signer is never simply
+ * trusted. Likewise, a proposer check puts the verdict on who proposed it
+ * (owner, delegate or unknown) next to the "Proposed" event.
  */
 
-import type { SafeApiMultisigTransaction } from '@shield3/sky-safe-core';
+import type { ConfirmationCheck, ProposerCheckResult, SafeApiMultisigTransaction } from '@shield3/sky-safe-core';
 import { Address } from './Address';
 
 interface TransactionLogProps {
@@ -16,6 +21,10 @@ interface TransactionLogProps {
   /** All transactions sharing this nonce — used to detect rejection/supersede. */
   allTransactions: SafeApiMultisigTransaction[];
   safeAddress: string;
+  /** Per-signer results from verifyConfirmations, when available. */
+  signatureChecks?: ConfirmationCheck[] | null;
+  /** Proposer verdict from checkProposer, when available. */
+  proposerCheck?: ProposerCheckResult | null;
 }
 
 type Tone = 'proposed' | 'signed' | 'executed' | 'failed' | 'rejected';
@@ -26,6 +35,8 @@ interface LogEvent {
   tone: Tone;
   actor?: string;
   detail?: string;
+  check?: ConfirmationCheck;
+  proposerCheck?: ProposerCheckResult;
 }
 
 const DOT: Record<Tone, string> = {
@@ -36,6 +47,26 @@ const DOT: Record<Tone, string> = {
   rejected: 'bg-gray-500',
 };
 
+/** Badge text + colour per signature verdict. */
+const CHECK_BADGE: Record<ConfirmationCheck['status'], { label: string; className: string }> = {
+  valid: { label: '✓ Signature verified', className: 'bg-green-100 text-green-800' },
+  unverifiable: { label: 'Not verifiable offline', className: 'bg-gray-100 text-gray-700' },
+  'not-owner': { label: '⚠ Not a current owner', className: 'bg-red-100 text-red-800' },
+  'wrong-signer': { label: '✗ Wrong signer', className: 'bg-red-600 text-white' },
+  invalid: { label: '✗ Invalid signature', className: 'bg-red-600 text-white' },
+};
+
+/** Badge text + colour per proposer verdict. */
+const PROPOSER_BADGE: Record<ProposerCheckResult['status'], { label: string; className: string }> = {
+  owner: { label: '✓ Owner', className: 'bg-green-100 text-green-800' },
+  delegate: { label: 'Delegate of an owner', className: 'bg-yellow-100 text-yellow-800' },
+  'orphaned-delegate': { label: '⚠ Delegate of a former owner', className: 'bg-red-100 text-red-800' },
+  'unregistered-delegate': { label: '⚠ Unregistered delegate', className: 'bg-red-100 text-red-800' },
+  unknown: { label: '✗ Not an owner or delegate', className: 'bg-red-600 text-white' },
+  unchecked: { label: 'Owners not known', className: 'bg-gray-100 text-gray-700' },
+  none: { label: 'Proposer not reported', className: 'bg-gray-100 text-gray-700' },
+};
+
 /**
  * Absolute time plus a coarse relative suffix. Rendered in the viewer's local
  * time zone (via toLocaleString) with the zone name shown — `timeZoneName:
@@ -103,7 +134,13 @@ function isRejectionTx(tx: SafeApiMultisigTransaction, safeAddress: string): boo
   return tx.to.toLowerCase() === safeAddress.toLowerCase() && tx.value === '0' && (!tx.data || tx.data === '0x');
 }
 
-export function TransactionLog({ transaction, allTransactions, safeAddress }: TransactionLogProps) {
+export function TransactionLog({
+  transaction,
+  allTransactions,
+  safeAddress,
+  signatureChecks,
+  proposerCheck,
+}: TransactionLogProps) {
   const events: LogEvent[] = [];
   const thisIsRejection = isRejectionTx(transaction, safeAddress);
 
@@ -114,6 +151,7 @@ export function TransactionLog({ transaction, allTransactions, safeAddress }: Tr
     tone: 'proposed',
     actor: transaction.proposer || undefined,
     detail: transaction.proposedByDelegate ? `via delegate ${transaction.proposedByDelegate}` : undefined,
+    proposerCheck: proposerCheck ?? undefined,
   });
 
   // Signatures — sorted oldest first
@@ -127,6 +165,7 @@ export function TransactionLog({ transaction, allTransactions, safeAddress }: Tr
       tone: 'signed',
       actor: c.owner,
       detail: c.signatureType ? c.signatureType : undefined,
+      check: signatureChecks?.find((check) => check.owner.toLowerCase() === c.owner.toLowerCase()),
     });
   }
 
@@ -185,6 +224,26 @@ export function TransactionLog({ transaction, allTransactions, safeAddress }: Tr
                 </span>
               )}
               {e.detail && <span className="text-xs text-gray-500">{e.detail}</span>}
+              {e.check && (
+                <span className="text-xs mt-0.5 flex flex-wrap items-center gap-2">
+                  <span className={`px-1.5 py-0.5 rounded font-medium ${CHECK_BADGE[e.check.status].className}`}>
+                    {CHECK_BADGE[e.check.status].label}
+                  </span>
+                  {e.check.status !== 'valid' && <span className="text-gray-600">{e.check.message}</span>}
+                </span>
+              )}
+              {e.proposerCheck && (
+                <span className="text-xs mt-0.5 flex flex-wrap items-center gap-2">
+                  <span
+                    className={`px-1.5 py-0.5 rounded font-medium ${PROPOSER_BADGE[e.proposerCheck.status].className}`}
+                  >
+                    {PROPOSER_BADGE[e.proposerCheck.status].label}
+                  </span>
+                  {e.proposerCheck.status !== 'owner' && (
+                    <span className="text-gray-600">{e.proposerCheck.message}</span>
+                  )}
+                </span>
+              )}
             </div>
           </li>
         ))}
@@ -138,6 +138,11 @@ export function installMockSafeApi(): void {
     // /api/v1/safes/{address}/  — Safe info, used for the version
     if (/\/safes\/[^/]+\/$/.test(url)) return json(safeInfo())
 
+    // /api/v1/safes/{address}/messages/  — no fabricated messages, just an empty list
+    if (url.includes('/messages/')) {
+      return json({ count: 0, next: null, previous: null, results: [] })
+    }
+
     // /api/v*/safes/{address}/multisig-transactions/?nonce=N
     const nonceMatch = url.match(/[?&]nonce=(\d+)/)
     if (nonceMatch) {
@@ -145,9 +150,10 @@ export function installMockSafeApi(): void {
       return json({ count: results.length, next: null, previous: null, results })
     }
 
-    // /api/v1/safes/{address}/multisig-transactions/?limit=N  — the list view
+    // /api/v1/safes/{address}/multisig-transactions/?limit=N[&executed=false]  — the list view
     if (url.includes('multisig-transactions')) {
-      const results = allTransactions()
+      const executed = new URL(url).searchParams.get('executed')
+      const results = allTransactions().filter((tx) => executed === null || String(tx.isExecuted) === executed)
       return json({ count: results.length, next: null, previous: null, results })
     }
 
@@ -0,0 +1,286 @@
+import { useEffect, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import {
+  SafeApiClient,
+  calculateSafeMessageHash,
+  fromApiMessage,
+  isTypedDataMessage,
+  type SafeApiMessage,
+  type SafeMessage,
+  type SafeMessageHashResult,
+} from '@shield3/sky-safe-core';
+import { Address } from '../components/Address';
+import { HashHex } from '../components/HashHex';
+import { useSafeRoute } from '../safe-route/SafeRouteProvider';
+
+const ADDRESS_PATTERN = /^0x[a-fA-F0-9]{40}$/;
+
+/**
+ * Render a typed-data value. Addresses go through <Address> so they are
+ * labelled like every other address in the app; nested structs recurse.
+ */
+function TypedValue({ value }: { value: unknown }) {
+  if (typeof value === 'string' && ADDRESS_PATTERN.test(value)) {
+    return <Address address={value} />;
+  }
+  if (value !== null && typeof value === 'object') {
+    const entries = Array.isArray(value) ? value.map((v, i) => [String(i), v] as const) : Object.entries(value);
+    return (
+      <div className="ml-4 border-l-2 border-gray-200 pl-3 space-y-1">
+        {entries.map(([key, v]) => (
+          <div key={key}>
+            <span className="text-gray-600 font-mono text-xs">{key}:</span> <TypedValue value={v} />
+          </div>
+        ))}
+      </div>
+    );
+  }
+  return <span className="font-mono text-xs break-all">{String(value)}</span>;
+}
+
+/**
+ * Off-chain message analysis — the message counterpart of TransactionAnalysis.
+ * Fetches the message, recomputes its SafeMessage hash locally and compares it
+ * with the hash the Safe Transaction Service reports.
+ */
+export default function MessageAnalysis() {
+  const { network, safeAddress: address, chainId } = useSafeRoute();
+  const { messageHash } = useParams<{ messageHash: string }>();
+  const navigate = useNavigate();
+
+  const [apiMessage, setApiMessage] = useState<SafeApiMessage | null>(null);
+  const [message, setMessage] = useState<SafeMessage | null>(null);
+  const [version, setVersion] = useState('');
+  const [hashes, setHashes] = useState<SafeMessageHashResult | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadingMessage, setLoadingMessage] = useState('Loading message...');
+  const [error, setError] = useState<string | null>(null);
+  const [hashUppercase, setHashUppercase] = useState(true);
+
+  useEffect(() => {
+    const fetchAndVerify = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        setHashes(null);
+        setLoadingMessage('Loading message...');
+
+        const client = new SafeApiClient(network, (msg) => {
+          setLoadingMessage(msg);
+        });
+
+        const msg = await client.fetchMessage(messageHash!);
+        // The URL names a Safe. Never render another Safe's message under it.
+        if (msg.safe.toLowerCase() !== address.toLowerCase()) {
+          throw new Error(`Message ${messageHash} belongs to Safe ${msg.safe}, not ${address}`);
+        }
+        setApiMessage(msg);
+
+        const parsed = fromApiMessage(msg.message);
+        setMessage(parsed);
+
+        setLoadingMessage('Loading Safe version...');
+        const safeVersion = await client.fetchSafeVersion(address);
+        setVersion(safeVersion);
+
+        setHashes(calculateSafeMessageHash(chainId, address, parsed, safeVersion));
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to fetch message');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchAndVerify();
+  }, [address, network, chainId, messageHash]);
+
+  if (loading) {
+    return (
+      <div className="max-w-6xl mx-auto">
+        <div className="flex flex-col items-center justify-center py-12 space-y-4">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+          <p className="text-gray-700 font-medium">{loadingMessage}</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !apiMessage || !message) {
+    return (
+      <div className="max-w-6xl mx-auto">
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+          <p className="text-red-800">
+            <strong>Error:</strong> {error || 'Message not found'}
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  const hashesMatch = hashes?.safeMessageHash.toLowerCase() === apiMessage.messageHash.toLowerCase();
+  const typed = isTypedDataMessage(message) ? message : null;
+  const domainChainId = typed?.domain.chainId !== undefined ? Number(typed.domain.chainId) : null;
+
+  return (
+    <div className="max-w-6xl mx-auto space-y-6">
+      {/* Header */}
+      <div>
+        <div className="flex items-center gap-3 mb-2">
+          <button
+            onClick={() => navigate(`/safe/${network}/${address}/messages`)}
+            className="inline-flex items-center gap-1 px-3 py-1.5 text-sm font-medium text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+          >
+            ← Back to Messages
+          </button>
+          <h2 className="text-2xl font-bold">Message Analysis</h2>
+        </div>
+        <div className="text-sm text-gray-600 space-y-1">
+          <p>
+            Safe: <Address address={address} />
+          </p>
+          <p>
+            Network: {network} | Safe Version: {version}
+          </p>
+        </div>
+      </div>
+
+      {/* Message Data - What are you signing? */}
+      <div className="border-2 border-gray-300 rounded-lg overflow-hidden">
+        <div className="bg-gray-100 p-4 border-b-2 border-gray-300">
+          <h3 className="text-xl font-bold">Message Data</h3>
+          <p className="text-sm text-gray-600 mt-1">
+            {typed ? 'EIP-712 typed data' : 'EIP-191 personal message'} — review what you are signing
+          </p>
+        </div>
+
+        <div className="p-6 space-y-4 text-sm">
+          {typed ? (
+            <>
+              {domainChainId !== null && domainChainId !== chainId && (
+                <div className="bg-amber-50 border-2 border-amber-400 rounded-lg p-4">
+                  <p className="font-semibold text-amber-900">Domain chain mismatch</p>
+                  <p className="text-amber-900 mt-1">
+                    The typed-data domain names chain {domainChainId}, but this Safe is on {network} ({chainId}).
+                  </p>
+                </div>
+              )}
+              <div>
+                <span className="text-gray-600 font-medium">Primary type:</span>{' '}
+                <span className="font-mono">{typed.primaryType}</span>
+              </div>
+              <div>
+                <p className="text-gray-600 font-medium mb-1">Domain</p>
+                <TypedValue value={typed.domain} />
+              </div>
+              <div>
+                <p className="text-gray-600 font-medium mb-1">Message</p>
+                <TypedValue value={typed.message} />
+              </div>
+            </>
+          ) : (
+            <pre className="bg-gray-50 border rounded p-3 whitespace-pre-wrap break-all font-mono text-xs">
+              {typeof message === 'string' ? message : 'raw' in message ? message.raw : ''}
+            </pre>
+          )}
+
+          <div className="pt-4 border-t space-y-1">
+            <div>
+              <span className="text-gray-600">Proposed by:</span> <Address address={apiMessage.proposedBy} />
+            </div>
+            <div>
+              <span className="text-gray-600">Created:</span> {new Date(apiMessage.created).toLocaleString()}
+            </div>
+            {apiMessage.origin && (
+              <div>
+                <span className="text-gray-600">Origin:</span> {apiMessage.origin}
+              </div>
+            )}
+            <div>
+              <span className="text-gray-600">Confirmations:</span> {apiMessage.confirmations.length}
+            </div>
+            {apiMessage.confirmations.map((c) => (
+              <div key={c.owner} className="ml-4 text-xs">
+                <Address address={c.owner} /> <span className="text-gray-500">({c.signatureType})</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {/* Hash Verification - Compare to your hardware wallet */}
+      {hashes && (
+        <div className="border-2 border-blue-300 rounded-lg overflow-hidden">
+          <div className="bg-blue-50 p-4 border-b-2 border-blue-300">
+            <h3 className="text-lg font-bold text-blue-900 mb-1">Hardware Wallet Verification</h3>
+            <p className="text-sm text-blue-800">
+              Compare these hashes with what appears on your hardware wallet screen
+            </p>
+          </div>
+
+          <div className="p-6 space-y-4">
+            <div className="flex justify-end">
+              <div className="inline-flex overflow-hidden rounded border border-gray-200 text-xs">
+                <button
+                  type="button"
+                  onClick={() => setHashUppercase(true)}
+                  className={`px-2 py-0.5 ${hashUppercase ? 'bg-gray-100 text-gray-800' : 'text-gray-400 hover:text-gray-600'}`}
+                >
+                  ABC
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setHashUppercase(false)}
+                  className={`px-2 py-0.5 ${!hashUppercase ? 'bg-gray-100 text-gray-800' : 'text-gray-400 hover:text-gray-600'}`}
+                >
+                  abc
+                </button>
+              </div>
+            </div>
+
+            <div>
+              <p className="text-sm font-semibold text-gray-700 mb-2">Raw Message Hash:</p>
+              <div className="bg-gray-900 p-3 rounded-lg">
+                <HashHex value={hashes.rawMessageHash} uppercase={hashUppercase} className="text-sm" />
+              </div>
+              <p className="text-xs text-gray-500 mt-1">EIP-191 or EIP-712 hash of the message itself.</p>
+            </div>
+
+            <div>
+              <p className="text-sm font-semibold text-gray-700 mb-2">Domain Hash:</p>
+              <div className="bg-gray-900 p-3 rounded-lg">
+                <HashHex value={hashes.domainHash} uppercase={hashUppercase} className="text-sm" />
+              </div>
+              <p className="text-xs text-gray-500 mt-1">Unique per Safe. EIP-712 domain separator.</p>
+            </div>
+
+            <div>
+              <p className="text-sm font-semibold text-gray-700 mb-2">Message Hash:</p>
+              <div className="bg-gray-900 p-3 rounded-lg">
+                <HashHex value={hashes.messageHash} uppercase={hashUppercase} className="text-sm" />
+              </div>
+              <p className="text-xs text-gray-500 mt-1">Hash of the SafeMessage struct.</p>
+            </div>
+
+            <div>
+              <p className="text-sm font-semibold text-gray-700 mb-2">SafeMessage Hash:</p>
+              <div className="bg-gray-900 p-3 rounded-lg">
+                <HashHex value={hashes.safeMessageHash} uppercase={hashUppercase} className="text-sm" />
+              </div>
+              <p className="text-xs text-gray-500 mt-1">What owners sign. Unique per message per Safe.</p>
+            </div>
+
+            {!hashesMatch && (
+              <div className="bg-red-50 border-2 border-red-400 rounded-lg p-4">
+                <p className="font-semibold text-red-900 mb-2">⚠️ HASH MISMATCH WARNING</p>
+                <p className="text-sm text-red-900">
+                  Our calculated SafeMessage hash does not match what the Safe API provided. This could indicate the API
+                  is compromised or returning incorrect data. DO NOT SIGN!
+                </p>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
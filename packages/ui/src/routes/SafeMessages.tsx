@@ -0,0 +1,123 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { SafeApiClient, type SafeApiMessage } from '@shield3/sky-safe-core';
+import { Address } from '../components/Address';
+import { useSafeRoute } from '../safe-route/SafeRouteProvider';
+
+/**
+ * Off-chain messages for a Safe, newest first. Each entry links to
+ * MessageAnalysis, which recomputes the SafeMessage hash locally.
+ */
+export default function SafeMessages() {
+  const { network, safeAddress: address } = useSafeRoute();
+  const navigate = useNavigate();
+
+  const [messages, setMessages] = useState<SafeApiMessage[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadingMessage, setLoadingMessage] = useState('Loading messages...');
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchMessages = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        setLoadingMessage('Loading messages...');
+
+        const client = new SafeApiClient(network, (message) => {
+          setLoadingMessage(message);
+        });
+        const result = await client.fetchMessages(address);
+
+        setMessages(result.results);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to fetch messages');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchMessages();
+  }, [address, network]);
+
+  if (loading) {
+    return (
+      <div className="max-w-6xl mx-auto">
+        <div className="flex flex-col items-center justify-center py-12 space-y-4">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+          <p className="text-gray-700 font-medium">{loadingMessage}</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="max-w-6xl mx-auto">
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+          <p className="text-red-800">
+            <strong>Error:</strong> {error}
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-6xl mx-auto">
+      <div className="mb-6">
+        <div className="flex items-center gap-3 mb-2">
+          <button
+            onClick={() => navigate(`/safe/${network}/${address}`)}
+            className="inline-flex items-center gap-1 px-3 py-1.5 text-sm font-medium text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+          >
+            ← Transactions
+          </button>
+          <h2 className="text-2xl font-bold">Safe Messages</h2>
+        </div>
+        <p className="text-gray-600 text-sm mb-1">
+          Safe: <Address address={address} />
+        </p>
+        <p className="text-gray-600 text-sm">Network: {network}</p>
+      </div>
+
+      {messages.length === 0 ? (
+        <div className="text-center py-12">
+          <p className="text-gray-500">No off-chain messages found for this Safe.</p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {messages.map((msg) => (
+            <div
+              key={msg.messageHash}
+              onClick={() => navigate(`/safe/${network}/${address}/message/${msg.messageHash}`)}
+              className="border rounded-lg p-4 hover:border-blue-500 hover:shadow-md cursor-pointer transition-all"
+            >
+              <div className="flex items-start justify-between">
+                <div className="flex-1 space-y-1 text-sm">
+                  <div className="flex items-center gap-3 mb-2">
+                    <span className="text-sm px-2 py-1 rounded bg-gray-100 text-gray-800">
+                      {typeof msg.message === 'string' ? 'EIP-191' : 'EIP-712'}
+                    </span>
+                    <span className="text-gray-500">{new Date(msg.created).toLocaleString()}</span>
+                  </div>
+                  {/* Full hash, never abbreviated: lookalike hashes differ in the middle. */}
+                  <div className="font-mono text-xs break-all">{msg.messageHash}</div>
+                  <div>
+                    <span className="text-gray-600">Proposed by:</span> <Address address={msg.proposedBy} />
+                  </div>
+                  <div>
+                    <span className="text-gray-600">Confirmations:</span> {msg.confirmations.length}
+                  </div>
+                </div>
+                <div className="text-right">
+                  <button className="text-blue-600 hover:text-blue-700 font-medium text-sm">Analyze →</button>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,65 +1,256 @@
-import { useEffect, useState } from 'react';
+import { useCallback, useEffect, useRef, useState, type DragEvent } from 'react';
 import { useNavigate } from 'react-router-dom';
 import {
   SafeApiClient,
   type SafeApiMultisigTransaction,
+  type SafeTransactionFilter,
   getSafeUrl,
   getEtherscanAddressUrl,
+  parseTransactionBuilderFile,
+  parseSafeTxTypedData,
+  type SafeMessageTypedData,
+  type TransactionBuilderBatch,
 } from '@shield3/sky-safe-core';
 import { isApiFallbackSentinel } from '@shield3/sky-safe-core';
 import { Address } from '../components/Address';
 import { WeiValue } from '../components/WeiValue';
 import { conciseTimeline } from '../components/TransactionLog';
+import { SafeOverview } from '../components/SafeOverview';
 import { useSafeRoute } from '../safe-route/SafeRouteProvider';
 
+/** Turn an API failure into the message shown to the user. */
+function describeFetchError(err: unknown): string {
+  if (err instanceof Error) {
+    // Check for rate limiting (429 status)
+    if (err.message.includes('429') || err.message.toLowerCase().includes('rate limit')) {
+      return 'Rate limited by Safe API. Please try again in a moment. Safe rate limits the public API for security.';
+    }
+    return err.message;
+  }
+  return 'Failed to fetch transactions';
+}
+
+/**
+ * Drop zone for a Safe Transaction Builder batch, to review it before anyone
+ * proposes it. Batches for another chain are refused here, before the review.
+ */
+function BuilderBatchDrop({ chainId, onLoad }: { chainId: number; onLoad: (batch: TransactionBuilderBatch) => void }) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [dragOver, setDragOver] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFile = async (file: File) => {
+    setError(null);
+    try {
+      const batch = parseTransactionBuilderFile(await file.text());
+      if (Number(batch.chainId) !== chainId) {
+        throw new Error(`This batch is for chain ${batch.chainId}, not chain ${chainId}.`);
+      }
+      onLoad(batch);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const onDrop = (e: DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setDragOver(false);
+    const file = e.dataTransfer.files[0];
+    if (file) handleFile(file);
+  };
+
+  return (
+    <div>
+      <div
+        onDragOver={(e) => {
+          e.preventDefault();
+          setDragOver(true);
+        }}
+        onDragLeave={() => setDragOver(false)}
+        onDrop={onDrop}
+        className={`px-3 py-2 rounded border-2 border-dashed text-sm transition-colors ${
+          dragOver ? 'border-blue-500 bg-blue-50' : 'border-gray-300'
+        }`}
+      >
+        <div className="text-gray-700">
+          <span className="font-semibold">Review a Transaction Builder batch:</span> drag its JSON file here, or{' '}
+          <button type="button" onClick={() => fileInputRef.current?.click()} className="text-blue-600 hover:underline">
+            browse files
+          </button>
+        </div>
+        <div className="text-xs text-gray-500">
+          Checked as if proposed at the next nonce, so you know the hash to expect before anyone signs.
+        </div>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,application/json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) handleFile(file);
+            e.target.value = '';
+          }}
+        />
+      </div>
+      {error && <p className="mt-1 text-sm text-red-700">{error}</p>}
+    </div>
+  );
+}
+
+/**
+ * Paste box for the SafeTx typed data a wallet was asked to sign. Only the
+ * format is checked here; the schema and domain are checked on review.
+ */
+function TypedDataPaste({ onLoad }: { onLoad: (typedData: SafeMessageTypedData) => void }) {
+  const [text, setText] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      onLoad(parseSafeTxTypedData(text));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  return (
+    <details className="px-3 py-2 rounded border border-gray-300 text-sm">
+      <summary className="cursor-pointer text-gray-700">
+        <span className="font-semibold">Verify SafeTx typed data:</span> paste the eth_signTypedData_v4 payload your
+        wallet was asked to sign
+      </summary>
+      <form onSubmit={handleSubmit} className="mt-2 space-y-2">
+        <textarea
+          value={text}
+          onChange={(e) => {
+            setText(e.target.value);
+            setError(null);
+          }}
+          placeholder='{"domain": {...}, "types": {...}, "primaryType": "SafeTx", "message": {...}}'
+          rows={6}
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg font-mono text-xs focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+        />
+        <button
+          type="submit"
+          disabled={!text.trim()}
+          className="px-4 py-1.5 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 disabled:opacity-50"
+        >
+          Verify
+        </button>
+        {error && <p className="text-sm text-red-700">{error}</p>}
+      </form>
+    </details>
+  );
+}
+
 export default function SafeTransactions() {
   // network + safeAddress come from SafeRouteProvider — no manual useParams,
   // no manual loadNetworkContracts.
-  const { network, safeAddress } = useSafeRoute();
+  const { network, safeAddress, chainId } = useSafeRoute();
   const address = safeAddress;
   const navigate = useNavigate();
 
   const [transactions, setTransactions] = useState<SafeApiMultisigTransaction[]>([]);
+  // Total matching the filter, as reported by the service
+  const [totalCount, setTotalCount] = useState(0);
+  // `next` link of the last page loaded; null once the full history is in
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const [loadingMessage, setLoadingMessage] = useState('Loading transactions...');
   const [error, setError] = useState<string | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [loadMoreError, setLoadMoreError] = useState<string | null>(null);
   const [showPendingOnly, setShowPendingOnly] = useState(false);
+  // Nonce range and modified-since date; empty means no bound
+  const [nonceFrom, setNonceFrom] = useState('');
+  const [nonceTo, setNonceTo] = useState('');
+  const [modifiedSince, setModifiedSince] = useState('');
   const [nonceInput, setNonceInput] = useState('');
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  // Bumped on every fresh load, so a page that arrives after the Safe or the
+  // filter changed is dropped instead of appended to the wrong list.
+  const generation = useRef(0);
+
+  // Filtered by the service, so "pending only" covers the whole queue and not
+  // just whatever pages happen to be loaded.
+  const filter: SafeTransactionFilter = {
+    ...(showPendingOnly && { executed: false }),
+    ...(/^\d+$/.test(nonceFrom) && { nonceGte: Number(nonceFrom) }),
+    ...(/^\d+$/.test(nonceTo) && { nonceLte: Number(nonceTo) }),
+    // The date input gives a calendar day; take it from midnight UTC
+    ...(modifiedSince && { modifiedSince: `${modifiedSince}T00:00:00Z` }),
+  };
+  const filterKey = JSON.stringify(filter);
+  const rangeFiltered =
+    filter.nonceGte !== undefined || filter.nonceLte !== undefined || filter.modifiedSince !== undefined;
 
   useEffect(() => {
     const fetchTransactions = async () => {
+      const thisGeneration = ++generation.current;
       try {
         setLoading(true);
         setError(null);
+        setLoadMoreError(null);
         setLoadingMessage('Loading transactions...');
 
         const client = new SafeApiClient(network, (message) => {
           setLoadingMessage(message);
         });
-        const result = await client.fetchTransactions(address as `0x${string}`);
+        const page = await client.fetchTransactionsPage(address as `0x${string}`, filter);
+        if (thisGeneration !== generation.current) return;
 
-        setTransactions(result.results);
+        setTransactions(page.results);
+        setTotalCount(page.count);
+        setNextCursor(page.next);
       } catch (err) {
-        let errorMessage = 'Failed to fetch transactions';
-
-        if (err instanceof Error) {
-          // Check for rate limiting (429 status)
-          if (err.message.includes('429') || err.message.toLowerCase().includes('rate limit')) {
-            errorMessage =
-              'Rate limited by Safe API. Please try again in a moment. Safe rate limits the public API for security.';
-          } else {
-            errorMessage = err.message;
-          }
-        }
-
-        setError(errorMessage);
+        if (thisGeneration === generation.current) setError(describeFetchError(err));
       } finally {
-        setLoading(false);
+        if (thisGeneration === generation.current) setLoading(false);
       }
     };
 
     fetchTransactions();
-  }, [address, network]);
+  }, [address, network, filterKey]);
+
+  const loadMore = useCallback(async () => {
+    if (!nextCursor || loadingMore) return;
+    const thisGeneration = generation.current;
+    try {
+      setLoadingMore(true);
+      setLoadMoreError(null);
+      const client = new SafeApiClient(network);
+      const page = await client.fetchTransactionsPage(address as `0x${string}`, filter, nextCursor);
+      if (thisGeneration !== generation.current) return;
+
+      // Offset paging shifts when a transaction is proposed mid-scroll, so a
+      // page can repeat rows already shown. Keep the first copy of each.
+      setTransactions((prev) => {
+        const seen = new Set(prev.map((tx) => tx.safeTxHash));
+        return [...prev, ...page.results.filter((tx) => !seen.has(tx.safeTxHash))];
+      });
+      setTotalCount(page.count);
+      setNextCursor(page.next);
+    } catch (err) {
+      if (thisGeneration === generation.current) setLoadMoreError(describeFetchError(err));
+    } finally {
+      if (thisGeneration === generation.current) setLoadingMore(false);
+    }
+  }, [address, network, nextCursor, loadingMore, filterKey]);
+
+  // Infinite scroll: load the next page when the end of the list comes into
+  // view. Stops after a failed page, so an outage is not retried in a loop;
+  // the button below retries by hand.
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !nextCursor || loadMoreError) return;
+    const observer = new IntersectionObserver((entries) => {
+      if (entries.some((entry) => entry.isIntersecting)) loadMore();
+    });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [nextCursor, loadMoreError, loadMore]);
 
   const handleTransactionClick = (nonce: string) => {
     navigate(`/safe/${network}/${address}/tx/${nonce}`);
@@ -72,8 +263,6 @@ export default function SafeTransactions() {
     }
   };
 
-  const filteredTransactions = showPendingOnly ? transactions.filter((tx) => !tx.isExecuted) : transactions;
-
   if (loading) {
     return (
       <div className="max-w-6xl mx-auto">
@@ -109,6 +298,12 @@ export default function SafeTransactions() {
             <p className="text-gray-600 text-sm">Network: {network}</p>
           </div>
           <div className="flex gap-2">
+            <button
+              onClick={() => navigate(`/safe/${network}/${address}/messages`)}
+              className="inline-flex items-center gap-1 px-3 py-2 text-sm font-medium text-gray-700 bg-gray-50 border border-gray-300 rounded-lg hover:bg-gray-100 transition-colors"
+            >
+              Messages
+            </button>
             <a
               href={getSafeUrl(network, address)}
               target="_blank"
@@ -129,6 +324,8 @@ export default function SafeTransactions() {
         </div>
       </div>
 
+      <SafeOverview network={network} safeAddress={address} />
+
       {/* Nonce input and filters */}
       <div className="mb-6 space-y-4">
         <form onSubmit={handleNonceSubmit} className="flex gap-2">
@@ -148,10 +345,20 @@ export default function SafeTransactions() {
           </button>
         </form>
 
+        <BuilderBatchDrop
+          chainId={chainId}
+          onLoad={(batch) => navigate(`/safe/${network}/${address}/builder`, { state: { builderBatch: batch } })}
+        />
+
+        <TypedDataPaste
+          onLoad={(typedData) => navigate(`/safe/${network}/${address}/typed-data`, { state: { typedData } })}
+        />
+
         <div className="flex items-center justify-between">
           <p className="text-sm text-gray-600">
-            Showing {filteredTransactions.length} of {transactions.length} transactions
-            {transactions.length === 20 && <span className="text-gray-500"> (20 most recent)</span>}
+            Showing {transactions.length} of {totalCount} {showPendingOnly ? 'pending ' : ''}transactions
+            {rangeFiltered && ' matching the filters'}
+            {nextCursor && <span className="text-gray-500"> (scroll for more)</span>}
           </p>
           <label className="flex items-center gap-2 text-sm cursor-pointer">
             <input
@@ -163,17 +370,66 @@ export default function SafeTransactions() {
             <span>Show pending only</span>
           </label>
         </div>
+
+        <div className="flex flex-wrap items-end gap-3 text-xs text-gray-600">
+          <label>
+            Nonce from
+            <input
+              type="number"
+              min="0"
+              value={nonceFrom}
+              onChange={(e) => setNonceFrom(e.target.value)}
+              className="block mt-1 w-28 px-2 py-1 border border-gray-300 rounded text-sm"
+            />
+          </label>
+          <label>
+            Nonce to
+            <input
+              type="number"
+              min="0"
+              value={nonceTo}
+              onChange={(e) => setNonceTo(e.target.value)}
+              className="block mt-1 w-28 px-2 py-1 border border-gray-300 rounded text-sm"
+            />
+          </label>
+          <label>
+            Modified since
+            <input
+              type="date"
+              value={modifiedSince}
+              onChange={(e) => setModifiedSince(e.target.value)}
+              className="block mt-1 px-2 py-1 border border-gray-300 rounded text-sm"
+            />
+          </label>
+          {rangeFiltered && (
+            <button
+              type="button"
+              onClick={() => {
+                setNonceFrom('');
+                setNonceTo('');
+                setModifiedSince('');
+              }}
+              className="py-1 text-sm text-blue-700 hover:underline"
+            >
+              Clear
+            </button>
+          )}
+        </div>
       </div>
 
-      {filteredTransactions.length === 0 ? (
+      {transactions.length === 0 ? (
         <div className="text-center py-12">
           <p className="text-gray-500">
-            {showPendingOnly ? 'No pending transactions found.' : 'No transactions found for this Safe.'}
+            {rangeFiltered
+              ? 'No transactions match the filters.'
+              : showPendingOnly
+                ? 'No pending transactions found.'
+                : 'No transactions found for this Safe.'}
           </p>
         </div>
       ) : (
         <div className="space-y-4">
-          {filteredTransactions.map((tx) => (
+          {transactions.map((tx) => (
             <div
               key={tx.safeTxHash}
               onClick={() => handleTransactionClick(tx.nonce.toString())}
@@ -245,6 +501,20 @@ export default function SafeTransactions() {
               </div>
             </div>
           ))}
+
+          {/* End of list: infinite-scroll trigger, with a button as fallback */}
+          {nextCursor && (
+            <div ref={sentinelRef} className="flex flex-col items-center gap-2 py-4">
+              {loadMoreError && <p className="text-sm text-red-700">{loadMoreError}</p>}
+              <button
+                onClick={loadMore}
+                disabled={loadingMore}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-50 border border-gray-300 rounded-lg hover:bg-gray-100 disabled:opacity-50 transition-colors"
+              >
+                {loadingMore ? 'Loading...' : loadMoreError ? 'Retry' : 'Load more'}
+              </button>
+            </div>
+          )}
         </div>
       )}
     </div>
@@ -4,6 +4,7 @@
  *   - My Safes (personal): add / edit label / remove, and export. Adding here or
  *     via the capture banner only updates the session; export to save to CSV.
  *   - Address book (managed): read-only; replace by loading a fresh file.
+ *   - Large-transfer thresholds: per-network overrides of the defaults.
  *
  * Config is session-only (no localStorage); the CSV files you keep externally
  * are the source of truth. Drag them onto the bar above to load each session.
@@ -14,9 +15,11 @@ import { useAddressBook } from '../address-book/AddressBookContext';
 import { useSettings } from '../settings/SettingsContext';
 import { EntryTable } from '../address-book/tables';
 import { downloadCsv } from '../address-book/download';
-import type { AddressBookSafe, AddressBookSkippedRow } from '@shield3/sky-safe-core';
+import { CONTRACTS_BY_NETWORK, DEFAULT_TRANSFER_THRESHOLDS } from '@shield3/sky-safe-core';
+import type { AddressBookSafe, AddressBookSkippedRow, TransferThresholds } from '@shield3/sky-safe-core';
 
 const ADDRESS_PATTERN = /^0x[a-fA-F0-9]{40}$/;
+const AMOUNT_PATTERN = /^\d+(\.\d+)?$/;
 
 const NETWORK_OPTIONS = [
   { value: 'ethereum', label: 'Ethereum Mainnet' },
@@ -223,6 +226,82 @@ function MySafesTable({ safes }: { safes: AddressBookSafe[] }) {
   );
 }
 
+/** Token labels on a network whose decimals are known, so a threshold can apply */
+function thresholdTokens(network: string): string[] {
+  return (CONTRACTS_BY_NETWORK[network] ?? [])
+    .filter((contract) => contract.category === 'token' && typeof contract.decimals === 'number')
+    .map((contract) => contract.label);
+}
+
+function ThresholdInput({
+  asset,
+  value,
+  placeholder,
+  onCommit,
+}: {
+  asset: string;
+  value: string | undefined;
+  placeholder: string;
+  onCommit: (amount: string | undefined) => void;
+}) {
+  const [draft, setDraft] = useState(value ?? '');
+  const invalid = draft.trim() !== '' && !AMOUNT_PATTERN.test(draft.trim());
+
+  return (
+    <label className="flex items-center gap-2 text-sm">
+      <span className="w-16 font-mono">{asset}</span>
+      <input
+        type="text"
+        inputMode="decimal"
+        value={draft}
+        placeholder={placeholder}
+        onChange={(e) => {
+          const next = e.target.value;
+          setDraft(next);
+          if (next.trim() === '') onCommit(undefined);
+          else if (AMOUNT_PATTERN.test(next.trim())) onCommit(next.trim());
+        }}
+        className={`w-36 px-2 py-1 border rounded font-mono text-xs ${invalid ? 'border-red-500' : 'border-gray-300'}`}
+      />
+    </label>
+  );
+}
+
+function TransferThresholdsForm({ network, label }: { network: string; label: string }) {
+  const { transferThresholds, setTransferThresholds } = useSettings();
+  const overrides = transferThresholds[network] ?? {};
+  const defaults = DEFAULT_TRANSFER_THRESHOLDS[network] ?? {};
+
+  const update = (asset: string, amount: string | undefined) => {
+    const next: TransferThresholds = { native: overrides.native, tokens: { ...overrides.tokens } };
+    if (asset === 'ETH') {
+      next.native = amount;
+    } else if (amount === undefined) {
+      delete next.tokens![asset];
+    } else {
+      next.tokens![asset] = amount;
+    }
+    setTransferThresholds(network, next);
+  };
+
+  return (
+    <div className="border border-gray-200 rounded p-3">
+      <h4 className="text-sm font-semibold mb-2">{label}</h4>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+        {['ETH', ...thresholdTokens(network)].map((asset) => (
+          <ThresholdInput
+            key={asset}
+            asset={asset}
+            value={asset === 'ETH' ? overrides.native : overrides.tokens?.[asset]}
+            placeholder={(asset === 'ETH' ? defaults.native : defaults.tokens?.[asset]) ?? 'no threshold'}
+            onCommit={(amount) => update(asset, amount)}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
+
 export default function Settings() {
   const { addressBook, mySafes, exportMySafes } = useAddressBook();
   const { sourcifyFallback, setSourcifyFallback } = useSettings();
@@ -265,6 +344,20 @@ export default function Settings() {
         </label>
       </section>
 
+      {/* Large-transfer thresholds — per-network overrides */}
+      <section>
+        <h3 className="text-xl font-semibold mb-1">Large-transfer thresholds</h3>
+        <p className="text-sm text-gray-600 mb-3">
+          A transaction that sends more than this out of the Safe, summed across a batch, is flagged high risk. Amounts
+          are in whole units; leave a field empty to keep the default shown in grey.
+        </p>
+        <div className="space-y-3">
+          {NETWORK_OPTIONS.map((option) => (
+            <TransferThresholdsForm key={option.value} network={option.value} label={option.label} />
+          ))}
+        </div>
+      </section>
+
       {/* My Safes — add / edit / remove + export */}
       <section>
         <div className="flex flex-wrap items-center justify-between gap-3 mb-3">
@@ -1,30 +1,41 @@
 import { useEffect, useState } from 'react';
-import { useNavigate, useParams, useSearchParams } from 'react-router-dom';
+import { useLocation, useNavigate, useParams, useSearchParams } from 'react-router-dom';
 import {
   SafeApiClient,
-  calculateSafeTxHash,
-  analyzeSecurity,
+  verifySafeTransaction,
   decoderRegistry,
   LockstakeEngineDecoder,
   SPBEAMDecoder,
   StUsdsRateSetterDecoder,
   PASConfiguratorDecoder,
-  decodeMultiSend,
-  isMultiSend,
-  verifyDecodedData,
-  isApiFallbackSentinel,
   decodeViaSourcify,
   getSourcifyContractUrl,
   getNetwork,
-  extractAddressesFromApiDecoded,
-  extractAddressesFromDecodedTransaction,
+  findSafePolicy,
+  formatUnitsLoose,
+  fetchCrossChainSafeStates,
+  isCrossChainReplayable,
+  fetchQueuedNonces,
+  transactionBuilderBatchToProposal,
+  verifyTransactionBuilderChecksum,
+  createTransactionBuilderBatch,
+  createSafeTxTypedData,
+  checkSafeTxTypedData,
+  safeTxTypedDataToProposal,
+  renderDeviceDisplay,
+  DEVICE_PROFILES,
+  HARDWARE_WALLET_DEVICES,
+  type HardwareWalletDevice,
+  type HashChallengeMode,
+  type HashChallengeRecord,
+  type SafeMessageTypedData,
+  type SafeTxTypedDataCheck,
+  type TransactionBuilderBatch,
+  type CrossChainSafeState,
+  type SafeApiDelegate,
+  type SafeNonceState,
   type SafeApiMultisigTransaction,
-  type SecurityAnalysisResult,
-  type DecodedTransactionData,
-  type DecodedMultiSendTransaction,
-  type SafeApiNestedTransaction,
-  type SafeApiDataDecoded,
-  type DecodeVerificationResult,
+  type VerificationReport,
   type SourcifyDecodeResult,
 } from '@shield3/sky-safe-core';
 import { AddressHighlighter } from '../components/AddressHighlighter';
@@ -33,9 +44,13 @@ import { ParamValue } from '../components/ParamValue';
 import { WeiValue } from '../components/WeiValue';
 import { HashHex } from '../components/HashHex';
 import { TransactionLog } from '../components/TransactionLog';
+import { OwnerChangePreview } from '../components/OwnerChangePreview';
+import { DeviceScreens } from '../components/DeviceScreens';
+import { HashChallengePanel } from '../components/HashChallengePanel';
 import { useAddressBook } from '../address-book/AddressBookContext';
 import { useSafeRoute } from '../safe-route/SafeRouteProvider';
 import { useSettings } from '../settings/SettingsContext';
+import { downloadFile } from '../address-book/download';
 
 // Register custom decoders
 decoderRegistry.register(new LockstakeEngineDecoder());
@@ -57,6 +72,12 @@ function isSimulatedSafe(address: string | undefined): boolean {
   return !!mocked && !!address && mocked.toLowerCase() === address.toLowerCase();
 }
 
+/**
+ * Left margin for a MultiSend call by nesting level, so the calls of a nested
+ * batch sit under the call that carries them. Full class names, for Tailwind.
+ */
+const NESTED_BATCH_INDENT = ['', 'ml-6', 'ml-12', 'ml-16'];
+
 /**
  * Deep-convert bigints to strings so a decoded value can be rendered.
  * viem returns integers as bigint, and JSON.stringify (used by ParamValue for
@@ -257,10 +278,24 @@ function SourcifyDecodedView({
   );
 }
 
-export default function TransactionAnalysis() {
+/**
+ * Where the transaction comes from: the Safe API by nonce, a Transaction
+ * Builder batch (at the Safe's next nonce), or SafeTx typed data. The last two
+ * are handed over in the location state and were never proposed.
+ */
+type TransactionSource = 'api' | 'builder' | 'typed-data';
+
+export default function TransactionAnalysis({ source = 'api' }: { source?: TransactionSource }) {
   const navigate = useNavigate();
   const params = useParams<{ nonce: string }>();
-  const nonce = params.nonce!;
+  const builderMode = source === 'builder';
+  const typedDataMode = source === 'typed-data';
+  const locationState = useLocation().state as {
+    builderBatch?: TransactionBuilderBatch;
+    typedData?: SafeMessageTypedData;
+  } | null;
+  const builderBatch = locationState?.builderBatch;
+  const typedData = locationState?.typedData;
   // network, safeAddress (here as `address` for backwards-compat naming),
   // chainId all come from SafeRouteProvider — no manual useParams threading,
   // no manual loadNetworkContracts call, no chainId derivation.
@@ -269,28 +304,35 @@ export default function TransactionAnalysis() {
   // Subscribe to the config — we don't render it directly here, but the
   // security analysis (which reads address tags) must re-run whenever either
   // file changes, so we depend on both slots below.
-  const { addressBook, mySafes } = useAddressBook();
-  const { sourcifyFallback } = useSettings();
+  const { addressBook, mySafes, policies } = useAddressBook();
+  const { sourcifyFallback, transferThresholds } = useSettings();
   const [searchParams] = useSearchParams();
   const safeTxHashParam = searchParams.get('safeTxHash');
+  // Position among the transactions on this nonce, from 1 as the selector
+  // numbers them: how the URL picks one while a hash challenge is open
+  const txParam = searchParams.get('tx');
 
   const [allTransactions, setAllTransactions] = useState<SafeApiMultisigTransaction[]>([]);
   const [transaction, setTransaction] = useState<SafeApiMultisigTransaction | null>(null);
   const [version, setVersion] = useState<string>('');
-  const [hashes, setHashes] = useState<{ domainHash: string; messageHash: string; safeTxHash: string } | null>(null);
-  const [security, setSecurity] = useState<SecurityAnalysisResult | null>(null);
-  // Addresses pulled from decoded params — stored so the security effect can
-  // re-run when the address book changes without re-fetching the transaction.
-  const [paramAddresses, setParamAddresses] = useState<`0x${string}`[]>([]);
-  const [customDecoded, setCustomDecoded] = useState<DecodedTransactionData | null>(null);
-  const [apiDecodedVerification, setApiDecodedVerification] = useState<DecodeVerificationResult | null>(null);
-  const [multiSendVerification, setMultiSendVerification] = useState<DecodeVerificationResult | null>(null);
-  const [multiSendTxs, setMultiSendTxs] = useState<Array<{
-    tx: DecodedMultiSendTransaction;
-    decoded?: DecodedTransactionData;
-    apiDecoded?: SafeApiDataDecoded | null;
-    verification?: DecodeVerificationResult;
-  }> | null>(null);
+  // Current owners, for checking who signed, and threshold, for previewing
+  // owner changes.
+  const [owners, setOwners] = useState<`0x${string}`[] | undefined>(undefined);
+  const [threshold, setThreshold] = useState<number | undefined>(undefined);
+  // The same Safe on the other networks. Only looked up for pre-1.3.0 Safes,
+  // whose signatures do not include the chainId.
+  const [crossChainSafes, setCrossChainSafes] = useState<CrossChainSafeState[] | undefined>(undefined);
+  const [nonceState, setNonceState] = useState<SafeNonceState | undefined>(undefined);
+  // Delegates registered for the Safe, to judge who proposed the transaction
+  const [delegates, setDelegates] = useState<SafeApiDelegate[] | undefined>(undefined);
+  // Schema and domain checks of pasted typed data
+  const [typedDataCheck, setTypedDataCheck] = useState<SafeTxTypedDataCheck | null>(null);
+  // Owner the signer says they are, so an owner change that removes them is flagged.
+  const [signer, setSigner] = useState('');
+  // Everything core checked — decodings, security, hashes, signatures. Built
+  // by the analysis effect below, separately from the fetch, so it can re-run
+  // when the address book changes without re-fetching the transaction.
+  const [report, setReport] = useState<VerificationReport | null>(null);
   // Sourcify fallback results — a decoding for a call the Safe API could not
   // decode, keyed by the nested MultiSend index (or 'top' for a direct call).
   // Each is re-encode-verified in core before it reaches here.
@@ -320,6 +362,14 @@ export default function TransactionAnalysis() {
   const [viewMode, setViewMode] = useState<'decoded' | 'raw'>('decoded');
   // Hash display case — default uppercase to match Ledger and similar devices.
   const [hashUppercase, setHashUppercase] = useState(true);
+  // Hardware wallet to lay the hashes out for, as it displays them
+  const [device, setDevice] = useState<HardwareWalletDevice | ''>('');
+  // Hash confirmation challenge: hide the safeTxHash until the signer types it from the device
+  const [challengeMode, setChallengeMode] = useState<HashChallengeMode | ''>('');
+  // Passed challenges this session, exported as evidence the device screen was compared
+  const [challengeRecords, setChallengeRecords] = useState<HashChallengeRecord[]>([]);
+  // Why the last Transaction Builder export failed (a delegatecall, usually)
+  const [exportError, setExportError] = useState<string | null>(null);
 
   useEffect(() => {
     const fetchAndAnalyze = async () => {
@@ -328,140 +378,96 @@ export default function TransactionAnalysis() {
         setError(null);
         setLoadingMessage('Loading transaction...');
 
-        // Reset every decoded slot before fetching. This effect re-runs when
-        // the transaction changes (a nonce change, or a safeTxHash switch via
-        // the same-nonce dropdown), but the component instance is reused, so
-        // its state persists. Each setter below is written only inside its own
-        // branch — a MultiSend sets multiSendTxs, a custom-decoded direct call
-        // sets customDecoded, and so on. Without clearing here, a transaction
-        // that takes a different branch than the previous one leaves the prior
-        // transaction's decode in place, and the Decoded pane would render one
-        // transaction's operations under another transaction's hash. Clear all
-        // of them so the pane only ever shows the current transaction.
-        setCustomDecoded(null);
-        setMultiSendTxs(null);
-        setApiDecodedVerification(null);
-        setMultiSendVerification(null);
-        setParamAddresses([]);
+        // Drop the previous transaction's report before fetching. This effect
+        // re-runs when the transaction changes (a nonce change, or a
+        // safeTxHash switch via the same-nonce dropdown), but the component
+        // instance is reused, so its state persists. Without clearing here the
+        // Decoded pane could render one transaction's operations under
+        // another transaction's hash.
+        setReport(null);
 
         const client = new SafeApiClient(network, (message) => {
           setLoadingMessage(message);
         });
 
-        // Fetch all transactions with this nonce
-        const transactions = await client.fetchTransactionsByNonce(address as `0x${string}`, parseInt(nonce));
-
-        // Store all transactions
-        setAllTransactions(transactions);
-
-        // Select transaction: use safeTxHash param if provided (when switching via dropdown), otherwise use first
-        let tx: (typeof transactions)[0];
-        if (safeTxHashParam) {
-          const found = transactions.find((t) => t.safeTxHash === safeTxHashParam);
-          tx = found || transactions[0]!;
-        } else {
-          tx = transactions[0]!;
-        }
-        setTransaction(tx);
-
-        // Fetch Safe version
+        // Fetch Safe version and owners. Set them with the transaction, so the
+        // analysis effect never runs one Safe's transaction with another's
+        // version.
         setLoadingMessage('Loading Safe version...');
-        const safeVersion = await client.fetchSafeVersion(address as `0x${string}`);
-        setVersion(safeVersion);
-        setLoadingMessage('Calculating transaction hash...');
-
-        // chainId comes from SafeRouteProvider — no manual network lookup here.
-        const computed = calculateSafeTxHash(
-          chainId,
-          address as `0x${string}`,
-          {
-            to: tx.to as `0x${string}`,
-            value: tx.value,
-            data: tx.data as `0x${string}`,
-            operation: tx.operation,
-            safeTxGas: tx.safeTxGas.toString(),
-            baseGas: tx.baseGas.toString(),
-            gasPrice: tx.gasPrice,
-            gasToken: tx.gasToken as `0x${string}`,
-            refundReceiver: tx.refundReceiver as `0x${string}`,
-            nonce: tx.nonce.toString(),
-          },
-          safeVersion
-        );
-        setHashes(computed);
-
-        // Decode multisend / custom decoders first — we need decoded data to
-        // feed the address-book check with param-level addresses.
-        const extracted: `0x${string}`[] = [];
-
-        // Always pull addresses from the Safe API's dataDecoded (covers
-        // multisend nested calls via valueDecoded recursion).
-        extracted.push(...extractAddressesFromApiDecoded(tx.dataDecoded));
-
-        if (tx.data && tx.data !== '0x' && tx.data.length > 2) {
-          if (isMultiSend(tx.data as `0x${string}`)) {
-            const nestedTxs = decodeMultiSend(tx.data as `0x${string}`);
-
-            // Verify the outer MultiSend transaction itself
-            if (tx.dataDecoded) {
-              const outerVerification = verifyDecodedData(tx.data as `0x${string}`, tx.dataDecoded);
-              setMultiSendVerification(outerVerification);
-            }
-
-            if (nestedTxs) {
-              // Get Safe API decoded nested transactions from valueDecoded
-              let apiNestedTxs: SafeApiNestedTransaction[] | null = null;
-              if (tx.dataDecoded?.parameters) {
-                const transactionsParam = tx.dataDecoded.parameters.find((p) => p.name === 'transactions');
-                if (transactionsParam?.valueDecoded && Array.isArray(transactionsParam.valueDecoded)) {
-                  apiNestedTxs = transactionsParam.valueDecoded as SafeApiNestedTransaction[];
-                }
-              }
-
-              // Try to decode each nested transaction with custom decoders + preserve Safe API data
-              const decoded = nestedTxs.map((nestedTx, index) => {
-                const customDecoded = decoderRegistry.decode(nestedTx.to as `0x${string}`, nestedTx.data, network);
-
-                if (customDecoded) {
-                  extracted.push(...extractAddressesFromDecodedTransaction(customDecoded));
-                }
-
-                // Get corresponding Safe API decoded data. Treat the Safe
-                // service's "fallback" sentinel as no decoding, so an
-                // undecodable call falls through to the raw/selector view
-                // instead of being re-encode-checked as fallback() and flagged.
-                const rawApiDecoded = apiNestedTxs?.[index]?.dataDecoded || null;
-                const apiDecoded = isApiFallbackSentinel(rawApiDecoded) ? null : rawApiDecoded;
-
-                // Verify Safe API decoded data against raw data
-                const verification = apiDecoded ? verifyDecodedData(nestedTx.data, apiDecoded) : undefined;
-
-                return { tx: nestedTx, decoded: customDecoded, apiDecoded, verification };
-              });
-
-              setMultiSendTxs(decoded);
-            }
+        const safeInfo = await client.fetchSafeInfo(address as `0x${string}`);
+        const safeVersion = safeInfo.version || '0.0.0';
+        const safeNonce = Number(safeInfo.nonce);
+
+        let transactions: SafeApiMultisigTransaction[];
+        let tx: SafeApiMultisigTransaction;
+        if (builderMode) {
+          // Location state does not survive a reload
+          if (!builderBatch) {
+            throw new Error(
+              'No Transaction Builder batch to review. Drop the batch file on the transaction list again.'
+            );
+          }
+          // Anything already proposed at the next nonce competes with the batch
+          transactions = await client.fetchTransactionsByNonce(address as `0x${string}`, safeNonce);
+          tx = transactionBuilderBatchToProposal(builderBatch, {
+            safeAddress: address as `0x${string}`,
+            version: safeVersion,
+            chainId,
+            nonce: safeNonce,
+          });
+          setAllTransactions([]);
+        } else if (typedDataMode) {
+          if (!typedData) {
+            throw new Error('No typed data to review. Paste it on the transaction list again.');
+          }
+          // Checked against this route's Safe and chain, whatever the domain names
+          const check = checkSafeTxTypedData(typedData, {
+            safeAddress: address as `0x${string}`,
+            chainId,
+            version: safeVersion,
+          });
+          tx = safeTxTypedDataToProposal(check);
+          transactions = await client.fetchTransactionsByNonce(address as `0x${string}`, tx.nonce);
+          setTypedDataCheck(check);
+          setAllTransactions([]);
+        } else {
+          // Fetch all transactions with this nonce
+          transactions = await client.fetchTransactionsByNonce(address as `0x${string}`, parseInt(params.nonce!));
+
+          // Store all transactions
+          setAllTransactions(transactions);
+
+          // Select transaction: use safeTxHash or tx param if provided (when switching via dropdown), otherwise use first
+          if (safeTxHashParam) {
+            const found = transactions.find((t) => t.safeTxHash === safeTxHashParam);
+            tx = found || transactions[0]!;
+          } else if (txParam) {
+            tx = transactions[Number(txParam) - 1] ?? transactions[0]!;
           } else {
-            // Try direct custom decoder
-            const decoded = decoderRegistry.decode(tx.to as `0x${string}`, tx.data, network);
-            if (decoded) {
-              setCustomDecoded(decoded);
-              extracted.push(...extractAddressesFromDecodedTransaction(decoded));
-            } else {
-              // If no custom decoder but Safe API has a real decoding, verify
-              // it. The "fallback" sentinel is not a real decoding — skip it so
-              // the call is treated as undecodable rather than flagged.
-              if (tx.dataDecoded && !isApiFallbackSentinel(tx.dataDecoded)) {
-                const verification = verifyDecodedData(tx.data as `0x${string}`, tx.dataDecoded);
-                setApiDecodedVerification(verification);
-              }
-            }
+            tx = transactions[0]!;
           }
         }
 
-        // Stash param addresses; the security effect below will compose them
-        // with the current address-book state to (re-)run analyzeSecurity.
-        setParamAddresses(extracted);
+        const queuedNonces = await fetchQueuedNonces(client, address as `0x${string}`, safeNonce, tx.nonce);
+        // Not every Transaction Service lists delegates; without them a
+        // delegate is judged by the owner it proposed for
+        const safeDelegates = await client.fetchDelegates(address as `0x${string}`).catch(() => undefined);
+        let otherChains: CrossChainSafeState[] | undefined;
+        if (isCrossChainReplayable(safeVersion)) {
+          setLoadingMessage('Looking for this Safe on other networks...');
+          otherChains = await fetchCrossChainSafeStates(address as `0x${string}`, network);
+        }
+        setTransaction(tx);
+        setOwners(safeInfo.owners);
+        setThreshold(safeInfo.threshold);
+        setCrossChainSafes(otherChains);
+        setDelegates(safeDelegates);
+        setNonceState({
+          safeNonce,
+          queuedNonces,
+          competingProposals: transactions.filter((t) => t.safeTxHash !== tx.safeTxHash).map((t) => t.safeTxHash),
+        });
+        setVersion(safeVersion);
       } catch (err) {
         let errorMessage = 'Failed to fetch transaction';
 
@@ -482,36 +488,94 @@ export default function TransactionAnalysis() {
     };
 
     fetchAndAnalyze();
-  }, [address, nonce, network, safeTxHashParam]);
-
-  // Re-run security analysis whenever the transaction OR address book changes.
+  }, [
+    address,
+    params.nonce,
+    network,
+    safeTxHashParam,
+    txParam,
+    builderMode,
+    builderBatch,
+    typedDataMode,
+    typedData,
+    chainId,
+  ]);
+
+  // Verify the transaction, and re-verify whenever the address book changes.
   // Keeping this separate from the fetch effect means loading/clearing the book
   // while a transaction is open updates warnings live, without re-fetching.
   useEffect(() => {
-    if (!transaction) {
-      setSecurity(null);
-      return;
+    if (!transaction || !version) return;
+    let cancelled = false;
+
+    // chainId follows from the network in core — the same network that
+    // SafeRouteProvider derived this route's chainId from.
+    verifySafeTransaction(transaction, version, network, {
+      safeAddress: address as `0x${string}`,
+      owners,
+      threshold,
+      signer: signer ? (signer as `0x${string}`) : undefined,
+      policy: policies ? findSafePolicy(policies.set, network, address) : undefined,
+      transferThresholds: transferThresholds[network],
+      crossChainSafes,
+      nonceState,
+      delegates,
+    })
+      .then((result) => {
+        if (!cancelled) setReport(result);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to verify transaction');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [
+    transaction,
+    version,
+    owners,
+    threshold,
+    crossChainSafes,
+    nonceState,
+    delegates,
+    signer,
+    network,
+    address,
+    addressBook,
+    mySafes,
+    policies,
+    transferThresholds,
+  ]);
+
+  // The report for the transaction on screen. A report for the previous
+  // transaction may still be in state for a frame after switching.
+  const current = report && transaction && report.apiSafeTxHash === transaction.safeTxHash ? report : null;
+  const hashes = current?.hashes ?? null;
+  const security = current?.security ?? null;
+  const signatureChecks = current?.confirmations?.checks ?? null;
+  const customDecoded = current?.customDecoded ?? null;
+  const apiDecodedVerification = current?.apiDecodedVerification ?? null;
+  const multiSendVerification = current?.multiSend?.outerVerification ?? null;
+  const multiSendTxs = current?.multiSend?.calls ?? null;
+
+  const hashesMatch = current?.verdict.hashMatch ?? false;
+  // The challenge is on the safeTxHash, which not every device displays
+  const deviceShowsSafeTxHash = !device || DEVICE_PROFILES[device].hashes.some(({ field }) => field === 'safeTxHash');
+  const challengeRecord = hashes
+    ? challengeRecords.find((record) => record.safeTxHash === hashes.safeTxHash)
+    : undefined;
+  // Only a hash that verified is worth confirming on the device
+  const challengeOpen = challengeMode !== '' && hashesMatch && deviceShowsSafeTxHash && !challengeRecord;
+
+  // An open challenge hides the safeTxHash, so the URL must not show it either:
+  // swap the hash for the transaction's position on the nonce.
+  useEffect(() => {
+    const position = allTransactions.findIndex((t) => t.safeTxHash === safeTxHashParam);
+    if (challengeOpen && position >= 0) {
+      navigate(`/safe/${network}/${address}/tx/${params.nonce}?tx=${position + 1}`, { replace: true });
     }
-    const analysis = analyzeSecurity(
-      {
-        to: transaction.to as `0x${string}`,
-        value: transaction.value,
-        data: transaction.data as `0x${string}`,
-        operation: transaction.operation,
-        safeTxGas: transaction.safeTxGas.toString(),
-        baseGas: transaction.baseGas.toString(),
-        gasPrice: transaction.gasPrice,
-        gasToken: transaction.gasToken as `0x${string}`,
-        refundReceiver: transaction.refundReceiver as `0x${string}`,
-        nonce: transaction.nonce.toString(),
-      },
-      {
-        additionalAddresses: paramAddresses.map((address) => ({ address })),
-        safeAddress: address as `0x${string}`,
-      }
-    );
-    setSecurity(analysis);
-  }, [transaction, paramAddresses, addressBook, mySafes, address]);
+  }, [challengeOpen, safeTxHashParam, allTransactions, navigate, network, address, params.nonce]);
 
   // Is this call decoded, and by what? Computed once, here, because BOTH the
   // Sourcify effect and the render below must agree on it.
@@ -528,10 +592,13 @@ export default function TransactionAnalysis() {
   //
   // The Safe API's "fallback" sentinel is not a usable decoding — treat it as
   // absent everywhere the decision is made.
-  const apiDecoded = transaction && !isApiFallbackSentinel(transaction.dataDecoded) ? transaction.dataDecoded : null;
+  //
+  // Nothing is undecodable until the report is in: before then no decoder has
+  // been asked, and a Sourcify lookup queued in that gap would be wasted.
+  const apiDecoded = current?.apiDecoded ?? null;
   const hasCustomDecoding = Boolean(customDecoded || (multiSendTxs && multiSendTxs.length > 0));
   const hasCalldata = Boolean(transaction?.data && transaction.data !== '0x' && transaction.data.length > 2);
-  const undecodable = hasCalldata && !hasCustomDecoding && !apiDecoded;
+  const undecodable = current !== null && hasCalldata && !hasCustomDecoding && !apiDecoded;
 
   // Sourcify fallback: for any call the Safe API could not decode and no custom
   // decoder covers, fetch the contract's verified ABI from Sourcify and decode
@@ -560,9 +627,9 @@ export default function TransactionAnalysis() {
 
     if (multiSendTxs) {
       multiSendTxs.forEach((item, index) => {
-        const data = item.tx.data;
-        if (!item.decoded && !item.apiDecoded && data && data !== '0x') {
-          targets.push({ key: index, to: item.tx.to, data });
+        const data = item.data;
+        if (!item.customDecoded && !item.apiDecoded && data && data !== '0x') {
+          targets.push({ key: index, to: item.to, data });
         }
       });
     }
@@ -623,15 +690,19 @@ export default function TransactionAnalysis() {
 
   // Handler for switching between multiple transactions
   const handleTransactionSwitch = (safeTxHash: string) => {
-    navigate(`/safe/${network}/${address}/tx/${nonce}?safeTxHash=${safeTxHash}`);
+    const position = allTransactions.findIndex((t) => t.safeTxHash === safeTxHash);
+    navigate(
+      `/safe/${network}/${address}/tx/${params.nonce}` +
+        (challengeOpen ? `?tx=${position + 1}` : `?safeTxHash=${safeTxHash}`)
+    );
   };
 
-  if (loading) {
+  if (loading || (transaction && !current && !error)) {
     return (
       <div className="max-w-6xl mx-auto">
         <div className="flex flex-col items-center justify-center py-12 space-y-4">
           <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
-          <p className="text-gray-700 font-medium">{loadingMessage}</p>
+          <p className="text-gray-700 font-medium">{loading ? loadingMessage : 'Verifying transaction...'}</p>
         </div>
       </div>
     );
@@ -649,7 +720,45 @@ export default function TransactionAnalysis() {
     );
   }
 
-  const hashesMatch = hashes?.safeTxHash === transaction.safeTxHash;
+  const builderChecksum = builderMode && builderBatch ? verifyTransactionBuilderChecksum(builderBatch) : null;
+
+  // Hand the transaction to the Transaction Builder, e.g. to re-propose it
+  // after the signers rejected a competing one.
+  const exportToTransactionBuilder = () => {
+    if (!current) return;
+    try {
+      const batch = createTransactionBuilderBatch(current.txData, {
+        chainId,
+        safeAddress: address as `0x${string}`,
+        name: `Safe transaction ${current.txData.nonce}`,
+      });
+      setExportError(null);
+      downloadFile(`safe-tx-${current.txData.nonce}-builder.json`, JSON.stringify(batch, null, 2), 'application/json');
+    } catch (err) {
+      setExportError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  // The typed data to sign with a wallet that shows it. Only offered once the
+  // hash verified, so the download is exactly the transaction checked here.
+  const downloadTypedData = () => {
+    if (!current) return;
+    const typedData = createSafeTxTypedData(current.chainId, current.safeAddress, current.txData, current.version);
+    downloadFile(
+      `safe-tx-${current.txData.nonce}-typed-data.json`,
+      JSON.stringify(typedData, null, 2),
+      'application/json'
+    );
+  };
+
+  // One JSON record per line, the same format as the CLI's --challenge-log
+  const downloadChallengeRecords = () => {
+    downloadFile(
+      'hash-challenges.jsonl',
+      challengeRecords.map((record) => JSON.stringify(record)).join('\n') + '\n',
+      'application/x-ndjson'
+    );
+  };
   const hasRisks = security && security.overallRisk !== 'none';
   // `apiDecoded`, `hasCustomDecoding`, `hasCalldata` and `undecodable` are
   // computed above the Sourcify effect, which shares them. Nothing decoded this
@@ -708,17 +817,95 @@ export default function TransactionAnalysis() {
             Safe: <Address address={address} />
           </p>
           <p>
-            Network: {network} | Nonce: {nonce} | Safe Version: {version}
+            Network: {network} | Nonce: {transaction.nonce} | Safe Version: {version}
           </p>
         </div>
+        {source === 'api' && current && (
+          <div className="mt-2 flex items-center gap-3">
+            <button
+              onClick={exportToTransactionBuilder}
+              className="px-3 py-1.5 text-sm font-medium text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+            >
+              Download Transaction Builder JSON
+            </button>
+            {exportError && <span className="text-sm text-red-700">{exportError}</span>}
+          </div>
+        )}
       </div>
 
+      {/* Transaction Builder batch: not proposed yet, so there is no API hash
+          to compare. The hash below is the one the wallet must show when the
+          batch is proposed. */}
+      {builderMode && builderBatch && (
+        <div className="border-2 border-indigo-400 bg-indigo-50 rounded-lg p-4">
+          <p className="font-semibold text-indigo-900">
+            Transaction Builder batch{transaction.origin ? `: ${transaction.origin}` : ''} (
+            {builderBatch.transactions.length} {builderBatch.transactions.length === 1 ? 'call' : 'calls'})
+          </p>
+          <p className="text-sm text-indigo-800 mt-1">
+            This batch has not been proposed. It is reviewed as it would be proposed at the Safe&apos;s next nonce. When
+            you propose it, the hash on your wallet must match the safeTxHash below.
+          </p>
+          {builderChecksum === false && (
+            <p className="text-sm text-yellow-800 mt-2">
+              ⚠️ The batch checksum does not match its contents. The file was edited after the Transaction Builder
+              exported it.
+            </p>
+          )}
+          {builderChecksum === null && (
+            <p className="text-sm text-indigo-700 mt-2">The batch has no checksum to check.</p>
+          )}
+          {builderBatch.meta.createdFromSafeAddress &&
+            builderBatch.meta.createdFromSafeAddress.toLowerCase() !== (address as string).toLowerCase() && (
+              <p className="text-sm text-yellow-800 mt-2">
+                ⚠️ The batch was created for another Safe, {builderBatch.meta.createdFromSafeAddress}.
+              </p>
+            )}
+        </div>
+      )}
+
+      {/* SafeTx typed data: the "API" hash is the hash of the typed data as
+          given, which is what the wallet shows and signs. */}
+      {typedDataMode && typedDataCheck && (
+        <div
+          className={`border-2 rounded-lg p-4 ${
+            typedDataCheck.schemaErrors.length > 0 || typedDataCheck.domainMismatches.length > 0
+              ? 'border-red-400 bg-red-50'
+              : 'border-indigo-400 bg-indigo-50'
+          }`}
+        >
+          <p className="font-semibold text-gray-900">SafeTx typed data (eth_signTypedData_v4)</p>
+          <p className="text-sm text-gray-700 mt-1">
+            Not a Safe API record. The hash compared below is the hash of the typed data as pasted: the hash your wallet
+            shows when it signs it.
+          </p>
+          <ul className="text-sm mt-2 space-y-1">
+            {typedDataCheck.schemaErrors.length === 0 && (
+              <li className="text-green-700">✓ Types match the SafeTx schema of Safe v{version}</li>
+            )}
+            {typedDataCheck.schemaErrors.map((schemaError) => (
+              <li key={schemaError} className="text-red-800">
+                ✗ {schemaError}
+              </li>
+            ))}
+            {typedDataCheck.domainMismatches.length === 0 && (
+              <li className="text-green-700">✓ Domain names this Safe and chain</li>
+            )}
+            {typedDataCheck.domainMismatches.map((mismatch) => (
+              <li key={mismatch} className="text-red-800">
+                ✗ {mismatch}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {/* Transaction Selector (if multiple exist) */}
       {allTransactions.length > 1 && (
         <div className="border-2 border-blue-500 bg-blue-50 rounded-lg p-4">
           <div className="flex items-center justify-between">
             <div>
-              <p className="text-blue-800 font-semibold mb-1">Multiple Transactions with Nonce {nonce}</p>
+              <p className="text-blue-800 font-semibold mb-1">Multiple Transactions with Nonce {transaction.nonce}</p>
               <p className="text-sm text-blue-700">Select which transaction to analyze:</p>
             </div>
             <select
@@ -736,9 +923,10 @@ export default function TransactionAnalysis() {
                 return (
                   // The full safeTxHash, never abbreviated: this selector is how
                   // a signer tells competing transactions on the same nonce
-                  // apart, and lookalike hashes differ in the middle.
+                  // apart, and lookalike hashes differ in the middle. Hidden
+                  // outright while a hash challenge is open.
                   <option key={tx.safeTxHash} value={tx.safeTxHash}>
-                    [{idx + 1}] {status} | {date} | {tx.safeTxHash}
+                    [{idx + 1}] {status} | {date} | {challengeOpen ? 'safeTxHash hidden' : tx.safeTxHash}
                   </option>
                 );
               })}
@@ -747,6 +935,47 @@ export default function TransactionAnalysis() {
         </div>
       )}
 
+      {security?.policy.hasPolicy && security.policy.violations.length === 0 && (
+        <div className="bg-green-50 border border-green-200 rounded-lg px-4 py-2 text-sm text-green-800">
+          ✓ Complies with this Safe's signing policy{security.policy.label && ` (${security.policy.label})`}
+        </div>
+      )}
+
+      {/* What leaves the Safe, summed per asset across the batch */}
+      {security && security.valueTransfers.outflows.length > 0 && (
+        <div
+          className={`border rounded-lg px-4 py-3 text-sm ${
+            security.valueTransfers.warningLevel ? 'border-red-300 bg-red-50' : 'border-gray-200 bg-white'
+          }`}
+        >
+          <p className="font-semibold mb-2">
+            {security.valueTransfers.warningLevel ? '🔴 Large transfers out of the Safe' : 'Outflow from the Safe'}
+          </p>
+          <ul className="space-y-2">
+            {security.valueTransfers.outflows.map((outflow) => (
+              <li key={outflow.asset}>
+                <span className={outflow.exceedsThreshold ? 'font-bold text-red-800' : 'font-semibold'}>
+                  {outflow.formattedTotal}
+                </span>
+                {outflow.transferCount > 1 && ` in ${outflow.transferCount} transfers`}
+                {outflow.threshold !== undefined && (
+                  <span className="text-gray-600">
+                    {` (threshold ${formatUnitsLoose(outflow.threshold, outflow.decimals, { group: true })} ${outflow.symbol})`}
+                  </span>
+                )}
+                <ul className="ml-4 mt-1 space-y-1">
+                  {outflow.recipients.map((recipient) => (
+                    <li key={recipient.recipient}>
+                      → <Address address={recipient.recipient} />: {recipient.formattedAmount}
+                    </li>
+                  ))}
+                </ul>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {/* STEP 1: Security Warnings - MOST IMPORTANT */}
       {hasRisks && (
         <div
@@ -786,11 +1015,37 @@ export default function TransactionAnalysis() {
           <div className="space-y-4">
             {security.delegateCall.warning && (
               <div className="bg-white rounded-lg p-4">
-                <p className="font-semibold mb-2">🔴 Delegate Call Warning</p>
+                <p className="font-semibold mb-2">
+                  {security.delegateCall.trustTier === 'multisend' ? '🟠' : '🔴'} Delegate Call Warning
+                </p>
                 <p className="text-sm">{security.delegateCall.warning}</p>
               </div>
             )}
 
+            {security.delegateCall.nestedDelegateCalls.length > 0 && (
+              <div className="bg-white rounded-lg p-4">
+                <p className="font-semibold mb-2">
+                  {security.delegateCall.nestedDelegateCalls.some((nested) => nested.warningLevel === 'critical')
+                    ? '🔴'
+                    : '🟠'}{' '}
+                  Delegate Calls Inside the Batch
+                </p>
+                <ul className="text-sm space-y-1">
+                  {security.delegateCall.nestedDelegateCalls.map((nested, i) => (
+                    <li key={i}>
+                      •{' '}
+                      {nested.warning ?? (
+                        <span className="text-gray-600">
+                          Batch call {nested.batchPath.join('.')}: trusted delegate call to{' '}
+                          <Address address={nested.targetAddress} />
+                        </span>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
             {security.gasToken.warnings.length > 0 && (
               <div className="bg-white rounded-lg p-4">
                 <p className="font-semibold mb-2">🔴 Gas Token Attack</p>
@@ -806,6 +1061,13 @@ export default function TransactionAnalysis() {
               <div className="bg-white rounded-lg p-4">
                 <p className="font-semibold mb-2">🔴 Owner/Threshold Modification</p>
                 <p className="text-sm">{security.ownerModification.warning}</p>
+                {security.ownerModification.preview && (
+                  <OwnerChangePreview
+                    preview={security.ownerModification.preview}
+                    signer={signer}
+                    onSignerChange={setSigner}
+                  />
+                )}
               </div>
             )}
 
@@ -820,6 +1082,146 @@ export default function TransactionAnalysis() {
               </div>
             )}
 
+            {security.safeUpgrade.warnings && security.safeUpgrade.warnings.length > 0 && (
+              <div className="bg-white rounded-lg p-4">
+                <p className="font-semibold mb-2">🔴 Fallback Handler / Singleton Upgrade</p>
+                <ul className="text-sm space-y-1">
+                  {security.safeUpgrade.warnings.map((warning, i) => (
+                    <li key={i}>• {warning}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {security.multiSend.warnings && security.multiSend.warnings.length > 0 && (
+              <div className="bg-white rounded-lg p-4">
+                <p className="font-semibold mb-2">
+                  {security.multiSend.warningLevel === 'critical' ? '🔴' : '🟠'} MultiSend Structure
+                </p>
+                <ul className="text-sm space-y-1">
+                  {security.multiSend.warnings.map((warning, i) => (
+                    <li key={i}>• {warning}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {security.lookalike.matches.length > 0 && (
+              <div className="bg-white rounded-lg p-4">
+                <p className="font-semibold mb-2">🔴 Lookalike Addresses</p>
+                <ul className="text-sm space-y-1">
+                  {security.lookalike.matches.map((match) => (
+                    <li key={match.address}>
+                      • <Address address={match.address} /> looks like {match.label} (
+                      <span className="font-mono">{match.resembles}</span>)
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {security.tokenApprovals.warnings && security.tokenApprovals.warnings.length > 0 && (
+              <div className="bg-white rounded-lg p-4">
+                <p className="font-semibold mb-2">
+                  {security.tokenApprovals.warningLevel === 'high' ? '🔴' : '🟡'} Token Approvals
+                </p>
+                <ul className="text-sm space-y-1">
+                  {security.tokenApprovals.approvals
+                    .filter((approval) => approval.warning)
+                    .map((approval, i) => (
+                      <li key={i}>
+                        • {approval.warning}
+                        <div className="ml-3 text-xs text-gray-600">
+                          Spender: <Address address={approval.spender} />
+                          {approval.expiration !== undefined &&
+                            ` · expires ${new Date(approval.expiration * 1000).toISOString()}`}
+                        </div>
+                      </li>
+                    ))}
+                </ul>
+              </div>
+            )}
+
+            {security.crossChainReplay.warnings && security.crossChainReplay.warnings.length > 0 && (
+              <div className="bg-white rounded-lg p-4">
+                <p className="font-semibold mb-2">
+                  {security.crossChainReplay.warningLevel === 'high'
+                    ? '🔴'
+                    : security.crossChainReplay.warningLevel === 'medium'
+                      ? '🟡'
+                      : '🔵'}{' '}
+                  Cross-Chain Replay
+                </p>
+                <ul className="text-sm space-y-1">
+                  {security.crossChainReplay.warnings.map((warning, i) => (
+                    <li key={i}>• {warning}</li>
+                  ))}
+                </ul>
+                {security.crossChainReplay.exposures.length > 0 && (
+                  <ul className="mt-2 ml-3 text-xs text-gray-600 space-y-0.5">
+                    {security.crossChainReplay.exposures.map((exposure) => (
+                      <li key={exposure.chainId}>
+                        {exposure.network} (chainId {exposure.chainId}): Safe nonce {exposure.safeNonce}
+                        {exposure.sharedOwners && `, ${exposure.sharedOwners.length} shared owner(s)`}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+
+            {security.nonce.warnings && security.nonce.warnings.length > 0 && (
+              <div className="bg-white rounded-lg p-4">
+                <p className="font-semibold mb-2">
+                  {security.nonce.warningLevel === 'medium' ? '🟡' : '🔵'} Nonce (Safe is at nonce{' '}
+                  {security.nonce.safeNonce})
+                </p>
+                <ul className="text-sm space-y-1">
+                  {security.nonce.warnings.map((warning, i) => (
+                    <li key={i}>• {warning}</li>
+                  ))}
+                </ul>
+                {security.nonce.competingProposals.length > 0 && (
+                  <ul className="mt-2 ml-3 text-xs text-gray-600 font-mono space-y-0.5">
+                    {security.nonce.competingProposals.map((safeTxHash) => (
+                      <li key={safeTxHash}>Competing: {safeTxHash}</li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+
+            {security.proposer.warnings && security.proposer.warnings.length > 0 && (
+              <div className="bg-white rounded-lg p-4">
+                <p className="font-semibold mb-2">
+                  {security.proposer.warningLevel === 'high'
+                    ? '🔴'
+                    : security.proposer.warningLevel === 'medium'
+                      ? '🟡'
+                      : '🔵'}{' '}
+                  Proposer{security.proposer.label && ` (${security.proposer.label})`}
+                </p>
+                <ul className="text-sm space-y-1">
+                  {security.proposer.warnings.map((warning, i) => (
+                    <li key={i}>• {warning}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {security.policy.violations.length > 0 && (
+              <div className="bg-white rounded-lg p-4">
+                <p className="font-semibold mb-2">
+                  🔴 Policy Violations{security.policy.label && ` (${security.policy.label})`}
+                </p>
+                <ul className="text-sm space-y-1">
+                  {security.policy.violations.map((violation, i) => (
+                    <li key={i}>• {violation.message}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
             {security.addressBook.warnings.length > 0 && (
               <div className="bg-white rounded-lg p-4">
                 <p className="font-semibold mb-2">
@@ -1102,47 +1504,50 @@ export default function TransactionAnalysis() {
                   </div>
 
                   {multiSendTxs.map((item, idx) => (
-                    <div key={idx} className="bg-gray-50 rounded-lg p-4 border-2 border-gray-200">
+                    <div
+                      key={idx}
+                      className={`bg-gray-50 rounded-lg p-4 border-2 border-gray-200 ${NESTED_BATCH_INDENT[Math.min(item.depth, NESTED_BATCH_INDENT.length) - 1]}`}
+                    >
                       <div className="flex items-start gap-3 mb-3">
                         <span className="text-sm font-bold text-indigo-600 bg-indigo-100 px-3 py-1 rounded-full">
-                          #{idx + 1}
+                          #{item.path.map((i) => i + 1).join('.')}
                         </span>
                         <div className="flex-1">
                           <div className="text-sm space-y-2">
                             <div>
                               <span className="text-gray-600 font-medium">To:</span>
                               <div className="text-xs mt-1 break-all">
-                                <Address address={item.tx.to} />
+                                <Address address={item.to} />
                               </div>
                             </div>
                             <div>
                               <span className="text-gray-600 font-medium">Value:</span>{' '}
-                              <WeiValue value={item.tx.value} />
+                              <WeiValue value={item.value} />
                             </div>
                             <div>
                               <span className="text-gray-600 font-medium">Operation:</span>{' '}
-                              {item.tx.operation === 0 ? 'Call' : item.tx.operation === 1 ? 'DelegateCall' : 'Unknown'}
+                              {item.operation === 0 ? 'Call' : item.operation === 1 ? 'DelegateCall' : 'Unknown'}
                             </div>
                           </div>
                         </div>
                       </div>
 
                       {/* Custom decoded data for nested transaction */}
-                      {item.decoded && (
+                      {item.customDecoded && (
                         <div className="mt-3 pt-3 border-t border-gray-300">
                           <div className="bg-purple-50 rounded p-3 border border-purple-200 mb-3">
-                            <p className="font-semibold text-purple-900">{item.decoded.main.name}</p>
-                            <p className="text-xs font-mono text-purple-600">{item.decoded.main.signature}</p>
-                            {item.decoded.main.explanation && (
+                            <p className="font-semibold text-purple-900">{item.customDecoded.main.name}</p>
+                            <p className="text-xs font-mono text-purple-600">{item.customDecoded.main.signature}</p>
+                            {item.customDecoded.main.explanation && (
                               <div className="text-sm text-gray-700 mt-2">
-                                <AddressHighlighter text={item.decoded.main.explanation} />
+                                <AddressHighlighter text={item.customDecoded.main.explanation} />
                               </div>
                             )}
                           </div>
-                          {item.decoded.main.parameters.length > 0 && (
+                          {item.customDecoded.main.parameters.length > 0 && (
                             <div className="space-y-2">
                               <p className="text-xs font-semibold text-gray-700">Parameters:</p>
-                              {item.decoded.main.parameters.map((param, i) => (
+                              {item.customDecoded.main.parameters.map((param, i) => (
                                 <div key={i} className="text-xs">
                                   <span className="font-semibold">{param.name}</span>
                                   <span className="text-gray-500"> ({param.type})</span>
@@ -1153,19 +1558,19 @@ export default function TransactionAnalysis() {
                               ))}
                             </div>
                           )}
-                          {item.decoded.generalWarnings && item.decoded.generalWarnings.length > 0 && (
+                          {item.customDecoded.generalWarnings && item.customDecoded.generalWarnings.length > 0 && (
                             <div className="mt-2 bg-red-50 border-2 border-red-400 rounded p-2">
                               <p className="text-xs font-semibold text-red-900 mb-1">⚠️ Decoder verification failed</p>
-                              {item.decoded.generalWarnings.map((warning, i) => (
+                              {item.customDecoded.generalWarnings.map((warning, i) => (
                                 <p key={i} className="text-xs text-red-900 break-all">
                                   {warning}
                                 </p>
                               ))}
                             </div>
                           )}
-                          {item.decoded.main.warnings && item.decoded.main.warnings.length > 0 && (
+                          {item.customDecoded.main.warnings && item.customDecoded.main.warnings.length > 0 && (
                             <div className="mt-2 bg-yellow-50 border border-yellow-200 rounded p-2">
-                              {item.decoded.main.warnings.map((warning, i) => (
+                              {item.customDecoded.main.warnings.map((warning, i) => (
                                 <p key={i} className="text-xs text-yellow-800">
                                   ⚠️ {warning}
                                 </p>
@@ -1176,7 +1581,7 @@ export default function TransactionAnalysis() {
                       )}
 
                       {/* Safe API decoded data (when no custom decoder) */}
-                      {!item.decoded && item.apiDecoded && (
+                      {!item.customDecoded && item.apiDecoded && (
                         <div className="mt-3 pt-3 border-t border-gray-300">
                           <div
                             className={`rounded p-3 border mb-3 ${
@@ -1224,7 +1629,7 @@ export default function TransactionAnalysis() {
                                 ? undefined
                                 : {
                                     network,
-                                    to: item.tx.to,
+                                    to: item.to,
                                     signature: buildSignature(item.apiDecoded.method, item.apiDecoded.parameters),
                                   }
                             }
@@ -1240,16 +1645,16 @@ export default function TransactionAnalysis() {
                           so the signer can see and verify what is being called.
                           A call with no calldata is a plain value/no-op call
                           and is labelled as such. */}
-                      {!item.decoded && !item.apiDecoded && (
+                      {!item.customDecoded && !item.apiDecoded && (
                         <div className="mt-3 pt-3 border-t border-gray-300">
                           {sourcifyNested[idx] ? (
                             <SourcifyDecodedView
                               result={sourcifyNested[idx]!}
                               chainId={chainId}
                               network={network}
-                              to={item.tx.to}
+                              to={item.to}
                             />
-                          ) : item.tx.data && item.tx.data !== '0x' ? (
+                          ) : item.data && item.data !== '0x' ? (
                             isNestedSourcifyPending(idx) ? (
                               <div className="bg-slate-50 rounded p-3 border border-slate-300" role="status" aria-live="polite">
                                 <div className="flex items-center gap-2 mb-1">
@@ -1263,10 +1668,10 @@ export default function TransactionAnalysis() {
                                 </p>
                                 <p className="text-xs font-semibold text-gray-700">Function selector:</p>
                                 <p className="text-xs font-mono bg-white p-2 rounded border break-all mb-2">
-                                  {item.tx.data.slice(0, 10)}
+                                  {item.data.slice(0, 10)}
                                 </p>
                                 <p className="text-xs font-semibold text-gray-700">Calldata:</p>
-                                <p className="text-xs font-mono bg-white p-2 rounded border break-all">{item.tx.data}</p>
+                                <p className="text-xs font-mono bg-white p-2 rounded border break-all">{item.data}</p>
                               </div>
                             ) : (
                               <div className="bg-amber-50 rounded p-3 border border-amber-200">
@@ -1278,10 +1683,10 @@ export default function TransactionAnalysis() {
                                 </p>
                                 <p className="text-xs font-semibold text-gray-700">Function selector:</p>
                                 <p className="text-xs font-mono bg-white p-2 rounded border break-all mb-2">
-                                  {item.tx.data.slice(0, 10)}
+                                  {item.data.slice(0, 10)}
                                 </p>
                                 <p className="text-xs font-semibold text-gray-700">Calldata:</p>
-                                <p className="text-xs font-mono bg-white p-2 rounded border break-all">{item.tx.data}</p>
+                                <p className="text-xs font-mono bg-white p-2 rounded border break-all">{item.data}</p>
                               </div>
                             )
                           ) : (
@@ -1444,10 +1849,18 @@ export default function TransactionAnalysis() {
         )}
 
         {/* Lifecycle timeline: proposed → signed → rejected/executed. */}
-        <div className="mt-4 pt-4 border-t border-gray-200">
-          <p className="text-gray-600 text-sm font-medium mb-2">Timeline</p>
-          <TransactionLog transaction={transaction} allTransactions={allTransactions} safeAddress={address as string} />
-        </div>
+        {source === 'api' && (
+          <div className="mt-4 pt-4 border-t border-gray-200">
+            <p className="text-gray-600 text-sm font-medium mb-2">Timeline</p>
+            <TransactionLog
+              transaction={transaction}
+              allTransactions={allTransactions}
+              safeAddress={address as string}
+              signatureChecks={signatureChecks}
+              proposerCheck={current?.security.proposer ?? null}
+            />
+          </div>
+        )}
       </div>
 
       {/* STEP 3: Hash Verification - Compare to your hardware wallet */}
@@ -1470,7 +1883,34 @@ export default function TransactionAnalysis() {
             </div>
 
             <div className="space-y-4">
-              <div className="flex justify-end">
+              <div className="flex items-center justify-between">
+                <label className="flex items-center gap-2 text-sm text-gray-700">
+                  Device:
+                  <select
+                    value={device}
+                    onChange={(e) => setDevice(e.target.value as HardwareWalletDevice | '')}
+                    className="px-2 py-1 border border-gray-300 rounded text-sm"
+                  >
+                    <option value="">All hashes</option>
+                    {HARDWARE_WALLET_DEVICES.map((d) => (
+                      <option key={d} value={d}>
+                        {DEVICE_PROFILES[d].name}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <label className="flex items-center gap-2 text-sm text-gray-700">
+                  Challenge:
+                  <select
+                    value={challengeMode}
+                    onChange={(e) => setChallengeMode(e.target.value as HashChallengeMode | '')}
+                    className="px-2 py-1 border border-gray-300 rounded text-sm"
+                  >
+                    <option value="">Off</option>
+                    <option value="full">Type the full hash</option>
+                    <option value="chunks">Type random chunks</option>
+                  </select>
+                </label>
                 <div className="inline-flex overflow-hidden rounded border border-gray-200 text-xs">
                   <button
                     type="button"
@@ -1510,19 +1950,100 @@ export default function TransactionAnalysis() {
               <div>
                 <p className="text-sm font-semibold text-gray-700 mb-2">safeTxHash:</p>
                 <div className="bg-gray-900 p-3 rounded-lg">
-                  <HashHex value={hashes.safeTxHash} uppercase={hashUppercase} className="text-sm" />
+                  {challengeOpen ? (
+                    <p className="text-sm text-gray-400">Hidden: type it from your hardware wallet below</p>
+                  ) : (
+                    <HashHex value={hashes.safeTxHash} uppercase={hashUppercase} className="text-sm" />
+                  )}
                 </div>
                 <p className="text-xs text-gray-500 mt-1">Unique per transaction per Safe. Shown on some devices.</p>
               </div>
+
+              {challengeMode !== '' && hashesMatch && !deviceShowsSafeTxHash && (
+                <p className="text-sm text-yellow-800">
+                  A {DEVICE_PROFILES[device as HardwareWalletDevice].name} does not display the safeTxHash, which the
+                  challenge asks for. Compare its hashes screen by screen below.
+                </p>
+              )}
+              {challengeOpen && current && (
+                <HashChallengePanel
+                  key={`${hashes.safeTxHash}-${challengeMode}`}
+                  safeTxHash={hashes.safeTxHash}
+                  mode={challengeMode}
+                  context={{
+                    safeAddress: current.safeAddress,
+                    chainId: current.chainId,
+                    nonce: Number(current.txData.nonce),
+                    signer: /^0x[0-9a-fA-F]{40}$/.test(signer) ? (signer as `0x${string}`) : undefined,
+                    device: device || undefined,
+                  }}
+                  onPass={(record) => setChallengeRecords((records) => [...records, record])}
+                />
+              )}
+              {challengeMode !== '' && challengeRecord && (
+                <p className="text-sm font-semibold text-green-800">
+                  ✓ Challenge passed at {new Date(challengeRecord.completedAt).toLocaleString()}: your hardware wallet
+                  shows the calculated safeTxHash
+                </p>
+              )}
+
+              {/* Only for a hash that verified: a mismatching one must not be signed */}
+              {device && hashesMatch && !challengeOpen && (
+                <DeviceScreens display={renderDeviceDisplay(device, hashes)} />
+              )}
             </div>
 
+            {hashesMatch && (
+              <div className="flex flex-wrap items-center gap-3">
+                <button
+                  onClick={downloadTypedData}
+                  className="px-3 py-1.5 text-sm font-medium text-blue-700 bg-blue-50 border border-blue-200 rounded-lg hover:bg-blue-100 transition-colors"
+                >
+                  Download EIP-712 typed data
+                </button>
+                <span className="text-xs text-gray-500">
+                  For signing with eth_signTypedData_v4. The wallet must show the safeTxHash above.
+                </span>
+              </div>
+            )}
+
+            {challengeRecords.length > 0 && (
+              <div className="flex flex-wrap items-center gap-3">
+                <button
+                  onClick={downloadChallengeRecords}
+                  className="px-3 py-1.5 text-sm font-medium text-blue-700 bg-blue-50 border border-blue-200 rounded-lg hover:bg-blue-100 transition-colors"
+                >
+                  Download challenge record ({challengeRecords.length})
+                </button>
+                <span className="text-xs text-gray-500">
+                  Timestamped evidence of each passed challenge this session. Nothing is kept in the browser.
+                </span>
+              </div>
+            )}
+
             {!hashesMatch && (
               <div className="bg-red-50 border-2 border-red-400 rounded-lg p-4">
                 <p className="font-semibold text-red-900 mb-2">⚠️ HASH MISMATCH WARNING</p>
                 <p className="text-sm text-red-900">
-                  Our calculated Safe Transaction Hash does not match what the Safe API provided. This could indicate
-                  the API is compromised or returning incorrect data. DO NOT SIGN!
+                  {typedDataMode
+                    ? 'Our calculated Safe Transaction Hash does not match the hash of the typed data. A signature over it is not for this transaction on this Safe. DO NOT SIGN!'
+                    : 'Our calculated Safe Transaction Hash does not match what the Safe API provided. This could indicate the API is compromised or returning incorrect data. DO NOT SIGN!'}
                 </p>
+                {current?.hashDiagnosis && (
+                  <div className="mt-3 pt-3 border-t border-red-200">
+                    <p className="text-sm font-semibold text-red-900 mb-1">Diagnosis</p>
+                    <p className="text-sm text-red-900">{current.hashDiagnosis.summary}</p>
+                    {current.hashDiagnosis.matches.length > 0 && (
+                      <ul className="mt-2 space-y-1 text-xs font-mono text-red-800">
+                        {current.hashDiagnosis.matches.map((match) => (
+                          <li key={`${match.kind}-${match.parameter}-${match.replacement}`}>
+                            {match.parameter}: {match.original} → {match.replacement}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                )}
               </div>
             )}
           </div>
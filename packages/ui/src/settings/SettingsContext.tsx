@@ -6,7 +6,7 @@
  * tool. A setting therefore resets to its default on every load, and the
  * default is the safe one.
  *
- * Currently one setting: the Sourcify ABI fallback. When the Safe Transaction
+ * The first setting is the Sourcify ABI fallback. When the Safe Transaction
  * Service cannot decode a call, and this is enabled, the app fetches the
  * contract's verified ABI from Sourcify and decodes with it. It is ON by
  * default: the Safe API decoding gap is common enough that a signer is better
@@ -15,23 +15,40 @@
  * being inspected; a signer who does not want that egress can turn it off. The
  * decoding it produces is always re-encoded and byte-compared against the raw
  * calldata before display, exactly like Safe API decodings.
+ *
+ * The second is the large-transfer thresholds, per network. Empty by default,
+ * which means core's DEFAULT_TRANSFER_THRESHOLDS apply; an entry here overrides
+ * one asset's threshold on one network.
  */
 
 import { createContext, useContext, useState, type ReactNode } from 'react';
+import type { TransferThresholds } from '@shield3/sky-safe-core';
 
 interface SettingsValue {
   /** Fetch a verified ABI from Sourcify when the Safe API cannot decode a call. */
   sourcifyFallback: boolean;
   setSourcifyFallback: (enabled: boolean) => void;
+  /** Large-transfer threshold overrides, keyed by network name */
+  transferThresholds: Record<string, TransferThresholds>;
+  setTransferThresholds: (network: string, thresholds: TransferThresholds) => void;
 }
 
 const SettingsContext = createContext<SettingsValue | null>(null);
 
 export function SettingsProvider({ children }: { children: ReactNode }) {
   const [sourcifyFallback, setSourcifyFallback] = useState(true);
+  const [transferThresholds, setAllTransferThresholds] = useState<Record<string, TransferThresholds>>({});
+
+  const setTransferThresholds = (network: string, thresholds: TransferThresholds) => {
+    setAllTransferThresholds((prev) => ({ ...prev, [network]: thresholds }));
+  };
 
   return (
-    <SettingsContext.Provider value={{ sourcifyFallback, setSourcifyFallback }}>{children}</SettingsContext.Provider>
+    <SettingsContext.Provider
+      value={{ sourcifyFallback, setSourcifyFallback, transferThresholds, setTransferThresholds }}
+    >
+      {children}
+    </SettingsContext.Provider>
   );
 }
 